@@ -0,0 +1,49 @@
+import config from '@/config';
+import {
+  ConsultationSession,
+  DiagnosisSuggestion,
+  ProgressAnalysis,
+  SessionSummary,
+  SymptomTrend
+} from '@/types';
+import { LocalClinicalAssistant } from '@/ai/LocalClinicalAssistant';
+
+export interface ProgressAnalysisInput {
+  trends: SymptomTrend[];
+  sessions: ConsultationSession[]; // Más recientes primero
+}
+
+/**
+ * Proveedor del asistente clínico.
+ *
+ * Los datos clínicos se reúnen antes de invocar al proveedor, de modo que
+ * una implementación basada en un modelo propio solo necesita transformar
+ * estas entradas. Ninguna implementación debe enviar datos de pacientes a
+ * servicios de terceros.
+ */
+export interface ClinicalAssistantProvider {
+  readonly name: string;
+  summarizeSession(session: ConsultationSession): Promise<SessionSummary>;
+  suggestDiagnoses(symptoms: string[]): Promise<DiagnosisSuggestion[]>;
+  analyzeProgress(input: ProgressAnalysisInput): Promise<ProgressAnalysis>;
+}
+
+const providers: Record<string, () => ClinicalAssistantProvider> = {
+  local: () => new LocalClinicalAssistant()
+};
+
+let instance: ClinicalAssistantProvider | null = null;
+
+/**
+ * Obtener el proveedor configurado (AI_PROVIDER)
+ */
+export const getClinicalAssistant = (): ClinicalAssistantProvider => {
+  if (!instance) {
+    const factory = providers[config.ai.provider];
+    if (!factory) {
+      throw new Error(`Proveedor de asistente clínico no soportado: ${config.ai.provider}`);
+    }
+    instance = factory();
+  }
+  return instance;
+};
@@ -0,0 +1,394 @@
+import type { ClinicalAssistantProvider, ProgressAnalysisInput } from '@/ai/ClinicalAssistantProvider';
+import { DiagnosisCodeModel } from '@/models/DiagnosisCode';
+import {
+  ConsultationSession,
+  DiagnosisSuggestion,
+  ProgressAnalysis,
+  RiskAssessment,
+  SessionSummary,
+  SymptomTrend
+} from '@/types';
+import { mean } from '@/utils/statistics';
+import { format } from 'date-fns';
+
+// Oraciones que forman el resumen extractivo
+const SUMMARY_SENTENCES = 3;
+
+// Máximo de diagnósticos sugeridos
+const MAX_SUGGESTIONS = 5;
+
+// Probabilidad máxima que se asigna a una sugerencia basada en reglas
+const MAX_PROBABILITY = 0.95;
+
+// Variación porcentual mínima para considerar un cambio global real
+const MIN_IMPROVEMENT_PERCENTAGE = 10;
+
+const SEVERITY_MIN = 1;
+const SEVERITY_MAX = 10;
+
+const STOPWORDS = new Set([
+  'a', 'al', 'algo', 'ante', 'con', 'como', 'de', 'del', 'desde', 'donde', 'el', 'ella', 'en', 'entre',
+  'es', 'esta', 'este', 'esto', 'fue', 'ha', 'hay', 'la', 'las', 'le', 'les', 'lo', 'los', 'mas', 'me',
+  'mi', 'muy', 'no', 'o', 'para', 'pero', 'por', 'que', 'se', 'si', 'sin', 'sobre', 'su', 'sus', 'tambien',
+  'un', 'una', 'uno', 'y', 'ya'
+]);
+
+// Términos que aumentan la relevancia de una oración en el resumen
+const CLINICAL_TERMS = [
+  'riesgo', 'suicid', 'autoles', 'ideacion', 'alucina', 'delir', 'medicacion', 'dosis', 'mg',
+  'mejor', 'empeor', 'recaida', 'adherencia', 'insomnio', 'crisis', 'diagnost'
+];
+
+// Términos que identifican indicaciones dentro de las notas de tratamiento
+const PLAN_TERMS = [
+  'continuar', 'iniciar', 'inicia', 'ajustar', 'aumentar', 'reducir', 'disminuir', 'suspender',
+  'mantener', 'derivar', 'control', 'seguimiento', 'indica', 'recomienda', 'proxima', 'evaluar'
+];
+
+const RISK_LABELS: Record<string, string> = {
+  suicide_risk: 'suicida',
+  self_care_risk: 'de autocuidado',
+  violence_risk: 'de violencia'
+};
+
+const LEVEL_LABELS: Record<string, string> = { low: 'bajo', medium: 'moderado', high: 'alto' };
+const LEVEL_ORDER: Record<string, number> = { low: 1, medium: 2, high: 3 };
+
+/**
+ * Reglas síntoma → diagnóstico. Cada palabra clave (sin acentos) aporta el
+ * peso indicado a los códigos asociados; los códigos deben existir en el
+ * catálogo para sugerirse.
+ */
+const SYMPTOM_RULES: { keywords: string[]; codes: Record<string, number> }[] = [
+  { keywords: ['tristeza', 'animo deprimido', 'depresi', 'anhedonia', 'llanto', 'desesperanza'], codes: { 'F32': 1, 'F33': 0.7, 'F34.1': 0.5, 'F41.2': 0.4 } },
+  { keywords: ['fatiga', 'perdida de energia', 'cansancio', 'culpa', 'inutilidad'], codes: { 'F32': 0.6, 'F33': 0.4 } },
+  { keywords: ['ideacion suicida', 'suicid', 'autolesion'], codes: { 'F32': 0.7, 'F33': 0.5, 'F60.3': 0.5 } },
+  { keywords: ['ansiedad', 'preocupacion', 'nerviosismo', 'tension', 'inquietud'], codes: { 'F41.1': 1, 'F41.2': 0.6, 'F43.2': 0.4 } },
+  { keywords: ['panico', 'palpitaciones', 'ahogo', 'miedo a morir'], codes: { 'F41.0': 1, 'F40.0': 0.4 } },
+  { keywords: ['evitacion social', 'miedo social', 'verguenza', 'timidez'], codes: { 'F40.1': 1, 'F60.6': 0.4 } },
+  { keywords: ['fobia', 'miedo intenso'], codes: { 'F40.2': 0.8, 'F40.0': 0.4 } },
+  { keywords: ['insomnio', 'dificultad para dormir', 'despertar temprano'], codes: { 'F51.0': 0.8, 'F32': 0.4, 'F41.1': 0.4 } },
+  { keywords: ['obsesi', 'compulsi', 'ritual', 'pensamientos intrusivos'], codes: { 'F42': 1 } },
+  { keywords: ['flashback', 'pesadilla', 'trauma', 'hipervigilancia', 'sobresalto'], codes: { 'F43.1': 1, 'F43.0': 0.5 } },
+  { keywords: ['estres', 'adaptacion', 'duelo'], codes: { 'F43.2': 0.8, 'F43.0': 0.4 } },
+  { keywords: ['alucinacion', 'voces', 'delirio', 'ideas delirantes', 'paranoi', 'persecucion'], codes: { 'F20': 1, 'F22': 0.7, 'F23': 0.6, 'F25': 0.4 } },
+  { keywords: ['desorganizacion', 'aplanamiento afectivo', 'abulia'], codes: { 'F20': 0.8, 'F21': 0.3 } },
+  { keywords: ['euforia', 'grandiosidad', 'mania', 'verborrea', 'fuga de ideas', 'menor necesidad de dormir'], codes: { 'F30': 1, 'F31': 0.9 } },
+  { keywords: ['cambios de humor', 'labilidad', 'irritabilidad'], codes: { 'F31': 0.5, 'F34.0': 0.5, 'F60.3': 0.4 } },
+  { keywords: ['impulsividad', 'inestabilidad emocional', 'vacio', 'miedo al abandono'], codes: { 'F60.3': 0.9, 'F90.0': 0.3 } },
+  { keywords: ['inatencion', 'distraccion', 'hiperactividad', 'dificultad de concentracion'], codes: { 'F90.0': 1 } },
+  { keywords: ['atracon', 'purga', 'vomito autoinducido'], codes: { 'F50.2': 1 } },
+  { keywords: ['restriccion alimentaria', 'bajo peso', 'miedo a engordar'], codes: { 'F50.0': 1 } },
+  { keywords: ['alcohol'], codes: { 'F10': 1 } },
+  { keywords: ['cannabis', 'marihuana'], codes: { 'F12': 1 } },
+  { keywords: ['cocaina'], codes: { 'F14': 1 } },
+  { keywords: ['olvido', 'perdida de memoria', 'desorientacion'], codes: { 'F03': 0.7, 'F05': 0.4 } },
+  { keywords: ['somatiz', 'dolores sin causa'], codes: { 'F45': 0.8 } }
+];
+
+// Tipos de síntoma (sin acentos) que alimentan cada métrica de progreso
+const METRIC_KEYWORDS: Record<keyof ProgressAnalysis['key_metrics'], string[]> = {
+  mood: ['animo', 'depresi', 'tristeza', 'anhedonia', 'humor'],
+  anxiety: ['ansiedad', 'panico', 'preocupacion', 'nerviosismo', 'estres'],
+  functioning: ['funcionamiento', 'sueno', 'insomnio', 'energia', 'concentracion', 'apetito', 'fatiga']
+};
+
+/**
+ * Texto en minúsculas y sin acentos
+ */
+const normalize = (text: string): string =>
+  text.normalize('NFD').replace(/[\u0300-\u036f]/g, '').toLowerCase().trim();
+
+const round = (value: number, decimals: number = 1): number => {
+  const factor = 10 ** decimals;
+  return Math.round(value * factor) / factor;
+};
+
+/**
+ * Asistente clínico local y determinista: mismas entradas, mismas salidas,
+ * sin dependencias externas.
+ */
+export class LocalClinicalAssistant implements ClinicalAssistantProvider {
+  readonly name = 'local';
+
+  /**
+   * Resumen extractivo de observaciones clínicas y notas de tratamiento
+   */
+  async summarizeSession(session: ConsultationSession): Promise<SessionSummary> {
+    const sentences = [
+      ...this.splitSentences(session.clinical_observations),
+      ...this.splitSentences(session.treatment_notes)
+    ];
+
+    const selected = this.rankSentences(sentences)
+      .slice(0, SUMMARY_SENTENCES)
+      .sort((a, b) => a.index - b.index)
+      .map(item => item.sentence);
+
+    return {
+      summary: selected.length > 0
+        ? selected.join(' ')
+        : 'La sesión no tiene observaciones clínicas ni notas de tratamiento registradas.',
+      key_points: this.keyPoints(session),
+      recommendations: this.sessionRecommendations(session),
+      risk_assessment: this.describeRisk(session.risk_assessment)
+    };
+  }
+
+  /**
+   * Sugerencias diagnósticas por coincidencia de síntomas con las reglas
+   */
+  async suggestDiagnoses(symptoms: string[]): Promise<DiagnosisSuggestion[]> {
+    // Síntoma normalizado → texto original (para la justificación)
+    const originals = new Map<string, string>();
+    symptoms.forEach(symptom => {
+      const key = normalize(symptom);
+      if (key.length > 0 && !originals.has(key)) {
+        originals.set(key, symptom.trim());
+      }
+    });
+    const inputs = [...originals.keys()];
+    const scores = new Map<string, { score: number; matched: Set<string> }>();
+
+    inputs.forEach(symptom => {
+      // Un síntoma aporta a cada código solo su regla de mayor peso
+      const best = new Map<string, number>();
+
+      SYMPTOM_RULES.forEach(rule => {
+        const matches = rule.keywords.some(keyword =>
+          symptom.includes(keyword) || (symptom.length >= 4 && keyword.includes(symptom))
+        );
+        if (!matches) {
+          return;
+        }
+        Object.entries(rule.codes).forEach(([code, weight]) => {
+          best.set(code, Math.max(best.get(code) || 0, weight));
+        });
+      });
+
+      best.forEach((weight, code) => {
+        const entry = scores.get(code) || { score: 0, matched: new Set<string>() };
+        entry.score += weight;
+        entry.matched.add(symptom);
+        scores.set(code, entry);
+      });
+    });
+
+    if (scores.size === 0) {
+      return [];
+    }
+
+    const catalog = await DiagnosisCodeModel.findByCodes([...scores.keys()]);
+
+    return catalog
+      .map(entry => {
+        const { score, matched } = scores.get(entry.code)!;
+        return {
+          code: entry.code,
+          description: entry.description,
+          probability: round(Math.min(MAX_PROBABILITY, score / inputs.length), 2),
+          rationale: `Coincide con ${matched.size} de ${inputs.length} síntomas: ${[...matched].map(symptom => originals.get(symptom)).join(', ')}`
+        };
+      })
+      .sort((a, b) => b.probability - a.probability || a.code.localeCompare(b.code))
+      .slice(0, MAX_SUGGESTIONS);
+  }
+
+  /**
+   * Progreso a partir de las tendencias de síntomas y el último riesgo registrado
+   */
+  async analyzeProgress(input: ProgressAnalysisInput): Promise<ProgressAnalysis> {
+    const trends = input.trends.filter(trend => trend.severities.length > 0);
+    const changes = trends.map(trend => ({ trend, change: this.projectedChange(trend) }));
+
+    // Variación relativa ponderada por cantidad de observaciones
+    const weights = changes.map(({ trend }) => trend.severities.length);
+    const totalWeight = weights.reduce((sum, weight) => sum + weight, 0);
+    const improvement = totalWeight > 0
+      ? changes.reduce((sum, { change }, i) => sum + change * weights[i], 0) / totalWeight
+      : 0;
+
+    let overallTrend: ProgressAnalysis['overall_trend'] = 'stable';
+    if (Math.abs(improvement) >= MIN_IMPROVEMENT_PERCENTAGE) {
+      overallTrend = improvement > 0 ? 'improving' : 'worsening';
+    }
+
+    const keyMetrics = {
+      mood: this.metricScore(trends, METRIC_KEYWORDS.mood),
+      anxiety: this.metricScore(trends, METRIC_KEYWORDS.anxiety),
+      functioning: this.metricScore(trends, METRIC_KEYWORDS.functioning)
+    };
+
+    const recommendations: string[] = [];
+
+    if (trends.length === 0) {
+      recommendations.push('Registrar seguimiento de síntomas para poder evaluar la evolución');
+    }
+
+    trends
+      .filter(trend => trend.trend === 'worsening')
+      .forEach(trend => {
+        recommendations.push(`Revisar el plan de tratamiento: empeoramiento de ${trend.symptom_type}`);
+      });
+
+    const latestRisk = input.sessions.find(session => session.risk_assessment)?.risk_assessment;
+    if (this.highestRiskLevel(latestRisk) === 'high') {
+      recommendations.push('Reevaluar el riesgo alto registrado en la última sesión y reforzar el plan de seguridad');
+    }
+
+    if (overallTrend === 'improving' && recommendations.length === 0) {
+      recommendations.push('Mantener el plan de tratamiento actual y el seguimiento programado');
+    } else if (overallTrend === 'stable' && trends.length > 0) {
+      recommendations.push('Considerar ajustes terapéuticos si no hay mejoría en las próximas semanas');
+    }
+
+    return {
+      overall_trend: overallTrend,
+      improvement_percentage: round(improvement),
+      key_metrics: keyMetrics,
+      recommendations
+    };
+  }
+
+  private splitSentences(text?: string): string[] {
+    if (!text) {
+      return [];
+    }
+    return text
+      .split(/(?<=[.!?])\s+|\n+/)
+      .map(sentence => sentence.trim())
+      .filter(sentence => sentence.length > 0);
+  }
+
+  private tokenize(sentence: string): string[] {
+    return normalize(sentence)
+      .split(/[^a-z0-9ñ]+/)
+      .filter(word => word.length > 2 && !STOPWORDS.has(word));
+  }
+
+  /**
+   * Puntuar oraciones por frecuencia de términos del documento, términos
+   * clínicos y posición (las primeras suelen describir el motivo de consulta)
+   */
+  private rankSentences(sentences: string[]): { sentence: string; index: number; score: number }[] {
+    const tokenized = sentences.map(sentence => this.tokenize(sentence));
+    const frequencies = new Map<string, number>();
+    tokenized.flat().forEach(word => frequencies.set(word, (frequencies.get(word) || 0) + 1));
+
+    return sentences
+      .map((sentence, index) => {
+        const words = tokenized[index];
+        const frequencyScore = words.length > 0
+          ? words.reduce((sum, word) => sum + (frequencies.get(word) || 0), 0) / words.length
+          : 0;
+        const clinicalScore = CLINICAL_TERMS.filter(term => words.some(word => word.startsWith(term))).length;
+        const positionScore = index === 0 ? 1 : 0;
+
+        return { sentence, index, score: frequencyScore + clinicalScore + positionScore };
+      })
+      .sort((a, b) => b.score - a.score || a.index - b.index);
+  }
+
+  private keyPoints(session: ConsultationSession): string[] {
+    const points: string[] = [];
+
+    if (session.symptoms_presented && session.symptoms_presented.length > 0) {
+      points.push(`Síntomas presentados: ${session.symptoms_presented.join(', ')}`);
+    }
+
+    const mse = session.mental_state_examination || {};
+    const mseLabels: [keyof typeof mse, string][] = [
+      ['mood', 'Estado de ánimo'],
+      ['affect', 'Afecto'],
+      ['thought_content', 'Contenido del pensamiento'],
+      ['perception', 'Percepción'],
+      ['insight', 'Introspección'],
+      ['judgment', 'Juicio']
+    ];
+    mseLabels.forEach(([field, label]) => {
+      if (mse[field]) {
+        points.push(`${label}: ${mse[field]}`);
+      }
+    });
+
+    const level = this.highestRiskLevel(session.risk_assessment);
+    if (level === 'medium' || level === 'high') {
+      points.push(`Riesgo ${LEVEL_LABELS[level]} identificado en la evaluación`);
+    }
+
+    return points;
+  }
+
+  private sessionRecommendations(session: ConsultationSession): string[] {
+    const recommendations = this.splitSentences(session.treatment_notes).filter(sentence => {
+      const words = this.tokenize(sentence);
+      return PLAN_TERMS.some(term => words.some(word => word.startsWith(term)));
+    });
+
+    if (this.highestRiskLevel(session.risk_assessment) === 'high') {
+      recommendations.push('Establecer plan de seguridad y seguimiento cercano por riesgo alto');
+    }
+
+    if (session.next_session_date) {
+      recommendations.push(
+        `Próxima sesión programada para el ${format(new Date(session.next_session_date), 'dd/MM/yyyy')}`
+      );
+    }
+
+    return recommendations;
+  }
+
+  private highestRiskLevel(risk?: RiskAssessment): 'low' | 'medium' | 'high' | null {
+    if (!risk) {
+      return null;
+    }
+    const levels = [risk.suicide_risk, risk.self_care_risk, risk.violence_risk]
+      .filter((level): level is 'low' | 'medium' | 'high' => !!level);
+    if (levels.length === 0) {
+      return null;
+    }
+    return levels.reduce((max, level) => (LEVEL_ORDER[level] > LEVEL_ORDER[max] ? level : max));
+  }
+
+  private describeRisk(risk?: RiskAssessment): string {
+    const level = this.highestRiskLevel(risk);
+    if (!risk || !level) {
+      return 'Sin evaluación de riesgo registrada';
+    }
+
+    const details = (Object.keys(RISK_LABELS) as (keyof RiskAssessment)[])
+      .filter(key => risk[key])
+      .map(key => `riesgo ${RISK_LABELS[key]} ${LEVEL_LABELS[risk[key] as string]}`);
+
+    const description = `Riesgo global ${LEVEL_LABELS[level]} (${details.join(', ')})`;
+    return risk.notes ? `${description}. ${risk.notes}` : description;
+  }
+
+  /**
+   * Variación porcentual proyectada por la recta entre la primera y la
+   * última observación (positiva = mejoría, porque la severidad baja)
+   */
+  private projectedChange(trend: SymptomTrend): number {
+    if (trend.dates.length < 2) {
+      return 0;
+    }
+    const span = (new Date(trend.dates[trend.dates.length - 1]).getTime() - new Date(trend.dates[0]).getTime())
+      / (24 * 60 * 60 * 1000);
+    const start = trend.severities[0];
+    return start > 0 ? (-trend.slope_per_day * span / start) * 100 : 0;
+  }
+
+  /**
+   * Puntaje 0-100 (mayor es mejor) a partir de la última severidad de los
+   * síntomas asociados a la métrica; null si no hay seguimiento
+   */
+  private metricScore(trends: SymptomTrend[], keywords: string[]): number | null {
+    const related = trends.filter(trend => keywords.some(keyword => normalize(trend.symptom_type).includes(keyword)));
+    if (related.length === 0) {
+      return null;
+    }
+
+    const latest = mean(related.map(trend => trend.severities[trend.severities.length - 1]));
+    return round(((SEVERITY_MAX - latest) / (SEVERITY_MAX - SEVERITY_MIN)) * 100);
+  }
+}
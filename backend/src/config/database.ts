@@ -1,7 +1,34 @@
-import { Pool } from 'pg';
+import { AsyncLocalStorage } from 'async_hooks';
+import { Pool, PoolClient } from 'pg';
+
+export type IsolationLevel = 'READ COMMITTED' | 'REPEATABLE READ' | 'SERIALIZABLE';
+
+export interface TransactionOptions {
+  isolationLevel?: IsolationLevel;
+  // Reintentos ante fallas de serialización o deadlocks (solo la transacción externa)
+  maxRetries?: number;
+}
+
+export interface Transaction {
+  query(text: string, params?: any[]): Promise<any>;
+  // Ejecutar en un savepoint: si falla, se revierte solo lo hecho dentro de fn
+  savepoint<T>(fn: () => Promise<T>): Promise<T>;
+}
+
+interface TransactionContext {
+  client: PoolClient;
+  savepoints: number;
+}
+
+// serialization_failure y deadlock_detected: la transacción completa puede reintentarse
+const RETRYABLE_ERROR_CODES = ['40001', '40P01'];
+const DEFAULT_MAX_RETRIES = 3;
+const RETRY_BASE_DELAY_MS = 20;
 
 class Database {
   private pool: Pool;
+  // Cliente fijado por la transacción en curso (si existe) en el contexto asíncrono actual
+  private transactions = new AsyncLocalStorage<TransactionContext>();
 
   constructor() {
     // Usar variables de entorno directamente
@@ -30,10 +57,98 @@ class Database {
     return this.pool;
   }
 
+  /**
+   * Ejecutar una consulta. Dentro de withTransaction se usa el cliente de la
+   * transacción, de modo que modelos y repositorios participan sin cambios.
+   */
   public async query(text: string, params?: any[]): Promise<any> {
+    const context = this.transactions.getStore();
+    return this.execute(context ? context.client : this.pool, text, params);
+  }
+
+  /**
+   * Ejecutar fn en una transacción sobre un único cliente del pool.
+   *
+   * Si ya hay una transacción en curso, fn se ejecuta en un savepoint de esa
+   * transacción (las opciones se ignoran). La transacción externa se reintenta
+   * completa ante fallas de serialización o deadlocks, por lo que fn no debe
+   * tener efectos fuera de la base de datos.
+   */
+  public async withTransaction<T>(
+    fn: (transaction: Transaction) => Promise<T>,
+    options: TransactionOptions = {}
+  ): Promise<T> {
+    const current = this.transactions.getStore();
+    if (current) {
+      return this.inSavepoint(current, () => fn(this.transactionFor(current)));
+    }
+
+    const maxRetries = options.maxRetries ?? DEFAULT_MAX_RETRIES;
+
+    for (let attempt = 0; ; attempt++) {
+      try {
+        return await this.runTransaction(fn, options);
+      } catch (error: any) {
+        if (attempt >= maxRetries || !RETRYABLE_ERROR_CODES.includes(error?.code)) {
+          throw error;
+        }
+        console.warn(`🔁 Reintentando transacción (${attempt + 1}/${maxRetries}) tras error ${error.code}`);
+        await new Promise(resolve => setTimeout(resolve, RETRY_BASE_DELAY_MS * 2 ** attempt * (1 + Math.random())));
+      }
+    }
+  }
+
+  private async runTransaction<T>(
+    fn: (transaction: Transaction) => Promise<T>,
+    options: TransactionOptions
+  ): Promise<T> {
+    const client = await this.pool.connect();
+    const context: TransactionContext = { client, savepoints: 0 };
+    let releaseError: Error | undefined;
+
+    try {
+      await this.execute(client, options.isolationLevel ? `BEGIN ISOLATION LEVEL ${options.isolationLevel}` : 'BEGIN');
+      const result = await this.transactions.run(context, () => fn(this.transactionFor(context)));
+      await this.execute(client, 'COMMIT');
+      return result;
+    } catch (error) {
+      try {
+        await this.execute(client, 'ROLLBACK');
+      } catch (rollbackError) {
+        // Un cliente que no pudo revertir no vuelve al pool
+        releaseError = rollbackError as Error;
+      }
+      throw error;
+    } finally {
+      client.release(releaseError);
+    }
+  }
+
+  private async inSavepoint<T>(context: TransactionContext, fn: () => Promise<T>): Promise<T> {
+    const name = `sp_${++context.savepoints}`;
+    await this.execute(context.client, `SAVEPOINT ${name}`);
+
+    try {
+      const result = await fn();
+      await this.execute(context.client, `RELEASE SAVEPOINT ${name}`);
+      return result;
+    } catch (error) {
+      await this.execute(context.client, `ROLLBACK TO SAVEPOINT ${name}`);
+      throw error;
+    }
+  }
+
+  private transactionFor(context: TransactionContext): Transaction {
+    return {
+      query: (text, params) => this.execute(context.client, text, params),
+      savepoint: fn => this.inSavepoint(context, fn)
+    };
+  }
+
+  private async execute(executor: Pool | PoolClient, text: string, params?: any[]): Promise<any> {
     const start = Date.now();
     try {
-      const res = await this.pool.query(text, params);
+      const res = await executor.query(text, params);
       const duration = Date.now() - start;
       console.log('📊 Query ejecutada:', { text, duration, rows: res.rowCount });
       return res;
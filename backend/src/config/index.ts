@@ -12,6 +12,8 @@ const config = {
     name: process.env.SUPABASE_DB_NAME || 'postgres',
     user: process.env.SUPABASE_DB_USER || 'postgres',
     password: process.env.SUPABASE_DB_PASSWORD || '',
+    // postgres | memory (repositorios en memoria para pruebas)
+    driver: process.env.DB_DRIVER || 'postgres',
   },
 
   // Servidor
@@ -41,6 +43,66 @@ const config = {
     maxRequests: parseInt(process.env.RATE_LIMIT_MAX_REQUESTS || '100'),
   },
 
+  // Asistente clínico (local por defecto, sin envío de datos a terceros)
+  ai: {
+    provider: process.env.AI_PROVIDER || 'local',
+  },
+
+  // Agenda
+  scheduling: {
+    holidayCountry: process.env.HOLIDAY_COUNTRY || 'VE', // calendario de feriados nacionales
+    waitlistHoldMinutes: parseInt(process.env.WAITLIST_HOLD_MINUTES || '120'), // vigencia de la reserva ofrecida
+  },
+
+  // Enlaces para que el paciente confirme, cancele o pida reprogramar su cita
+  patientLinks: {
+    // Solo en desarrollo hay clave de respaldo; sin ella el servidor no inicia
+    secret: process.env.PATIENT_LINK_SECRET || (process.env.NODE_ENV === 'development' ? 'fallback-patient-link-secret' : ''),
+    portalUrl: process.env.PATIENT_PORTAL_URL || '', // página pública que recibe el token al final de la ruta
+  },
+
+  // Acceso de emergencia a pacientes fuera del equipo de atención
+  emergencyAccess: {
+    defaultMinutes: parseInt(process.env.EMERGENCY_ACCESS_MINUTES || '60'),
+    maxMinutes: parseInt(process.env.EMERGENCY_ACCESS_MAX_MINUTES || '240'),
+  },
+
+  // Recordatorios de citas y canales de envío
+  notifications: {
+    // email | sms | whatsapp | file (archivo local y consola, para pruebas).
+    // El canal file escribe datos del paciente en el registro: solo es el
+    // predeterminado en desarrollo, y fuera de él los recordatorios se activan
+    // de forma explícita
+    channels: (process.env.NOTIFICATION_CHANNELS || (process.env.NODE_ENV === 'development' ? 'file' : '')).split(',').map(channel => channel.trim()).filter(Boolean),
+    remindersEnabled: process.env.REMINDERS_ENABLED
+      ? process.env.REMINDERS_ENABLED === 'true'
+      : process.env.NODE_ENV === 'development',
+    reminderOffsetsHours: (process.env.REMINDER_OFFSETS_HOURS || '48,2').split(',').map(Number).filter(hours => hours > 0),
+    reminderIntervalMinutes: parseInt(process.env.REMINDER_INTERVAL_MINUTES || '15'),
+    maxAttempts: parseInt(process.env.NOTIFICATION_MAX_ATTEMPTS || '3'),
+    clinicName: process.env.CLINIC_NAME || 'Consultorio',
+    clinicPhone: process.env.CLINIC_PHONE || '',
+    outboxFile: process.env.NOTIFICATION_OUTBOX_FILE || 'logs/notifications.log',
+    smtp: {
+      host: process.env.SMTP_HOST || '',
+      port: parseInt(process.env.SMTP_PORT || '587'),
+      user: process.env.SMTP_USER || '',
+      pass: process.env.SMTP_PASS || '',
+      from: process.env.SMTP_FROM || process.env.SMTP_USER || '',
+    },
+    sms: {
+      accountSid: process.env.TWILIO_ACCOUNT_SID || '',
+      authToken: process.env.TWILIO_AUTH_TOKEN || '',
+      from: process.env.TWILIO_SMS_FROM || '',
+    },
+    whatsapp: {
+      phoneNumberId: process.env.WHATSAPP_PHONE_NUMBER_ID || '',
+      accessToken: process.env.WHATSAPP_ACCESS_TOKEN || '',
+      apiVersion: process.env.WHATSAPP_API_VERSION || 'v19.0',
+      templateName: process.env.WHATSAPP_TEMPLATE_NAME || '', // plantilla aprobada con el texto como único parámetro
+    },
+  },
+
   // Logging
   logging: {
     level: process.env.LOG_LEVEL || 'info',
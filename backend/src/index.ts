@@ -15,6 +15,7 @@ import {
   corsHandler 
 } from './middleware/rateLimit';
 import { errorHandler, notFoundHandler } from './middleware/errorHandler';
+import { redactRestrictedFields } from './middleware/auth';
 
 // Importar rutas
 import authRoutes from './routes/auth';
@@ -22,6 +23,20 @@ import patientRoutes from './routes/patients';
 import appointmentRoutes from './routes/appointments';
 import dashboardRoutes from './routes/dashboard';
 import clinicalRoutes from './routes/clinical';
+import treatmentPlanRoutes from './routes/treatmentPlans';
+import symptomTrackingRoutes from './routes/symptomTracking';
+import diagnosisRoutes from './routes/diagnoses';
+import diagnosisCodeRoutes from './routes/diagnosisCodes';
+import sessionRoutes from './routes/sessions';
+import templateRoutes from './routes/templates';
+import aiRoutes from './routes/ai';
+import scheduleRoutes from './routes/schedules';
+import timeOffRoutes from './routes/timeOff';
+import waitlistRoutes from './routes/waitlist';
+import patientLinkRoutes from './routes/patientLinks';
+import auditRoutes from './routes/audit';
+import emergencyAccessRoutes from './routes/emergencyAccess';
+import { startReminderJob } from './notifications/appointmentReminders';
 
 class Server {
   public app: express.Application;
@@ -110,12 +125,28 @@ class Server {
       }
     });
 
+    // Campos restringidos por rol (p. ej. notas clínicas para asistentes)
+    this.app.use(config.server.apiPrefix, redactRestrictedFields);
+
     // API routes
     this.app.use(config.server.apiPrefix, authRoutes);
     this.app.use(`${config.server.apiPrefix}/patients`, patientRoutes);
     this.app.use(`${config.server.apiPrefix}/appointments`, appointmentRoutes);
     this.app.use(`${config.server.apiPrefix}/dashboard`, dashboardRoutes);
     this.app.use(`${config.server.apiPrefix}/clinical`, clinicalRoutes);
+    this.app.use(`${config.server.apiPrefix}/treatment-plans`, treatmentPlanRoutes);
+    this.app.use(`${config.server.apiPrefix}/symptom-tracking`, symptomTrackingRoutes);
+    this.app.use(`${config.server.apiPrefix}/diagnoses`, diagnosisRoutes);
+    this.app.use(`${config.server.apiPrefix}/diagnosis-codes`, diagnosisCodeRoutes);
+    this.app.use(`${config.server.apiPrefix}/sessions`, sessionRoutes);
+    this.app.use(`${config.server.apiPrefix}/templates`, templateRoutes);
+    this.app.use(`${config.server.apiPrefix}/ai`, aiRoutes);
+    this.app.use(`${config.server.apiPrefix}/schedules`, scheduleRoutes);
+    this.app.use(`${config.server.apiPrefix}/time-off`, timeOffRoutes);
+    this.app.use(`${config.server.apiPrefix}/waitlist`, waitlistRoutes);
+    this.app.use(`${config.server.apiPrefix}/public/appointments`, patientLinkRoutes);
+    this.app.use(`${config.server.apiPrefix}/audit`, auditRoutes);
+    this.app.use(`${config.server.apiPrefix}/emergency-access`, emergencyAccessRoutes);
 
     // API documentation (en desarrollo)
     if (!config.isProduction) {
@@ -128,7 +159,20 @@ class Server {
             patients: `${config.server.apiPrefix}/patients`,
             appointments: `${config.server.apiPrefix}/appointments`,
             dashboard: `${config.server.apiPrefix}/dashboard`,
-            clinical: `${config.server.apiPrefix}/clinical`
+            clinical: `${config.server.apiPrefix}/clinical`,
+            treatmentPlans: `${config.server.apiPrefix}/treatment-plans`,
+            symptomTracking: `${config.server.apiPrefix}/symptom-tracking`,
+            diagnoses: `${config.server.apiPrefix}/diagnoses`,
+            diagnosisCodes: `${config.server.apiPrefix}/diagnosis-codes`,
+            sessions: `${config.server.apiPrefix}/sessions`,
+            templates: `${config.server.apiPrefix}/templates`,
+            ai: `${config.server.apiPrefix}/ai`,
+            schedules: `${config.server.apiPrefix}/schedules`,
+            timeOff: `${config.server.apiPrefix}/time-off`,
+            waitlist: `${config.server.apiPrefix}/waitlist`,
+            patientLinks: `${config.server.apiPrefix}/public/appointments`,
+            audit: `${config.server.apiPrefix}/audit`,
+            emergencyAccess: `${config.server.apiPrefix}/emergency-access`
           },
           documentation: 'https://github.com/your-repo/psychiatry-system',
           timestamp: new Date().toISOString()
@@ -156,6 +200,12 @@ class Server {
 
   public async start(): Promise<void> {
     try {
+      // Los enlaces del paciente no pueden firmarse con una clave conocida
+      if (!config.patientLinks.secret) {
+        console.error('❌ Falta PATIENT_LINK_SECRET (obligatoria fuera de desarrollo)');
+        process.exit(1);
+      }
+
       // Probar conexión a la base de datos
       console.log('🔄 Conectando a la base de datos...');
       const isConnected = await database.testConnection();
@@ -182,20 +232,41 @@ class Server {
    • Validación de entrada
    • Logging estructurado
 
+⏰ Recordatorios: ${config.notifications.remindersEnabled
+  ? `${config.notifications.reminderOffsetsHours.map(hours => `${hours}h`).join(', ')} antes por ${config.notifications.channels.join(', ')}`
+  : 'desactivados'}
+
 📊 Endpoints disponibles:
    • ${config.server.apiPrefix}/auth/* - Autenticación
    • ${config.server.apiPrefix}/patients/* - Gestión de pacientes
    • ${config.server.apiPrefix}/appointments/* - Gestión de citas
    • ${config.server.apiPrefix}/dashboard/* - Dashboard y estadísticas
    • ${config.server.apiPrefix}/clinical/* - Historial clínico (Fase 2)
+   • ${config.server.apiPrefix}/treatment-plans/* - Planes de tratamiento
+   • ${config.server.apiPrefix}/symptom-tracking/* - Seguimiento de síntomas
+   • ${config.server.apiPrefix}/diagnoses/* - Diagnósticos
+   • ${config.server.apiPrefix}/diagnosis-codes/* - Catálogo CIE-10 / DSM-5
+   • ${config.server.apiPrefix}/sessions/* - Firma y adendas de sesiones
+   • ${config.server.apiPrefix}/templates/* - Plantillas clínicas
+   • ${config.server.apiPrefix}/ai/* - Asistente clínico (local)
+   • ${config.server.apiPrefix}/schedules/* - Horarios de atención
+   • ${config.server.apiPrefix}/time-off/* - Vacaciones, bloqueos y feriados
+   • ${config.server.apiPrefix}/waitlist/* - Lista de espera
+   • ${config.server.apiPrefix}/public/appointments/* - Enlaces del paciente (confirmar, cancelar, reprogramar)
+   • ${config.server.apiPrefix}/audit/* - Bitácora de auditoría (admin)
+   • ${config.server.apiPrefix}/emergency-access/* - Acceso de emergencia
    • /health - Health check
    • /health/db - Health check de base de datos
         `);
       });
 
+      // Recordatorios de citas
+      const reminderJob = config.notifications.remindersEnabled ? startReminderJob() : null;
+
       // Manejo graceful de cierre
       process.on('SIGTERM', () => {
         console.log('📴 SIGTERM recibido, cerrando servidor...');
+        if (reminderJob) clearInterval(reminderJob);
         server.close(async () => {
           console.log('🔒 Cerrando conexión a la base de datos...');
           await database.close();
@@ -205,6 +276,7 @@ class Server {
 
       process.on('SIGINT', () => {
         console.log('📴 SIGINT recibido, cerrando servidor...');
+        if (reminderJob) clearInterval(reminderJob);
         server.close(async () => {
           console.log('🔒 Cerrando conexión a la base de datos...');
           await database.close();
@@ -0,0 +1,67 @@
+import { Request, Response, NextFunction } from 'express';
+import { AuditLogModel } from '@/models/AuditLog';
+import { AuditAction } from '@/types';
+
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+const METHOD_ACTIONS: Record<string, AuditAction> = {
+  GET: 'read',
+  POST: 'create',
+  PUT: 'update',
+  PATCH: 'update',
+  DELETE: 'delete'
+};
+
+/**
+ * Registrar en la bitácora de auditoría cada acceso a los recursos del router.
+ *
+ * El evento se anexa al terminar la respuesta, con el usuario autenticado,
+ * la acción (por el método HTTP, salvo que se indique), el recurso y el
+ * paciente al que pertenece, el ID de la solicitud (x-request-id) y la IP.
+ * Las lecturas hechas con un acceso de emergencia quedan marcadas con él.
+ * Se registran los accesos exitosos y los denegados (403); un fallo al
+ * escribir la bitácora no afecta la respuesta.
+ */
+export const auditAccess = (resourceType: string, options: { action?: AuditAction } = {}) => {
+  return (req: Request, res: Response, next: NextFunction) => {
+    // El cuerpo de la respuesta identifica los recursos creados y su paciente
+    let responseData: any;
+    const originalJson = res.json.bind(res);
+    res.json = (body?: any) => {
+      responseData = body?.data;
+      return originalJson(body);
+    };
+
+    res.on('finish', () => {
+      if (!req.user || (res.statusCode >= 400 && res.statusCode !== 403)) {
+        return;
+      }
+
+      const action = options.action || METHOD_ACTIONS[req.method] || 'read';
+      const single = responseData && !Array.isArray(responseData) ? responseData : null;
+      const resourceId: string | undefined = req.params.id || single?.id;
+      const patientId: string | undefined = resourceType === 'patient'
+        ? resourceId
+        : req.params.patientId || single?.patient_id || req.body?.patient_id;
+
+      AuditLogModel.append({
+        user_id: req.user.userId,
+        user_role: req.user.role,
+        action,
+        resource_type: resourceType,
+        resource_id: resourceId ? String(resourceId) : null,
+        patient_id: typeof patientId === 'string' && UUID_PATTERN.test(patientId) ? patientId : null,
+        method: req.method,
+        route: req.route ? `${req.baseUrl}${req.route.path}` : req.originalUrl.split('?')[0],
+        status_code: res.statusCode,
+        request_id: (req.headers['x-request-id'] as string) || null,
+        ip_address: req.ip || req.socket.remoteAddress || null,
+        emergency_access_id: req.emergencyAccess?.id || null
+      }).catch(error => {
+        console.error('Error registrando acceso en la bitácora de auditoría:', error);
+      });
+    });
+
+    next();
+  };
+};
@@ -1,17 +1,22 @@
 import { Request, Response, NextFunction } from 'express';
 import jwt from 'jsonwebtoken';
-import { AuthPayload } from '@/types';
+import { AuthPayload, EmergencyAccessGrant, Permission } from '@/types';
 import config from '@/config';
+import { hasPermission, hiddenFieldsFor, redactFields } from '@/utils/permissions';
+import { CareTeamModel } from '@/models/CareTeam';
+import { EmergencyAccessModel } from '@/models/EmergencyAccess';
+import { RefreshTokenModel } from '@/models/RefreshToken';
 
 declare global {
   namespace Express {
     interface Request {
       user?: AuthPayload;
+      emergencyAccess?: EmergencyAccessGrant; // acceso de emergencia usado en la solicitud
     }
   }
 }
 
-export const authenticateToken = (req: Request, res: Response, next: NextFunction) => {
+export const authenticateToken = async (req: Request, res: Response, next: NextFunction) => {
   const authHeader = req.headers['authorization'];
   const token = authHeader && authHeader.split(' ')[1]; // Bearer TOKEN
 
@@ -26,10 +31,9 @@ export const authenticateToken = (req: Request, res: Response, next: NextFunctio
     });
   }
 
+  let payload: AuthPayload;
   try {
-    const payload = jwt.verify(token, config.auth.jwtSecret) as AuthPayload;
-    req.user = payload;
-    next();
+    payload = jwt.verify(token, config.auth.jwtSecret) as AuthPayload;
   } catch (error) {
     return res.status(403).json({
       success: false,
@@ -40,6 +44,31 @@ export const authenticateToken = (req: Request, res: Response, next: NextFunctio
       },
     });
   }
+
+  // Un token de acceso de una sesión cerrada (cierre de sesión, revocación
+  // del dispositivo o reutilización del refresh token) deja de ser válido
+  if (!payload.sessionId) {
+    req.user = payload;
+    return next();
+  }
+
+  try {
+    if (!(await RefreshTokenModel.isSessionActive(payload.sessionId))) {
+      return res.status(401).json({
+        success: false,
+        error: {
+          code: 'SESSION_REVOKED',
+          message: 'La sesión fue cerrada. Inicie sesión nuevamente',
+          timestamp: new Date().toISOString(),
+        },
+      });
+    }
+
+    req.user = payload;
+    next();
+  } catch (error) {
+    next(error);
+  }
 };
 
 export const requireRole = (roles: string[]) => {
@@ -70,6 +99,122 @@ export const requireRole = (roles: string[]) => {
   };
 };
 
+/**
+ * Exigir un permiso de la matriz de control de acceso (utils/permissions)
+ */
+export const requirePermission = (permission: Permission) => {
+  return (req: Request, res: Response, next: NextFunction) => {
+    if (!req.user) {
+      return res.status(401).json({
+        success: false,
+        error: {
+          code: 'UNAUTHORIZED',
+          message: 'Usuario no autenticado',
+          timestamp: new Date().toISOString(),
+        },
+      });
+    }
+
+    if (!hasPermission(req.user.role, permission)) {
+      return res.status(403).json({
+        success: false,
+        error: {
+          code: 'INSUFFICIENT_PERMISSIONS',
+          message: 'Permisos insuficientes para esta acción',
+          details: { permission },
+          timestamp: new Date().toISOString(),
+        },
+      });
+    }
+
+    next();
+  };
+};
+
+/**
+ * Acceso del usuario al paciente: por su equipo de atención o, solo para
+ * lecturas, por un acceso de emergencia vigente, que queda en la solicitud
+ * para marcar la lectura en la bitácora
+ */
+export const checkPatientAccess = async (
+  req: Request,
+  patientId: string,
+  options: { read?: boolean } = {}
+): Promise<boolean> => {
+  if (!req.user) {
+    return false;
+  }
+
+  if (await CareTeamModel.canAccessPatient(req.user, patientId)) {
+    return true;
+  }
+
+  const read = options.read ?? req.method === 'GET';
+  if (!read || !hasPermission(req.user.role, 'emergency_access:request')) {
+    return false;
+  }
+
+  const grant = await EmergencyAccessModel.findActive(patientId, req.user.userId);
+  if (!grant) {
+    return false;
+  }
+
+  req.emergencyAccess = grant;
+  return true;
+};
+
+/**
+ * Exigir que el usuario forme parte del equipo de atención vigente del
+ * paciente (los administradores acceden a todos); las lecturas (GET) también
+ * se permiten con un acceso de emergencia. El paciente se obtiene de la
+ * solicitud; si no se puede determinar, la ruta responde (p. ej. 404).
+ */
+export const requireCareTeamAccess = (
+  resolvePatientId: (req: Request) => string | undefined | null | Promise<string | undefined | null>,
+  options: { read?: boolean } = {}
+) => {
+  return async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const patientId = await resolvePatientId(req);
+
+      if (req.user && patientId && !(await checkPatientAccess(req, patientId, options))) {
+        return res.status(403).json({
+          success: false,
+          error: {
+            code: 'NOT_IN_CARE_TEAM',
+            message: 'No forma parte del equipo de atención de este paciente',
+            details: { patientId },
+            timestamp: new Date().toISOString(),
+          },
+        });
+      }
+
+      next();
+    } catch (error) {
+      next(error);
+    }
+  };
+};
+
+/**
+ * Quitar de las respuestas los campos que el rol del usuario no puede ver
+ * (p. ej. las notas clínicas para los asistentes). Se aplica a toda la API;
+ * el rol se consulta al responder, después de la autenticación del router.
+ */
+export const redactRestrictedFields = (req: Request, res: Response, next: NextFunction) => {
+  const originalJson = res.json.bind(res);
+
+  res.json = (body?: any) => {
+    if (!req.user || !body?.data) {
+      return originalJson(body);
+    }
+
+    return originalJson({ ...body, data: redactFields(body.data, hiddenFieldsFor(req.user.role)) });
+  };
+
+  next();
+};
+
 // Middleware opcional para casos donde la autenticación no es obligatoria
 export const optionalAuth = (req: Request, res: Response, next: NextFunction) => {
   const authHeader = req.headers['authorization'];
@@ -53,6 +53,26 @@ export const ERROR_CODES: Record<string, ErrorCode> = {
     message: 'Cita no encontrada',
     httpStatus: 404,
   },
+  TREATMENT_PLAN_NOT_FOUND: {
+    code: 'TREATMENT_PLAN_NOT_FOUND',
+    message: 'Plan de tratamiento no encontrado',
+    httpStatus: 404,
+  },
+  SESSION_NOT_FOUND: {
+    code: 'SESSION_NOT_FOUND',
+    message: 'Sesión no encontrada',
+    httpStatus: 404,
+  },
+  TEMPLATE_NOT_FOUND: {
+    code: 'TEMPLATE_NOT_FOUND',
+    message: 'Plantilla no encontrada',
+    httpStatus: 404,
+  },
+  DIAGNOSIS_NOT_FOUND: {
+    code: 'DIAGNOSIS_NOT_FOUND',
+    message: 'Diagnóstico no encontrado',
+    httpStatus: 404,
+  },
 
   // Errores de duplicación
   EMAIL_ALREADY_EXISTS: {
@@ -87,6 +107,11 @@ export const ERROR_CODES: Record<string, ErrorCode> = {
     message: 'No se pueden programar citas en fechas pasadas',
     httpStatus: 422,
   },
+  TREATMENT_PLAN_NOT_ACTIVE: {
+    code: 'TREATMENT_PLAN_NOT_ACTIVE',
+    message: 'Solo se puede modificar el plan de tratamiento activo',
+    httpStatus: 409,
+  },
 
   // Errores del servidor
   INTERNAL_SERVER_ERROR: {
@@ -74,6 +74,20 @@ export const writeOperationRateLimit = rateLimit({
   legacyHeaders: false,
 });
 
+// Rate limiting para los enlaces públicos de pacientes (sin autenticación)
+export const patientLinkRateLimit = rateLimit({
+  windowMs: 15 * 60 * 1000, // 15 minutos
+  max: 30, // máximo 30 solicitudes por IP por ventana
+  message: createErrorResponse(
+    'PATIENT_LINK_RATE_LIMIT_EXCEEDED',
+    'Demasiadas solicitudes. Intente de nuevo en 15 minutos',
+    { windowMs: 15 * 60 * 1000, maxRequests: 30 },
+    429
+  ),
+  standardHeaders: true,
+  legacyHeaders: false,
+});
+
 // Middleware para validar el tamaño del payload
 export const validatePayloadSize = (maxSize: string = '10mb') => {
   return (req: Request, res: Response, next: NextFunction) => {
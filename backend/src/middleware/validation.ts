@@ -30,6 +30,109 @@ export const validate = (schema: Joi.ObjectSchema) => {
   };
 };
 
+// Campos clínicos de una sesión de consulta (reutilizados por sesiones y plantillas)
+const mentalStateExaminationSchema = Joi.object({
+  appearance: Joi.string().max(1000).optional(),
+  behavior: Joi.string().max(1000).optional(),
+  speech: Joi.string().max(1000).optional(),
+  mood: Joi.string().max(1000).optional(),
+  affect: Joi.string().max(1000).optional(),
+  thought_process: Joi.string().max(1000).optional(),
+  thought_content: Joi.string().max(1000).optional(),
+  perception: Joi.string().max(1000).optional(),
+  cognition: Joi.string().max(1000).optional(),
+  insight: Joi.string().max(1000).optional(),
+  judgment: Joi.string().max(1000).optional(),
+});
+
+const riskAssessmentSchema = Joi.object({
+  suicide_risk: Joi.string().valid('low', 'medium', 'high').optional(),
+  self_care_risk: Joi.string().valid('low', 'medium', 'high').optional(),
+  violence_risk: Joi.string().valid('low', 'medium', 'high').optional(),
+  notes: Joi.string().max(2000).optional(),
+}).messages({
+  'any.only': 'Nivel de riesgo debe ser: low, medium o high',
+});
+
+const sessionContentFields = {
+  session_duration_minutes: Joi.number().integer().min(15).max(240).messages({
+    'number.min': 'Duración mínima de la sesión es 15 minutos',
+    'number.max': 'Duración máxima de la sesión es 240 minutos',
+  }),
+  symptoms_presented: Joi.array().items(Joi.string().max(100)),
+  clinical_observations: Joi.string().max(5000),
+  mental_state_examination: mentalStateExaminationSchema,
+  treatment_notes: Joi.string().max(5000),
+  risk_assessment: riskAssessmentSchema,
+  session_status: Joi.string().valid('scheduled', 'completed', 'cancelled', 'no_show').messages({
+    'any.only': 'Estado de sesión inválido',
+  }),
+};
+
+// Estado de una sesión registrada (el borrador se crea al iniciar la cita)
+const sessionStatusSchema = Joi.string().valid('draft', 'scheduled', 'completed', 'cancelled', 'no_show').optional().messages({
+  'any.only': 'Estado de sesión inválido',
+});
+
+// Evaluación global del funcionamiento (1-100)
+const gafScoreSchema = Joi.number().integer().min(1).max(100).optional().messages({
+  'number.min': 'La puntuación GAF debe estar entre 1 y 100',
+  'number.max': 'La puntuación GAF debe estar entre 1 y 100',
+});
+
+// Campos de una cita (reutilizados por citas individuales y series)
+const appointmentFields = {
+  patient_id: Joi.string().uuid().required().messages({
+    'string.guid': 'ID de paciente debe ser un UUID válido',
+    'any.required': 'ID de paciente es requerido',
+  }),
+  appointment_date: Joi.string().isoDate().required().messages({
+    'string.isoDate': 'Fecha de cita debe ser una fecha válida',
+    'any.required': 'Fecha de cita es requerida',
+  }),
+  start_time: Joi.string().pattern(new RegExp('^([0-1]?[0-9]|2[0-3]):[0-5][0-9]$')).required().messages({
+    'string.pattern.base': 'Hora de inicio debe tener formato HH:MM',
+    'any.required': 'Hora de inicio es requerida',
+  }),
+  duration_minutes: Joi.number().integer().min(15).max(480).required().messages({
+    'number.min': 'Duración mínima es 15 minutos',
+    'number.max': 'Duración máxima es 8 horas',
+    'any.required': 'Duración es requerida',
+  }),
+  type: Joi.string().valid('consultation', 'follow_up', 'emergency', 'evaluation', 'therapy', 'medication_review').required().messages({
+    'any.only': 'Tipo de cita inválido',
+    'any.required': 'Tipo de cita es requerido',
+  }),
+  notes: Joi.string().max(500).optional(),
+};
+
+// Recurrencia de una serie: número de citas o fecha límite (o ambos)
+const recurrenceRuleSchema = Joi.object({
+  frequency: Joi.string().valid('weekly', 'biweekly', 'monthly').required().messages({
+    'any.only': 'Frecuencia debe ser weekly, biweekly o monthly',
+    'any.required': 'Frecuencia es requerida',
+  }),
+  count: Joi.number().integer().min(2).max(52).optional().messages({
+    'number.min': 'Una serie tiene al menos 2 citas',
+    'number.max': 'Una serie tiene como máximo 52 citas',
+  }),
+  until: Joi.string().isoDate().optional().messages({
+    'string.isoDate': 'Fecha límite debe ser una fecha válida',
+  }),
+}).or('count', 'until').messages({
+  'object.missing': 'Indique el número de citas o la fecha límite de la serie',
+});
+
+// Psiquiatra con quien se reserva (por defecto, el psiquiatra que reserva)
+const bookingPsychiatristSchema = Joi.string().uuid().optional().messages({
+  'string.guid': 'ID de psiquiatra debe ser un UUID válido',
+});
+
+// Alcance de una edición o cancelación sobre una cita de una serie
+const seriesScopeSchema = Joi.string().valid('this', 'following', 'all').messages({
+  'any.only': 'Alcance debe ser this, following o all',
+});
+
 // Esquemas de validación comunes
 export const schemas = {
   // Autenticación
@@ -102,34 +205,627 @@ export const schemas = {
     }),
     insurance_info: Joi.string().max(200).optional(),
     referring_doctor: Joi.string().max(100).optional(),
+    primary_psychiatrist_id: Joi.string().uuid().optional().messages({
+      'string.guid': 'ID de psiquiatra principal debe ser un UUID válido',
+    }),
+  }),
+
+  // Equipo de atención del paciente
+  careTeamMemberCreate: Joi.object({
+    user_id: Joi.string().uuid().required().messages({
+      'string.guid': 'ID de usuario debe ser un UUID válido',
+      'any.required': 'ID de usuario es requerido',
+    }),
+    role: Joi.string().valid('primary', 'covering', 'assistant').required().messages({
+      'any.only': 'Rol debe ser: primary, covering o assistant',
+      'any.required': 'Rol en el equipo es requerido',
+    }),
+    starts_on: Joi.string().isoDate().optional().messages({
+      'string.isoDate': 'Fecha de inicio debe ser una fecha válida',
+    }),
+    ends_on: Joi.string().isoDate().allow(null).optional().messages({
+      'string.isoDate': 'Fecha de fin debe ser una fecha válida',
+    }),
+  }),
+
+  careTeamMemberUpdate: Joi.object({
+    role: Joi.string().valid('primary', 'covering', 'assistant').optional().messages({
+      'any.only': 'Rol debe ser: primary, covering o assistant',
+    }),
+    starts_on: Joi.string().isoDate().optional().messages({
+      'string.isoDate': 'Fecha de inicio debe ser una fecha válida',
+    }),
+    ends_on: Joi.string().isoDate().allow(null).optional().messages({
+      'string.isoDate': 'Fecha de fin debe ser una fecha válida',
+    }),
+  }).min(1),
+
+  careTeamMemberParams: Joi.object({
+    id: Joi.string().uuid().required().messages({
+      'string.guid': 'ID de paciente debe ser un UUID válido',
+    }),
+    memberId: Joi.string().uuid().required().messages({
+      'string.guid': 'ID de miembro debe ser un UUID válido',
+    }),
+  }),
+
+  careTeamQuery: Joi.object({
+    include_past: Joi.boolean().optional(),
   }),
 
   // Citas
   appointmentCreate: Joi.object({
+    ...appointmentFields,
+    psychiatrist_id: bookingPsychiatristSchema,
+  }),
+
+  // Edición de una cita; en una serie, el alcance indica qué citas se modifican
+  appointmentUpdate: Joi.object({
+    ...appointmentFields,
+    patient_id: appointmentFields.patient_id.optional(),
+    scope: seriesScopeSchema.optional(),
+  }),
+
+  appointmentSeriesCreate: Joi.object({
+    ...appointmentFields,
+    psychiatrist_id: bookingPsychiatristSchema,
+    recurrence: recurrenceRuleSchema.required().messages({
+      'any.required': 'Regla de recurrencia es requerida',
+    }),
+    skip_conflicts: Joi.boolean().optional(),
+  }),
+
+  appointmentStatusUpdate: Joi.object({
+    status: Joi.string().valid('scheduled', 'confirmed', 'in_progress', 'completed', 'cancelled', 'no_show').required().messages({
+      'any.only': 'Estado de cita inválido',
+      'any.required': 'Estado es requerido',
+    }),
+    reason: Joi.string().trim().max(500).optional(),
+    scope: seriesScopeSchema.optional(),
+  }),
+
+  // Planes de tratamiento
+  treatmentPlanCreate: Joi.object({
+    patient_id: Joi.string().uuid().required().messages({
+      'string.guid': 'ID de paciente debe ser un UUID válido',
+      'any.required': 'ID de paciente es requerido',
+    }),
+    session_id: Joi.string().uuid().optional().messages({
+      'string.guid': 'ID de sesión debe ser un UUID válido',
+    }),
+    pharmacotherapy: Joi.object({
+      rationale: Joi.string().max(2000).optional(),
+      target_symptoms: Joi.string().max(1000).optional(),
+      medications: Joi.array().items(Joi.object({
+        name: Joi.string().min(2).max(100).required().messages({
+          'any.required': 'Nombre del medicamento es requerido',
+        }),
+        dose: Joi.string().max(50).required().messages({
+          'any.required': 'Dosis del medicamento es requerida',
+        }),
+        schedule: Joi.string().max(100).required().messages({
+          'any.required': 'Posología del medicamento es requerida',
+        }),
+        duration: Joi.string().max(100).optional(),
+        expected_response: Joi.string().max(500).optional(),
+        monitoring: Joi.string().max(500).optional(),
+      })).unique((a, b) => a.name.trim().toLowerCase() === b.name.trim().toLowerCase()).required().messages({
+        'array.unique': 'No se puede repetir un medicamento en el mismo plan',
+      }),
+    }).optional(),
+    psychotherapy: Joi.object({
+      modality: Joi.string().valid('Cognitiva-Conductual', 'Interpersonal', 'Psicodinámica', 'DBT', 'ACT', 'Otro').required().messages({
+        'any.only': 'Modalidad de psicoterapia inválida',
+        'any.required': 'Modalidad de psicoterapia es requerida',
+      }),
+      frequency: Joi.string().max(100).optional(),
+      focus_areas: Joi.string().max(1000).optional(),
+      homework: Joi.string().max(1000).optional(),
+    }).optional(),
+    lifestyle_interventions: Joi.array().items(Joi.string().max(200)).optional(),
+    short_term_goals: Joi.string().max(2000).optional(),
+    mid_term_goals: Joi.string().max(2000).optional(),
+    long_term_goals: Joi.string().max(2000).optional(),
+    improvement_metrics: Joi.string().max(2000).optional(),
+    follow_up_schedule: Joi.string().max(500).optional(),
+  }),
+
+  medicationToggle: Joi.object({
+    is_active: Joi.boolean().required().messages({
+      'any.required': 'El estado del medicamento es requerido',
+    }),
+  }),
+
+  // Seguimiento de síntomas
+  symptomTrackingCreate: Joi.object({
+    patient_id: Joi.string().uuid().required().messages({
+      'string.guid': 'ID de paciente debe ser un UUID válido',
+      'any.required': 'ID de paciente es requerido',
+    }),
+    session_id: Joi.string().uuid().optional().messages({
+      'string.guid': 'ID de sesión debe ser un UUID válido',
+    }),
+    tracking_date: Joi.string().isoDate().required().messages({
+      'string.isoDate': 'Fecha de seguimiento debe ser una fecha válida',
+      'any.required': 'Fecha de seguimiento es requerida',
+    }),
+    symptom_type: Joi.string().trim().min(2).max(50).required().messages({
+      'string.min': 'Tipo de síntoma debe tener al menos 2 caracteres',
+      'string.max': 'Tipo de síntoma no puede exceder 50 caracteres',
+      'any.required': 'Tipo de síntoma es requerido',
+    }),
+    severity: Joi.number().integer().min(1).max(10).required().messages({
+      'number.min': 'La severidad mínima es 1',
+      'number.max': 'La severidad máxima es 10',
+      'any.required': 'Severidad es requerida',
+    }),
+    notes: Joi.string().max(1000).optional(),
+  }),
+
+  trendWindow: Joi.object({
+    days: Joi.number().integer().min(7).max(365).default(30).messages({
+      'number.min': 'La ventana mínima es de 7 días',
+      'number.max': 'La ventana máxima es de 365 días',
+    }),
+  }),
+
+  // Sesiones de consulta
+  sessionCreate: Joi.object({
+    ...sessionContentFields,
     patient_id: Joi.string().uuid().required().messages({
       'string.guid': 'ID de paciente debe ser un UUID válido',
       'any.required': 'ID de paciente es requerido',
     }),
-    appointment_date: Joi.string().isoDate().required().messages({
-      'string.isoDate': 'Fecha de cita debe ser una fecha válida',
-      'any.required': 'Fecha de cita es requerida',
+    session_date: Joi.string().isoDate().required().messages({
+      'string.isoDate': 'Fecha de sesión debe ser una fecha válida',
+      'any.required': 'Fecha de sesión es requerida',
     }),
-    start_time: Joi.string().pattern(new RegExp('^([0-1]?[0-9]|2[0-3]):[0-5][0-9]$')).required().messages({
-      'string.pattern.base': 'Hora de inicio debe tener formato HH:MM',
-      'any.required': 'Hora de inicio es requerida',
+    session_duration_minutes: sessionContentFields.session_duration_minutes.required().messages({
+      'any.required': 'Duración de la sesión es requerida',
     }),
-    duration_minutes: Joi.number().integer().min(15).max(480).required().messages({
-      'number.min': 'Duración mínima es 15 minutos',
-      'number.max': 'Duración máxima es 8 horas',
-      'any.required': 'Duración es requerida',
+    next_session_date: Joi.string().isoDate().optional().messages({
+      'string.isoDate': 'Fecha de próxima sesión debe ser una fecha válida',
+    }),
+    gaf_score: gafScoreSchema,
+    session_status: sessionStatusSchema,
+    // Vínculo manual con la cita atendida (mismo paciente y psiquiatra)
+    appointment_id: Joi.string().uuid().optional().messages({
+      'string.guid': 'ID de cita debe ser un UUID válido',
+    }),
+  }),
+
+  sessionUpdate: Joi.object({
+    ...sessionContentFields,
+    next_session_date: Joi.string().isoDate().optional().messages({
+      'string.isoDate': 'Fecha de próxima sesión debe ser una fecha válida',
     }),
-    type: Joi.string().valid('consultation', 'follow_up', 'emergency', 'evaluation', 'therapy', 'medication_review').required().messages({
-      'any.only': 'Tipo de cita inválido',
-      'any.required': 'Tipo de cita es requerido',
+    gaf_score: gafScoreSchema,
+    session_status: sessionStatusSchema,
+  }).min(1),
+
+  sessionHistoryQuery: Joi.object({
+    limit: Joi.number().integer().min(1).max(200).optional(),
+  }),
+
+  patientIdParams: Joi.object({
+    patientId: Joi.string().uuid().required().messages({
+      'string.guid': 'ID de paciente debe ser un UUID válido',
+      'any.required': 'ID de paciente es requerido',
+    }),
+  }),
+
+  // Adendas de sesiones firmadas
+  sessionAddendumCreate: Joi.object({
+    reason: Joi.string().trim().min(5).max(500).required().messages({
+      'string.min': 'El motivo de la adenda debe tener al menos 5 caracteres',
+      'any.required': 'El motivo de la adenda es requerido',
+    }),
+    content: Joi.string().trim().min(1).max(10000).required().messages({
+      'any.required': 'El contenido de la adenda es requerido',
+    }),
+  }),
+
+  // Plantillas clínicas
+  templateCreate: Joi.object({
+    template_name: Joi.string().trim().min(3).max(100).required().messages({
+      'string.min': 'Nombre de plantilla debe tener al menos 3 caracteres',
+      'string.max': 'Nombre de plantilla no puede exceder 100 caracteres',
+      'any.required': 'Nombre de plantilla es requerido',
+    }),
+    template_type: Joi.string().valid('diagnosis', 'session_type', 'custom', 'emergency').required().messages({
+      'any.only': 'Tipo de plantilla debe ser: diagnosis, session_type, custom o emergency',
+      'any.required': 'Tipo de plantilla es requerido',
+    }),
+    template_data: Joi.object(sessionContentFields).required().messages({
+      'any.required': 'Contenido de la plantilla es requerido',
+    }),
+    is_shared: Joi.boolean().optional(),
+  }),
+
+  templateUpdate: Joi.object({
+    template_name: Joi.string().trim().min(3).max(100).optional().messages({
+      'string.min': 'Nombre de plantilla debe tener al menos 3 caracteres',
+      'string.max': 'Nombre de plantilla no puede exceder 100 caracteres',
+    }),
+    template_type: Joi.string().valid('diagnosis', 'session_type', 'custom', 'emergency').optional().messages({
+      'any.only': 'Tipo de plantilla debe ser: diagnosis, session_type, custom o emergency',
+    }),
+    template_data: Joi.object(sessionContentFields).optional(),
+    is_shared: Joi.boolean().optional(),
+  }).min(1).messages({
+    'object.min': 'Debe indicar al menos un campo a actualizar',
+  }),
+
+  templateTypeFilter: Joi.object({
+    type: Joi.string().valid('diagnosis', 'session_type', 'custom', 'emergency').optional().messages({
+      'any.only': 'Tipo de plantilla debe ser: diagnosis, session_type, custom o emergency',
+    }),
+  }),
+
+  templateUse: Joi.object({
+    patient_id: Joi.string().uuid().optional().messages({
+      'string.guid': 'ID de paciente debe ser un UUID válido',
+    }),
+  }),
+
+  // Diagnósticos
+  diagnosisCreate: Joi.object({
+    patient_id: Joi.string().uuid().required().messages({
+      'string.guid': 'ID de paciente debe ser un UUID válido',
+      'any.required': 'ID de paciente es requerido',
+    }),
+    primary_diagnosis: Joi.object({
+      code: Joi.string().trim().max(10).required().messages({
+        'any.required': 'Código del diagnóstico principal es requerido',
+      }),
+      description: Joi.string().trim().max(500).optional(),
+      certainty: Joi.string().valid('Confirmado', 'Provisional', 'Regla de salida').required().messages({
+        'any.only': 'Certeza debe ser: Confirmado, Provisional o Regla de salida',
+        'any.required': 'Certeza del diagnóstico es requerida',
+      }),
+      date_identified: Joi.string().isoDate().required().messages({
+        'string.isoDate': 'Fecha de identificación debe ser una fecha válida',
+        'any.required': 'Fecha de identificación es requerida',
+      }),
+      supporting_evidence: Joi.string().max(5000).required().messages({
+        'any.required': 'Evidencia de soporte es requerida',
+      }),
+    }).required(),
+    comorbidities: Joi.array().items(Joi.object({
+      diagnosis: Joi.string().max(500).required(),
+      relationship: Joi.string().valid('Primario', 'Secundario').required().messages({
+        'any.only': 'Relación de comorbilidad debe ser: Primario o Secundario',
+      }),
+      impact: Joi.string().max(1000).allow('').optional(),
+    })).optional(),
+    differential_diagnoses: Joi.array().items(Joi.object({
+      diagnosis: Joi.string().max(500).required(),
+      ruled_out_by: Joi.string().max(1000).allow('').optional(),
+      pending_tests: Joi.string().max(1000).allow('').optional(),
+    })).optional(),
+  }),
+
+  diagnosisUpdate: Joi.object({
+    primary_diagnosis: Joi.object({
+      code: Joi.string().trim().max(10).optional(),
+      description: Joi.string().trim().max(500).optional(),
+      certainty: Joi.string().valid('Confirmado', 'Provisional', 'Regla de salida').optional().messages({
+        'any.only': 'Certeza debe ser: Confirmado, Provisional o Regla de salida',
+      }),
+      date_identified: Joi.string().isoDate().optional().messages({
+        'string.isoDate': 'Fecha de identificación debe ser una fecha válida',
+      }),
+      supporting_evidence: Joi.string().max(5000).optional(),
+    }).optional(),
+    comorbidities: Joi.array().items(Joi.object({
+      diagnosis: Joi.string().max(500).required(),
+      relationship: Joi.string().valid('Primario', 'Secundario').required().messages({
+        'any.only': 'Relación de comorbilidad debe ser: Primario o Secundario',
+      }),
+      impact: Joi.string().max(1000).allow('').optional(),
+    })).optional(),
+    differential_diagnoses: Joi.array().items(Joi.object({
+      diagnosis: Joi.string().max(500).required(),
+      ruled_out_by: Joi.string().max(1000).allow('').optional(),
+      pending_tests: Joi.string().max(1000).allow('').optional(),
+    })).optional(),
+  }).min(1).messages({
+    'object.min': 'Debe indicar al menos un campo a actualizar',
+  }),
+
+  diagnosisResolve: Joi.object({
+    date_resolved: Joi.string().isoDate().required().messages({
+      'string.isoDate': 'Fecha de resolución debe ser una fecha válida',
+      'any.required': 'Fecha de resolución es requerida',
+    }),
+  }),
+
+  diagnosisStatusFilter: Joi.object({
+    status: Joi.string().valid('active', 'resolved').optional().messages({
+      'any.only': 'Estado debe ser: active o resolved',
+    }),
+  }),
+
+  diagnosisCodeSearch: Joi.object({
+    q: Joi.string().trim().min(2).max(100).required().messages({
+      'string.min': 'La búsqueda debe tener al menos 2 caracteres',
+      'any.required': 'El término de búsqueda es requerido',
+    }),
+    limit: Joi.number().integer().min(1).max(50).default(20),
+  }),
+
+  // Línea de tiempo del paciente
+  timelineQuery: Joi.object({
+    page: Joi.number().integer().min(1).default(1),
+    limit: Joi.number().integer().min(1).max(100).default(20),
+    sortOrder: Joi.string().valid('ASC', 'DESC').default('DESC'),
+    types: Joi.string().pattern(new RegExp('^[a-z_]+(,[a-z_]+)*$')).optional().messages({
+      'string.pattern.base': 'Tipos de evento deben separarse por comas',
+    }),
+  }),
+
+  // Asistente clínico
+  aiSummarize: Joi.object({
+    session_id: Joi.string().uuid().required().messages({
+      'string.guid': 'ID de sesión debe ser un UUID válido',
+      'any.required': 'ID de sesión es requerido',
+    }),
+  }),
+
+  aiDiagnosisSuggestions: Joi.object({
+    symptoms: Joi.array().items(Joi.string().trim().min(2).max(100)).min(1).max(20).required().messages({
+      'array.min': 'Debe indicar al menos un síntoma',
+      'array.max': 'Máximo 20 síntomas por consulta',
+      'any.required': 'Los síntomas son requeridos',
+    }),
+  }),
+
+  aiAnalyzeProgress: Joi.object({
+    patient_id: Joi.string().uuid().required().messages({
+      'string.guid': 'ID de paciente debe ser un UUID válido',
+      'any.required': 'ID de paciente es requerido',
+    }),
+  }),
+
+  // Agenda del día, próximas citas y estadísticas
+  agendaQuery: Joi.object({
+    psychiatrist_id: Joi.string().uuid().optional().messages({
+      'string.guid': 'ID de psiquiatra debe ser un UUID válido',
+    }),
+    days: Joi.number().integer().min(1).optional(),
+  }),
+
+  // Disponibilidad y horario de atención
+  availabilityQuery: Joi.object({
+    date: Joi.string().isoDate().required().messages({
+      'string.isoDate': 'Fecha debe ser una fecha válida',
+      'any.required': 'Fecha es requerida',
+    }),
+    duration: Joi.number().integer().min(15).max(480).optional(),
+    psychiatrist_id: Joi.string().uuid().optional().messages({
+      'string.guid': 'ID de psiquiatra debe ser un UUID válido',
+    }),
+  }),
+
+  availabilitySearchQuery: Joi.object({
+    from: Joi.string().isoDate().optional().messages({
+      'string.isoDate': 'Fecha inicial debe ser una fecha válida',
+    }),
+    to: Joi.string().isoDate().optional().messages({
+      'string.isoDate': 'Fecha final debe ser una fecha válida',
+    }),
+    duration: Joi.number().integer().min(15).max(480).optional(),
+    type: appointmentFields.type.optional(),
+    psychiatrist_ids: Joi.string()
+      .pattern(new RegExp('^[0-9a-fA-F-]{36}(,[0-9a-fA-F-]{36})*$'))
+      .optional()
+      .messages({
+        'string.pattern.base': 'IDs de psiquiatras deben ser UUID separados por comas',
+      }),
+    time_of_day: Joi.string().valid('morning', 'afternoon', 'evening').optional().messages({
+      'any.only': 'Franja del día debe ser: morning, afternoon o evening',
+    }),
+    limit: Joi.number().integer().min(1).max(50).optional(),
+  }),
+
+  scheduleUpdate: Joi.object({
+    slot_minutes: Joi.number().integer().min(5).max(240).required().messages({
+      'number.min': 'El turno mínimo es de 5 minutos',
+      'number.max': 'El turno máximo es de 4 horas',
+      'any.required': 'Tamaño de turno es requerido',
+    }),
+    min_lead_minutes: Joi.number().integer().min(0).max(43200).required().messages({
+      'any.required': 'Anticipación mínima es requerida',
+    }),
+    buffer_minutes: Joi.number().integer().min(0).max(120).required().messages({
+      'number.max': 'La separación máxima entre citas es de 2 horas',
+      'any.required': 'Separación entre citas es requerida',
+    }),
+    working_hours: Joi.array().items(Joi.object({
+      weekday: Joi.number().integer().min(0).max(6).required(),
+      start_time: Joi.string().pattern(new RegExp('^([0-1][0-9]|2[0-3]):[0-5][0-9]$')).required().messages({
+        'string.pattern.base': 'Hora de inicio debe tener formato HH:MM',
+      }),
+      end_time: Joi.string().pattern(new RegExp('^([0-1][0-9]|2[0-3]):[0-5][0-9]$')).required().messages({
+        'string.pattern.base': 'Hora de fin debe tener formato HH:MM',
+      }),
+    })).max(50).required().messages({
+      'any.required': 'Franjas de atención son requeridas',
+    }),
+    breaks: Joi.array().items(Joi.object({
+      weekday: Joi.number().integer().min(0).max(6).allow(null).optional(),
+      start_time: Joi.string().pattern(new RegExp('^([0-1][0-9]|2[0-3]):[0-5][0-9]$')).required().messages({
+        'string.pattern.base': 'Hora de inicio debe tener formato HH:MM',
+      }),
+      end_time: Joi.string().pattern(new RegExp('^([0-1][0-9]|2[0-3]):[0-5][0-9]$')).required().messages({
+        'string.pattern.base': 'Hora de fin debe tener formato HH:MM',
+      }),
+      label: Joi.string().trim().max(100).optional(),
+    })).max(50).optional(),
+  }),
+
+  // Enlaces del paciente (confirmar, cancelar, pedir reprogramación)
+  appointmentLinkToken: Joi.object({
+    token: Joi.string().max(2048).pattern(new RegExp('^[A-Za-z0-9_-]+\\.[A-Za-z0-9_-]+\\.[A-Za-z0-9_-]+$')).required().messages({
+      'string.pattern.base': 'Enlace inválido',
+      'any.required': 'Enlace inválido',
+    }),
+  }),
+
+  patientCancel: Joi.object({
+    reason: Joi.string().trim().max(500).optional(),
+  }),
+
+  rescheduleRequestCreate: Joi.object({
+    preferred_times: Joi.string().trim().max(500).optional(),
+    message: Joi.string().trim().max(1000).optional(),
+  }),
+
+  rescheduleRequestQuery: Joi.object({
+    status: Joi.string().valid('pending', 'resolved', 'dismissed').optional(),
+    psychiatrist_id: Joi.string().uuid().optional().messages({
+      'string.guid': 'ID de psiquiatra debe ser un UUID válido',
+    }),
+  }),
+
+  rescheduleRequestResolve: Joi.object({
+    status: Joi.string().valid('resolved', 'dismissed').required().messages({
+      'any.only': 'Estado debe ser: resolved o dismissed',
+      'any.required': 'Estado es requerido',
+    }),
+    notes: Joi.string().trim().max(500).optional(),
+  }),
+
+  // Lista de espera
+  waitlistEntryCreate: Joi.object({
+    patient_id: Joi.string().uuid().required().messages({
+      'string.guid': 'ID de paciente debe ser un UUID válido',
+      'any.required': 'ID de paciente es requerido',
+    }),
+    psychiatrist_id: Joi.string().uuid().allow(null).optional().messages({
+      'string.guid': 'ID de psiquiatra debe ser un UUID válido',
+    }),
+    preferred_weekdays: Joi.array().items(Joi.number().integer().min(0).max(6)).max(7).optional().messages({
+      'number.min': 'Los días van de 0 (domingo) a 6 (sábado)',
+      'number.max': 'Los días van de 0 (domingo) a 6 (sábado)',
+    }),
+    earliest_time: Joi.string().pattern(new RegExp('^([0-1][0-9]|2[0-3]):[0-5][0-9]$')).optional().messages({
+      'string.pattern.base': 'Hora mínima debe tener formato HH:MM',
+    }),
+    latest_time: Joi.string().pattern(new RegExp('^([0-1][0-9]|2[0-3]):[0-5][0-9]$')).optional().messages({
+      'string.pattern.base': 'Hora máxima debe tener formato HH:MM',
+    }),
+    duration_minutes: appointmentFields.duration_minutes.optional(),
+    type: appointmentFields.type.optional(),
+    priority: Joi.number().integer().min(0).max(10).optional().messages({
+      'number.max': 'La prioridad máxima es 10',
     }),
     notes: Joi.string().max(500).optional(),
   }),
 
+  waitlistQuery: Joi.object({
+    status: Joi.string().valid('waiting', 'offered', 'booked', 'removed').optional(),
+    psychiatrist_id: Joi.string().uuid().optional(),
+    patient_id: Joi.string().uuid().optional(),
+  }),
+
+  // Vacaciones, permisos y bloqueos de agenda
+  timeOffCreate: Joi.object({
+    psychiatrist_id: Joi.string().uuid().allow(null).optional().messages({
+      'string.guid': 'ID de psiquiatra debe ser un UUID válido',
+    }),
+    starts_at: Joi.date().iso().required().messages({
+      'date.format': 'Inicio debe ser una fecha válida',
+      'any.required': 'Inicio del periodo es requerido',
+    }),
+    ends_at: Joi.date().iso().greater(Joi.ref('starts_at')).required().messages({
+      'date.format': 'Fin debe ser una fecha válida',
+      'date.greater': 'El fin del periodo debe ser posterior a su inicio',
+      'any.required': 'Fin del periodo es requerido',
+    }),
+    kind: Joi.string().valid('vacation', 'sick_leave', 'training', 'personal', 'blocked').required().messages({
+      'any.only': 'Tipo debe ser vacation, sick_leave, training, personal o blocked',
+      'any.required': 'Tipo de periodo es requerido',
+    }),
+    reason: Joi.string().trim().max(500).optional(),
+  }),
+
+  timeOffQuery: Joi.object({
+    psychiatrist_id: Joi.string().uuid().optional().messages({
+      'string.guid': 'ID de psiquiatra debe ser un UUID válido',
+    }),
+    from: Joi.date().iso().optional(),
+    to: Joi.date().iso().optional(),
+  }),
+
+  // Feriados
+  holidayCreate: Joi.object({
+    holiday_date: Joi.string().isoDate().required().messages({
+      'string.isoDate': 'Fecha debe ser una fecha válida',
+      'any.required': 'Fecha es requerida',
+    }),
+    name: Joi.string().trim().min(2).max(150).required().messages({
+      'any.required': 'Nombre del feriado es requerido',
+    }),
+  }),
+
+  holidayYear: Joi.object({
+    year: Joi.number().integer().min(2000).max(2100).optional().messages({
+      'number.min': 'Año debe estar entre 2000 y 2100',
+      'number.max': 'Año debe estar entre 2000 y 2100',
+    }),
+  }),
+
+  // Bitácora de auditoría
+  auditQuery: Joi.object({
+    page: Joi.number().integer().min(1).default(1),
+    limit: Joi.number().integer().min(1).max(200).default(50),
+    patient_id: Joi.string().uuid().optional().messages({
+      'string.guid': 'ID de paciente debe ser un UUID válido',
+    }),
+    user_id: Joi.string().uuid().optional().messages({
+      'string.guid': 'ID de usuario debe ser un UUID válido',
+    }),
+    action: Joi.string().valid('read', 'create', 'update', 'delete', 'export').optional(),
+    resource_type: Joi.string().max(50).optional(),
+    emergency_access_id: Joi.string().uuid().optional().messages({
+      'string.guid': 'ID de acceso de emergencia debe ser un UUID válido',
+    }),
+    from: Joi.date().iso().optional().messages({
+      'date.format': 'Fecha inicial debe ser una fecha válida',
+    }),
+    to: Joi.date().iso().optional().messages({
+      'date.format': 'Fecha final debe ser una fecha válida',
+    }),
+  }),
+
+  // Acceso de emergencia: la justificación escrita es obligatoria
+  emergencyAccessCreate: Joi.object({
+    patient_id: Joi.string().uuid().required().messages({
+      'string.guid': 'ID de paciente debe ser un UUID válido',
+      'any.required': 'ID de paciente es requerido',
+    }),
+    reason: Joi.string().trim().min(20).max(2000).required().messages({
+      'string.min': 'El motivo debe describir la emergencia (mínimo 20 caracteres)',
+      'string.max': 'El motivo no puede exceder 2000 caracteres',
+      'any.required': 'El motivo del acceso de emergencia es requerido',
+    }),
+    duration_minutes: Joi.number().integer().min(5).max(1440).optional().messages({
+      'number.min': 'La duración mínima es de 5 minutos',
+      'number.max': 'La duración máxima es de 1440 minutos',
+    }),
+  }),
+
+  emergencyAccessQuery: Joi.object({
+    patient_id: Joi.string().uuid().optional().messages({
+      'string.guid': 'ID de paciente debe ser un UUID válido',
+    }),
+    user_id: Joi.string().uuid().optional().messages({
+      'string.guid': 'ID de usuario debe ser un UUID válido',
+    }),
+    active: Joi.boolean().optional(),
+  }),
+
   // Paginación
   pagination: Joi.object({
     page: Joi.number().integer().min(1).default(1),
@@ -0,0 +1,61 @@
+-- Migración 003: Planes de tratamiento versionados
+-- Fecha: 2026-10-19
+
+-- Cada modificación de un plan genera una nueva versión y solo una versión
+-- puede estar activa por paciente. Las versiones anteriores se conservan
+-- como historial y no se editan.
+CREATE TABLE treatment_plans (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    patient_id UUID NOT NULL REFERENCES patients(id) ON DELETE RESTRICT,
+    psychiatrist_id UUID NOT NULL REFERENCES users(id) ON DELETE RESTRICT,
+    session_id UUID REFERENCES consultation_sessions(id) ON DELETE SET NULL,
+
+    -- Versionado
+    version INTEGER NOT NULL CHECK (version >= 1),
+    is_active BOOLEAN NOT NULL DEFAULT true,
+    superseded_at TIMESTAMP WITH TIME ZONE,
+
+    -- Farmacoterapia: { rationale, target_symptoms, medications: [...] }
+    pharmacotherapy JSONB,
+
+    -- Psicoterapia: { modality, frequency, focus_areas, homework }
+    psychotherapy JSONB,
+
+    -- Intervenciones no farmacológicas
+    lifestyle_interventions TEXT[],
+
+    -- Objetivos
+    short_term_goals TEXT,
+    mid_term_goals TEXT,
+    long_term_goals TEXT,
+
+    -- Criterios de mejoría y seguimiento
+    improvement_metrics TEXT,
+    follow_up_schedule TEXT,
+
+    -- Metadatos
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+
+    CONSTRAINT unique_treatment_plan_version UNIQUE (patient_id, version),
+    CONSTRAINT valid_superseded_state CHECK (is_active = (superseded_at IS NULL))
+);
+
+-- Un único plan activo por paciente
+CREATE UNIQUE INDEX idx_treatment_plans_one_active ON treatment_plans(patient_id) WHERE is_active = true;
+
+CREATE INDEX idx_treatment_plans_patient ON treatment_plans(patient_id);
+CREATE INDEX idx_treatment_plans_psychiatrist ON treatment_plans(psychiatrist_id);
+CREATE INDEX idx_treatment_plans_patient_version ON treatment_plans(patient_id, version DESC);
+CREATE INDEX idx_treatment_plans_pharmacotherapy ON treatment_plans USING gin(pharmacotherapy);
+
+-- Trigger para updated_at
+CREATE TRIGGER update_treatment_plans_updated_at BEFORE UPDATE ON treatment_plans
+    FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+-- Comentarios para documentación
+COMMENT ON TABLE treatment_plans IS 'Planes de tratamiento versionados por paciente (solo uno activo)';
+COMMENT ON COLUMN treatment_plans.version IS 'Número de versión incremental por paciente';
+COMMENT ON COLUMN treatment_plans.superseded_at IS 'Momento en que la versión fue reemplazada o suspendida';
+COMMENT ON COLUMN treatment_plans.pharmacotherapy IS 'Farmacoterapia en formato JSON con lista de medicamentos';
+COMMENT ON COLUMN treatment_plans.psychotherapy IS 'Psicoterapia (modalidad, frecuencia, áreas de enfoque, tareas) en formato JSON';
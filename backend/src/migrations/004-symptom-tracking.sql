@@ -0,0 +1,26 @@
+-- Migración 004: Seguimiento de síntomas
+-- Fecha: 2026-10-19
+
+-- Registros puntuales de severidad (1-10) por tipo de síntoma
+CREATE TABLE symptom_tracking (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    patient_id UUID NOT NULL REFERENCES patients(id) ON DELETE RESTRICT,
+    recorded_by UUID NOT NULL REFERENCES users(id) ON DELETE RESTRICT,
+    session_id UUID REFERENCES consultation_sessions(id) ON DELETE SET NULL,
+    tracking_date DATE NOT NULL,
+    symptom_type VARCHAR(50) NOT NULL,
+    severity INTEGER NOT NULL CHECK (severity >= 1 AND severity <= 10),
+    notes TEXT,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+
+    CONSTRAINT valid_tracking_date CHECK (tracking_date <= CURRENT_DATE),
+    CONSTRAINT normalized_symptom_type CHECK (symptom_type = LOWER(TRIM(symptom_type)))
+);
+
+CREATE INDEX idx_symptom_tracking_patient ON symptom_tracking(patient_id);
+CREATE INDEX idx_symptom_tracking_patient_date ON symptom_tracking(patient_id, tracking_date DESC);
+CREATE INDEX idx_symptom_tracking_patient_type_date ON symptom_tracking(patient_id, symptom_type, tracking_date);
+
+COMMENT ON TABLE symptom_tracking IS 'Seguimiento longitudinal de severidad de síntomas por paciente';
+COMMENT ON COLUMN symptom_tracking.symptom_type IS 'Tipo de síntoma normalizado en minúsculas (ej. ansiedad, insomnio)';
+COMMENT ON COLUMN symptom_tracking.severity IS 'Severidad reportada en escala de 1 (mínima) a 10 (máxima)';
@@ -0,0 +1,228 @@
+-- Migración 005: Diagnósticos y catálogo de códigos CIE-10 / DSM-5
+-- Fecha: 2026-10-19
+
+CREATE EXTENSION IF NOT EXISTS pg_trgm;
+CREATE EXTENSION IF NOT EXISTS unaccent;
+
+-- Catálogo local de códigos diagnósticos (capítulo F de CIE-10 y DSM-5)
+-- Un mismo código puede figurar en ambos sistemas con descripciones distintas
+CREATE TABLE diagnosis_codes (
+    code VARCHAR(10) NOT NULL,
+    system VARCHAR(10) NOT NULL CHECK (system IN ('ICD-10', 'DSM-5')),
+    description TEXT NOT NULL,
+    category VARCHAR(150) NOT NULL,
+
+    -- Código y descripción en minúsculas y sin acentos para la búsqueda difusa
+    search_text TEXT NOT NULL DEFAULT '',
+
+    PRIMARY KEY (system, code),
+    CONSTRAINT normalized_diagnosis_code CHECK (code = UPPER(TRIM(code)))
+);
+
+CREATE INDEX idx_diagnosis_codes_code ON diagnosis_codes(code);
+CREATE INDEX idx_diagnosis_codes_search_text ON diagnosis_codes USING gin(search_text gin_trgm_ops);
+
+-- CIE-10, capítulo V (F00-F99)
+INSERT INTO diagnosis_codes (code, system, description, category) VALUES
+('F00', 'ICD-10', 'Demencia en la enfermedad de Alzheimer', 'Trastornos mentales orgánicos, incluidos los sintomáticos'),
+('F01', 'ICD-10', 'Demencia vascular', 'Trastornos mentales orgánicos, incluidos los sintomáticos'),
+('F02', 'ICD-10', 'Demencia en otras enfermedades clasificadas en otra parte', 'Trastornos mentales orgánicos, incluidos los sintomáticos'),
+('F03', 'ICD-10', 'Demencia sin especificación', 'Trastornos mentales orgánicos, incluidos los sintomáticos'),
+('F04', 'ICD-10', 'Síndrome amnésico orgánico no inducido por alcohol u otras sustancias psicoactivas', 'Trastornos mentales orgánicos, incluidos los sintomáticos'),
+('F05', 'ICD-10', 'Delirium no inducido por alcohol u otras sustancias psicoactivas', 'Trastornos mentales orgánicos, incluidos los sintomáticos'),
+('F06', 'ICD-10', 'Otros trastornos mentales debidos a lesión o disfunción cerebral o a enfermedad somática', 'Trastornos mentales orgánicos, incluidos los sintomáticos'),
+('F07', 'ICD-10', 'Trastornos de la personalidad y del comportamiento debidos a enfermedad, lesión o disfunción cerebral', 'Trastornos mentales orgánicos, incluidos los sintomáticos'),
+('F09', 'ICD-10', 'Trastorno mental orgánico o sintomático sin especificación', 'Trastornos mentales orgánicos, incluidos los sintomáticos'),
+('F10', 'ICD-10', 'Trastornos mentales y del comportamiento debidos al consumo de alcohol', 'Trastornos mentales y del comportamiento debidos al consumo de sustancias psicoactivas'),
+('F11', 'ICD-10', 'Trastornos mentales y del comportamiento debidos al consumo de opioides', 'Trastornos mentales y del comportamiento debidos al consumo de sustancias psicoactivas'),
+('F12', 'ICD-10', 'Trastornos mentales y del comportamiento debidos al consumo de cannabinoides', 'Trastornos mentales y del comportamiento debidos al consumo de sustancias psicoactivas'),
+('F13', 'ICD-10', 'Trastornos mentales y del comportamiento debidos al consumo de sedantes o hipnóticos', 'Trastornos mentales y del comportamiento debidos al consumo de sustancias psicoactivas'),
+('F14', 'ICD-10', 'Trastornos mentales y del comportamiento debidos al consumo de cocaína', 'Trastornos mentales y del comportamiento debidos al consumo de sustancias psicoactivas'),
+('F15', 'ICD-10', 'Trastornos mentales y del comportamiento debidos al consumo de otros estimulantes (incluida la cafeína)', 'Trastornos mentales y del comportamiento debidos al consumo de sustancias psicoactivas'),
+('F16', 'ICD-10', 'Trastornos mentales y del comportamiento debidos al consumo de alucinógenos', 'Trastornos mentales y del comportamiento debidos al consumo de sustancias psicoactivas'),
+('F17', 'ICD-10', 'Trastornos mentales y del comportamiento debidos al consumo de tabaco', 'Trastornos mentales y del comportamiento debidos al consumo de sustancias psicoactivas'),
+('F18', 'ICD-10', 'Trastornos mentales y del comportamiento debidos al consumo de disolventes volátiles', 'Trastornos mentales y del comportamiento debidos al consumo de sustancias psicoactivas'),
+('F19', 'ICD-10', 'Trastornos mentales y del comportamiento debidos al consumo de múltiples drogas o de otras sustancias psicoactivas', 'Trastornos mentales y del comportamiento debidos al consumo de sustancias psicoactivas'),
+('F20', 'ICD-10', 'Esquizofrenia', 'Esquizofrenia, trastorno esquizotípico y trastornos de ideas delirantes'),
+('F20.0', 'ICD-10', 'Esquizofrenia paranoide', 'Esquizofrenia, trastorno esquizotípico y trastornos de ideas delirantes'),
+('F20.1', 'ICD-10', 'Esquizofrenia hebefrénica', 'Esquizofrenia, trastorno esquizotípico y trastornos de ideas delirantes'),
+('F20.2', 'ICD-10', 'Esquizofrenia catatónica', 'Esquizofrenia, trastorno esquizotípico y trastornos de ideas delirantes'),
+('F20.5', 'ICD-10', 'Esquizofrenia residual', 'Esquizofrenia, trastorno esquizotípico y trastornos de ideas delirantes'),
+('F21', 'ICD-10', 'Trastorno esquizotípico', 'Esquizofrenia, trastorno esquizotípico y trastornos de ideas delirantes'),
+('F22', 'ICD-10', 'Trastornos de ideas delirantes persistentes', 'Esquizofrenia, trastorno esquizotípico y trastornos de ideas delirantes'),
+('F23', 'ICD-10', 'Trastornos psicóticos agudos y transitorios', 'Esquizofrenia, trastorno esquizotípico y trastornos de ideas delirantes'),
+('F24', 'ICD-10', 'Trastorno de ideas delirantes inducidas', 'Esquizofrenia, trastorno esquizotípico y trastornos de ideas delirantes'),
+('F25', 'ICD-10', 'Trastornos esquizoafectivos', 'Esquizofrenia, trastorno esquizotípico y trastornos de ideas delirantes'),
+('F28', 'ICD-10', 'Otros trastornos psicóticos no orgánicos', 'Esquizofrenia, trastorno esquizotípico y trastornos de ideas delirantes'),
+('F29', 'ICD-10', 'Psicosis no orgánica sin especificación', 'Esquizofrenia, trastorno esquizotípico y trastornos de ideas delirantes'),
+('F30', 'ICD-10', 'Episodio maníaco', 'Trastornos del humor (afectivos)'),
+('F31', 'ICD-10', 'Trastorno bipolar', 'Trastornos del humor (afectivos)'),
+('F32', 'ICD-10', 'Episodios depresivos', 'Trastornos del humor (afectivos)'),
+('F32.0', 'ICD-10', 'Episodio depresivo leve', 'Trastornos del humor (afectivos)'),
+('F32.1', 'ICD-10', 'Episodio depresivo moderado', 'Trastornos del humor (afectivos)'),
+('F32.2', 'ICD-10', 'Episodio depresivo grave sin síntomas psicóticos', 'Trastornos del humor (afectivos)'),
+('F32.3', 'ICD-10', 'Episodio depresivo grave con síntomas psicóticos', 'Trastornos del humor (afectivos)'),
+('F33', 'ICD-10', 'Trastorno depresivo recurrente', 'Trastornos del humor (afectivos)'),
+('F34', 'ICD-10', 'Trastornos del humor (afectivos) persistentes', 'Trastornos del humor (afectivos)'),
+('F34.0', 'ICD-10', 'Ciclotimia', 'Trastornos del humor (afectivos)'),
+('F34.1', 'ICD-10', 'Distimia', 'Trastornos del humor (afectivos)'),
+('F38', 'ICD-10', 'Otros trastornos del humor (afectivos)', 'Trastornos del humor (afectivos)'),
+('F39', 'ICD-10', 'Trastorno del humor (afectivo) sin especificación', 'Trastornos del humor (afectivos)'),
+('F40', 'ICD-10', 'Trastornos de ansiedad fóbica', 'Trastornos neuróticos, secundarios a situaciones estresantes y somatomorfos'),
+('F40.0', 'ICD-10', 'Agorafobia', 'Trastornos neuróticos, secundarios a situaciones estresantes y somatomorfos'),
+('F40.1', 'ICD-10', 'Fobias sociales', 'Trastornos neuróticos, secundarios a situaciones estresantes y somatomorfos'),
+('F40.2', 'ICD-10', 'Fobias específicas (aisladas)', 'Trastornos neuróticos, secundarios a situaciones estresantes y somatomorfos'),
+('F41', 'ICD-10', 'Otros trastornos de ansiedad', 'Trastornos neuróticos, secundarios a situaciones estresantes y somatomorfos'),
+('F41.0', 'ICD-10', 'Trastorno de pánico (ansiedad paroxística episódica)', 'Trastornos neuróticos, secundarios a situaciones estresantes y somatomorfos'),
+('F41.1', 'ICD-10', 'Trastorno de ansiedad generalizada', 'Trastornos neuróticos, secundarios a situaciones estresantes y somatomorfos'),
+('F41.2', 'ICD-10', 'Trastorno mixto ansioso-depresivo', 'Trastornos neuróticos, secundarios a situaciones estresantes y somatomorfos'),
+('F42', 'ICD-10', 'Trastorno obsesivo-compulsivo', 'Trastornos neuróticos, secundarios a situaciones estresantes y somatomorfos'),
+('F43', 'ICD-10', 'Reacciones a estrés grave y trastornos de adaptación', 'Trastornos neuróticos, secundarios a situaciones estresantes y somatomorfos'),
+('F43.0', 'ICD-10', 'Reacción a estrés agudo', 'Trastornos neuróticos, secundarios a situaciones estresantes y somatomorfos'),
+('F43.1', 'ICD-10', 'Trastorno de estrés post-traumático', 'Trastornos neuróticos, secundarios a situaciones estresantes y somatomorfos'),
+('F43.2', 'ICD-10', 'Trastornos de adaptación', 'Trastornos neuróticos, secundarios a situaciones estresantes y somatomorfos'),
+('F44', 'ICD-10', 'Trastornos disociativos (de conversión)', 'Trastornos neuróticos, secundarios a situaciones estresantes y somatomorfos'),
+('F45', 'ICD-10', 'Trastornos somatomorfos', 'Trastornos neuróticos, secundarios a situaciones estresantes y somatomorfos'),
+('F48', 'ICD-10', 'Otros trastornos neuróticos', 'Trastornos neuróticos, secundarios a situaciones estresantes y somatomorfos'),
+('F50', 'ICD-10', 'Trastornos de la conducta alimentaria', 'Trastornos del comportamiento asociados a disfunciones fisiológicas y a factores somáticos'),
+('F50.0', 'ICD-10', 'Anorexia nerviosa', 'Trastornos del comportamiento asociados a disfunciones fisiológicas y a factores somáticos'),
+('F50.2', 'ICD-10', 'Bulimia nerviosa', 'Trastornos del comportamiento asociados a disfunciones fisiológicas y a factores somáticos'),
+('F51', 'ICD-10', 'Trastornos no orgánicos del sueño', 'Trastornos del comportamiento asociados a disfunciones fisiológicas y a factores somáticos'),
+('F51.0', 'ICD-10', 'Insomnio no orgánico', 'Trastornos del comportamiento asociados a disfunciones fisiológicas y a factores somáticos'),
+('F52', 'ICD-10', 'Disfunción sexual no orgánica', 'Trastornos del comportamiento asociados a disfunciones fisiológicas y a factores somáticos'),
+('F53', 'ICD-10', 'Trastornos mentales y del comportamiento en el puerperio no clasificados en otra parte', 'Trastornos del comportamiento asociados a disfunciones fisiológicas y a factores somáticos'),
+('F54', 'ICD-10', 'Factores psicológicos y del comportamiento en trastornos o enfermedades clasificados en otra parte', 'Trastornos del comportamiento asociados a disfunciones fisiológicas y a factores somáticos'),
+('F55', 'ICD-10', 'Abuso de sustancias que no producen dependencia', 'Trastornos del comportamiento asociados a disfunciones fisiológicas y a factores somáticos'),
+('F59', 'ICD-10', 'Trastornos del comportamiento asociados a disfunciones fisiológicas y a factores somáticos sin especificación', 'Trastornos del comportamiento asociados a disfunciones fisiológicas y a factores somáticos'),
+('F60', 'ICD-10', 'Trastornos específicos de la personalidad', 'Trastornos de la personalidad y del comportamiento del adulto'),
+('F60.2', 'ICD-10', 'Trastorno disocial de la personalidad', 'Trastornos de la personalidad y del comportamiento del adulto'),
+('F60.3', 'ICD-10', 'Trastorno de inestabilidad emocional de la personalidad', 'Trastornos de la personalidad y del comportamiento del adulto'),
+('F61', 'ICD-10', 'Trastornos mixtos y otros trastornos de la personalidad', 'Trastornos de la personalidad y del comportamiento del adulto'),
+('F62', 'ICD-10', 'Transformación persistente de la personalidad no atribuible a lesión o enfermedad cerebral', 'Trastornos de la personalidad y del comportamiento del adulto'),
+('F63', 'ICD-10', 'Trastornos de los hábitos y del control de los impulsos', 'Trastornos de la personalidad y del comportamiento del adulto'),
+('F64', 'ICD-10', 'Trastornos de la identidad sexual', 'Trastornos de la personalidad y del comportamiento del adulto'),
+('F65', 'ICD-10', 'Trastornos de la inclinación sexual', 'Trastornos de la personalidad y del comportamiento del adulto'),
+('F66', 'ICD-10', 'Trastornos psicológicos y del comportamiento del desarrollo y orientación sexuales', 'Trastornos de la personalidad y del comportamiento del adulto'),
+('F68', 'ICD-10', 'Otros trastornos de la personalidad y del comportamiento del adulto', 'Trastornos de la personalidad y del comportamiento del adulto'),
+('F69', 'ICD-10', 'Trastorno de la personalidad y del comportamiento del adulto sin especificación', 'Trastornos de la personalidad y del comportamiento del adulto'),
+('F70', 'ICD-10', 'Retraso mental leve', 'Retraso mental'),
+('F71', 'ICD-10', 'Retraso mental moderado', 'Retraso mental'),
+('F72', 'ICD-10', 'Retraso mental grave', 'Retraso mental'),
+('F73', 'ICD-10', 'Retraso mental profundo', 'Retraso mental'),
+('F78', 'ICD-10', 'Otros retrasos mentales', 'Retraso mental'),
+('F79', 'ICD-10', 'Retraso mental sin especificación', 'Retraso mental'),
+('F80', 'ICD-10', 'Trastornos específicos del desarrollo del habla y del lenguaje', 'Trastornos del desarrollo psicológico'),
+('F81', 'ICD-10', 'Trastornos específicos del desarrollo del aprendizaje escolar', 'Trastornos del desarrollo psicológico'),
+('F82', 'ICD-10', 'Trastorno específico del desarrollo psicomotor', 'Trastornos del desarrollo psicológico'),
+('F83', 'ICD-10', 'Trastornos específicos del desarrollo mixtos', 'Trastornos del desarrollo psicológico'),
+('F84', 'ICD-10', 'Trastornos generalizados del desarrollo', 'Trastornos del desarrollo psicológico'),
+('F84.0', 'ICD-10', 'Autismo infantil', 'Trastornos del desarrollo psicológico'),
+('F84.5', 'ICD-10', 'Síndrome de Asperger', 'Trastornos del desarrollo psicológico'),
+('F88', 'ICD-10', 'Otros trastornos del desarrollo psicológico', 'Trastornos del desarrollo psicológico'),
+('F89', 'ICD-10', 'Trastorno del desarrollo psicológico sin especificación', 'Trastornos del desarrollo psicológico'),
+('F90', 'ICD-10', 'Trastornos hipercinéticos', 'Trastornos del comportamiento y de las emociones de comienzo habitual en la infancia y adolescencia'),
+('F90.0', 'ICD-10', 'Trastorno de la actividad y de la atención', 'Trastornos del comportamiento y de las emociones de comienzo habitual en la infancia y adolescencia'),
+('F91', 'ICD-10', 'Trastornos disociales', 'Trastornos del comportamiento y de las emociones de comienzo habitual en la infancia y adolescencia'),
+('F92', 'ICD-10', 'Trastornos disociales y de las emociones mixtos', 'Trastornos del comportamiento y de las emociones de comienzo habitual en la infancia y adolescencia'),
+('F93', 'ICD-10', 'Trastornos de las emociones de comienzo habitual en la infancia', 'Trastornos del comportamiento y de las emociones de comienzo habitual en la infancia y adolescencia'),
+('F94', 'ICD-10', 'Trastornos del comportamiento social de comienzo habitual en la infancia y adolescencia', 'Trastornos del comportamiento y de las emociones de comienzo habitual en la infancia y adolescencia'),
+('F95', 'ICD-10', 'Trastornos de tics', 'Trastornos del comportamiento y de las emociones de comienzo habitual en la infancia y adolescencia'),
+('F98', 'ICD-10', 'Otros trastornos de las emociones y del comportamiento de comienzo habitual en la infancia y adolescencia', 'Trastornos del comportamiento y de las emociones de comienzo habitual en la infancia y adolescencia'),
+('F99', 'ICD-10', 'Trastorno mental sin especificación', 'Trastorno mental sin especificación');
+
+-- DSM-5 (códigos CIE-10-MC con la denominación de la edición en español)
+INSERT INTO diagnosis_codes (code, system, description, category) VALUES
+('F32.0', 'DSM-5', 'Trastorno de depresión mayor, episodio único, leve', 'Trastornos depresivos'),
+('F32.1', 'DSM-5', 'Trastorno de depresión mayor, episodio único, moderado', 'Trastornos depresivos'),
+('F32.2', 'DSM-5', 'Trastorno de depresión mayor, episodio único, grave', 'Trastornos depresivos'),
+('F32.3', 'DSM-5', 'Trastorno de depresión mayor, episodio único, con características psicóticas', 'Trastornos depresivos'),
+('F33.0', 'DSM-5', 'Trastorno de depresión mayor, episodio recurrente, leve', 'Trastornos depresivos'),
+('F33.1', 'DSM-5', 'Trastorno de depresión mayor, episodio recurrente, moderado', 'Trastornos depresivos'),
+('F33.2', 'DSM-5', 'Trastorno de depresión mayor, episodio recurrente, grave', 'Trastornos depresivos'),
+('F34.1', 'DSM-5', 'Trastorno depresivo persistente (distimia)', 'Trastornos depresivos'),
+('F31.81', 'DSM-5', 'Trastorno bipolar II', 'Trastorno bipolar y trastornos relacionados'),
+('F31.9', 'DSM-5', 'Trastorno bipolar y trastorno relacionado no especificado', 'Trastorno bipolar y trastornos relacionados'),
+('F34.0', 'DSM-5', 'Trastorno ciclotímico', 'Trastorno bipolar y trastornos relacionados'),
+('F41.0', 'DSM-5', 'Trastorno de pánico', 'Trastornos de ansiedad'),
+('F41.1', 'DSM-5', 'Trastorno de ansiedad generalizada', 'Trastornos de ansiedad'),
+('F40.00', 'DSM-5', 'Agorafobia', 'Trastornos de ansiedad'),
+('F40.10', 'DSM-5', 'Trastorno de ansiedad social (fobia social)', 'Trastornos de ansiedad'),
+('F93.0', 'DSM-5', 'Trastorno de ansiedad por separación', 'Trastornos de ansiedad'),
+('F42', 'DSM-5', 'Trastorno obsesivo-compulsivo', 'Trastorno obsesivo-compulsivo y trastornos relacionados'),
+('F45.22', 'DSM-5', 'Trastorno dismórfico corporal', 'Trastorno obsesivo-compulsivo y trastornos relacionados'),
+('F43.0', 'DSM-5', 'Trastorno de estrés agudo', 'Trastornos relacionados con traumas y factores de estrés'),
+('F43.10', 'DSM-5', 'Trastorno de estrés postraumático', 'Trastornos relacionados con traumas y factores de estrés'),
+('F43.21', 'DSM-5', 'Trastorno de adaptación con estado de ánimo deprimido', 'Trastornos relacionados con traumas y factores de estrés'),
+('F43.22', 'DSM-5', 'Trastorno de adaptación con ansiedad', 'Trastornos relacionados con traumas y factores de estrés'),
+('F43.23', 'DSM-5', 'Trastorno de adaptación con ansiedad mixta y estado de ánimo deprimido', 'Trastornos relacionados con traumas y factores de estrés'),
+('F20.9', 'DSM-5', 'Esquizofrenia', 'Espectro de la esquizofrenia y otros trastornos psicóticos'),
+('F25.0', 'DSM-5', 'Trastorno esquizoafectivo, tipo bipolar', 'Espectro de la esquizofrenia y otros trastornos psicóticos'),
+('F25.1', 'DSM-5', 'Trastorno esquizoafectivo, tipo depresivo', 'Espectro de la esquizofrenia y otros trastornos psicóticos'),
+('F22', 'DSM-5', 'Trastorno delirante', 'Espectro de la esquizofrenia y otros trastornos psicóticos'),
+('F23', 'DSM-5', 'Trastorno psicótico breve', 'Espectro de la esquizofrenia y otros trastornos psicóticos'),
+('F50.01', 'DSM-5', 'Anorexia nerviosa, tipo restrictivo', 'Trastornos de la conducta alimentaria y de la ingesta de alimentos'),
+('F50.2', 'DSM-5', 'Bulimia nerviosa', 'Trastornos de la conducta alimentaria y de la ingesta de alimentos'),
+('F50.8', 'DSM-5', 'Trastorno de atracones', 'Trastornos de la conducta alimentaria y de la ingesta de alimentos'),
+('F51.01', 'DSM-5', 'Trastorno de insomnio', 'Trastornos del sueño-vigilia'),
+('F60.2', 'DSM-5', 'Trastorno de la personalidad antisocial', 'Trastornos de la personalidad'),
+('F60.3', 'DSM-5', 'Trastorno de la personalidad límite', 'Trastornos de la personalidad'),
+('F60.4', 'DSM-5', 'Trastorno de la personalidad histriónica', 'Trastornos de la personalidad'),
+('F60.6', 'DSM-5', 'Trastorno de la personalidad evitativa', 'Trastornos de la personalidad'),
+('F84.0', 'DSM-5', 'Trastorno del espectro autista', 'Trastornos del neurodesarrollo'),
+('F90.0', 'DSM-5', 'Trastorno por déficit de atención con hiperactividad, presentación predominante con falta de atención', 'Trastornos del neurodesarrollo'),
+('F90.1', 'DSM-5', 'Trastorno por déficit de atención con hiperactividad, presentación predominante hiperactiva/impulsiva', 'Trastornos del neurodesarrollo'),
+('F90.2', 'DSM-5', 'Trastorno por déficit de atención con hiperactividad, presentación combinada', 'Trastornos del neurodesarrollo'),
+('F10.10', 'DSM-5', 'Trastorno por consumo de alcohol, leve', 'Trastornos relacionados con sustancias y trastornos adictivos'),
+('F10.20', 'DSM-5', 'Trastorno por consumo de alcohol, moderado o grave', 'Trastornos relacionados con sustancias y trastornos adictivos'),
+('F12.20', 'DSM-5', 'Trastorno por consumo de cannabis, moderado o grave', 'Trastornos relacionados con sustancias y trastornos adictivos'),
+('F14.20', 'DSM-5', 'Trastorno por consumo de cocaína, moderado o grave', 'Trastornos relacionados con sustancias y trastornos adictivos'),
+('F17.200', 'DSM-5', 'Trastorno por consumo de tabaco, moderado o grave', 'Trastornos relacionados con sustancias y trastornos adictivos'),
+('F45.1', 'DSM-5', 'Trastorno de síntomas somáticos', 'Trastorno de síntomas somáticos y trastornos relacionados'),
+('F63.81', 'DSM-5', 'Trastorno explosivo intermitente', 'Trastornos destructivos del control de los impulsos y de la conducta');
+
+-- Texto de búsqueda sin acentos (unaccent no es inmutable y no admite columna generada)
+UPDATE diagnosis_codes SET search_text = LOWER(unaccent(code || ' ' || description));
+
+-- Diagnósticos por paciente con ciclo de vida activo / resuelto
+CREATE TABLE diagnoses (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    patient_id UUID NOT NULL REFERENCES patients(id) ON DELETE RESTRICT,
+    recorded_by UUID NOT NULL REFERENCES users(id) ON DELETE RESTRICT,
+    status VARCHAR(20) NOT NULL DEFAULT 'active' CHECK (status IN ('active', 'resolved')),
+
+    -- Diagnóstico principal (el código debe existir en diagnosis_codes)
+    primary_code VARCHAR(10) NOT NULL,
+    primary_description TEXT NOT NULL,
+    certainty VARCHAR(20) NOT NULL CHECK (certainty IN ('Confirmado', 'Provisional', 'Regla de salida')),
+    date_identified DATE NOT NULL,
+    date_resolved DATE,
+    supporting_evidence TEXT NOT NULL,
+
+    -- Comorbilidades: [{ diagnosis, relationship, impact }]
+    comorbidities JSONB NOT NULL DEFAULT '[]',
+
+    -- Diagnósticos diferenciales: [{ diagnosis, ruled_out_by, pending_tests }]
+    differential_diagnoses JSONB NOT NULL DEFAULT '[]',
+
+    -- Metadatos
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+
+    CONSTRAINT valid_resolution_state CHECK ((status = 'resolved') = (date_resolved IS NOT NULL)),
+    CONSTRAINT valid_resolution_date CHECK (date_resolved IS NULL OR date_resolved >= date_identified)
+);
+
+CREATE INDEX idx_diagnoses_patient ON diagnoses(patient_id);
+CREATE INDEX idx_diagnoses_patient_status ON diagnoses(patient_id, status);
+CREATE INDEX idx_diagnoses_primary_code ON diagnoses(primary_code);
+
+-- Trigger para updated_at
+CREATE TRIGGER update_diagnoses_updated_at BEFORE UPDATE ON diagnoses
+    FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+-- Comentarios para documentación
+COMMENT ON TABLE diagnosis_codes IS 'Catálogo local de códigos diagnósticos CIE-10 (capítulo F) y DSM-5';
+COMMENT ON COLUMN diagnosis_codes.search_text IS 'Código y descripción normalizados para búsqueda por trigramas';
+COMMENT ON TABLE diagnoses IS 'Diagnósticos por paciente (activos o resueltos, reabribles)';
+COMMENT ON COLUMN diagnoses.primary_code IS 'Código del diagnóstico principal, validado contra diagnosis_codes';
+COMMENT ON COLUMN diagnoses.certainty IS 'Grado de certeza: Confirmado, Provisional o Regla de salida';
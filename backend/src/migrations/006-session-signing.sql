@@ -0,0 +1,73 @@
+-- Migración 006: Firma electrónica de sesiones y adendas
+-- Fecha: 2026-10-19
+
+-- Firma de la sesión: quién firmó, cuándo y hash SHA-256 del contenido clínico
+ALTER TABLE consultation_sessions
+    ADD COLUMN signed_by UUID REFERENCES users(id) ON DELETE RESTRICT,
+    ADD COLUMN signed_at TIMESTAMP WITH TIME ZONE,
+    ADD COLUMN content_hash VARCHAR(64),
+    ADD CONSTRAINT valid_signature CHECK (
+        (signed_by IS NULL AND signed_at IS NULL AND content_hash IS NULL) OR
+        (signed_by IS NOT NULL AND signed_at IS NOT NULL AND content_hash IS NOT NULL)
+    );
+
+CREATE INDEX idx_consultation_sessions_signed ON consultation_sessions(signed_at) WHERE signed_at IS NOT NULL;
+
+-- Adendas: única vía para corregir o ampliar una sesión firmada.
+-- Se firman al crearse y no admiten cambios posteriores.
+CREATE TABLE session_addenda (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    session_id UUID NOT NULL REFERENCES consultation_sessions(id) ON DELETE RESTRICT,
+    sequence INTEGER NOT NULL CHECK (sequence >= 1),
+    reason TEXT NOT NULL,
+    content TEXT NOT NULL,
+
+    -- Firma de la adenda (encadenada al hash de la sesión y de la adenda anterior)
+    signed_by UUID NOT NULL REFERENCES users(id) ON DELETE RESTRICT,
+    signed_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW(),
+    previous_hash VARCHAR(64) NOT NULL,
+    content_hash VARCHAR(64) NOT NULL,
+
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+
+    CONSTRAINT unique_session_addendum_sequence UNIQUE (session_id, sequence)
+);
+
+CREATE INDEX idx_session_addenda_session ON session_addenda(session_id, sequence);
+
+-- Bloquear cambios en sesiones firmadas
+CREATE OR REPLACE FUNCTION prevent_signed_session_changes()
+RETURNS TRIGGER AS $$
+BEGIN
+    IF OLD.signed_at IS NOT NULL THEN
+        RAISE EXCEPTION 'La sesión está firmada y no puede modificarse ni eliminarse';
+    END IF;
+
+    IF TG_OP = 'DELETE' THEN
+        RETURN OLD;
+    END IF;
+    RETURN NEW;
+END;
+$$ language 'plpgsql';
+
+CREATE TRIGGER prevent_signed_session_changes_trigger
+    BEFORE UPDATE OR DELETE ON consultation_sessions
+    FOR EACH ROW EXECUTE FUNCTION prevent_signed_session_changes();
+
+-- Las adendas son de solo inserción
+CREATE OR REPLACE FUNCTION prevent_addendum_changes()
+RETURNS TRIGGER AS $$
+BEGIN
+    RAISE EXCEPTION 'Las adendas firmadas no pueden modificarse ni eliminarse';
+END;
+$$ language 'plpgsql';
+
+CREATE TRIGGER prevent_addendum_changes_trigger
+    BEFORE UPDATE OR DELETE ON session_addenda
+    FOR EACH ROW EXECUTE FUNCTION prevent_addendum_changes();
+
+-- Comentarios para documentación
+COMMENT ON COLUMN consultation_sessions.signed_by IS 'Psiquiatra que firmó la sesión (inmutable a partir de la firma)';
+COMMENT ON COLUMN consultation_sessions.content_hash IS 'SHA-256 del contenido clínico canónico al momento de la firma';
+COMMENT ON TABLE session_addenda IS 'Adendas firmadas de solo inserción sobre sesiones firmadas';
+COMMENT ON COLUMN session_addenda.previous_hash IS 'Hash de la adenda anterior o de la sesión si es la primera';
@@ -0,0 +1,40 @@
+-- Migración 007: Plantillas clínicas reutilizables
+-- Fecha: 2026-10-19
+
+-- Plantillas de sesión o diagnóstico creadas por psiquiatras.
+-- Pueden compartirse con el resto del equipo y registran su uso.
+CREATE TABLE clinical_templates (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    template_name VARCHAR(100) NOT NULL,
+    template_type VARCHAR(20) NOT NULL CHECK (template_type IN ('diagnosis', 'session_type', 'custom', 'emergency')),
+
+    -- Campos de sesión pre-llenados (síntomas, examen mental, notas, riesgo)
+    template_data JSONB NOT NULL DEFAULT '{}',
+
+    created_by UUID NOT NULL REFERENCES users(id) ON DELETE RESTRICT,
+    is_shared BOOLEAN NOT NULL DEFAULT false,
+
+    -- Uso
+    usage_count INTEGER NOT NULL DEFAULT 0 CHECK (usage_count >= 0),
+    last_used TIMESTAMP WITH TIME ZONE,
+
+    -- Metadatos
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+
+    CONSTRAINT unique_template_name_per_user UNIQUE (created_by, template_name)
+);
+
+CREATE INDEX idx_clinical_templates_created_by ON clinical_templates(created_by);
+CREATE INDEX idx_clinical_templates_shared ON clinical_templates(is_shared) WHERE is_shared = true;
+CREATE INDEX idx_clinical_templates_type ON clinical_templates(template_type);
+CREATE INDEX idx_clinical_templates_usage ON clinical_templates(usage_count DESC, last_used DESC);
+
+-- Trigger para updated_at
+CREATE TRIGGER update_clinical_templates_updated_at BEFORE UPDATE ON clinical_templates
+    FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+-- Comentarios para documentación
+COMMENT ON TABLE clinical_templates IS 'Plantillas clínicas reutilizables (propias o compartidas)';
+COMMENT ON COLUMN clinical_templates.template_data IS 'Campos de sesión de consulta pre-llenados en formato JSON';
+COMMENT ON COLUMN clinical_templates.usage_count IS 'Número de veces que se ha utilizado la plantilla';
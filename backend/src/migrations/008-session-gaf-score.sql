@@ -0,0 +1,11 @@
+-- Migración 008: Puntaje GAF por sesión para el cálculo de progreso
+-- Fecha: 2026-10-19
+
+ALTER TABLE consultation_sessions
+    ADD COLUMN gaf_score INTEGER CHECK (gaf_score >= 1 AND gaf_score <= 100);
+
+-- Series de GAF por paciente en orden cronológico
+CREATE INDEX idx_consultation_sessions_patient_gaf ON consultation_sessions(patient_id, session_date)
+    WHERE gaf_score IS NOT NULL;
+
+COMMENT ON COLUMN consultation_sessions.gaf_score IS 'Evaluación global del funcionamiento (GAF) de 1 a 100 registrada en la sesión';
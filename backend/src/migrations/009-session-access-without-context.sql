@@ -0,0 +1,24 @@
+-- Migración 009: Validación de acceso a sesiones sin contexto de usuario
+-- Fecha: 2026-10-19
+
+-- Las conexiones del pool (pg o repositorios) no fijan app.current_user_id
+-- y la autorización ya se valida en la API. El trigger solo restringe cuando
+-- la conexión declara el usuario actual.
+CREATE OR REPLACE FUNCTION validate_psychiatrist_access()
+RETURNS TRIGGER AS $$
+DECLARE
+    declared_user_id TEXT := NULLIF(current_setting('app.current_user_id', true), '');
+BEGIN
+    IF declared_user_id IS NULL THEN
+        RETURN NEW;
+    END IF;
+
+    -- Solo psychiatrists y admins pueden crear/editar sesiones
+    IF NEW.psychiatrist_id != declared_user_id::UUID
+       AND current_setting('app.current_user_role', true) IS DISTINCT FROM 'admin' THEN
+        RAISE EXCEPTION 'Acceso no autorizado: solo puedes gestionar tus propias sesiones';
+    END IF;
+
+    RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
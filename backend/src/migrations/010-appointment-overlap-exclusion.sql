@@ -0,0 +1,25 @@
+-- Migración 010: Prevención de solapamiento de citas en la base de datos
+-- Fecha: 2026-10-19
+
+-- Necesaria para combinar igualdad de UUID y solapamiento de rangos en un índice GiST
+CREATE EXTENSION IF NOT EXISTS btree_gist;
+
+-- Restricciones originales de la migración 001, basadas en tstzrange (no inmutable)
+ALTER TABLE appointments DROP CONSTRAINT IF EXISTS unique_patient_time_slot;
+ALTER TABLE appointments DROP CONSTRAINT IF EXISTS unique_psychiatrist_time_slot;
+
+-- Rango semiabierto de la cita: una cita puede comenzar cuando termina la anterior
+-- Un paciente no puede tener dos citas vigentes que se solapen
+ALTER TABLE appointments ADD CONSTRAINT appointments_patient_no_overlap EXCLUDE USING gist (
+    patient_id WITH =,
+    tsrange(appointment_date + start_time, appointment_date + end_time, '[)') WITH &&
+) WHERE (status NOT IN ('cancelled', 'no_show'));
+
+-- Un psiquiatra no puede tener dos citas vigentes que se solapen
+ALTER TABLE appointments ADD CONSTRAINT appointments_psychiatrist_no_overlap EXCLUDE USING gist (
+    psychiatrist_id WITH =,
+    tsrange(appointment_date + start_time, appointment_date + end_time, '[)') WITH &&
+) WHERE (status NOT IN ('cancelled', 'no_show'));
+
+COMMENT ON CONSTRAINT appointments_patient_no_overlap ON appointments IS 'Evita citas solapadas del mismo paciente (excepto canceladas o no asistidas)';
+COMMENT ON CONSTRAINT appointments_psychiatrist_no_overlap ON appointments IS 'Evita citas solapadas del mismo psiquiatra (excepto canceladas o no asistidas)';
@@ -0,0 +1,47 @@
+-- Migración 011: Horario configurable por psiquiatra
+-- Fecha: 2026-10-19
+
+-- Parámetros generales de agenda (un registro por psiquiatra)
+CREATE TABLE psychiatrist_schedules (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    psychiatrist_id UUID NOT NULL UNIQUE REFERENCES users(id) ON DELETE CASCADE,
+    slot_minutes INTEGER NOT NULL DEFAULT 30 CHECK (slot_minutes >= 5 AND slot_minutes <= 240),
+    min_lead_minutes INTEGER NOT NULL DEFAULT 60 CHECK (min_lead_minutes >= 0),
+    buffer_minutes INTEGER NOT NULL DEFAULT 0 CHECK (buffer_minutes >= 0 AND buffer_minutes <= 120),
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+-- Franjas de atención semanales (0 = domingo, 6 = sábado), un día puede tener varias franjas
+CREATE TABLE schedule_working_hours (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    psychiatrist_id UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+    weekday SMALLINT NOT NULL CHECK (weekday >= 0 AND weekday <= 6),
+    start_time TIME NOT NULL,
+    end_time TIME NOT NULL,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    CHECK (end_time > start_time)
+);
+
+-- Descansos recurrentes (almuerzo, etc.), sin día indica todos los días
+CREATE TABLE schedule_breaks (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    psychiatrist_id UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+    weekday SMALLINT CHECK (weekday >= 0 AND weekday <= 6),
+    start_time TIME NOT NULL,
+    end_time TIME NOT NULL,
+    label VARCHAR(100),
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    CHECK (end_time > start_time)
+);
+
+CREATE INDEX idx_schedule_working_hours_psychiatrist ON schedule_working_hours(psychiatrist_id, weekday);
+CREATE INDEX idx_schedule_breaks_psychiatrist ON schedule_breaks(psychiatrist_id);
+
+-- Trigger para updated_at
+CREATE TRIGGER update_psychiatrist_schedules_updated_at BEFORE UPDATE ON psychiatrist_schedules
+    FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+COMMENT ON TABLE psychiatrist_schedules IS 'Parámetros de agenda por psiquiatra: tamaño de turno, anticipación mínima y separación entre citas';
+COMMENT ON TABLE schedule_working_hours IS 'Franjas semanales de atención por psiquiatra';
+COMMENT ON TABLE schedule_breaks IS 'Descansos recurrentes dentro del horario de atención';
@@ -0,0 +1,39 @@
+-- Migración 012: Feriados, vacaciones y bloqueos de agenda
+-- Fecha: 2026-10-19
+
+-- Feriados de la clínica (calendario nacional generado localmente o cierres propios)
+CREATE TABLE holidays (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    holiday_date DATE NOT NULL,
+    name VARCHAR(150) NOT NULL,
+    country_code CHAR(2) NOT NULL DEFAULT 'VE',
+    source VARCHAR(20) NOT NULL DEFAULT 'calendar' CHECK (source IN ('calendar', 'custom')),
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+
+    CONSTRAINT unique_holiday_per_country UNIQUE (country_code, holiday_date)
+);
+
+-- Periodos no disponibles: sin psiquiatra aplica a toda la clínica
+CREATE TABLE time_off (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    psychiatrist_id UUID REFERENCES users(id) ON DELETE CASCADE,
+    starts_at TIMESTAMP WITH TIME ZONE NOT NULL,
+    ends_at TIMESTAMP WITH TIME ZONE NOT NULL,
+    kind VARCHAR(20) NOT NULL CHECK (kind IN ('vacation', 'sick_leave', 'training', 'personal', 'blocked')),
+    reason TEXT,
+    created_by UUID NOT NULL REFERENCES users(id) ON DELETE RESTRICT,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+
+    CHECK (ends_at > starts_at)
+);
+
+CREATE INDEX idx_time_off_psychiatrist_period ON time_off(psychiatrist_id, starts_at, ends_at);
+CREATE INDEX idx_time_off_clinic_period ON time_off(starts_at, ends_at) WHERE psychiatrist_id IS NULL;
+
+-- Trigger para updated_at
+CREATE TRIGGER update_time_off_updated_at BEFORE UPDATE ON time_off
+    FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+COMMENT ON TABLE holidays IS 'Feriados en los que la clínica no agenda citas';
+COMMENT ON TABLE time_off IS 'Vacaciones, permisos y bloqueos de agenda por psiquiatra o de toda la clínica';
@@ -0,0 +1,39 @@
+-- Migración 013: Series de citas recurrentes
+-- Fecha: 2026-10-19
+
+-- Regla de recurrencia y plantilla de las citas de la serie
+CREATE TABLE appointment_series (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    patient_id UUID NOT NULL REFERENCES patients(id) ON DELETE CASCADE,
+    psychiatrist_id UUID NOT NULL REFERENCES users(id) ON DELETE RESTRICT,
+    frequency VARCHAR(20) NOT NULL CHECK (frequency IN ('weekly', 'biweekly', 'monthly')),
+    occurrence_count INTEGER CHECK (occurrence_count BETWEEN 1 AND 52),
+    until_date DATE,
+    start_date DATE NOT NULL,
+    start_time TIME NOT NULL,
+    duration_minutes INTEGER NOT NULL CHECK (duration_minutes >= 15 AND duration_minutes <= 480),
+    type VARCHAR(30) NOT NULL CHECK (type IN ('consultation', 'follow_up', 'emergency', 'evaluation', 'therapy', 'medication_review')),
+    notes TEXT,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+
+    CHECK (occurrence_count IS NOT NULL OR until_date IS NOT NULL),
+    CHECK (until_date IS NULL OR until_date >= start_date)
+);
+
+-- Cada cita de la serie conserva su posición para editar esta y las siguientes
+ALTER TABLE appointments
+    ADD COLUMN series_id UUID REFERENCES appointment_series(id) ON DELETE SET NULL,
+    ADD COLUMN series_index INTEGER,
+    ADD CONSTRAINT unique_series_occurrence UNIQUE (series_id, series_index);
+
+CREATE INDEX idx_appointment_series_patient ON appointment_series(patient_id);
+CREATE INDEX idx_appointment_series_psychiatrist ON appointment_series(psychiatrist_id);
+CREATE INDEX idx_appointments_series ON appointments(series_id, series_index) WHERE series_id IS NOT NULL;
+
+-- Trigger para updated_at
+CREATE TRIGGER update_appointment_series_updated_at BEFORE UPDATE ON appointment_series
+    FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+COMMENT ON TABLE appointment_series IS 'Series de citas recurrentes (semanal, quincenal o mensual)';
+COMMENT ON COLUMN appointments.series_index IS 'Posición de la cita dentro de su serie, desde 0';
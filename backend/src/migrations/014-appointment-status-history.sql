@@ -0,0 +1,26 @@
+-- Migración 014: Historial de estados de citas
+-- Fecha: 2026-10-19
+
+-- Cada cambio de estado de una cita, con quién lo hizo y por qué.
+-- El historial se conserva: una cita con historial no se elimina, se cancela
+CREATE TABLE appointment_status_history (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    appointment_id UUID NOT NULL REFERENCES appointments(id) ON DELETE RESTRICT,
+    from_status VARCHAR(20) CHECK (from_status IN ('scheduled', 'confirmed', 'in_progress', 'completed', 'cancelled', 'no_show')),
+    to_status VARCHAR(20) NOT NULL CHECK (to_status IN ('scheduled', 'confirmed', 'in_progress', 'completed', 'cancelled', 'no_show')),
+    reason TEXT,
+    changed_by UUID NOT NULL REFERENCES users(id) ON DELETE RESTRICT,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+
+    -- La cancelación y la inasistencia siempre registran el motivo
+    CHECK (to_status NOT IN ('cancelled', 'no_show') OR (reason IS NOT NULL AND length(trim(reason)) > 0))
+);
+
+CREATE INDEX idx_appointment_status_history_appointment ON appointment_status_history(appointment_id, created_at);
+
+-- Estado inicial de las citas existentes
+INSERT INTO appointment_status_history (appointment_id, from_status, to_status, reason, changed_by, created_at)
+SELECT id, NULL, status, CASE WHEN status IN ('cancelled', 'no_show') THEN 'Registrado antes del historial de estados' END, psychiatrist_id, created_at
+FROM appointments;
+
+COMMENT ON TABLE appointment_status_history IS 'Historial de transiciones de estado de las citas';
@@ -0,0 +1,18 @@
+-- Migración 015: Vínculo entre citas y sesiones de consulta
+-- Fecha: 2026-10-19
+
+-- Cada cita tiene como máximo una sesión de consulta. Una cita con sesión
+-- no se elimina (las sesiones firmadas no admiten cambios), se cancela
+ALTER TABLE consultation_sessions
+    ADD COLUMN appointment_id UUID REFERENCES appointments(id) ON DELETE RESTRICT;
+
+CREATE UNIQUE INDEX idx_consultation_sessions_appointment ON consultation_sessions(appointment_id) WHERE appointment_id IS NOT NULL;
+
+-- Estado borrador: sesión creada al iniciar o completar la cita, pendiente de documentar
+ALTER TABLE consultation_sessions DROP CONSTRAINT IF EXISTS consultation_sessions_session_status_check;
+
+ALTER TABLE consultation_sessions
+    ADD CONSTRAINT consultation_sessions_session_status_check
+    CHECK (session_status IN ('draft', 'scheduled', 'completed', 'cancelled', 'no_show'));
+
+COMMENT ON COLUMN consultation_sessions.appointment_id IS 'Cita que originó la sesión';
@@ -0,0 +1,61 @@
+-- Migración 016: Lista de espera y reservas temporales de horarios liberados
+-- Fecha: 2026-10-19
+
+-- Pacientes en espera de un horario, con sus preferencias
+CREATE TABLE waitlist_entries (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    patient_id UUID NOT NULL REFERENCES patients(id) ON DELETE CASCADE,
+    psychiatrist_id UUID REFERENCES users(id) ON DELETE CASCADE, -- sin psiquiatra: cualquiera
+    preferred_weekdays INTEGER[] NOT NULL DEFAULT '{}', -- 0 = domingo, vacío: cualquier día
+    earliest_time TIME,
+    latest_time TIME,
+    duration_minutes INTEGER NOT NULL DEFAULT 60 CHECK (duration_minutes >= 15 AND duration_minutes <= 480),
+    type VARCHAR(30) NOT NULL DEFAULT 'follow_up' CHECK (type IN ('consultation', 'follow_up', 'emergency', 'evaluation', 'therapy', 'medication_review')),
+    priority INTEGER NOT NULL DEFAULT 0,
+    notes TEXT,
+    status VARCHAR(20) NOT NULL DEFAULT 'waiting' CHECK (status IN ('waiting', 'offered', 'booked', 'removed')),
+    created_by UUID NOT NULL REFERENCES users(id) ON DELETE RESTRICT,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+
+    CHECK (preferred_weekdays <@ ARRAY[0, 1, 2, 3, 4, 5, 6]),
+    CHECK (earliest_time IS NULL OR latest_time IS NULL OR latest_time > earliest_time)
+);
+
+-- Horario liberado reservado por tiempo limitado para un paciente en espera
+CREATE TABLE waitlist_holds (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    entry_id UUID NOT NULL REFERENCES waitlist_entries(id) ON DELETE CASCADE,
+    psychiatrist_id UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+    appointment_date DATE NOT NULL,
+    start_time TIME NOT NULL,
+    end_time TIME NOT NULL,
+    slot_end_time TIME NOT NULL, -- fin del horario liberado (para ofrecerlo al siguiente)
+    source_appointment_id UUID REFERENCES appointments(id) ON DELETE SET NULL,
+    expires_at TIMESTAMP WITH TIME ZONE NOT NULL,
+    status VARCHAR(20) NOT NULL DEFAULT 'held' CHECK (status IN ('held', 'confirmed', 'released', 'expired')),
+    appointment_id UUID REFERENCES appointments(id) ON DELETE SET NULL,
+    resolved_by UUID REFERENCES users(id) ON DELETE SET NULL,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+
+    CHECK (end_time > start_time AND slot_end_time >= end_time)
+);
+
+CREATE INDEX idx_waitlist_entries_status ON waitlist_entries(status, priority DESC, created_at);
+CREATE INDEX idx_waitlist_entries_patient ON waitlist_entries(patient_id);
+CREATE INDEX idx_waitlist_holds_active ON waitlist_holds(psychiatrist_id, appointment_date) WHERE status = 'held';
+CREATE INDEX idx_waitlist_holds_entry ON waitlist_holds(entry_id);
+
+-- Un paciente tiene como máximo una reserva vigente
+CREATE UNIQUE INDEX idx_waitlist_holds_one_active ON waitlist_holds(entry_id) WHERE status = 'held';
+
+-- Triggers para updated_at
+CREATE TRIGGER update_waitlist_entries_updated_at BEFORE UPDATE ON waitlist_entries
+    FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+CREATE TRIGGER update_waitlist_holds_updated_at BEFORE UPDATE ON waitlist_holds
+    FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+COMMENT ON TABLE waitlist_entries IS 'Lista de espera de pacientes con preferencias de psiquiatra, días y horario';
+COMMENT ON TABLE waitlist_holds IS 'Reservas temporales de horarios liberados por cancelaciones';
@@ -0,0 +1,23 @@
+-- Migración 017: Registro de envíos de recordatorios de citas
+-- Fecha: 2026-10-19
+
+-- Cada intento de envío de un recordatorio por un canal (correo, SMS, WhatsApp o archivo local)
+CREATE TABLE notification_deliveries (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    appointment_id UUID NOT NULL REFERENCES appointments(id) ON DELETE CASCADE,
+    patient_id UUID NOT NULL REFERENCES patients(id) ON DELETE CASCADE,
+    reminder_key VARCHAR(20) NOT NULL,
+    channel VARCHAR(20) NOT NULL CHECK (channel IN ('email', 'sms', 'whatsapp', 'file')),
+    recipient VARCHAR(255),
+    status VARCHAR(20) NOT NULL CHECK (status IN ('sent', 'failed', 'skipped')),
+    attempt INTEGER NOT NULL DEFAULT 1 CHECK (attempt > 0),
+    provider_message_id VARCHAR(255),
+    error TEXT,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE INDEX idx_notification_deliveries_appointment ON notification_deliveries(appointment_id, reminder_key, channel);
+CREATE INDEX idx_notification_deliveries_created ON notification_deliveries(created_at);
+
+COMMENT ON TABLE notification_deliveries IS 'Intentos de envío de recordatorios de citas por canal';
+COMMENT ON COLUMN notification_deliveries.reminder_key IS 'Anticipación del recordatorio, por ejemplo 48h o 2h';
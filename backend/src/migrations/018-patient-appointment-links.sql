@@ -0,0 +1,40 @@
+-- Migración 018: Confirmación, cancelación y solicitudes de reprogramación por enlace del paciente
+-- Fecha: 2026-10-19
+
+-- Origen de cada cambio de estado: personal de la clínica o enlace enviado al paciente
+ALTER TABLE appointment_status_history
+    ADD COLUMN source VARCHAR(20) NOT NULL DEFAULT 'staff' CHECK (source IN ('staff', 'patient_link'));
+
+-- Los cambios hechos por el paciente no tienen usuario asociado
+ALTER TABLE appointment_status_history ALTER COLUMN changed_by DROP NOT NULL;
+
+ALTER TABLE appointment_status_history
+    ADD CONSTRAINT appointment_status_history_staff_user CHECK (source <> 'staff' OR changed_by IS NOT NULL);
+
+-- Solicitudes de reprogramación enviadas por el paciente
+CREATE TABLE appointment_reschedule_requests (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    appointment_id UUID NOT NULL REFERENCES appointments(id) ON DELETE CASCADE,
+    patient_id UUID NOT NULL REFERENCES patients(id) ON DELETE CASCADE,
+    psychiatrist_id UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+    preferred_times TEXT,
+    message TEXT,
+    status VARCHAR(20) NOT NULL DEFAULT 'pending' CHECK (status IN ('pending', 'resolved', 'dismissed')),
+    source VARCHAR(20) NOT NULL DEFAULT 'patient_link' CHECK (source IN ('staff', 'patient_link')),
+    resolution_notes TEXT,
+    resolved_by UUID REFERENCES users(id) ON DELETE SET NULL,
+    resolved_at TIMESTAMP WITH TIME ZONE,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+-- Una sola solicitud pendiente por cita
+CREATE UNIQUE INDEX idx_reschedule_requests_pending ON appointment_reschedule_requests(appointment_id) WHERE status = 'pending';
+CREATE INDEX idx_reschedule_requests_psychiatrist ON appointment_reschedule_requests(psychiatrist_id, status, created_at);
+
+CREATE TRIGGER update_appointment_reschedule_requests_updated_at
+    BEFORE UPDATE ON appointment_reschedule_requests
+    FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+COMMENT ON COLUMN appointment_status_history.source IS 'Origen del cambio: staff o patient_link';
+COMMENT ON TABLE appointment_reschedule_requests IS 'Solicitudes de reprogramación enviadas por pacientes desde su enlace';
@@ -0,0 +1,47 @@
+-- Migración 019: Bitácora de auditoría de accesos a datos clínicos
+-- Fecha: 2026-10-19
+
+-- Registro de solo anexión encadenado por hash: cada entrada incluye el hash
+-- de la anterior, de modo que borrar o alterar una entrada rompe la cadena
+CREATE TABLE audit_log (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    sequence BIGINT NOT NULL UNIQUE CHECK (sequence > 0),
+    occurred_at TIMESTAMP WITH TIME ZONE NOT NULL,
+    user_id UUID,
+    user_role VARCHAR(20),
+    action VARCHAR(20) NOT NULL CHECK (action IN ('read', 'create', 'update', 'delete', 'export')),
+    resource_type VARCHAR(50) NOT NULL,
+    resource_id VARCHAR(100),
+    patient_id UUID,
+    method VARCHAR(10),
+    route VARCHAR(255),
+    status_code INTEGER,
+    request_id VARCHAR(100),
+    ip_address VARCHAR(64),
+    previous_hash CHAR(64) NOT NULL,
+    hash CHAR(64) NOT NULL UNIQUE
+);
+
+-- Sin claves foráneas: la bitácora se conserva aunque se eliminen usuarios o pacientes
+CREATE INDEX idx_audit_log_patient ON audit_log(patient_id, occurred_at);
+CREATE INDEX idx_audit_log_user ON audit_log(user_id, occurred_at);
+CREATE INDEX idx_audit_log_occurred ON audit_log(occurred_at);
+
+-- La bitácora no admite modificaciones ni borrados
+CREATE OR REPLACE FUNCTION prevent_audit_log_changes()
+RETURNS TRIGGER AS $$
+BEGIN
+    RAISE EXCEPTION 'La bitácora de auditoría es de solo anexión';
+END;
+$$ language 'plpgsql';
+
+CREATE TRIGGER audit_log_append_only
+    BEFORE UPDATE OR DELETE ON audit_log
+    FOR EACH ROW EXECUTE FUNCTION prevent_audit_log_changes();
+
+CREATE TRIGGER audit_log_no_truncate
+    BEFORE TRUNCATE ON audit_log
+    FOR EACH STATEMENT EXECUTE FUNCTION prevent_audit_log_changes();
+
+COMMENT ON TABLE audit_log IS 'Bitácora de auditoría de solo anexión, encadenada por hash SHA-256';
+COMMENT ON COLUMN audit_log.previous_hash IS 'Hash de la entrada anterior (ceros en la primera)';
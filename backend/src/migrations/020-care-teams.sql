@@ -0,0 +1,80 @@
+-- Migración 020: Equipo de atención por paciente
+-- Fecha: 2026-10-19
+
+-- Miembros del equipo de atención: psiquiatra principal, psiquiatras de
+-- cobertura y asistentes, cada uno con su periodo de participación
+CREATE TABLE patient_care_team_members (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    patient_id UUID NOT NULL REFERENCES patients(id) ON DELETE CASCADE,
+    user_id UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+    role VARCHAR(20) NOT NULL CHECK (role IN ('primary', 'covering', 'assistant')),
+    starts_on DATE NOT NULL DEFAULT CURRENT_DATE,
+    ends_on DATE, -- sin fecha de fin: participación vigente
+    added_by UUID REFERENCES users(id) ON DELETE SET NULL,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+
+    CHECK (ends_on IS NULL OR ends_on >= starts_on)
+);
+
+CREATE INDEX idx_care_team_patient ON patient_care_team_members(patient_id, starts_on);
+CREATE INDEX idx_care_team_user ON patient_care_team_members(user_id, starts_on);
+
+CREATE TRIGGER update_patient_care_team_members_updated_at
+    BEFORE UPDATE ON patient_care_team_members
+    FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+-- El psiquiatra que registró al paciente pasa a ser su psiquiatra principal
+INSERT INTO patient_care_team_members (patient_id, user_id, role, starts_on, added_by)
+SELECT p.id, p.created_by, 'primary', p.created_at::date, p.created_by
+FROM patients p
+INNER JOIN users u ON u.id = p.created_by
+WHERE u.role = 'psychiatrist';
+
+-- Los demás psiquiatras con citas o sesiones del paciente quedan como cobertura
+-- desde su primera atención
+INSERT INTO patient_care_team_members (patient_id, user_id, role, starts_on)
+SELECT care.patient_id, care.psychiatrist_id, 'covering', MIN(care.attended_on)
+FROM (
+    SELECT patient_id, psychiatrist_id, appointment_date AS attended_on FROM appointments
+    UNION ALL
+    SELECT patient_id, psychiatrist_id, session_date::date FROM consultation_sessions
+) care
+INNER JOIN users u ON u.id = care.psychiatrist_id AND u.role = 'psychiatrist'
+WHERE NOT EXISTS (
+    SELECT 1 FROM patient_care_team_members m
+    WHERE m.patient_id = care.patient_id AND m.user_id = care.psychiatrist_id
+)
+GROUP BY care.patient_id, care.psychiatrist_id;
+
+-- El acceso a las sesiones ya no depende de quién las creó sino del equipo
+-- de atención: el psiquiatra de la sesión debe ser principal o de cobertura
+-- del paciente en la fecha de la sesión
+DROP TRIGGER IF EXISTS validate_psychiatrist_access_trigger ON consultation_sessions;
+DROP FUNCTION IF EXISTS validate_psychiatrist_access();
+
+CREATE OR REPLACE FUNCTION validate_care_team_access()
+RETURNS TRIGGER AS $$
+BEGIN
+    IF NOT EXISTS (
+        SELECT 1 FROM patient_care_team_members m
+        WHERE m.patient_id = NEW.patient_id
+          AND m.user_id = NEW.psychiatrist_id
+          AND m.role IN ('primary', 'covering')
+          AND m.starts_on <= NEW.session_date::date
+          AND (m.ends_on IS NULL OR m.ends_on >= NEW.session_date::date)
+    ) THEN
+        RAISE EXCEPTION 'El psiquiatra no forma parte del equipo de atención del paciente';
+    END IF;
+
+    RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE TRIGGER validate_care_team_access_trigger
+    BEFORE INSERT OR UPDATE OF patient_id, psychiatrist_id, session_date ON consultation_sessions
+    FOR EACH ROW
+    EXECUTE FUNCTION validate_care_team_access();
+
+COMMENT ON TABLE patient_care_team_members IS 'Equipo de atención de cada paciente con su periodo de participación';
+COMMENT ON COLUMN patient_care_team_members.role IS 'primary, covering o assistant';
@@ -0,0 +1,32 @@
+-- Migración 021: Acceso de emergencia a pacientes fuera del equipo de atención
+-- Fecha: 2026-10-19
+
+-- Acceso de lectura temporal con justificación escrita obligatoria
+CREATE TABLE emergency_access_grants (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    patient_id UUID NOT NULL REFERENCES patients(id) ON DELETE CASCADE,
+    user_id UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+    reason TEXT NOT NULL CHECK (char_length(btrim(reason)) >= 20),
+    expires_at TIMESTAMP WITH TIME ZONE NOT NULL,
+    revoked_at TIMESTAMP WITH TIME ZONE, -- finalizado antes de vencer
+    revoked_by UUID REFERENCES users(id) ON DELETE SET NULL,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+
+    CHECK (expires_at > created_at)
+);
+
+CREATE INDEX idx_emergency_access_patient_user ON emergency_access_grants(patient_id, user_id, expires_at);
+CREATE INDEX idx_emergency_access_created ON emergency_access_grants(created_at);
+
+CREATE TRIGGER update_emergency_access_grants_updated_at
+    BEFORE UPDATE ON emergency_access_grants
+    FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+-- Cada lectura hecha con un acceso de emergencia queda marcada en la bitácora
+ALTER TABLE audit_log ADD COLUMN emergency_access_id UUID;
+
+CREATE INDEX idx_audit_log_emergency ON audit_log(emergency_access_id) WHERE emergency_access_id IS NOT NULL;
+
+COMMENT ON TABLE emergency_access_grants IS 'Accesos de emergencia a pacientes fuera del equipo de atención, con motivo y vencimiento';
+COMMENT ON COLUMN audit_log.emergency_access_id IS 'Acceso de emergencia con el que se hizo la lectura';
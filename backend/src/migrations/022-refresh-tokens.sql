@@ -0,0 +1,30 @@
+-- Migración 022: Refresh tokens persistidos con rotación y sesiones por dispositivo
+-- Fecha: 2026-10-19
+
+-- Cada refresh token emitido. Los de una misma familia pertenecen a una sesión
+-- (un inicio de sesión en un dispositivo) y se reemplazan en cada renovación
+CREATE TABLE refresh_tokens (
+    id UUID PRIMARY KEY, -- identificador (jti) del token firmado
+    user_id UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+    family_id UUID NOT NULL, -- sesión: ID del primer token de la familia
+    replaced_by UUID REFERENCES refresh_tokens(id) ON DELETE SET NULL,
+    user_agent VARCHAR(500),
+    ip_address VARCHAR(45),
+    expires_at TIMESTAMP WITH TIME ZONE NOT NULL,
+    revoked_at TIMESTAMP WITH TIME ZONE,
+    revoked_reason VARCHAR(20) CHECK (revoked_reason IN ('rotated', 'logout', 'revoked', 'reuse_detected')),
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+
+    CHECK ((revoked_at IS NULL) = (revoked_reason IS NULL))
+);
+
+CREATE INDEX idx_refresh_tokens_user ON refresh_tokens(user_id, expires_at) WHERE revoked_at IS NULL;
+CREATE INDEX idx_refresh_tokens_family ON refresh_tokens(family_id);
+
+CREATE TRIGGER update_refresh_tokens_updated_at
+    BEFORE UPDATE ON refresh_tokens
+    FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+COMMENT ON TABLE refresh_tokens IS 'Refresh tokens emitidos, la reutilización de uno ya rotado revoca toda su familia';
+COMMENT ON COLUMN refresh_tokens.revoked_reason IS 'rotated, logout, revoked o reuse_detected';
@@ -0,0 +1,156 @@
+import { addDays, format } from 'date-fns';
+import { clearMemoryRepositories, Values } from '@/repositories';
+import { AppointmentModel, appointmentRepository } from '@/models/Appointment';
+import { careTeamRepository } from '@/models/CareTeam';
+import { patientRepository } from '@/models/Patient';
+import { userRepository } from '@/models/User';
+import { Appointment } from '@/types';
+
+// Repositorios en memoria y SQL simulado: las consultas de verificación
+// previa no devuelven filas, así que el conflicto solo aparece al insertar
+jest.mock('@/config', () => {
+  const { default: config } = jest.requireActual('@/config');
+  return { __esModule: true, default: { ...config, database: { ...config.database, driver: 'memory' } } };
+});
+
+jest.mock('@/config/database', () => ({
+  __esModule: true,
+  default: { query: jest.fn(async () => ({ rows: [] })) }
+}));
+
+const toMinutes = (time: string): number => {
+  const [hours, minutes] = time.split(':').map(Number);
+  return hours * 60 + minutes;
+};
+
+/**
+ * Simular el error de la restricción de exclusión de la migración 010
+ * (código 23P01) al insertar un horario ya ocupado. Estas pruebas verifican
+ * cómo el modelo traduce ese error; la restricción en sí solo existe en
+ * PostgreSQL y no se ejerce aquí.
+ */
+const emulateOverlapConstraint = () => {
+  const booked: Values<Appointment>[] = [];
+  const insert = appointmentRepository.insert.bind(appointmentRepository);
+
+  return jest.spyOn(appointmentRepository, 'insert').mockImplementation(async (data: Values<Appointment>) => {
+    const overlaps = booked.find(other =>
+      other.psychiatrist_id === data.psychiatrist_id &&
+      other.appointment_date === data.appointment_date &&
+      toMinutes(other.start_time!) < toMinutes(data.end_time!) &&
+      toMinutes(data.start_time!) < toMinutes(other.end_time!)
+    );
+
+    if (overlaps) {
+      throw Object.assign(new Error('conflicting key value violates exclusion constraint'), {
+        code: '23P01',
+        constraint: 'appointments_psychiatrist_no_overlap'
+      });
+    }
+
+    booked.push(data);
+    return insert(data);
+  });
+};
+
+describe('AppointmentModel.create (errores de la base de datos simulados)', () => {
+  const appointmentDate = format(addDays(new Date(), 7), 'yyyy-MM-dd');
+  let psychiatristId: string;
+  let patientIds: string[];
+
+  beforeEach(async () => {
+    clearMemoryRepositories();
+
+    const psychiatrist = await userRepository.insert({
+      email: 'psiquiatra@example.com',
+      full_name: 'Psiquiatra de prueba',
+      role: 'psychiatrist',
+      is_active: true
+    });
+    psychiatristId = psychiatrist.id;
+
+    patientIds = await Promise.all([1, 2, 3, 4, 5].map(async index => {
+      const patient = await patientRepository.insert({
+        medical_record_number: `2026-00${index}`,
+        first_name: 'Paciente',
+        last_name: `${index}`,
+        phone: '+582120000000',
+        is_active: true,
+        created_by: psychiatrist.id
+      });
+      await careTeamRepository.insert({
+        patient_id: patient.id,
+        user_id: psychiatrist.id,
+        role: 'primary',
+        starts_on: '2026-01-01',
+        ends_on: null,
+        added_by: psychiatrist.id
+      });
+      return patient.id;
+    }));
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('traduce la violación de solapamiento a un conflicto de horario en reservas simultáneas', async () => {
+    emulateOverlapConstraint();
+
+    const results = await Promise.allSettled(patientIds.map(patientId =>
+      AppointmentModel.create({
+        patient_id: patientId,
+        appointment_date: appointmentDate,
+        start_time: '10:00',
+        duration_minutes: 60,
+        type: 'follow_up'
+      }, psychiatristId)
+    ));
+
+    const fulfilled = results.filter(result => result.status === 'fulfilled');
+    const rejected = results.filter((result): result is PromiseRejectedResult => result.status === 'rejected');
+
+    expect(fulfilled).toHaveLength(1);
+    expect(rejected).toHaveLength(patientIds.length - 1);
+    rejected.forEach(result => {
+      expect(result.reason).toBeInstanceOf(Error);
+      expect(result.reason.message).toBe('El psiquiatra ya tiene una cita en ese horario');
+    });
+    expect(await appointmentRepository.count({ psychiatrist_id: psychiatristId })).toBe(1);
+  });
+
+  it('acepta reservas simultáneas que no se solapan', async () => {
+    emulateOverlapConstraint();
+
+    const results = await Promise.allSettled(['09:00', '10:00', '11:00'].map((startTime, index) =>
+      AppointmentModel.create({
+        patient_id: patientIds[index],
+        appointment_date: appointmentDate,
+        start_time: startTime,
+        duration_minutes: 60,
+        type: 'follow_up'
+      }, psychiatristId)
+    ));
+
+    expect(results.every(result => result.status === 'fulfilled')).toBe(true);
+  });
+
+  it('rechaza reservas con un psiquiatra fuera del equipo de atención sin incorporarlo', async () => {
+    const colleague = await userRepository.insert({
+      email: 'colega@example.com',
+      full_name: 'Colega de prueba',
+      role: 'psychiatrist',
+      is_active: true
+    });
+
+    await expect(AppointmentModel.create({
+      patient_id: patientIds[0],
+      appointment_date: appointmentDate,
+      start_time: '10:00',
+      duration_minutes: 60,
+      type: 'follow_up'
+    }, colleague.id)).rejects.toThrow('El psiquiatra no forma parte del equipo de atención del paciente');
+
+    expect(await careTeamRepository.count({ user_id: colleague.id })).toBe(0);
+  });
+});
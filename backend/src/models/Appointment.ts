@@ -1,7 +1,73 @@
 import database from '@/config/database';
-import { Appointment, AppointmentCreateRequest, AppointmentUpdateRequest } from '@/types';
+import {
+  Appointment,
+  AppointmentCreateRequest,
+  AppointmentSeries,
+  AppointmentSeriesCreateRequest,
+  AppointmentSeriesResult,
+  AppointmentStatus,
+  AppointmentStatusHistory,
+  AppointmentUpdateRequest,
+  AvailabilitySearchRequest,
+  AvailableSlot,
+  ChangeSource,
+  SeriesOccurrenceConflict,
+  SeriesScope
+} from '@/types';
+import { createRepository, Filter, runInTransaction } from '@/repositories';
+import { patientRepository } from '@/models/Patient';
+import { UserModel } from '@/models/User';
+import { PsychiatristScheduleModel } from '@/models/PsychiatristSchedule';
+import { HolidayModel } from '@/models/Holiday';
+import { TimeOffModel } from '@/models/TimeOff';
+import { WaitlistModel } from '@/models/Waitlist';
+import { CareTeamModel } from '@/models/CareTeam';
+import {
+  conflictsWithBuffer,
+  dayRangeOf,
+  fitsWorkingHours,
+  MinuteRange,
+  minutesToTime,
+  overlappingBreak,
+  rangesOverlap,
+  TIME_OF_DAY_RANGES,
+  timeToMinutes,
+  workingRangesFor
+} from '@/utils/schedule';
+import { expandRecurrence } from '@/utils/recurrence';
+import { findTransitionProblem } from '@/utils/appointmentStatus';
 import { v4 as uuidv4 } from 'uuid';
-import { parseISO, addMinutes, isAfter, isBefore, format } from 'date-fns';
+import {
+  parseISO,
+  addDays,
+  addMinutes,
+  isBefore,
+  isAfter,
+  format,
+  getDay,
+  differenceInCalendarDays,
+  differenceInMinutes
+} from 'date-fns';
+
+export const appointmentRepository = createRepository<Appointment>({
+  table: 'appointments',
+  defaults: { status: 'scheduled' }
+});
+
+export const appointmentSeriesRepository = createRepository<AppointmentSeries>({
+  table: 'appointment_series'
+});
+
+export const appointmentStatusHistoryRepository = createRepository<AppointmentStatusHistory>({
+  table: 'appointment_status_history',
+  timestamps: ['created_at']
+});
+
+// Restricciones de exclusión de horario (migración 010) y el error de negocio de cada una
+const OVERLAP_CONSTRAINT_ERRORS: Record<string, string> = {
+  appointments_patient_no_overlap: 'El paciente ya tiene una cita en ese horario',
+  appointments_psychiatrist_no_overlap: 'El psiquiatra ya tiene una cita en ese horario'
+};
 
 export class AppointmentModel {
   /**
@@ -10,6 +76,25 @@ export class AppointmentModel {
   static async create(
     appointmentData: AppointmentCreateRequest,
     psychiatristId: string
+  ): Promise<Appointment> {
+    // Las restricciones de exclusión garantizan que dos reservas simultáneas
+    // del mismo horario no se confirmen ambas; la verificación previa solo
+    // anticipa el error
+    return runInTransaction(async () => {
+      // Validaciones de negocio
+      await this.validateAppointmentData(appointmentData, psychiatristId);
+      
+      return this.insertAppointment(appointmentData, psychiatristId);
+    });
+  }
+
+  /**
+   * Insertar una cita ya validada (opcionalmente como parte de una serie)
+   */
+  private static async insertAppointment(
+    appointmentData: AppointmentCreateRequest,
+    psychiatristId: string,
+    occurrence?: { series_id: string; series_index: number }
   ): Promise<Appointment> {
     const {
       patient_id,
@@ -20,9 +105,6 @@ export class AppointmentModel {
       notes
     } = appointmentData;
     
-    // Validaciones de negocio
-    await this.validateAppointmentData(appointmentData, psychiatristId);
-    
     // Generar ID único
     const id = uuidv4();
     
@@ -30,31 +112,24 @@ export class AppointmentModel {
     const startTime = this.parseTime(start_time);
     const endTime = format(addMinutes(startTime, duration_minutes), 'HH:mm');
     
-    const query = `
-      INSERT INTO appointments (
-        id, patient_id, psychiatrist_id, appointment_date, start_time, end_time,
-        duration_minutes, type, status, notes
-      ) VALUES (
-        $1, $2, $3, $4, $5, $6, $7, $8, $9, $10
-      )
-      RETURNING *
-    `;
-    
-    const values = [
+    const appointment = await appointmentRepository.insert({
       id,
       patient_id,
-      psychiatristId,
+      psychiatrist_id: psychiatristId,
       appointment_date,
       start_time,
-      endTime,
+      end_time: endTime,
       duration_minutes,
       type,
-      'scheduled', // status por defecto
-      notes?.trim() || null
-    ];
+      status: 'scheduled', // status por defecto
+      notes: notes?.trim() || undefined,
+      series_id: occurrence?.series_id,
+      series_index: occurrence?.series_index
+    }).catch(error => this.rethrowOverlap(error));
+    
+    await this.recordStatusChange(appointment.id, null, appointment.status, { changedBy: psychiatristId });
     
-    const result = await database.query(query, values);
-    return result.rows[0];
+    return appointment;
   }
 
   /**
@@ -65,21 +140,10 @@ export class AppointmentModel {
     psychiatristId: string
   ): Promise<void> {
     const { patient_id, appointment_date, start_time, duration_minutes } = appointmentData;
-    
-    // 1. Validar que la fecha no sea pasada
-    const appointmentDateTime = parseISO(appointment_date);
-    if (isBefore(appointmentDateTime, new Date())) {
-      throw new Error('No se pueden programar citas en fechas pasadas');
-    }
-    
-    // 2. Validar horario laboral (8:00 - 20:00)
     const startTime = this.parseTime(start_time);
-    const workStart = this.parseTime('08:00');
-    const workEnd = this.parseTime('20:00');
     
-    if (isBefore(startTime, workStart) || isAfter(startTime, workEnd)) {
-      throw new Error('Las citas solo se pueden programar entre las 8:00 AM y 8:00 PM');
-    }
+    // 1-2. Validar fecha, horario laboral, descansos y anticipación según el horario del psiquiatra
+    await this.validateSchedule(psychiatristId, appointment_date, start_time, duration_minutes);
     
     // 3. Validar duración mínima (15 minutos)
     if (duration_minutes < 15) {
@@ -92,14 +156,17 @@ export class AppointmentModel {
     }
     
     // 5. Verificar que el paciente existe y está activo
-    const patientQuery = `
-      SELECT id FROM patients WHERE id = $1 AND is_active = true
-    `;
-    const patientResult = await database.query(patientQuery, [patient_id]);
-    if (patientResult.rows.length === 0) {
+    const activePatients = await patientRepository.count({ id: patient_id, is_active: true });
+    if (activePatients === 0) {
       throw new Error('El paciente no existe o está inactivo');
     }
     
+    // El psiquiatra debe atender al paciente (principal o cobertura) en la
+    // fecha de la cita; la asignación se hace desde el equipo de atención
+    if (!(await CareTeamModel.isClinicalMember(patient_id, psychiatristId, appointment_date.slice(0, 10)))) {
+      throw new Error('El psiquiatra no forma parte del equipo de atención del paciente');
+    }
+    
     // 6. Verificar conflictos con otras citas del mismo paciente
     const patientConflictQuery = `
       SELECT id FROM appointments
@@ -148,16 +215,110 @@ export class AppointmentModel {
     if (psychiatristConflictResult.rows.length > 0) {
       throw new Error('El psiquiatra ya tiene una cita en ese horario');
     }
+  }
+
+  /**
+   * Validar la cita contra el horario del psiquiatra: fecha futura, feriados,
+   * periodos no disponibles, reservas de la lista de espera, franja de
+   * atención, descansos, anticipación mínima y separación entre citas
+   */
+  private static async validateSchedule(
+    psychiatristId: string,
+    appointmentDate: string | Date,
+    startTime: string,
+    durationMinutes: number,
+    excludeAppointmentId?: string
+  ): Promise<void> {
+    const schedule = await PsychiatristScheduleModel.findByPsychiatristId(psychiatristId);
+    const date = this.toDateString(appointmentDate);
+    const startsAt = parseISO(`${date}T${minutesToTime(timeToMinutes(startTime))}`);
+    const weekday = getDay(startsAt);
+    const range = { start: timeToMinutes(startTime), end: timeToMinutes(startTime) + durationMinutes };
     
-    // 8. Validar anticipación mínima (1 hora)
-    const timeDiff = appointmentDateTime.getTime() - new Date().getTime();
-    const hoursDiff = timeDiff / (1000 * 60 * 60);
+    if (isBefore(startsAt, new Date())) {
+      throw new Error('No se pueden programar citas en fechas pasadas');
+    }
+    
+    const holiday = await HolidayModel.findByDate(date);
+    if (holiday) {
+      throw new Error(`La fecha es feriado: ${holiday.name}`);
+    }
+    
+    const [timeOff] = await TimeOffModel.findBlocking(
+      psychiatristId,
+      startsAt,
+      addMinutes(startsAt, durationMinutes)
+    );
+    if (timeOff) {
+      throw new Error(
+        `El psiquiatra no está disponible en ese horario (${timeOff.psychiatrist_id ? 'ausencia registrada' : 'bloqueo de la clínica'}${timeOff.reason ? `: ${timeOff.reason}` : ''})`
+      );
+    }
     
-    if (hoursDiff < 1) {
-      throw new Error('Las citas deben programarse con al menos 1 hora de anticipación');
+    if (await WaitlistModel.findOverlappingHold(psychiatristId, date, range)) {
+      throw new Error('El horario está reservado temporalmente para un paciente de la lista de espera');
+    }
+    
+    if (!fitsWorkingHours(schedule, weekday, range)) {
+      const hours = workingRangesFor(schedule, weekday)
+        .map(item => `${minutesToTime(item.start)}-${minutesToTime(item.end)}`)
+        .join(', ');
+      throw new Error(hours
+        ? `La cita está fuera del horario laboral del psiquiatra (${hours})`
+        : 'El psiquiatra no tiene horario laboral ese día');
+    }
+    
+    const scheduleBreak = overlappingBreak(schedule, weekday, range);
+    if (scheduleBreak) {
+      throw new Error(
+        `La cita coincide con un descanso del psiquiatra (${scheduleBreak.label || `${scheduleBreak.start_time}-${scheduleBreak.end_time}`})`
+      );
+    }
+    
+    if (differenceInMinutes(startsAt, new Date()) < schedule.min_lead_minutes) {
+      throw new Error(`Las citas deben programarse con al menos ${schedule.min_lead_minutes} minutos de anticipación`);
+    }
+    
+    if (schedule.buffer_minutes > 0) {
+      const existingResult = await database.query(
+        `SELECT start_time, end_time FROM appointments
+         WHERE psychiatrist_id = $1
+           AND appointment_date = $2
+           AND status NOT IN ('cancelled', 'no_show')
+           AND ($3::uuid IS NULL OR id != $3)`,
+        [psychiatristId, date, excludeAppointmentId || null]
+      );
+      
+      const tooClose = existingResult.rows.some((appointment: { start_time: string; end_time: string }) =>
+        conflictsWithBuffer(
+          range,
+          { start: timeToMinutes(appointment.start_time), end: timeToMinutes(appointment.end_time) },
+          schedule.buffer_minutes
+        )
+      );
+      
+      if (tooClose) {
+        throw new Error(`Conflicto de horario: el psiquiatra requiere ${schedule.buffer_minutes} minutos entre citas`);
+      }
     }
   }
 
+  /**
+   * Fecha de cita como YYYY-MM-DD (la columna DATE llega como Date)
+   */
+  private static toDateString(date: string | Date): string {
+    return typeof date === 'string' ? date.slice(0, 10) : format(date, 'yyyy-MM-dd');
+  }
+
+  /**
+   * Traducir una violación de las restricciones de exclusión (23P01) al error
+   * de conflicto correspondiente; cualquier otro error se propaga sin cambios
+   */
+  private static rethrowOverlap(error: any): never {
+    const message = error?.code === '23P01' && OVERLAP_CONSTRAINT_ERRORS[error.constraint];
+    throw message ? new Error(message) : error;
+  }
+
   /**
    * Parsear string de tiempo a Date
    */
@@ -172,14 +333,7 @@ export class AppointmentModel {
    * Buscar cita por ID
    */
   static async findById(id: string): Promise<Appointment | null> {
-    const query = `
-      SELECT *
-      FROM appointments
-      WHERE id = $1
-    `;
-    
-    const result = await database.query(query, [id]);
-    return result.rows[0] || null;
+    return appointmentRepository.findById(id);
   }
 
   /**
@@ -195,93 +349,63 @@ export class AppointmentModel {
       type?: string;
       date_from?: string;
       date_to?: string;
+      care_team_user_id?: string; // solo citas de pacientes del equipo de atención del usuario
     }
   ): Promise<{ appointments: Appointment[], total: number }> {
     const offset = (page - 1) * limit;
-    let whereClause = 'WHERE 1=1';
-    const queryParams: any[] = [];
-    let paramCount = 1;
+    const filter: Filter<Appointment> = {};
     
     // Agregar filtros
     if (filters) {
-      if (filters.patient_id) {
-        whereClause += ` AND patient_id = $${paramCount}`;
-        queryParams.push(filters.patient_id);
-        paramCount++;
-      }
+      filter.patient_id = filters.patient_id || undefined;
+      filter.psychiatrist_id = filters.psychiatrist_id || undefined;
+      filter.status = (filters.status as Appointment['status']) || undefined;
+      filter.type = (filters.type as Appointment['type']) || undefined;
       
-      if (filters.psychiatrist_id) {
-        whereClause += ` AND psychiatrist_id = $${paramCount}`;
-        queryParams.push(filters.psychiatrist_id);
-        paramCount++;
+      if (filters.date_from || filters.date_to) {
+        filter.appointment_date = {
+          gte: filters.date_from,
+          lte: filters.date_to
+        };
       }
       
-      if (filters.status) {
-        whereClause += ` AND status = $${paramCount}`;
-        queryParams.push(filters.status);
-        paramCount++;
-      }
-      
-      if (filters.type) {
-        whereClause += ` AND type = $${paramCount}`;
-        queryParams.push(filters.type);
-        paramCount++;
-      }
-      
-      if (filters.date_from) {
-        whereClause += ` AND appointment_date >= $${paramCount}`;
-        queryParams.push(filters.date_from);
-        paramCount++;
-      }
-      
-      if (filters.date_to) {
-        whereClause += ` AND appointment_date <= $${paramCount}`;
-        queryParams.push(filters.date_to);
-        paramCount++;
+      if (filters.care_team_user_id) {
+        const patientIds = await CareTeamModel.findActivePatientIds(filters.care_team_user_id);
+        filter.patient_id = filters.patient_id
+          ? patientIds.filter(patientId => patientId === filters.patient_id)
+          : patientIds;
       }
     }
     
-    const query = `
-      SELECT *
-      FROM appointments
-      ${whereClause}
-      ORDER BY appointment_date DESC, start_time DESC
-      LIMIT $${paramCount} OFFSET $${paramCount + 1}
-    `;
-    
-    queryParams.push(limit, offset);
-    
-    const countQuery = `
-      SELECT COUNT(*) as total
-      FROM appointments
-      ${whereClause}
-    `;
-    
-    const [appointmentsResult, countResult] = await Promise.all([
-      database.query(query, queryParams),
-      database.query(countQuery, queryParams.slice(0, -2)) // Excluir limit y offset
+    const [appointments, total] = await Promise.all([
+      appointmentRepository.findMany(filter, {
+        orderBy: [
+          { column: 'appointment_date', direction: 'DESC' },
+          { column: 'start_time', direction: 'DESC' }
+        ],
+        limit,
+        offset
+      }),
+      appointmentRepository.count(filter)
     ]);
     
-    return {
-      appointments: appointmentsResult.rows,
-      total: parseInt(countResult.rows[0].total)
-    };
+    return { appointments, total };
   }
 
   /**
    * Obtener citas de un paciente
    */
   static async findByPatientId(patientId: string, limit: number = 50): Promise<Appointment[]> {
-    const query = `
-      SELECT *
-      FROM appointments
-      WHERE patient_id = $1
-      ORDER BY appointment_date DESC, start_time DESC
-      LIMIT $2
-    `;
-    
-    const result = await database.query(query, [patientId, limit]);
-    return result.rows;
+    return appointmentRepository.findMany(
+      { patient_id: patientId },
+      {
+        orderBy: [
+          { column: 'appointment_date', direction: 'DESC' },
+          { column: 'start_time', direction: 'DESC' }
+        ],
+        limit
+      }
+    );
   }
 
   /**
@@ -307,28 +431,30 @@ export class AppointmentModel {
   }
 
   /**
-   * Obtener próximas citas
+   * Obtener próximas citas (desde mañana, u hoy con includeToday)
    */
   static async findUpcomingAppointments(
     psychiatristId?: string,
-    days: number = 7
+    days: number = 7,
+    options: { includeToday?: boolean; limit?: number } = {}
   ): Promise<Appointment[]> {
+    const params: (string | number)[] = [days];
     let query = `
       SELECT *
       FROM appointments
-      WHERE appointment_date > CURRENT_DATE
-        AND appointment_date <= CURRENT_DATE + INTERVAL '${days} days'
+      WHERE appointment_date ${options.includeToday ? '>=' : '>'} CURRENT_DATE
+        AND appointment_date <= CURRENT_DATE + $1 * INTERVAL '1 day'
     `;
     
-    const params = [];
     if (psychiatristId) {
-      query += ` AND psychiatrist_id = $1`;
       params.push(psychiatristId);
+      query += ` AND psychiatrist_id = $${params.length}`;
     }
     
+    params.push(options.limit ?? 100);
     query += ` AND status IN ('scheduled', 'confirmed')
               ORDER BY appointment_date ASC, start_time ASC
-              LIMIT 100`;
+              LIMIT $${params.length}`;
     
     const result = await database.query(query, params);
     return result.rows;
@@ -342,10 +468,23 @@ export class AppointmentModel {
     psychiatristId: string,
     durationMinutes: number = 60
   ): Promise<string[]> {
-    // Horario laboral: 8:00 AM - 8:00 PM
-    const workStart = 8 * 60; // minutos desde medianoche
-    const workEnd = 20 * 60;
-    const slotDuration = 30; // slots de 30 minutos
+    const schedule = await PsychiatristScheduleModel.findByPsychiatristId(psychiatristId);
+    const day = parseISO(this.toDateString(date));
+    const weekday = getDay(day);
+    // Turnos anteriores a este momento no cumplen la anticipación mínima
+    const earliestStart = addMinutes(new Date(), schedule.min_lead_minutes);
+    
+    // Los feriados no tienen turnos
+    if (await HolidayModel.findByDate(this.toDateString(date))) {
+      return [];
+    }
+    
+    // Vacaciones y bloqueos que tocan el día
+    const blockedRanges = (await TimeOffModel.findBlocking(psychiatristId, day, addMinutes(day, 24 * 60)))
+      .map(timeOff => dayRangeOf(timeOff, day))
+      .filter((range): range is MinuteRange => range !== null)
+      // Horarios reservados para la lista de espera
+      .concat(await WaitlistModel.findHeldRanges(psychiatristId, this.toDateString(date)));
     
     // Obtener citas existentes para esa fecha
     const existingAppointmentsQuery = `
@@ -358,25 +497,36 @@ export class AppointmentModel {
     `;
     
     const existingResult = await database.query(existingAppointmentsQuery, [date, psychiatristId]);
-    const existingAppointments = existingResult.rows;
+    const existingAppointments: { start: number; end: number }[] = existingResult.rows.map(
+      (appointment: { start_time: string; end_time: string }) => ({
+        start: timeToMinutes(appointment.start_time),
+        end: timeToMinutes(appointment.end_time)
+      })
+    );
     
-    // Generar todos los slots disponibles
+    // Generar los turnos de cada franja de atención del día
     const availableSlots: string[] = [];
     
-    for (let start = workStart; start <= workEnd - durationMinutes; start += slotDuration) {
-      const slotStart = this.minutesToTime(start);
-      const slotEnd = this.minutesToTime(start + durationMinutes);
-      
-      // Verificar si el slot se superpone con citas existentes
-      const hasConflict = existingAppointments.some(appointment => {
-        const apptStart = this.timeToMinutes(appointment.start_time);
-        const apptEnd = this.timeToMinutes(appointment.end_time);
+    for (const hours of workingRangesFor(schedule, weekday)) {
+      for (let start = hours.start; start + durationMinutes <= hours.end; start += schedule.slot_minutes) {
+        const slot = { start, end: start + durationMinutes };
         
-        return (start < apptEnd && (start + durationMinutes) > apptStart);
-      });
-      
-      if (!hasConflict) {
-        availableSlots.push(slotStart);
+        if (
+          overlappingBreak(schedule, weekday, slot) ||
+          isBefore(addMinutes(day, start), earliestStart) ||
+          blockedRanges.some(range => rangesOverlap(slot, range))
+        ) {
+          continue;
+        }
+        
+        // Verificar si el turno se superpone (con la separación mínima) con citas existentes
+        const hasConflict = existingAppointments.some(appointment =>
+          conflictsWithBuffer(slot, appointment, schedule.buffer_minutes)
+        );
+        
+        if (!hasConflict) {
+          availableSlots.push(minutesToTime(start));
+        }
       }
     }
     
@@ -384,20 +534,53 @@ export class AppointmentModel {
   }
 
   /**
-   * Convertir minutos a formato HH:MM
+   * Buscar los primeros turnos libres entre varios psiquiatras y días. Los
+   * días se recorren en orden y la búsqueda termina al completar el límite;
+   * a igual hora se prefiere al psiquiatra con la agenda más libre ese día
    */
-  private static minutesToTime(minutes: number): string {
-    const hours = Math.floor(minutes / 60);
-    const mins = minutes % 60;
-    return `${hours.toString().padStart(2, '0')}:${mins.toString().padStart(2, '0')}`;
-  }
+  static async searchAvailability(search: AvailabilitySearchRequest): Promise<AvailableSlot[]> {
+    const psychiatrists = await UserModel.findActivePsychiatrists(search.psychiatrist_ids);
+    const window = search.time_of_day ? TIME_OF_DAY_RANGES[search.time_of_day] : null;
+    const lastDay = parseISO(search.to);
+    const found: (Omit<AvailableSlot, 'rank'> & { free_slots: number })[] = [];
 
-  /**
-   * Convertir HH:MM a minutos
-   */
-  private static timeToMinutes(timeString: string): number {
-    const [hours, minutes] = timeString.split(':').map(Number);
-    return hours * 60 + minutes;
+    for (
+      let day = parseISO(search.from);
+      !isAfter(day, lastDay) && found.length < search.limit;
+      day = addDays(day, 1)
+    ) {
+      const date = format(day, 'yyyy-MM-dd');
+
+      const daySlots = (await Promise.all(
+        psychiatrists.map(async psychiatrist => {
+          const starts = await this.getAvailability(date, psychiatrist.id, search.duration_minutes);
+
+          return starts
+            .filter(start => !window || (timeToMinutes(start) >= window.start && timeToMinutes(start) < window.end))
+            .map(start => ({
+              psychiatrist_id: psychiatrist.id,
+              psychiatrist_name: psychiatrist.full_name,
+              appointment_date: date,
+              start_time: start,
+              end_time: minutesToTime(timeToMinutes(start) + search.duration_minutes),
+              duration_minutes: search.duration_minutes,
+              type: search.type,
+              free_slots: starts.length
+            }));
+        })
+      )).flat();
+
+      daySlots.sort((a, b) =>
+        a.start_time.localeCompare(b.start_time) ||
+        b.free_slots - a.free_slots ||
+        a.psychiatrist_name.localeCompare(b.psychiatrist_name)
+      );
+      found.push(...daySlots);
+    }
+
+    return found
+      .slice(0, search.limit)
+      .map(({ free_slots, ...slot }, index) => ({ rank: index + 1, ...slot }));
   }
 
   /**
@@ -408,119 +591,423 @@ export class AppointmentModel {
     updates: AppointmentUpdateRequest,
     psychiatristId: string
   ): Promise<Appointment | null> {
+    // El estado solo cambia con updateStatus, que aplica las transiciones permitidas
     const allowedFields = [
-      'appointment_date', 'start_time', 'duration_minutes', 'type', 'status', 'notes'
+      'appointment_date', 'start_time', 'duration_minutes', 'type', 'notes'
     ];
     
-    const setClause = [];
-    const values = [];
-    let paramCount = 1;
+    const changes: Record<string, unknown> = {};
     
-    // Construir cláusula SET dinámicamente
+    // Solo campos permitidos
     Object.keys(updates).forEach(key => {
       if (allowedFields.includes(key) && updates[key as keyof AppointmentUpdateRequest] !== undefined) {
-        setClause.push(`${key} = $${paramCount}`);
-        values.push(updates[key as keyof AppointmentUpdateRequest]);
-        paramCount++;
+        changes[key] = updates[key as keyof AppointmentUpdateRequest];
       }
     });
     
-    if (setClause.length === 0) {
+    if (Object.keys(changes).length === 0) {
       throw new Error('No hay campos válidos para actualizar');
     }
     
-    // Si se actualiza la fecha, hora o duración, recalcular end_time y validar
-    if (updates.appointment_date || updates.start_time || updates.duration_minutes) {
-      const appointment = await this.findById(id);
+    // Validación de conflictos y actualización como una unidad (reprogramación)
+    return runInTransaction(async () => {
+      // Si se actualiza la fecha, hora o duración, recalcular end_time y validar
+      if (updates.appointment_date || updates.start_time || updates.duration_minutes) {
+        const appointment = await this.findById(id);
+        if (!appointment) {
+          throw new Error('Cita no encontrada');
+        }
+        
+        const newDate = updates.appointment_date || appointment.appointment_date;
+        const newStartTime = updates.start_time || appointment.start_time;
+        const newDuration = updates.duration_minutes || appointment.duration_minutes;
+        
+        // Validaciones de negocio
+        await this.validateSchedule(appointment.psychiatrist_id, newDate, newStartTime, newDuration, id);
+        
+        const startTime = this.parseTime(newStartTime);
+        const endTime = format(addMinutes(startTime, newDuration), 'HH:mm');
+        
+        changes.end_time = endTime;
+        
+        // Validar conflictos (excluyendo la cita actual)
+        const conflictQuery = `
+          SELECT id FROM appointments
+          WHERE id != $1
+            AND psychiatrist_id = $2
+            AND appointment_date = $3
+            AND status NOT IN ('cancelled', 'no_show')
+            AND (
+              (start_time <= $4 AND end_time > $4) OR
+              (start_time < $5 AND end_time >= $5) OR
+              (start_time >= $4 AND end_time <= $5)
+            )
+        `;
+        
+        const conflictResult = await database.query(conflictQuery, [
+          id,
+          psychiatristId,
+          newDate,
+          newStartTime,
+          endTime
+        ]);
+        
+        if (conflictResult.rows.length > 0) {
+          throw new Error('Conflicto de horario con otra cita');
+        }
+      }
+      
+      const [appointment] = await appointmentRepository.update(
+        { id, psychiatrist_id: psychiatristId },
+        changes as Partial<Appointment>
+      ).catch(error => this.rethrowOverlap(error));
+      return appointment || null;
+    });
+  }
+
+  /**
+   * Cambiar estado de cita según las transiciones permitidas y registrar el cambio
+   */
+  static async updateStatus(
+    id: string,
+    status: AppointmentStatus,
+    psychiatristId: string,
+    change: { reason?: string; changedBy?: string; source?: ChangeSource } = {}
+  ): Promise<Appointment | null> {
+    return runInTransaction(async () => {
+      const current = await appointmentRepository.findOne({ id, psychiatrist_id: psychiatristId });
+      if (!current) {
+        return null;
+      }
+      
+      const problem = findTransitionProblem(current.status, status, change.reason);
+      if (problem) {
+        throw new Error(problem);
+      }
+      
+      // El estado leído debe seguir vigente; reactivar una cita cancelada
+      // puede chocar con otra ocupada después
+      const [appointment] = await appointmentRepository.update(
+        { id, psychiatrist_id: psychiatristId, status: current.status },
+        { status }
+      ).catch(error => this.rethrowOverlap(error));
+      
       if (!appointment) {
-        throw new Error('Cita no encontrada');
+        throw new Error('La cita fue modificada por otro usuario, intente de nuevo');
       }
       
-      const newDate = updates.appointment_date || appointment.appointment_date;
-      const newStartTime = updates.start_time || appointment.start_time;
-      const newDuration = updates.duration_minutes || appointment.duration_minutes;
+      await this.recordStatusChange(appointment.id, current.status, status, {
+        ...change,
+        changedBy: change.changedBy || psychiatristId
+      });
       
-      // Validaciones de negocio
-      const startTime = this.parseTime(newStartTime);
-      const endTime = format(addMinutes(startTime, newDuration), 'HH:mm');
+      return appointment;
+    });
+  }
+
+  /**
+   * Historial de estados de una cita, del más antiguo al más reciente
+   */
+  static async findStatusHistory(appointmentId: string): Promise<AppointmentStatusHistory[]> {
+    return appointmentStatusHistoryRepository.findMany(
+      { appointment_id: appointmentId },
+      { orderBy: [{ column: 'created_at' }] }
+    );
+  }
+
+  /**
+   * Registrar un cambio de estado en el historial. Los cambios del personal
+   * guardan el usuario; los hechos por el paciente desde su enlace, no.
+   */
+  private static async recordStatusChange(
+    appointmentId: string,
+    fromStatus: AppointmentStatus | null,
+    toStatus: AppointmentStatus,
+    change: { reason?: string; changedBy?: string; source?: ChangeSource }
+  ): Promise<void> {
+    const source = change.source || 'staff';
+
+    await appointmentStatusHistoryRepository.insert({
+      appointment_id: appointmentId,
+      from_status: fromStatus,
+      to_status: toStatus,
+      reason: change.reason?.trim() || undefined,
+      changed_by: source === 'staff' ? change.changedBy || null : null,
+      source
+    });
+  }
+
+  /**
+   * Crear una serie de citas recurrentes. Cada fecha se valida por separado;
+   * si alguna tiene conflicto no se crea nada, salvo que se pidan omitir
+   * las fechas con conflicto.
+   */
+  static async createSeries(
+    seriesData: AppointmentSeriesCreateRequest,
+    psychiatristId: string
+  ): Promise<AppointmentSeriesResult> {
+    const { recurrence, skip_conflicts, ...appointmentData } = seriesData;
+    const dates = expandRecurrence(appointmentData.appointment_date, recurrence);
+    
+    return runInTransaction(async () => {
+      const conflicts: SeriesOccurrenceConflict[] = [];
+      const accepted: { index: number; date: string }[] = [];
       
-      setClause.push(`end_time = $${paramCount}`);
-      values.push(endTime);
-      paramCount++;
+      for (const [index, date] of dates.entries()) {
+        try {
+          await this.validateAppointmentData({ ...appointmentData, appointment_date: date }, psychiatristId);
+          accepted.push({ index, date });
+        } catch (error) {
+          conflicts.push(this.toOccurrenceConflict(error, index, date));
+        }
+      }
       
-      // Validar conflictos (excluyendo la cita actual)
-      const conflictQuery = `
-        SELECT id FROM appointments
-        WHERE id != $1
-          AND psychiatrist_id = $2
-          AND appointment_date = $3
-          AND status NOT IN ('cancelled', 'no_show')
-          AND (
-            (start_time <= $4 AND end_time > $4) OR
-            (start_time < $5 AND end_time >= $5) OR
-            (start_time >= $4 AND end_time <= $5)
-          )
-      `;
+      if (accepted.length === 0 || (conflicts.length > 0 && !skip_conflicts)) {
+        return { series: null, appointments: [], conflicts };
+      }
       
-      const conflictResult = await database.query(conflictQuery, [
-        id,
-        psychiatristId,
-        newDate,
-        newStartTime,
-        endTime
-      ]);
+      const series = await appointmentSeriesRepository.insert({
+        patient_id: appointmentData.patient_id,
+        psychiatrist_id: psychiatristId,
+        frequency: recurrence.frequency,
+        occurrence_count: recurrence.count ?? null,
+        until_date: recurrence.until ?? null,
+        start_date: appointmentData.appointment_date,
+        start_time: appointmentData.start_time,
+        duration_minutes: appointmentData.duration_minutes,
+        type: appointmentData.type,
+        notes: appointmentData.notes?.trim() || undefined
+      });
       
-      if (conflictResult.rows.length > 0) {
-        throw new Error('Conflicto de horario con otra cita');
+      const appointments: Appointment[] = [];
+      for (const { index, date } of accepted) {
+        appointments.push(await this.insertAppointment(
+          { ...appointmentData, appointment_date: date },
+          psychiatristId,
+          { series_id: series.id, series_index: index }
+        ));
       }
+      
+      return { series, appointments, conflicts };
+    });
+  }
+
+  /**
+   * Obtener una serie con todas sus citas
+   */
+  static async findSeries(
+    seriesId: string
+  ): Promise<{ series: AppointmentSeries; appointments: Appointment[] } | null> {
+    const series = await appointmentSeriesRepository.findById(seriesId);
+    if (!series) {
+      return null;
     }
     
-    setClause.push(`updated_at = NOW()`);
-    values.push(id);
-    
-    const query = `
-      UPDATE appointments
-      SET ${setClause.join(', ')}
-      WHERE id = $${paramCount} AND psychiatrist_id = $${paramCount + 1}
-      RETURNING *
-    `;
-    
-    values.push(psychiatristId);
+    const appointments = await appointmentRepository.findMany(
+      { series_id: seriesId },
+      { orderBy: [{ column: 'series_index' }] }
+    );
     
-    const result = await database.query(query, values);
-    return result.rows[0] || null;
+    return { series, appointments };
   }
 
   /**
-   * Cambiar estado de cita
+   * Modificar esta y las siguientes citas de la serie, o todas las pendientes.
+   * Un cambio de fecha desplaza cada cita los mismos días; si alguna cita
+   * queda con conflicto no se modifica ninguna.
    */
-  static async updateStatus(
+  static async updateSeries(
     id: string,
-    status: 'scheduled' | 'confirmed' | 'in_progress' | 'completed' | 'cancelled' | 'no_show',
+    updates: AppointmentUpdateRequest,
+    scope: Exclude<SeriesScope, 'this'>,
     psychiatristId: string
-  ): Promise<Appointment | null> {
-    const query = `
-      UPDATE appointments
-      SET status = $1, updated_at = NOW()
-      WHERE id = $2 AND psychiatrist_id = $3
-      RETURNING *
-    `;
+  ): Promise<AppointmentSeriesResult> {
+    return runInTransaction(async () => {
+      const { appointment, series, targets } = await this.findSeriesTargets(id, scope, psychiatristId);
+      
+      const dayOffset = updates.appointment_date
+        ? differenceInCalendarDays(
+          parseISO(this.toDateString(updates.appointment_date)),
+          parseISO(this.toDateString(appointment.appointment_date))
+        )
+        : 0;
+      
+      const planned = targets.map(target => {
+        const currentDate = this.toDateString(target.appointment_date);
+        const currentStart = minutesToTime(timeToMinutes(target.start_time));
+        const date = format(addDays(parseISO(currentDate), dayOffset), 'yyyy-MM-dd');
+        const startTime = updates.start_time ? minutesToTime(timeToMinutes(updates.start_time)) : currentStart;
+        const duration = updates.duration_minutes || target.duration_minutes;
+        
+        return {
+          target,
+          date,
+          startTime,
+          duration,
+          rescheduled: date !== currentDate || startTime !== currentStart || duration !== target.duration_minutes
+        };
+      });
+      
+      const conflicts: SeriesOccurrenceConflict[] = [];
+      for (const item of planned.filter(entry => entry.rescheduled)) {
+        try {
+          await this.validateSchedule(psychiatristId, item.date, item.startTime, item.duration, item.target.id);
+          await this.checkOverlap(item.target, item.date, item.startTime, item.duration);
+        } catch (error) {
+          conflicts.push(this.toOccurrenceConflict(error, item.target.series_index ?? 0, item.date));
+        }
+      }
+      
+      if (conflicts.length > 0) {
+        return { series, appointments: [], conflicts };
+      }
+      
+      const appointments: Appointment[] = [];
+      for (const item of planned) {
+        const [updated] = await appointmentRepository.update(
+          { id: item.target.id, psychiatrist_id: psychiatristId },
+          {
+            appointment_date: item.date,
+            start_time: item.startTime,
+            end_time: minutesToTime(timeToMinutes(item.startTime) + item.duration),
+            duration_minutes: item.duration,
+            type: updates.type || item.target.type,
+            notes: updates.notes !== undefined ? updates.notes.trim() || undefined : item.target.notes
+          }
+        ).catch(error => this.rethrowOverlap(error));
+        appointments.push(updated);
+      }
+      
+      // La plantilla de la serie refleja las citas que se crearán en adelante
+      const [updatedSeries] = await appointmentSeriesRepository.update({ id: series.id }, {
+        start_time: updates.start_time || series.start_time,
+        duration_minutes: updates.duration_minutes || series.duration_minutes,
+        type: updates.type || series.type,
+        notes: updates.notes !== undefined ? updates.notes.trim() || undefined : series.notes
+      });
+      
+      return { series: updatedSeries || series, appointments, conflicts };
+    });
+  }
+
+  /**
+   * Cancelar esta y las siguientes citas pendientes de la serie, o todas
+   */
+  static async cancelSeries(
+    id: string,
+    scope: Exclude<SeriesScope, 'this'>,
+    psychiatristId: string,
+    change: { reason?: string; changedBy?: string; source?: ChangeSource } = {}
+  ): Promise<AppointmentSeriesResult> {
+    return runInTransaction(async () => {
+      const { series, targets } = await this.findSeriesTargets(id, scope, psychiatristId);
+      
+      const appointments: Appointment[] = [];
+      for (const target of targets) {
+        const problem = findTransitionProblem(target.status, 'cancelled', change.reason);
+        if (problem) {
+          throw new Error(problem);
+        }
+        
+        const [cancelled] = await appointmentRepository.update(
+          { id: target.id, psychiatrist_id: psychiatristId, status: target.status },
+          { status: 'cancelled' }
+        );
+        if (!cancelled) {
+          throw new Error('La cita fue modificada por otro usuario, intente de nuevo');
+        }
+        
+        await this.recordStatusChange(target.id, target.status, 'cancelled', {
+          ...change,
+          changedBy: change.changedBy || psychiatristId
+        });
+        appointments.push(cancelled);
+      }
+      
+      return { series, appointments, conflicts: [] };
+    });
+  }
+
+  /**
+   * Citas pendientes de la serie afectadas por una edición o cancelación
+   */
+  private static async findSeriesTargets(
+    id: string,
+    scope: Exclude<SeriesScope, 'this'>,
+    psychiatristId: string
+  ): Promise<{ appointment: Appointment; series: AppointmentSeries; targets: Appointment[] }> {
+    const appointment = await this.findById(id);
+    if (!appointment || appointment.psychiatrist_id !== psychiatristId) {
+      throw new Error('Cita no encontrada');
+    }
+    
+    const series = appointment.series_id
+      ? await appointmentSeriesRepository.findById(appointment.series_id)
+      : null;
+    if (!series) {
+      throw new Error('La cita no pertenece a una serie');
+    }
+    
+    const targets = await appointmentRepository.findMany(
+      {
+        series_id: series.id,
+        status: ['scheduled', 'confirmed'],
+        series_index: scope === 'following' ? { gte: appointment.series_index ?? 0 } : undefined
+      },
+      { orderBy: [{ column: 'series_index' }] }
+    );
+    
+    if (targets.length === 0) {
+      throw new Error('No hay citas pendientes en la serie');
+    }
     
-    const result = await database.query(query, [status, id, psychiatristId]);
-    return result.rows[0] || null;
+    return { appointment, series, targets };
   }
 
   /**
-   * Eliminar cita
+   * Verificar que la cita reprogramada no se superpone con otra del paciente o del psiquiatra
    */
-  static async delete(id: string, psychiatristId: string): Promise<boolean> {
+  private static async checkOverlap(
+    appointment: Appointment,
+    date: string,
+    startTime: string,
+    durationMinutes: number
+  ): Promise<void> {
     const query = `
-      DELETE FROM appointments
-      WHERE id = $1 AND psychiatrist_id = $2
+      SELECT patient_id, psychiatrist_id FROM appointments
+      WHERE id != $1
+        AND (patient_id = $2 OR psychiatrist_id = $3)
+        AND appointment_date = $4
+        AND status NOT IN ('cancelled', 'no_show')
+        AND start_time < $6 AND end_time > $5
+      LIMIT 1
     `;
     
-    const result = await database.query(query, [id, psychiatristId]);
-    return result.rowCount > 0;
+    const result = await database.query(query, [
+      appointment.id,
+      appointment.patient_id,
+      appointment.psychiatrist_id,
+      date,
+      startTime,
+      minutesToTime(timeToMinutes(startTime) + durationMinutes)
+    ]);
+    
+    if (result.rows.length > 0) {
+      throw new Error(result.rows[0].patient_id === appointment.patient_id
+        ? OVERLAP_CONSTRAINT_ERRORS.appointments_patient_no_overlap
+        : OVERLAP_CONSTRAINT_ERRORS.appointments_psychiatrist_no_overlap);
+    }
+  }
+
+  /**
+   * Registrar el error de validación de una cita de la serie; los errores
+   * de base de datos se propagan
+   */
+  private static toOccurrenceConflict(error: unknown, index: number, date: string): SeriesOccurrenceConflict {
+    if (!(error instanceof Error) || (error as any).code) {
+      throw error;
+    }
+    return { series_index: index, appointment_date: date, message: error.message };
   }
 
   /**
@@ -0,0 +1,186 @@
+import { createRepository, Filter } from '@/repositories';
+import { AuditChainVerification, AuditEvent, AuditLogEntry } from '@/types';
+import { hashContent } from '@/utils/contentHash';
+
+export const auditLogRepository = createRepository<AuditLogEntry>({
+  table: 'audit_log',
+  timestamps: [],
+  unique: [['sequence'], ['hash']]
+});
+
+// Hash previo de la primera entrada de la cadena
+export const AUDIT_GENESIS_HASH = '0'.repeat(64);
+
+// Reintentos si otro proceso anexó una entrada con la misma secuencia
+const MAX_APPEND_ATTEMPTS = 5;
+
+// Entradas leídas por lote al verificar la cadena
+const VERIFY_BATCH_SIZE = 1000;
+
+/**
+ * PostgreSQL devuelve BIGINT como texto
+ */
+const toEntry = (row: AuditLogEntry): AuditLogEntry => ({ ...row, sequence: Number(row.sequence) });
+
+/**
+ * Hash de una entrada: todos sus campos (salvo id y el propio hash) junto
+ * con el hash de la entrada anterior. El acceso de emergencia solo entra en
+ * el hash si está presente, así las entradas anteriores a la columna siguen
+ * verificando.
+ */
+const hashEntry = (entry: Omit<AuditLogEntry, 'id' | 'hash'>): string =>
+  hashContent({
+    sequence: entry.sequence,
+    occurred_at: new Date(entry.occurred_at),
+    user_id: entry.user_id || null,
+    user_role: entry.user_role || null,
+    action: entry.action,
+    resource_type: entry.resource_type,
+    resource_id: entry.resource_id || null,
+    patient_id: entry.patient_id || null,
+    method: entry.method || null,
+    route: entry.route || null,
+    status_code: entry.status_code ?? null,
+    request_id: entry.request_id || null,
+    ip_address: entry.ip_address || null,
+    ...(entry.emergency_access_id ? { emergency_access_id: entry.emergency_access_id } : {}),
+    previous_hash: entry.previous_hash
+  });
+
+// Las anexiones de este proceso se hacen de a una para no competir por la secuencia
+let appendQueue: Promise<unknown> = Promise.resolve();
+
+export class AuditLogModel {
+  /**
+   * Anexar un evento al final de la cadena
+   */
+  static append(event: AuditEvent): Promise<AuditLogEntry> {
+    const result = appendQueue.then(() => this.appendWithRetry(event));
+    appendQueue = result.catch(() => undefined);
+    return result;
+  }
+
+  /**
+   * Consultar la bitácora, de lo más reciente a lo más antiguo
+   */
+  static async findAll(
+    page: number = 1,
+    limit: number = 50,
+    filters: {
+      patient_id?: string;
+      user_id?: string;
+      action?: AuditLogEntry['action'];
+      resource_type?: string;
+      emergency_access_id?: string;
+      from?: Date;
+      to?: Date;
+    } = {}
+  ): Promise<{ entries: AuditLogEntry[]; total: number }> {
+    const occurredAt = filters.from || filters.to
+      ? { ...(filters.from ? { gte: filters.from } : {}), ...(filters.to ? { lte: filters.to } : {}) }
+      : undefined;
+
+    const filter: Filter<AuditLogEntry> = {
+      patient_id: filters.patient_id,
+      user_id: filters.user_id,
+      action: filters.action,
+      resource_type: filters.resource_type,
+      emergency_access_id: filters.emergency_access_id,
+      occurred_at: occurredAt
+    };
+
+    const [entries, total] = await Promise.all([
+      auditLogRepository.findMany(filter, {
+        orderBy: [{ column: 'sequence', direction: 'DESC' }],
+        limit,
+        offset: (page - 1) * limit
+      }),
+      auditLogRepository.count(filter)
+    ]);
+
+    return { entries: entries.map(toEntry), total };
+  }
+
+  /**
+   * Recorrer la cadena completa: secuencias consecutivas, cada entrada
+   * enlazada con la anterior y hash coincidente con su contenido. Un
+   * borrado o una alteración se detecta en la primera entrada afectada.
+   */
+  static async verifyChain(): Promise<AuditChainVerification> {
+    let previous: AuditLogEntry | null = null;
+    let checked = 0;
+
+    for (;;) {
+      const batch: AuditLogEntry[] = (await auditLogRepository.findMany(
+        { sequence: previous ? { gt: previous.sequence } : undefined },
+        { orderBy: [{ column: 'sequence' }], limit: VERIFY_BATCH_SIZE }
+      )).map(toEntry);
+
+      for (const entry of batch) {
+        const expectedSequence: number = previous ? previous.sequence + 1 : 1;
+        const expectedPrevious: string = previous ? previous.hash : AUDIT_GENESIS_HASH;
+
+        const problem = entry.sequence !== expectedSequence
+          ? `Faltan entradas entre la secuencia ${expectedSequence - 1} y la ${entry.sequence}`
+          : entry.previous_hash !== expectedPrevious
+            ? `La entrada ${entry.sequence} no está enlazada con la anterior`
+            : hashEntry(entry) !== entry.hash
+              ? `El contenido de la entrada ${entry.sequence} fue alterado`
+              : null;
+
+        if (problem) {
+          return {
+            valid: false,
+            entries_checked: checked,
+            last_sequence: previous?.sequence ?? null,
+            last_hash: previous?.hash ?? null,
+            broken_at: entry.sequence,
+            problem
+          };
+        }
+
+        previous = entry;
+        checked++;
+      }
+
+      if (batch.length < VERIFY_BATCH_SIZE) {
+        break;
+      }
+    }
+
+    return {
+      valid: true,
+      entries_checked: checked,
+      last_sequence: previous?.sequence ?? null,
+      last_hash: previous?.hash ?? null
+    };
+  }
+
+  /**
+   * Anexar leyendo el final actual de la cadena; si otro proceso tomó la
+   * misma secuencia (UNIQUE), se vuelve a leer el final y se reintenta
+   */
+  private static async appendWithRetry(event: AuditEvent): Promise<AuditLogEntry> {
+    for (let attempt = 1; ; attempt++) {
+      const [last] = await auditLogRepository.findMany(
+        {},
+        { orderBy: [{ column: 'sequence', direction: 'DESC' }], limit: 1 }
+      );
+
+      const entry = {
+        ...event,
+        sequence: last ? Number(last.sequence) + 1 : 1,
+        occurred_at: new Date(),
+        previous_hash: last ? last.hash : AUDIT_GENESIS_HASH
+      };
+
+      try {
+        return toEntry(await auditLogRepository.insert({ ...entry, hash: hashEntry(entry) }));
+      } catch (error: any) {
+        if (error.code !== '23505' || attempt >= MAX_APPEND_ATTEMPTS) {
+          throw error;
+        }
+      }
+    }
+  }
+}
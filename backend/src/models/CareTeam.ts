@@ -0,0 +1,251 @@
+import { format } from 'date-fns';
+import { createRepository } from '@/repositories';
+import { UserModel } from '@/models/User';
+import {
+  AuthPayload,
+  CareTeamMember,
+  CareTeamMemberCreateRequest,
+  CareTeamMemberUpdateRequest,
+  CareTeamRole
+} from '@/types';
+
+export const careTeamRepository = createRepository<CareTeamMember>({
+  table: 'patient_care_team_members'
+});
+
+// Roles del equipo que atienden clínicamente al paciente
+const CLINICAL_CARE_ROLES: CareTeamRole[] = ['primary', 'covering'];
+
+// Orden de presentación del equipo
+const CARE_ROLE_ORDER: Record<CareTeamRole, number> = { primary: 0, covering: 1, assistant: 2 };
+
+// Fin de un periodo sin fecha de fin (las fechas YYYY-MM-DD se comparan como texto)
+const OPEN_END = '9999-12-31';
+
+interface CarePeriod {
+  starts_on: string;
+  ends_on: string | null;
+}
+
+/**
+ * Fecha DATE como YYYY-MM-DD (PostgreSQL la devuelve como Date)
+ */
+const toDateString = (date: string | Date): string =>
+  typeof date === 'string' ? date.slice(0, 10) : format(date, 'yyyy-MM-dd');
+
+const today = (): string => format(new Date(), 'yyyy-MM-dd');
+
+const periodOf = (member: CareTeamMember): CarePeriod => ({
+  starts_on: toDateString(member.starts_on),
+  ends_on: member.ends_on ? toDateString(member.ends_on) : null
+});
+
+const isActiveOn = (member: CareTeamMember, date: string): boolean => {
+  const period = periodOf(member);
+  return period.starts_on <= date && (period.ends_on ?? OPEN_END) >= date;
+};
+
+const periodsOverlap = (a: CarePeriod, b: CarePeriod): boolean =>
+  a.starts_on <= (b.ends_on ?? OPEN_END) && b.starts_on <= (a.ends_on ?? OPEN_END);
+
+/**
+ * Condición SQL: el paciente de la columna tiene al usuario del parámetro en
+ * su equipo de atención vigente (para listados y tableros en SQL)
+ */
+export const activeCareTeamCondition = (patientColumn: string, userParam: string): string => `
+  ${patientColumn} IN (
+    SELECT ct.patient_id
+    FROM patient_care_team_members ct
+    WHERE ct.user_id = ${userParam}
+      AND ct.starts_on <= CURRENT_DATE
+      AND (ct.ends_on IS NULL OR ct.ends_on >= CURRENT_DATE)
+  )`;
+
+export class CareTeamModel {
+  /**
+   * Equipo de atención del paciente (por defecto solo los miembros vigentes)
+   */
+  static async findByPatient(patientId: string, includePast: boolean = false): Promise<CareTeamMember[]> {
+    const date = today();
+    const members = (await careTeamRepository.findMany({ patient_id: patientId }))
+      .filter(member => includePast || (member.ends_on ? toDateString(member.ends_on) >= date : true))
+      .sort((a, b) =>
+        CARE_ROLE_ORDER[a.role] - CARE_ROLE_ORDER[b.role] ||
+        periodOf(a).starts_on.localeCompare(periodOf(b).starts_on)
+      );
+
+    return Promise.all(members.map(async member => {
+      const user = await UserModel.findById(member.user_id);
+      return {
+        ...member,
+        user: user ? { id: user.id, email: user.email, full_name: user.full_name, role: user.role } : undefined
+      };
+    }));
+  }
+
+  /**
+   * Participación vigente del usuario en el equipo del paciente
+   */
+  static async findActiveMembership(
+    patientId: string,
+    userId: string,
+    date: string = today()
+  ): Promise<CareTeamMember | null> {
+    const memberships = await careTeamRepository.findMany({ patient_id: patientId, user_id: userId });
+    return memberships.find(member => isActiveOn(member, date)) || null;
+  }
+
+  /**
+   * Pacientes en cuyo equipo de atención vigente participa el usuario
+   */
+  static async findActivePatientIds(userId: string, date: string = today()): Promise<string[]> {
+    const memberships = await careTeamRepository.findMany({ user_id: userId });
+    return [...new Set(memberships.filter(member => isActiveOn(member, date)).map(member => member.patient_id))];
+  }
+
+  /**
+   * El usuario atiende clínicamente al paciente (principal o cobertura) en la fecha
+   */
+  static async isClinicalMember(patientId: string, userId: string, date: string = today()): Promise<boolean> {
+    const memberships = await careTeamRepository.findMany({
+      patient_id: patientId,
+      user_id: userId,
+      role: CLINICAL_CARE_ROLES
+    });
+    return memberships.some(member => isActiveOn(member, date));
+  }
+
+  /**
+   * Los administradores acceden a todos los pacientes; el resto, solo a los
+   * de su equipo de atención vigente
+   */
+  static async canAccessPatient(user: AuthPayload, patientId: string): Promise<boolean> {
+    if (user.role === 'admin') {
+      return true;
+    }
+
+    return !!(await this.findActiveMembership(patientId, user.userId));
+  }
+
+  /**
+   * Equipo inicial de un paciente nuevo: el psiquiatra que lo registra (o el
+   * indicado) es el principal; el asistente que lo registra queda como asistente
+   */
+  static async addInitialMembers(
+    patientId: string,
+    createdBy: string,
+    primaryPsychiatristId?: string
+  ): Promise<CareTeamMember[]> {
+    const creator = await UserModel.findById(createdBy);
+    const members: CareTeamMember[] = [];
+    const primaryId = primaryPsychiatristId || (creator?.role === 'psychiatrist' ? createdBy : undefined);
+
+    if (primaryId) {
+      members.push(await this.addMember(patientId, { user_id: primaryId, role: 'primary' }, createdBy));
+    }
+
+    if (creator && creator.id !== primaryId && creator.role !== 'admin') {
+      const role: CareTeamRole = creator.role === 'assistant' ? 'assistant' : 'covering';
+      members.push(await this.addMember(patientId, { user_id: creator.id, role }, createdBy));
+    }
+
+    return members;
+  }
+
+  /**
+   * Agregar un miembro al equipo de atención
+   */
+  static async addMember(
+    patientId: string,
+    memberData: CareTeamMemberCreateRequest,
+    addedBy: string
+  ): Promise<CareTeamMember> {
+    const period: CarePeriod = {
+      starts_on: memberData.starts_on ? toDateString(memberData.starts_on) : today(),
+      ends_on: memberData.ends_on ? toDateString(memberData.ends_on) : null
+    };
+
+    await this.validateMember(patientId, memberData.user_id, memberData.role, period);
+
+    return careTeamRepository.insert({
+      patient_id: patientId,
+      user_id: memberData.user_id,
+      role: memberData.role,
+      starts_on: period.starts_on,
+      ends_on: period.ends_on,
+      added_by: addedBy
+    });
+  }
+
+  /**
+   * Cambiar el rol o el periodo de un miembro; para retirarlo del equipo se
+   * fija la fecha de fin (se conserva el historial)
+   */
+  static async updateMember(
+    patientId: string,
+    memberId: string,
+    changes: CareTeamMemberUpdateRequest
+  ): Promise<CareTeamMember | null> {
+    const member = await careTeamRepository.findOne({ id: memberId, patient_id: patientId });
+    if (!member) {
+      return null;
+    }
+
+    const current = periodOf(member);
+    const period: CarePeriod = {
+      starts_on: changes.starts_on ? toDateString(changes.starts_on) : current.starts_on,
+      ends_on: changes.ends_on === undefined ? current.ends_on : changes.ends_on && toDateString(changes.ends_on)
+    };
+    const role = changes.role || member.role;
+
+    await this.validateMember(patientId, member.user_id, role, period, member.id);
+
+    const [updated] = await careTeamRepository.update({ id: memberId }, {
+      role,
+      starts_on: period.starts_on,
+      ends_on: period.ends_on
+    });
+    return updated || null;
+  }
+
+  /**
+   * Validar rol según el usuario, periodo y superposiciones con el equipo actual
+   */
+  private static async validateMember(
+    patientId: string,
+    userId: string,
+    role: CareTeamRole,
+    period: CarePeriod,
+    excludeId?: string
+  ): Promise<void> {
+    if (period.ends_on && period.ends_on < period.starts_on) {
+      throw new Error('La fecha de fin no puede ser anterior a la de inicio');
+    }
+
+    const user = await UserModel.findById(userId);
+    if (!user) {
+      throw new Error('Usuario no encontrado');
+    }
+
+    if (user.role === 'admin') {
+      throw new Error('Los administradores no forman parte del equipo de atención');
+    }
+
+    if ((user.role === 'assistant') !== (role === 'assistant')) {
+      throw new Error(user.role === 'assistant'
+        ? 'Un asistente solo puede integrar el equipo como asistente'
+        : 'Un psiquiatra solo puede integrar el equipo como principal o de cobertura');
+    }
+
+    const others = (await careTeamRepository.findMany({ patient_id: patientId }))
+      .filter(member => member.id !== excludeId);
+
+    if (others.some(member => member.user_id === userId && periodsOverlap(periodOf(member), period))) {
+      throw new Error('El usuario ya forma parte del equipo de atención en ese periodo');
+    }
+
+    if (role === 'primary' && others.some(member => member.role === 'primary' && periodsOverlap(periodOf(member), period))) {
+      throw new Error('El paciente ya tiene un psiquiatra principal en ese periodo');
+    }
+  }
+}
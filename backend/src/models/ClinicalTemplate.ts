@@ -0,0 +1,155 @@
+import database from '@/config/database';
+import { patientRepository } from '@/models/Patient';
+import { createRepository } from '@/repositories';
+import {
+  ClinicalTemplate,
+  ClinicalTemplateCreateRequest,
+  ClinicalTemplateUpdateRequest,
+  ConsultationSessionCreateRequest
+} from '@/types';
+
+export const clinicalTemplateRepository = createRepository<ClinicalTemplate>({
+  table: 'clinical_templates',
+  jsonColumns: ['template_data'],
+  defaults: { is_shared: false, usage_count: 0 },
+  unique: [['created_by', 'template_name']]
+});
+
+// Duración por defecto cuando la plantilla no la define
+const DEFAULT_SESSION_DURATION_MINUTES = 60;
+
+export class ClinicalTemplateModel {
+  /**
+   * Crear plantilla
+   */
+  static async create(
+    templateData: ClinicalTemplateCreateRequest,
+    createdBy: string
+  ): Promise<ClinicalTemplate> {
+    try {
+      return await clinicalTemplateRepository.insert({
+        template_name: templateData.template_name.trim(),
+        template_type: templateData.template_type,
+        template_data: templateData.template_data,
+        created_by: createdBy,
+        is_shared: templateData.is_shared ?? false
+      });
+    } catch (error: any) {
+      if (error.code === '23505') {
+        throw new Error('Ya existe una plantilla con ese nombre');
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Buscar plantilla por ID
+   */
+  static async findById(id: string): Promise<ClinicalTemplate | null> {
+    return clinicalTemplateRepository.findById(id);
+  }
+
+  /**
+   * Plantillas visibles para un usuario (propias y compartidas), más usadas primero
+   */
+  static async findVisibleTo(
+    userId: string,
+    templateType?: ClinicalTemplate['template_type']
+  ): Promise<ClinicalTemplate[]> {
+    const conditions = ['(created_by = $1 OR is_shared = true)'];
+    const values: any[] = [userId];
+
+    if (templateType) {
+      conditions.push('template_type = $2');
+      values.push(templateType);
+    }
+
+    const query = `
+      SELECT *
+      FROM clinical_templates
+      WHERE ${conditions.join(' AND ')}
+      ORDER BY usage_count DESC, last_used DESC NULLS LAST, template_name ASC
+    `;
+
+    const result = await database.query(query, values);
+    return result.rows;
+  }
+
+  /**
+   * Indica si la plantilla es visible para el usuario
+   */
+  static isVisibleTo(template: ClinicalTemplate, userId: string): boolean {
+    return template.created_by === userId || template.is_shared;
+  }
+
+  /**
+   * Actualizar plantilla
+   */
+  static async update(
+    id: string,
+    updateData: ClinicalTemplateUpdateRequest
+  ): Promise<ClinicalTemplate | null> {
+    const changes = {
+      ...updateData,
+      template_name: updateData.template_name?.trim()
+    };
+
+    try {
+      const [template] = await clinicalTemplateRepository.update({ id }, changes);
+      return template || null;
+    } catch (error: any) {
+      if (error.code === '23505') {
+        throw new Error('Ya existe una plantilla con ese nombre');
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Registrar uso de una plantilla (incremento atómico del contador)
+   */
+  static async recordUsage(id: string, userId: string): Promise<ClinicalTemplate | null> {
+    const query = `
+      UPDATE clinical_templates
+      SET usage_count = usage_count + 1, last_used = NOW()
+      WHERE id = $1 AND (created_by = $2 OR is_shared = true)
+      RETURNING *
+    `;
+
+    const result = await database.query(query, [id, userId]);
+    return result.rows[0] || null;
+  }
+
+  /**
+   * Construir una solicitud de sesión pre-llenada para un paciente
+   */
+  static async instantiate(
+    template: ClinicalTemplate,
+    patientId: string
+  ): Promise<ConsultationSessionCreateRequest> {
+    const activePatients = await patientRepository.count({ id: patientId, is_active: true });
+    if (activePatients === 0) {
+      throw new Error('El paciente no existe o está inactivo');
+    }
+
+    const data = template.template_data || {};
+
+    return {
+      ...data,
+      patient_id: patientId,
+      session_date: new Date().toISOString(),
+      session_duration_minutes: data.session_duration_minutes || DEFAULT_SESSION_DURATION_MINUTES,
+      symptoms_presented: data.symptoms_presented ? [...data.symptoms_presented] : undefined,
+      mental_state_examination: data.mental_state_examination ? { ...data.mental_state_examination } : undefined,
+      risk_assessment: data.risk_assessment ? { ...data.risk_assessment } : undefined
+    };
+  }
+
+  /**
+   * Eliminar plantilla
+   */
+  static async delete(id: string): Promise<boolean> {
+    const deleted = await clinicalTemplateRepository.delete({ id });
+    return deleted > 0;
+  }
+}
@@ -1,146 +1,406 @@
-import { Database } from '../types';
-import { supabase } from '../config/supabase';
+import { format, isAfter, parseISO } from 'date-fns';
+import {
+  Appointment,
+  ClinicalSummary,
+  ConsultationSession,
+  SessionAddendum,
+  SessionAddendumCreateRequest,
+  SessionSignatureVerification
+} from '../types';
+import { createRepository } from '../repositories';
+import { hashContent } from '../utils/contentHash';
+import { scoreTreatmentProgress } from '../utils/treatmentProgress';
+import { AppointmentModel } from './Appointment';
+import { CareTeamModel } from './CareTeam';
+import { patientRepository } from './Patient';
+import { SymptomTrackingModel } from './SymptomTracking';
+import { userRepository } from './User';
 
-export type ConsultationSession = Database['public']['Tables']['consultation_sessions']['Row'];
-export type ConsultationSessionInsert = Database['public']['Tables']['consultation_sessions']['Insert'];
-export type ConsultationSessionUpdate = Database['public']['Tables']['consultation_sessions']['Update'];
+export type { ConsultationSession };
+export type ConsultationSessionInsert = Omit<ConsultationSession, 'id' | 'created_at' | 'updated_at'>;
+export type ConsultationSessionUpdate = Partial<ConsultationSessionInsert>;
+
+export const consultationSessionRepository = createRepository<ConsultationSession>({
+  table: 'consultation_sessions',
+  jsonColumns: ['mental_state_examination', 'risk_assessment'],
+  defaults: { session_status: 'completed' }
+});
+
+export const sessionAddendumRepository = createRepository<SessionAddendum>({
+  table: 'session_addenda',
+  timestamps: ['created_at'],
+  unique: [['session_id', 'sequence']]
+});
+
+// Duración máxima admitida para una sesión (las citas pueden durar más)
+const MAX_SESSION_DURATION_MINUTES = 240;
+
+/**
+ * Fecha DATE como YYYY-MM-DD (PostgreSQL la devuelve como Date)
+ */
+const toDateString = (date: string | Date): string =>
+  typeof date === 'string' ? date.slice(0, 10) : format(date, 'yyyy-MM-dd');
+
+// Ventana de seguimiento de síntomas y citas consideradas en el progreso
+const PROGRESS_WINDOW_DAYS = 90;
+const PROGRESS_APPOINTMENTS = 20;
 
 export class ConsultationSessionModel {
   static async create(session: ConsultationSessionInsert): Promise<ConsultationSession | null> {
-    const { data, error } = await supabase
-      .from('consultation_sessions')
-      .insert(session)
-      .select()
-      .single();
-
-    if (error) {
+    try {
+      return await consultationSessionRepository.insert(session);
+    } catch (error) {
       console.error('Error creating consultation session:', error);
       return null;
     }
-
-    return data;
   }
 
   static async findById(id: string): Promise<ConsultationSession | null> {
-    const { data, error } = await supabase
-      .from('consultation_sessions')
-      .select(`
-        *,
-        patient:patients(*),
-        psychiatrist:users!consultation_sessions_psychiatrist_id_fkey(*)
-      `)
-      .eq('id', id)
-      .single();
-
-    if (error) {
-      console.error('Error finding consultation session:', error);
+    const session = await consultationSessionRepository.findById(id);
+    if (!session) {
       return null;
     }
 
-    return data;
+    const [withRelations] = await this.withRelations([session], { patient: true, psychiatrist: true });
+    return withRelations;
   }
 
   static async findByPatientId(patientId: string, limit: number = 50): Promise<ConsultationSession[]> {
-    const { data, error } = await supabase
-      .from('consultation_sessions')
-      .select(`
-        *,
-        psychiatrist:users!consultation_sessions_psychiatrist_id_fkey(
-          id,
-          email,
-          first_name,
-          last_name
-        )
-      `)
-      .eq('patient_id', patientId)
-      .order('session_date', { ascending: false })
-      .limit(limit);
-
-    if (error) {
-      console.error('Error finding consultation sessions by patient:', error);
-      return [];
-    }
+    const sessions = await consultationSessionRepository.findMany(
+      { patient_id: patientId },
+      { orderBy: [{ column: 'session_date', direction: 'DESC' }], limit }
+    );
 
-    return data || [];
+    return this.withRelations(sessions, { psychiatrist: true });
   }
 
   static async findByPsychiatristId(psychiatristId: string, limit: number = 50): Promise<ConsultationSession[]> {
-    const { data, error } = await supabase
-      .from('consultation_sessions')
-      .select(`
-        *,
-        patient:patients(*)
-      `)
-      .eq('psychiatrist_id', psychiatristId)
-      .order('session_date', { ascending: false })
-      .limit(limit);
+    const sessions = await consultationSessionRepository.findMany(
+      { psychiatrist_id: psychiatristId },
+      { orderBy: [{ column: 'session_date', direction: 'DESC' }], limit }
+    );
 
-    if (error) {
-      console.error('Error finding consultation sessions by psychiatrist:', error);
-      return [];
+    return this.withRelations(sessions, { patient: true });
+  }
+
+  /**
+   * Sesión originada por una cita
+   */
+  static async findByAppointmentId(appointmentId: string): Promise<ConsultationSession | null> {
+    return consultationSessionRepository.findOne({ appointment_id: appointmentId });
+  }
+
+  /**
+   * Crear el borrador de sesión de una cita iniciada o completada, con el
+   * paciente, la fecha y la duración de la cita. Si la cita ya tiene sesión
+   * se devuelve la existente; si el psiquiatra no integra el equipo clínico
+   * del paciente en esa fecha, no se crea (null).
+   */
+  static async createDraftForAppointment(appointment: Appointment): Promise<ConsultationSession | null> {
+    const existing = await this.findByAppointmentId(appointment.id);
+    if (existing) {
+      return existing;
     }
 
-    return data || [];
+    // La fecha de la sesión no puede ser futura (la cita puede iniciarse antes de hora)
+    const startsAt = parseISO(`${toDateString(appointment.appointment_date)}T${appointment.start_time.slice(0, 5)}`);
+    const now = new Date();
+    const sessionDate = isAfter(startsAt, now) ? now : startsAt;
+
+    // Misma regla que el disparador validate_care_team_access (migración 020)
+    if (!(await CareTeamModel.isClinicalMember(appointment.patient_id, appointment.psychiatrist_id, toDateString(sessionDate)))) {
+      return null;
+    }
+
+    return consultationSessionRepository.insert({
+      patient_id: appointment.patient_id,
+      psychiatrist_id: appointment.psychiatrist_id,
+      appointment_id: appointment.id,
+      session_date: sessionDate,
+      session_duration_minutes: Math.min(appointment.duration_minutes, MAX_SESSION_DURATION_MINUTES),
+      session_status: 'draft'
+    });
   }
 
   static async update(id: string, updates: ConsultationSessionUpdate): Promise<ConsultationSession | null> {
-    const { data, error } = await supabase
-      .from('consultation_sessions')
-      .update(updates)
-      .eq('id', id)
-      .select()
-      .single();
-
-    if (error) {
+    await this.assertNotSigned(id);
+
+    try {
+      const [session] = await consultationSessionRepository.update({ id, signed_at: null }, updates);
+      return session || null;
+    } catch (error) {
       console.error('Error updating consultation session:', error);
       return null;
     }
-
-    return data;
   }
 
   static async delete(id: string): Promise<boolean> {
-    const { error } = await supabase
-      .from('consultation_sessions')
-      .delete()
-      .eq('id', id);
+    await this.assertNotSigned(id);
 
-    if (error) {
+    try {
+      await consultationSessionRepository.delete({ id, signed_at: null });
+      return true;
+    } catch (error) {
       console.error('Error deleting consultation session:', error);
       return false;
     }
+  }
+
+  /**
+   * Contenido clínico que cubre la firma (fechas normalizadas a ISO).
+   * El GAF solo se incluye cuando existe, para que las firmas anteriores a
+   * su incorporación sigan verificando.
+   */
+  static buildSignaturePayload(session: ConsultationSession): Record<string, unknown> {
+    const toISO = (value?: Date | string | null) => (value ? new Date(value).toISOString() : null);
 
-    return true;
+    return {
+      id: session.id,
+      patient_id: session.patient_id,
+      psychiatrist_id: session.psychiatrist_id,
+      session_date: toISO(session.session_date),
+      session_duration_minutes: session.session_duration_minutes,
+      symptoms_presented: session.symptoms_presented || [],
+      clinical_observations: session.clinical_observations || null,
+      mental_state_examination: session.mental_state_examination || null,
+      treatment_notes: session.treatment_notes || null,
+      risk_assessment: session.risk_assessment || null,
+      ...(session.gaf_score != null ? { gaf_score: session.gaf_score } : {}),
+      next_session_date: toISO(session.next_session_date),
+      session_status: session.session_status
+    };
   }
 
-  static async getClinicalSummary(patientId: string): Promise<{
-    totalSessions: number;
-    lastSessionDate: string | null;
-    averageSessionDuration: number;
-    commonSymptoms: string[];
-    treatmentProgress: string;
-  } | null> {
-    const { data, error } = await supabase
-      .from('consultation_sessions')
-      .select('symptoms_presented, session_duration_minutes, session_date, treatment_notes')
-      .eq('patient_id', patientId)
-      .order('session_date', { ascending: false });
+  /**
+   * Hash de una adenda, encadenado al hash anterior
+   */
+  static computeAddendumHash(addendum: Omit<SessionAddendum, 'id' | 'content_hash' | 'created_at'>): string {
+    return hashContent({
+      session_id: addendum.session_id,
+      sequence: addendum.sequence,
+      reason: addendum.reason,
+      content: addendum.content,
+      signed_by: addendum.signed_by,
+      signed_at: new Date(addendum.signed_at).toISOString(),
+      previous_hash: addendum.previous_hash
+    });
+  }
 
-    if (error) {
-      console.error('Error getting clinical summary:', error);
+  /**
+   * Firmar sesión: registra firmante y hash del contenido y la bloquea
+   */
+  static async sign(id: string, signerId: string): Promise<ConsultationSession | null> {
+    const session = await this.findRawById(id);
+    if (!session) {
       return null;
     }
 
-    const sessions = data || [];
+    if (session.signed_at) {
+      throw new Error('La sesión ya está firmada');
+    }
+
+    if (session.psychiatrist_id !== signerId) {
+      throw new Error('Solo el psiquiatra tratante puede firmar la sesión');
+    }
+
+    if (session.session_status === 'scheduled') {
+      throw new Error('No se puede firmar una sesión que aún está programada');
+    }
+
+    if (session.session_status === 'draft') {
+      throw new Error('No se puede firmar un borrador; complete la sesión antes de firmarla');
+    }
+
+    // El contenido firmado debe ser exactamente el que se usó para el hash.
+    // updated_at se compara por rango porque PostgreSQL guarda microsegundos
+    // y Date solo conserva milisegundos.
+    const updatedAt = new Date(session.updated_at);
+    const [signed] = await consultationSessionRepository.update(
+      {
+        id,
+        signed_at: null,
+        updated_at: { gte: updatedAt, lt: new Date(updatedAt.getTime() + 1) }
+      },
+      {
+        signed_by: signerId,
+        signed_at: new Date(),
+        content_hash: hashContent(this.buildSignaturePayload(session))
+      }
+    );
+
+    if (!signed) {
+      throw new Error('La sesión fue modificada o firmada durante la firma, intente de nuevo');
+    }
+
+    return signed;
+  }
+
+  /**
+   * Agregar adenda firmada a una sesión firmada
+   */
+  static async addAddendum(
+    sessionId: string,
+    authorId: string,
+    addendumData: SessionAddendumCreateRequest
+  ): Promise<SessionAddendum | null> {
+    const session = await this.findRawById(sessionId);
+    if (!session) {
+      return null;
+    }
+
+    if (!session.signed_at || !session.content_hash) {
+      throw new Error('Solo se pueden agregar adendas a sesiones firmadas');
+    }
+
+    const addenda = await this.findAddenda(sessionId);
+    const last = addenda[addenda.length - 1];
+
+    const addendum: Omit<SessionAddendum, 'id' | 'content_hash' | 'created_at'> = {
+      session_id: sessionId,
+      sequence: last ? last.sequence + 1 : 1,
+      reason: addendumData.reason.trim(),
+      content: addendumData.content.trim(),
+      signed_by: authorId,
+      signed_at: new Date(),
+      previous_hash: last ? last.content_hash : session.content_hash
+    };
+
+    try {
+      return await sessionAddendumRepository.insert({
+        ...addendum,
+        content_hash: this.computeAddendumHash(addendum)
+      });
+    } catch (error: any) {
+      console.error('Error creating session addendum:', error);
+      if (error.code === '23505') {
+        throw new Error('Otra adenda se registró simultáneamente, intente de nuevo');
+      }
+      throw new Error('Error al registrar la adenda');
+    }
+  }
+
+  /**
+   * Obtener adendas de una sesión en orden de registro
+   */
+  static async findAddenda(sessionId: string): Promise<SessionAddendum[]> {
+    return sessionAddendumRepository.findMany(
+      { session_id: sessionId },
+      { orderBy: [{ column: 'sequence', direction: 'ASC' }] }
+    );
+  }
+
+  /**
+   * Verificar que el contenido firmado y la cadena de adendas no fueron alterados
+   */
+  static async verifySignature(id: string): Promise<SessionSignatureVerification | null> {
+    const session = await this.findRawById(id);
+    if (!session) {
+      return null;
+    }
+
+    const computedHash = hashContent(this.buildSignaturePayload(session));
+    const addenda = await this.findAddenda(id);
+
+    let previousHash = session.content_hash || null;
+    const addendaResults = addenda.map(addendum => {
+      const valid = addendum.previous_hash === previousHash &&
+        this.computeAddendumHash(addendum) === addendum.content_hash;
+      previousHash = addendum.content_hash;
+      return { id: addendum.id, sequence: addendum.sequence, valid };
+    });
+
+    const sessionValid = !!session.content_hash && session.content_hash === computedHash;
+
+    return {
+      session_id: id,
+      signed: !!session.signed_at,
+      valid: sessionValid && addendaResults.every(result => result.valid),
+      stored_hash: session.content_hash || null,
+      computed_hash: computedHash,
+      addenda: addendaResults
+    };
+  }
+
+  /**
+   * Sesión sin relaciones (para firma y verificación)
+   */
+  private static async findRawById(id: string): Promise<ConsultationSession | null> {
+    return consultationSessionRepository.findById(id);
+  }
+
+  /**
+   * Adjuntar paciente y/o psiquiatra (datos básicos) a las sesiones
+   */
+  private static async withRelations(
+    sessions: ConsultationSession[],
+    include: { patient?: boolean; psychiatrist?: boolean }
+  ): Promise<ConsultationSession[]> {
+    if (sessions.length === 0) {
+      return sessions;
+    }
+
+    const unique = (ids: string[]) => [...new Set(ids)];
+
+    const [patients, psychiatrists] = await Promise.all([
+      include.patient
+        ? patientRepository.findMany({ id: unique(sessions.map(session => session.patient_id)) })
+        : Promise.resolve([]),
+      include.psychiatrist
+        ? userRepository.findMany({ id: unique(sessions.map(session => session.psychiatrist_id)) })
+        : Promise.resolve([])
+    ]);
+
+    const patientsById = new Map(patients.map(patient => [patient.id, patient]));
+    const psychiatristsById = new Map(psychiatrists.map(user => [
+      user.id,
+      { id: user.id, email: user.email, full_name: user.full_name }
+    ]));
+
+    return sessions.map(session => ({
+      ...session,
+      ...(include.patient ? { patient: patientsById.get(session.patient_id) } : {}),
+      ...(include.psychiatrist ? { psychiatrist: psychiatristsById.get(session.psychiatrist_id) } : {})
+    }));
+  }
+
+  /**
+   * Rechazar cambios sobre sesiones firmadas
+   */
+  private static async assertNotSigned(id: string): Promise<void> {
+    const session = await this.findRawById(id);
+    if (session?.signed_at) {
+      throw new Error('La sesión está firmada y no puede modificarse ni eliminarse');
+    }
+  }
+
+  /**
+   * Resumen clínico del paciente con puntaje de progreso del tratamiento
+   */
+  static async getClinicalSummary(patientId: string): Promise<ClinicalSummary | null> {
+    const sessions = await consultationSessionRepository.findMany(
+      { patient_id: patientId },
+      { orderBy: [{ column: 'session_date', direction: 'DESC' }] }
+    );
     const totalSessions = sessions.length;
 
+    // Señales de progreso fuera de las sesiones
+    const symptomTypes = await SymptomTrackingModel.findSymptomTypes(patientId);
+    const [symptomTrends, appointments] = await Promise.all([
+      Promise.all(
+        symptomTypes.map(type => SymptomTrackingModel.getTrend(patientId, type, PROGRESS_WINDOW_DAYS))
+      ),
+      AppointmentModel.findByPatientId(patientId, PROGRESS_APPOINTMENTS)
+    ]);
+
+    const treatmentProgress = scoreTreatmentProgress({ sessions, symptomTrends, appointments });
+
     if (totalSessions === 0) {
       return {
         totalSessions: 0,
         lastSessionDate: null,
         averageSessionDuration: 0,
         commonSymptoms: [],
-        treatmentProgress: 'Sin historial de sesiones'
+        treatmentProgress
       };
     }
 
@@ -168,21 +428,6 @@ export class ConsultationSessionModel {
       .slice(0, 5)
       .map(([symptom]) => symptom);
 
-    // Determinar progreso del tratamiento basado en las últimas notas
-    const latestSession = sessions[0];
-    let treatmentProgress = 'En evaluación inicial';
-    
-    if (latestSession?.treatment_notes) {
-      const notes = latestSession.treatment_notes.toLowerCase();
-      if (notes.includes('mejora') || notes.includes('progreso') || notes.includes('positivo')) {
-        treatmentProgress = 'Mostrando mejoría';
-      } else if (notes.includes('estable') || notes.includes('controlado')) {
-        treatmentProgress = 'Estado estable';
-      } else if (notes.includes('empeora') || notes.includes('revisar')) {
-        treatmentProgress = 'Requiere ajuste';
-      }
-    }
-
     return {
       totalSessions,
       lastSessionDate: sessions[0]?.session_date || null,
@@ -191,4 +436,4 @@ export class ConsultationSessionModel {
       treatmentProgress
     };
   }
-}
\ No newline at end of file
+}
@@ -0,0 +1,313 @@
+import database from '@/config/database';
+import { DiagnosisRecord, DiagnosisCreateRequest, DiagnosisUpdateRequest } from '@/types';
+import { DiagnosisCodeModel } from '@/models/DiagnosisCode';
+import { patientRepository } from '@/models/Patient';
+import { v4 as uuidv4 } from 'uuid';
+import { parseISO, isAfter, isBefore } from 'date-fns';
+
+// Columnas con fechas formateadas como YYYY-MM-DD
+const DIAGNOSIS_COLUMNS = `
+  id, patient_id, recorded_by, status,
+  primary_code, primary_description, certainty,
+  TO_CHAR(date_identified, 'YYYY-MM-DD') AS date_identified,
+  TO_CHAR(date_resolved, 'YYYY-MM-DD') AS date_resolved,
+  supporting_evidence, comorbidities, differential_diagnoses,
+  created_at, updated_at
+`;
+
+interface DiagnosisRow {
+  id: string;
+  patient_id: string;
+  recorded_by: string;
+  status: DiagnosisRecord['status'];
+  primary_code: string;
+  primary_description: string;
+  certainty: DiagnosisRecord['primary_diagnosis']['certainty'];
+  date_identified: string;
+  date_resolved: string | null;
+  supporting_evidence: string;
+  comorbidities: DiagnosisRecord['comorbidities'];
+  differential_diagnoses: DiagnosisRecord['differential_diagnoses'];
+  created_at: Date;
+  updated_at: Date;
+}
+
+export class DiagnosisModel {
+  /**
+   * Registrar diagnóstico
+   */
+  static async create(
+    diagnosisData: DiagnosisCreateRequest,
+    recordedBy: string
+  ): Promise<DiagnosisRecord> {
+    const { patient_id, primary_diagnosis } = diagnosisData;
+
+    const activePatients = await patientRepository.count({ id: patient_id, is_active: true });
+    if (activePatients === 0) {
+      throw new Error('El paciente no existe o está inactivo');
+    }
+
+    const catalogEntry = await DiagnosisCodeModel.findByCode(primary_diagnosis.code);
+    if (!catalogEntry) {
+      throw new Error(`El código diagnóstico ${primary_diagnosis.code} no existe en el catálogo`);
+    }
+
+    if (isAfter(parseISO(primary_diagnosis.date_identified), new Date())) {
+      throw new Error('La fecha de identificación no puede ser futura');
+    }
+
+    const query = `
+      INSERT INTO diagnoses (
+        id, patient_id, recorded_by, primary_code, primary_description, certainty,
+        date_identified, supporting_evidence, comorbidities, differential_diagnoses
+      ) VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10)
+      RETURNING ${DIAGNOSIS_COLUMNS}
+    `;
+
+    const values = [
+      uuidv4(),
+      patient_id,
+      recordedBy,
+      catalogEntry.code,
+      primary_diagnosis.description?.trim() || catalogEntry.description,
+      primary_diagnosis.certainty,
+      primary_diagnosis.date_identified,
+      primary_diagnosis.supporting_evidence,
+      JSON.stringify(this.normalizeComorbidities(diagnosisData.comorbidities || [])),
+      JSON.stringify(this.normalizeDifferentials(diagnosisData.differential_diagnoses || []))
+    ];
+
+    const result = await database.query(query, values);
+    return this.mapRow(result.rows[0]);
+  }
+
+  /**
+   * Buscar diagnóstico por ID
+   */
+  static async findById(id: string): Promise<DiagnosisRecord | null> {
+    const result = await database.query(
+      `SELECT ${DIAGNOSIS_COLUMNS} FROM diagnoses WHERE id = $1`,
+      [id]
+    );
+    return result.rows[0] ? this.mapRow(result.rows[0]) : null;
+  }
+
+  /**
+   * Obtener diagnósticos de un paciente (activos primero)
+   */
+  static async findByPatientId(
+    patientId: string,
+    status?: DiagnosisRecord['status']
+  ): Promise<DiagnosisRecord[]> {
+    const conditions = ['patient_id = $1'];
+    const values: any[] = [patientId];
+
+    if (status) {
+      conditions.push('status = $2');
+      values.push(status);
+    }
+
+    const query = `
+      SELECT ${DIAGNOSIS_COLUMNS}
+      FROM diagnoses
+      WHERE ${conditions.join(' AND ')}
+      ORDER BY CASE status WHEN 'active' THEN 0 ELSE 1 END, date_identified DESC, created_at DESC
+    `;
+
+    const result = await database.query(query, values);
+    return result.rows.map((row: DiagnosisRow) => this.mapRow(row));
+  }
+
+  /**
+   * Actualizar diagnóstico
+   */
+  static async update(id: string, updateData: DiagnosisUpdateRequest): Promise<DiagnosisRecord | null> {
+    const current = await this.findById(id);
+    if (!current) {
+      return null;
+    }
+
+    const fields: string[] = [];
+    const values: any[] = [];
+    let paramCount = 1;
+
+    const addField = (column: string, value: any) => {
+      fields.push(`${column} = $${paramCount}`);
+      values.push(value);
+      paramCount++;
+    };
+
+    const primary = updateData.primary_diagnosis;
+    if (primary) {
+      if (primary.code !== undefined) {
+        const catalogEntry = await DiagnosisCodeModel.findByCode(primary.code);
+        if (!catalogEntry) {
+          throw new Error(`El código diagnóstico ${primary.code} no existe en el catálogo`);
+        }
+        addField('primary_code', catalogEntry.code);
+
+        // Al cambiar el código sin descripción explícita se usa la del catálogo
+        if (primary.description === undefined && catalogEntry.code !== current.primary_diagnosis.code) {
+          addField('primary_description', catalogEntry.description);
+        }
+      }
+
+      if (primary.description !== undefined) {
+        addField('primary_description', primary.description.trim());
+      }
+
+      if (primary.certainty !== undefined) {
+        addField('certainty', primary.certainty);
+      }
+
+      if (primary.date_identified !== undefined) {
+        if (isAfter(parseISO(primary.date_identified), new Date())) {
+          throw new Error('La fecha de identificación no puede ser futura');
+        }
+        if (
+          current.primary_diagnosis.date_resolved &&
+          isAfter(parseISO(primary.date_identified), parseISO(current.primary_diagnosis.date_resolved))
+        ) {
+          throw new Error('La fecha de resolución no puede ser anterior a la fecha de identificación');
+        }
+        addField('date_identified', primary.date_identified);
+      }
+
+      if (primary.supporting_evidence !== undefined) {
+        addField('supporting_evidence', primary.supporting_evidence);
+      }
+    }
+
+    if (updateData.comorbidities !== undefined) {
+      addField('comorbidities', JSON.stringify(this.normalizeComorbidities(updateData.comorbidities)));
+    }
+
+    if (updateData.differential_diagnoses !== undefined) {
+      addField('differential_diagnoses', JSON.stringify(this.normalizeDifferentials(updateData.differential_diagnoses)));
+    }
+
+    if (fields.length === 0) {
+      return current;
+    }
+
+    values.push(id);
+
+    const query = `
+      UPDATE diagnoses
+      SET ${fields.join(', ')}
+      WHERE id = $${paramCount}
+      RETURNING ${DIAGNOSIS_COLUMNS}
+    `;
+
+    const result = await database.query(query, values);
+    return result.rows[0] ? this.mapRow(result.rows[0]) : null;
+  }
+
+  /**
+   * Marcar diagnóstico como resuelto
+   */
+  static async resolve(id: string, dateResolved: string): Promise<DiagnosisRecord | null> {
+    const current = await this.findById(id);
+    if (!current) {
+      return null;
+    }
+
+    if (current.status === 'resolved') {
+      throw new Error('El diagnóstico ya está resuelto');
+    }
+
+    if (isAfter(parseISO(dateResolved), new Date())) {
+      throw new Error('La fecha de resolución no puede ser futura');
+    }
+
+    if (isBefore(parseISO(dateResolved), parseISO(current.primary_diagnosis.date_identified))) {
+      throw new Error('La fecha de resolución no puede ser anterior a la fecha de identificación');
+    }
+
+    const query = `
+      UPDATE diagnoses
+      SET status = 'resolved', date_resolved = $1
+      WHERE id = $2 AND status = 'active'
+      RETURNING ${DIAGNOSIS_COLUMNS}
+    `;
+
+    const result = await database.query(query, [dateResolved, id]);
+    if (result.rows.length === 0) {
+      throw new Error('El diagnóstico ya está resuelto');
+    }
+    return this.mapRow(result.rows[0]);
+  }
+
+  /**
+   * Reabrir un diagnóstico resuelto (recaída o resolución registrada por error)
+   */
+  static async reopen(id: string): Promise<DiagnosisRecord | null> {
+    const current = await this.findById(id);
+    if (!current) {
+      return null;
+    }
+
+    const query = `
+      UPDATE diagnoses
+      SET status = 'active', date_resolved = NULL
+      WHERE id = $1 AND status = 'resolved'
+      RETURNING ${DIAGNOSIS_COLUMNS}
+    `;
+
+    const result = await database.query(query, [id]);
+    if (result.rows.length === 0) {
+      throw new Error('El diagnóstico ya está activo');
+    }
+    return this.mapRow(result.rows[0]);
+  }
+
+  /**
+   * Completar campos de texto opcionales de las comorbilidades
+   */
+  private static normalizeComorbidities(
+    comorbidities: DiagnosisRecord['comorbidities']
+  ): DiagnosisRecord['comorbidities'] {
+    return comorbidities.map(item => ({
+      diagnosis: item.diagnosis.trim(),
+      relationship: item.relationship,
+      impact: item.impact?.trim() || ''
+    }));
+  }
+
+  /**
+   * Completar campos de texto opcionales de los diagnósticos diferenciales
+   */
+  private static normalizeDifferentials(
+    differentials: DiagnosisRecord['differential_diagnoses']
+  ): DiagnosisRecord['differential_diagnoses'] {
+    return differentials.map(item => ({
+      diagnosis: item.diagnosis.trim(),
+      ruled_out_by: item.ruled_out_by?.trim() || '',
+      pending_tests: item.pending_tests?.trim() || ''
+    }));
+  }
+
+  /**
+   * Convertir fila de base de datos al formato de registro diagnóstico
+   */
+  private static mapRow(row: DiagnosisRow): DiagnosisRecord {
+    return {
+      id: row.id,
+      patient_id: row.patient_id,
+      recorded_by: row.recorded_by,
+      status: row.status,
+      primary_diagnosis: {
+        code: row.primary_code,
+        description: row.primary_description,
+        certainty: row.certainty,
+        date_identified: row.date_identified,
+        date_resolved: row.date_resolved || undefined,
+        supporting_evidence: row.supporting_evidence
+      },
+      comorbidities: row.comorbidities || [],
+      differential_diagnoses: row.differential_diagnoses || [],
+      created_at: row.created_at,
+      updated_at: row.updated_at
+    };
+  }
+}
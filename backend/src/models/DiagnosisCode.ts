@@ -0,0 +1,88 @@
+import database from '@/config/database';
+import { DiagnosisCode, DiagnosisCodeSearchResult } from '@/types';
+
+// Similitud mínima (pg_trgm word_similarity) para considerar una coincidencia
+const MIN_SIMILARITY = 0.35;
+
+export class DiagnosisCodeModel {
+  /**
+   * Normalizar código diagnóstico (mayúsculas, sin espacios)
+   */
+  static normalizeCode(code: string): string {
+    return code.trim().toUpperCase();
+  }
+
+  /**
+   * Buscar un código en el catálogo (CIE-10 tiene prioridad sobre DSM-5)
+   */
+  static async findByCode(code: string): Promise<DiagnosisCode | null> {
+    const query = `
+      SELECT code, system, description, category
+      FROM diagnosis_codes
+      WHERE code = $1
+      ORDER BY CASE system WHEN 'ICD-10' THEN 0 ELSE 1 END
+      LIMIT 1
+    `;
+
+    const result = await database.query(query, [this.normalizeCode(code)]);
+    return result.rows[0] || null;
+  }
+
+  /**
+   * Buscar varios códigos del catálogo (CIE-10 tiene prioridad sobre DSM-5)
+   */
+  static async findByCodes(codes: string[]): Promise<DiagnosisCode[]> {
+    if (codes.length === 0) {
+      return [];
+    }
+
+    const query = `
+      SELECT DISTINCT ON (code) code, system, description, category
+      FROM diagnosis_codes
+      WHERE code = ANY($1)
+      ORDER BY code, CASE system WHEN 'ICD-10' THEN 0 ELSE 1 END
+    `;
+
+    const result = await database.query(query, [codes.map(code => this.normalizeCode(code))]);
+    return result.rows;
+  }
+
+  /**
+   * Búsqueda difusa por código o descripción en español.
+   *
+   * Los prefijos de código (ej. "F32") tienen prioridad; el resto se ordena
+   * por similitud de trigramas sobre el texto sin acentos, de modo que
+   * "depresion" o "ansieda" encuentran sus diagnósticos.
+   */
+  static async search(term: string, limit: number = 20): Promise<DiagnosisCodeSearchResult[]> {
+    const query = `
+      WITH q AS (
+        SELECT LOWER(unaccent($1)) AS term, UPPER($2) AS code_prefix
+      )
+      SELECT dc.code, dc.system, dc.description, dc.category,
+             GREATEST(
+               CASE
+                 WHEN dc.code = q.code_prefix THEN 1
+                 WHEN dc.code LIKE q.code_prefix || '%' THEN 0.9
+                 ELSE 0
+               END,
+               word_similarity(q.term, dc.search_text)
+             )::float AS score
+      FROM diagnosis_codes dc, q
+      WHERE dc.code LIKE q.code_prefix || '%'
+         OR word_similarity(q.term, dc.search_text) >= $3
+      ORDER BY score DESC, dc.code ASC, dc.system ASC
+      LIMIT $4
+    `;
+
+    const trimmed = term.trim();
+    // Los comodines de LIKE no forman parte de ningún código
+    const codePrefix = trimmed.replace(/[%_\\\s]/g, '');
+
+    const result = await database.query(query, [trimmed, codePrefix || null, MIN_SIMILARITY, limit]);
+    return result.rows.map((row: DiagnosisCodeSearchResult) => ({
+      ...row,
+      score: Math.round(row.score * 100) / 100
+    }));
+  }
+}
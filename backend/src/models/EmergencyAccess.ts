@@ -0,0 +1,86 @@
+import { addMinutes } from 'date-fns';
+import config from '@/config';
+import { createRepository } from '@/repositories';
+import { CareTeamModel } from '@/models/CareTeam';
+import { EmergencyAccessGrant, EmergencyAccessRequest } from '@/types';
+
+export const emergencyAccessRepository = createRepository<EmergencyAccessGrant>({
+  table: 'emergency_access_grants'
+});
+
+export class EmergencyAccessModel {
+  /**
+   * Otorgar acceso de lectura temporal a un paciente fuera del equipo de
+   * atención; la justificación escrita es obligatoria
+   */
+  static async grant(request: EmergencyAccessRequest, userId: string): Promise<EmergencyAccessGrant> {
+    const minutes = request.duration_minutes || config.emergencyAccess.defaultMinutes;
+
+    if (minutes > config.emergencyAccess.maxMinutes) {
+      throw new Error(`El acceso de emergencia puede durar como máximo ${config.emergencyAccess.maxMinutes} minutos`);
+    }
+
+    if (await CareTeamModel.findActiveMembership(request.patient_id, userId)) {
+      throw new Error('Ya forma parte del equipo de atención del paciente');
+    }
+
+    if (await this.findActive(request.patient_id, userId)) {
+      throw new Error('Ya tiene un acceso de emergencia vigente a este paciente');
+    }
+
+    return emergencyAccessRepository.insert({
+      patient_id: request.patient_id,
+      user_id: userId,
+      reason: request.reason.trim(),
+      expires_at: addMinutes(new Date(), minutes)
+    });
+  }
+
+  /**
+   * Acceso de emergencia vigente del usuario al paciente
+   */
+  static async findActive(patientId: string, userId: string): Promise<EmergencyAccessGrant | null> {
+    return emergencyAccessRepository.findOne({
+      patient_id: patientId,
+      user_id: userId,
+      revoked_at: null,
+      expires_at: { gt: new Date() }
+    });
+  }
+
+  static async findById(id: string): Promise<EmergencyAccessGrant | null> {
+    return emergencyAccessRepository.findOne({ id });
+  }
+
+  /**
+   * Accesos de emergencia, de lo más reciente a lo más antiguo
+   */
+  static async findAll(filters: {
+    patient_id?: string;
+    user_id?: string;
+    active?: boolean;
+  } = {}): Promise<EmergencyAccessGrant[]> {
+    const grants = await emergencyAccessRepository.findMany(
+      { patient_id: filters.patient_id, user_id: filters.user_id },
+      { orderBy: [{ column: 'created_at', direction: 'DESC' }] }
+    );
+
+    if (filters.active === undefined) {
+      return grants;
+    }
+
+    const now = new Date();
+    return grants.filter(grant => (!grant.revoked_at && new Date(grant.expires_at) > now) === filters.active);
+  }
+
+  /**
+   * Finalizar un acceso antes de su vencimiento; null si ya no estaba vigente
+   */
+  static async revoke(id: string, revokedBy: string): Promise<EmergencyAccessGrant | null> {
+    const [revoked] = await emergencyAccessRepository.update(
+      { id, revoked_at: null, expires_at: { gt: new Date() } },
+      { revoked_at: new Date(), revoked_by: revokedBy }
+    );
+    return revoked || null;
+  }
+}
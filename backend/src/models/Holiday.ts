@@ -0,0 +1,118 @@
+import { format } from 'date-fns';
+import config from '@/config';
+import { createRepository } from '@/repositories';
+import { Holiday, HolidayCreateRequest } from '@/types';
+import { holidaysFor } from '@/utils/holidays';
+
+export const holidayRepository = createRepository<Holiday>({
+  table: 'holidays',
+  timestamps: ['created_at'],
+  defaults: { source: 'calendar' },
+  unique: [['country_code', 'holiday_date']]
+});
+
+/**
+ * Normalizar la fecha (PostgreSQL devuelve DATE como Date) a YYYY-MM-DD
+ */
+const toHoliday = (row: Holiday): Holiday => ({
+  ...row,
+  holiday_date: typeof row.holiday_date === 'string'
+    ? row.holiday_date.slice(0, 10)
+    : format(row.holiday_date as unknown as Date, 'yyyy-MM-dd')
+});
+
+export class HolidayModel {
+  /**
+   * País del calendario de feriados configurado
+   */
+  static get countryCode(): string {
+    return config.scheduling.holidayCountry.toUpperCase();
+  }
+
+  /**
+   * Feriado en una fecha (YYYY-MM-DD), si lo hay
+   */
+  static async findByDate(date: string): Promise<Holiday | null> {
+    const holiday = await holidayRepository.findOne({
+      country_code: this.countryCode,
+      holiday_date: date
+    });
+    return holiday ? toHoliday(holiday) : null;
+  }
+
+  /**
+   * Feriados de un año
+   */
+  static async findByYear(year: number): Promise<Holiday[]> {
+    const holidays = await holidayRepository.findMany(
+      {
+        country_code: this.countryCode,
+        holiday_date: { gte: `${year}-01-01`, lte: `${year}-12-31` }
+      },
+      { orderBy: [{ column: 'holiday_date' }] }
+    );
+    return holidays.map(toHoliday);
+  }
+
+  /**
+   * Registrar un cierre propio de la clínica
+   */
+  static async create(holidayData: HolidayCreateRequest): Promise<Holiday> {
+    try {
+      const holiday = await holidayRepository.insert({
+        holiday_date: holidayData.holiday_date,
+        name: holidayData.name.trim(),
+        country_code: this.countryCode,
+        source: 'custom'
+      });
+      return toHoliday(holiday);
+    } catch (error: any) {
+      if (error.code === '23505') {
+        throw new Error('Ya existe un feriado registrado en esa fecha');
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Cargar el calendario nacional de un año; las fechas ya registradas se conservan
+   */
+  static async seedYear(year: number): Promise<Holiday[]> {
+    const created: Holiday[] = [];
+
+    for (const definition of holidaysFor(this.countryCode, year)) {
+      const existing = await holidayRepository.count({
+        country_code: this.countryCode,
+        holiday_date: definition.date
+      });
+      if (existing > 0) {
+        continue;
+      }
+
+      try {
+        const holiday = await holidayRepository.insert({
+          holiday_date: definition.date,
+          name: definition.name,
+          country_code: this.countryCode,
+          source: 'calendar'
+        });
+        created.push(toHoliday(holiday));
+      } catch (error: any) {
+        // Otra carga simultánea ya registró la fecha
+        if (error.code !== '23505') {
+          throw error;
+        }
+      }
+    }
+
+    return created;
+  }
+
+  /**
+   * Eliminar feriado
+   */
+  static async delete(id: string): Promise<boolean> {
+    const deleted = await holidayRepository.delete({ id });
+    return deleted > 0;
+  }
+}
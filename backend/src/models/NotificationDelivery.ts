@@ -0,0 +1,45 @@
+import { createRepository } from '@/repositories';
+import { NotificationChannelName, NotificationDelivery } from '@/types';
+
+export const notificationDeliveryRepository = createRepository<NotificationDelivery>({
+  table: 'notification_deliveries',
+  timestamps: ['created_at']
+});
+
+export class NotificationDeliveryModel {
+  /**
+   * Registrar un intento de envío
+   */
+  static async record(delivery: Omit<NotificationDelivery, 'id' | 'created_at'>): Promise<NotificationDelivery> {
+    return notificationDeliveryRepository.insert({
+      ...delivery,
+      recipient: delivery.recipient || null,
+      provider_message_id: delivery.provider_message_id || null,
+      error: delivery.error || null
+    });
+  }
+
+  /**
+   * Intentos previos de un recordatorio por un canal
+   */
+  static async findAttempts(
+    appointmentId: string,
+    reminderKey: string,
+    channel: NotificationChannelName
+  ): Promise<NotificationDelivery[]> {
+    return notificationDeliveryRepository.findMany(
+      { appointment_id: appointmentId, reminder_key: reminderKey, channel },
+      { orderBy: [{ column: 'attempt' }] }
+    );
+  }
+
+  /**
+   * Historial de envíos de una cita, del más reciente al más antiguo
+   */
+  static async findByAppointment(appointmentId: string): Promise<NotificationDelivery[]> {
+    return notificationDeliveryRepository.findMany(
+      { appointment_id: appointmentId },
+      { orderBy: [{ column: 'created_at', direction: 'DESC' }] }
+    );
+  }
+}
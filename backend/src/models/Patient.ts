@@ -1,8 +1,16 @@
 import database from '@/config/database';
 import { Patient, PatientCreateRequest, PatientUpdateRequest } from '@/types';
+import { createRepository, runInTransaction } from '@/repositories';
+import { activeCareTeamCondition, CareTeamModel } from '@/models/CareTeam';
 import { v4 as uuidv4 } from 'uuid';
 import { differenceInYears, parseISO } from 'date-fns';
 
+export const patientRepository = createRepository<Patient>({
+  table: 'patients',
+  defaults: { is_active: true },
+  unique: [['medical_record_number']]
+});
+
 export class PatientModel {
   /**
    * Generar número de historia clínica único
@@ -11,20 +19,15 @@ export class PatientModel {
     const currentYear = new Date().getFullYear();
     
     // Buscar el último número de secuencia para el año actual
-    const query = `
-      SELECT medical_record_number
-      FROM patients
-      WHERE medical_record_number LIKE $1
-      ORDER BY medical_record_number DESC
-      LIMIT 1
-    `;
-    
-    const result = await database.query(query, [`${currentYear}-%`]);
+    const last = await patientRepository.findOne(
+      { medical_record_number: { startsWith: `${currentYear}-` } },
+      { orderBy: [{ column: 'medical_record_number', direction: 'DESC' }] }
+    );
     
     let nextSequence = 1;
     
-    if (result.rows.length > 0) {
-      const lastNumber = result.rows[0].medical_record_number;
+    if (last) {
+      const lastNumber = last.medical_record_number;
       const lastSequence = parseInt(lastNumber.split('-')[1]);
       nextSequence = lastSequence + 1;
     }
@@ -48,13 +51,10 @@ export class PatientModel {
       emergency_contact,
       emergency_contact_phone,
       insurance_info,
-      referring_doctor
+      referring_doctor,
+      primary_psychiatrist_id
     } = patientData;
     
-    // Generar ID único y número de historia clínica
-    const id = uuidv4();
-    const medicalRecordNumber = await this.generateMedicalRecordNumber();
-    
     // Validar que la fecha de nacimiento no sea futura
     const birthDate = parseISO(date_of_birth);
     if (birthDate > new Date()) {
@@ -67,80 +67,62 @@ export class PatientModel {
       throw new Error('La edad debe estar entre 0 y 120 años');
     }
     
-    const query = `
-      INSERT INTO patients (
-        id, medical_record_number, first_name, last_name, date_of_birth, gender,
-        phone, email, id_number, address, emergency_contact, emergency_contact_phone,
-        insurance_info, referring_doctor, created_by, is_active
-      ) VALUES (
-        $1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12, $13, $14, $15, $16
-      )
-      RETURNING *
-    `;
-    
-    const values = [
-      id,
-      medicalRecordNumber,
-      first_name.trim(),
-      last_name.trim(),
-      date_of_birth,
-      gender,
-      phone.trim(),
-      email?.trim() || null,
-      id_number.trim(),
-      address?.trim() || null,
-      emergency_contact?.trim() || null,
-      emergency_contact_phone?.trim() || null,
-      insurance_info?.trim() || null,
-      referring_doctor?.trim() || null,
-      createdBy,
-      true // is_active por defecto
-    ];
-    
-    const result = await database.query(query, values);
-    return result.rows[0];
+    // Verificación de unicidad, número de historia e inserción como una
+    // unidad: dos altas simultáneas no pueden obtener el mismo número
+    return runInTransaction(async () => {
+      if (await this.findByIdNumber(id_number)) {
+        throw new Error('El número de identificación ya está registrado');
+      }
+      
+      // Generar ID único y número de historia clínica
+      const id = uuidv4();
+      const medicalRecordNumber = await this.generateMedicalRecordNumber();
+      
+      const patient = await patientRepository.insert({
+        id,
+        medical_record_number: medicalRecordNumber,
+        first_name: first_name.trim(),
+        last_name: last_name.trim(),
+        date_of_birth,
+        gender,
+        phone: phone.trim(),
+        email: email?.trim() || undefined,
+        id_number: id_number.trim(),
+        address: address?.trim() || undefined,
+        emergency_contact: emergency_contact?.trim() || undefined,
+        emergency_contact_phone: emergency_contact_phone?.trim() || undefined,
+        insurance_info: insurance_info?.trim() || undefined,
+        referring_doctor: referring_doctor?.trim() || undefined,
+        created_by: createdBy,
+        is_active: true // is_active por defecto
+      });
+      
+      // Equipo de atención inicial (principal y quien lo registra)
+      await CareTeamModel.addInitialMembers(patient.id, createdBy, primary_psychiatrist_id);
+      
+      return patient;
+    }, { isolationLevel: 'SERIALIZABLE' });
   }
 
   /**
    * Buscar paciente por ID
    */
   static async findById(id: string): Promise<Patient | null> {
-    const query = `
-      SELECT *
-      FROM patients
-      WHERE id = $1 AND is_active = true
-    `;
-    
-    const result = await database.query(query, [id]);
-    return result.rows[0] || null;
+    return patientRepository.findOne({ id, is_active: true });
   }
 
   /**
    * Buscar paciente por número de historia clínica
    */
   static async findByMedicalRecordNumber(medicalRecordNumber: string): Promise<Patient | null> {
-    const query = `
-      SELECT *
-      FROM patients
-      WHERE medical_record_number = $1 AND is_active = true
-    `;
-    
-    const result = await database.query(query, [medicalRecordNumber]);
-    return result.rows[0] || null;
+    return patientRepository.findOne({ medical_record_number: medicalRecordNumber, is_active: true });
   }
 
   /**
    * Buscar paciente por número de identificación
    */
   static async findByIdNumber(idNumber: string): Promise<Patient | null> {
-    const query = `
-      SELECT *
-      FROM patients
-      WHERE id_number = $1 AND is_active = true
-    `;
-    
-    const result = await database.query(query, [idNumber]);
-    return result.rows[0] || null;
+    return patientRepository.findOne({ id_number: idNumber, is_active: true });
   }
 
   /**
@@ -153,6 +135,7 @@ export class PatientModel {
     filters?: {
       is_active?: boolean;
       gender?: string;
+      care_team_user_id?: string; // solo pacientes del equipo de atención del usuario
     }
   ): Promise<{ patients: Patient[], total: number }> {
     const offset = (page - 1) * limit;
@@ -187,6 +170,12 @@ export class PatientModel {
         queryParams.push(filters.gender);
         paramCount++;
       }
+      
+      if (filters.care_team_user_id) {
+        whereClause += ` AND ${activeCareTeamCondition('id', `$${paramCount}`)}`;
+        queryParams.push(filters.care_team_user_id);
+        paramCount++;
+      }
     }
     
     const query = `
@@ -217,9 +206,11 @@ export class PatientModel {
   }
 
   /**
-   * Buscar pacientes por nombre o número de historia clínica
+   * Buscar pacientes por nombre o número de historia clínica (opcionalmente
+   * solo entre los del equipo de atención del usuario)
    */
-  static async search(searchTerm: string, limit: number = 10): Promise<Patient[]> {
+  static async search(searchTerm: string, limit: number = 10, careTeamUserId?: string): Promise<Patient[]> {
+    const careTeamClause = careTeamUserId ? `AND ${activeCareTeamCondition('id', '$3')}` : '';
     const query = `
       SELECT id, medical_record_number, first_name, last_name, date_of_birth, gender, phone, email, is_active
       FROM patients
@@ -231,11 +222,17 @@ export class PatientModel {
         phone ILIKE $1 OR 
         (email IS NOT NULL AND email ILIKE $1)
       )
+      ${careTeamClause}
       ORDER BY first_name, last_name
       LIMIT $2
     `;
     
-    const result = await database.query(query, [`%${searchTerm}%`, limit]);
+    const params: any[] = [`%${searchTerm}%`, limit];
+    if (careTeamUserId) {
+      params.push(careTeamUserId);
+    }
+    
+    const result = await database.query(query, params);
     return result.rows;
   }
 
@@ -249,84 +246,48 @@ export class PatientModel {
       'insurance_info', 'referring_doctor', 'is_active'
     ];
     
-    const setClause = [];
-    const values = [];
-    let paramCount = 1;
+    const changes: Record<string, unknown> = {};
     
-    // Construir cláusula SET dinámicamente
+    // Solo campos permitidos
     Object.keys(updates).forEach(key => {
       if (allowedFields.includes(key) && updates[key as keyof PatientUpdateRequest] !== undefined) {
-        setClause.push(`${key} = $${paramCount}`);
-        values.push(updates[key as keyof PatientUpdateRequest]);
-        paramCount++;
+        changes[key] = updates[key as keyof PatientUpdateRequest];
       }
     });
     
-    if (setClause.length === 0) {
+    if (Object.keys(changes).length === 0) {
       throw new Error('No hay campos válidos para actualizar');
     }
     
-    setClause.push(`updated_at = NOW()`);
-    values.push(id);
-    
-    const query = `
-      UPDATE patients
-      SET ${setClause.join(', ')}
-      WHERE id = $${paramCount} AND is_active = true
-      RETURNING *
-    `;
-    
-    const result = await database.query(query, values);
-    return result.rows[0] || null;
+    const [patient] = await patientRepository.update({ id, is_active: true }, changes as Partial<Patient>);
+    return patient || null;
   }
 
   /**
    * Desactivar paciente (soft delete)
    */
   static async deactivate(id: string): Promise<boolean> {
-    const query = `
-      UPDATE patients
-      SET is_active = false, updated_at = NOW()
-      WHERE id = $1 AND is_active = true
-    `;
-    
-    const result = await database.query(query, [id]);
-    return result.rowCount > 0;
+    const updated = await patientRepository.update({ id, is_active: true }, { is_active: false });
+    return updated.length > 0;
   }
 
   /**
    * Activar paciente
    */
   static async activate(id: string): Promise<boolean> {
-    const query = `
-      UPDATE patients
-      SET is_active = true, updated_at = NOW()
-      WHERE id = $1 AND is_active = false
-    `;
-    
-    const result = await database.query(query, [id]);
-    return result.rowCount > 0;
+    const updated = await patientRepository.update({ id, is_active: false }, { is_active: true });
+    return updated.length > 0;
   }
 
   /**
    * Verificar si el número de identificación ya existe
    */
   static async idNumberExists(idNumber: string, excludeId?: string): Promise<boolean> {
-    let query = `
-      SELECT COUNT(*) as count
-      FROM patients
-      WHERE id_number = $1
-    `;
-    
-    const values = [idNumber];
-    
-    if (excludeId) {
-      query += ` AND id != $2`;
-      values.push(excludeId);
-    }
-    
-    const result = await database.query(query, values);
-    return parseInt(result.rows[0].count) > 0;
+    const count = await patientRepository.count({
+      id_number: idNumber,
+      id: excludeId ? { ne: excludeId } : undefined
+    });
+    return count > 0;
   }
 
   /**
@@ -0,0 +1,262 @@
+import { AppointmentModel } from '@/models/Appointment';
+import { ConsultationSessionModel } from '@/models/ConsultationSession';
+import { DiagnosisModel } from '@/models/Diagnosis';
+import { TreatmentPlanModel } from '@/models/TreatmentPlan';
+import {
+  Appointment,
+  ConsultationSession,
+  DiagnosisRecord,
+  PatientTimeline,
+  TimelineEvent,
+  TimelineEventType,
+  TimelineQuery,
+  TreatmentPlan
+} from '@/types';
+import { APPOINTMENT_TYPE_LABELS } from '@/utils/appointmentStatus';
+import { format, parseISO } from 'date-fns';
+
+// Máximo de registros por fuente que se consideran al construir la línea de tiempo
+const MAX_RECORDS_PER_SOURCE = 500;
+
+const MEDICATION_EVENT_TYPES: TimelineEventType[] = ['medication_started', 'medication_stopped'];
+
+export class PatientTimelineModel {
+  /**
+   * Construir la línea de tiempo paginada de un paciente
+   */
+  static async build(patientId: string, options: TimelineQuery): Promise<PatientTimeline> {
+    const [appointments, sessions, diagnoses, plans] = await Promise.all([
+      AppointmentModel.findByPatientId(patientId, MAX_RECORDS_PER_SOURCE),
+      ConsultationSessionModel.findByPatientId(patientId, MAX_RECORDS_PER_SOURCE),
+      DiagnosisModel.findByPatientId(patientId),
+      TreatmentPlanModel.findHistoryByPatientId(patientId, MAX_RECORDS_PER_SOURCE)
+    ]);
+
+    let events: TimelineEvent[] = [
+      ...appointments.map(appointment => this.appointmentEvent(appointment)),
+      ...sessions.flatMap(session => this.sessionEvents(session)),
+      ...diagnoses.flatMap(diagnosis => this.diagnosisEvents(diagnosis)),
+      ...this.treatmentPlanEvents(plans),
+      ...this.medicationEvents(plans)
+    ];
+
+    if (options.types && options.types.length > 0) {
+      const allowed = new Set(options.types);
+      events = events.filter(event => allowed.has(event.type));
+    }
+
+    const direction = options.sortOrder === 'ASC' ? 1 : -1;
+    events.sort((a, b) => {
+      const diff = new Date(a.occurred_at).getTime() - new Date(b.occurred_at).getTime();
+      return diff !== 0 ? diff * direction : a.id.localeCompare(b.id);
+    });
+
+    const total = events.length;
+    const totalPages = Math.ceil(total / options.limit);
+    const offset = (options.page - 1) * options.limit;
+    const pageEvents = events.slice(offset, offset + options.limit);
+
+    const sessionIds = new Set(
+      pageEvents.filter(event => event.source.resource === 'session').map(event => event.source.id)
+    );
+
+    return {
+      events: pageEvents,
+      sessions: sessions.filter(session => sessionIds.has(session.id)),
+      medications: pageEvents.filter(event => MEDICATION_EVENT_TYPES.includes(event.type)),
+      pagination: {
+        page: options.page,
+        limit: options.limit,
+        total,
+        totalPages,
+        hasNext: options.page < totalPages,
+        hasPrev: options.page > 1
+      }
+    };
+  }
+
+  /**
+   * Fecha (DATE de PostgreSQL o YYYY-MM-DD) y hora opcional a ISO
+   */
+  private static toISO(date: Date | string, time?: string): string {
+    const day = typeof date === 'string' ? date.substring(0, 10) : format(date, 'yyyy-MM-dd');
+    return parseISO(time ? `${day}T${time}` : day).toISOString();
+  }
+
+  private static appointmentEvent(appointment: Appointment): TimelineEvent {
+    return {
+      id: `appointment:${appointment.id}`,
+      type: 'appointment',
+      occurred_at: this.toISO(appointment.appointment_date, appointment.start_time),
+      title: `Cita: ${APPOINTMENT_TYPE_LABELS[appointment.type] || appointment.type}`,
+      description: appointment.notes,
+      source: { resource: 'appointment', id: appointment.id },
+      data: {
+        status: appointment.status,
+        type: appointment.type,
+        start_time: appointment.start_time,
+        end_time: appointment.end_time,
+        duration_minutes: appointment.duration_minutes,
+        psychiatrist_id: appointment.psychiatrist_id
+      }
+    };
+  }
+
+  private static sessionEvents(session: ConsultationSession): TimelineEvent[] {
+    const events: TimelineEvent[] = [{
+      id: `session:${session.id}`,
+      type: 'session',
+      occurred_at: new Date(session.session_date).toISOString(),
+      title: 'Sesión de consulta',
+      description: session.clinical_observations,
+      source: { resource: 'session', id: session.id },
+      data: {
+        session_status: session.session_status,
+        duration_minutes: session.session_duration_minutes,
+        symptoms_presented: session.symptoms_presented || [],
+        risk_assessment: session.risk_assessment || null,
+        psychiatrist_id: session.psychiatrist_id
+      }
+    }];
+
+    if (session.signed_at) {
+      events.push({
+        id: `session_signed:${session.id}`,
+        type: 'session_signed',
+        occurred_at: new Date(session.signed_at).toISOString(),
+        title: 'Sesión firmada',
+        source: { resource: 'session', id: session.id },
+        data: {
+          signed_by: session.signed_by,
+          content_hash: session.content_hash
+        }
+      });
+    }
+
+    return events;
+  }
+
+  private static diagnosisEvents(diagnosis: DiagnosisRecord): TimelineEvent[] {
+    const { primary_diagnosis } = diagnosis;
+    const label = `${primary_diagnosis.code} ${primary_diagnosis.description}`;
+
+    const events: TimelineEvent[] = [{
+      id: `diagnosis_identified:${diagnosis.id}`,
+      type: 'diagnosis_identified',
+      occurred_at: this.toISO(primary_diagnosis.date_identified),
+      title: `Diagnóstico: ${label}`,
+      description: primary_diagnosis.supporting_evidence,
+      source: { resource: 'diagnosis', id: diagnosis.id },
+      data: {
+        code: primary_diagnosis.code,
+        certainty: primary_diagnosis.certainty,
+        status: diagnosis.status
+      }
+    }];
+
+    if (primary_diagnosis.date_resolved) {
+      events.push({
+        id: `diagnosis_resolved:${diagnosis.id}`,
+        type: 'diagnosis_resolved',
+        occurred_at: this.toISO(primary_diagnosis.date_resolved),
+        title: `Diagnóstico resuelto: ${label}`,
+        source: { resource: 'diagnosis', id: diagnosis.id },
+        data: { code: primary_diagnosis.code }
+      });
+    }
+
+    return events;
+  }
+
+  /**
+   * Una entrada por versión, y la suspensión del plan cuando la última
+   * versión fue reemplazada sin sucesora
+   */
+  private static treatmentPlanEvents(plans: TreatmentPlan[]): TimelineEvent[] {
+    const latestVersion = plans.reduce((max, plan) => Math.max(max, plan.version), 0);
+
+    return plans.flatMap(plan => {
+      const events: TimelineEvent[] = [{
+        id: `treatment_plan_version:${plan.id}`,
+        type: 'treatment_plan_version',
+        occurred_at: new Date(plan.created_at).toISOString(),
+        title: plan.version === 1
+          ? 'Plan de tratamiento creado'
+          : `Plan de tratamiento actualizado (versión ${plan.version})`,
+        description: plan.short_term_goals,
+        source: { resource: 'treatment_plan', id: plan.id },
+        data: {
+          version: plan.version,
+          is_active: plan.is_active,
+          psychiatrist_id: plan.psychiatrist_id,
+          psychotherapy_modality: plan.psychotherapy?.modality || null
+        }
+      }];
+
+      if (plan.version === latestVersion && !plan.is_active && plan.superseded_at) {
+        events.push({
+          id: `treatment_plan_discontinued:${plan.id}`,
+          type: 'treatment_plan_discontinued',
+          occurred_at: new Date(plan.superseded_at).toISOString(),
+          title: 'Plan de tratamiento suspendido',
+          source: { resource: 'treatment_plan', id: plan.id },
+          data: { version: plan.version }
+        });
+      }
+
+      return events;
+    });
+  }
+
+  /**
+   * Inicios y suspensiones de medicamentos. Cada medicamento aparece en
+   * varias versiones del plan con las mismas fechas, por lo que se
+   * deduplican por nombre y fecha tomando la primera versión que lo registra.
+   */
+  private static medicationEvents(plans: TreatmentPlan[]): TimelineEvent[] {
+    const events = new Map<string, TimelineEvent>();
+    const byVersion = [...plans].sort((a, b) => a.version - b.version);
+
+    byVersion.forEach(plan => {
+      (plan.pharmacotherapy?.medications || []).forEach(medication => {
+        const name = medication.name.trim().toLowerCase();
+
+        const startKey = `medication_started:${name}:${medication.start_date}`;
+        if (medication.start_date && !events.has(startKey)) {
+          events.set(startKey, {
+            id: startKey,
+            type: 'medication_started',
+            occurred_at: this.toISO(medication.start_date),
+            title: `Inicio de ${medication.name}`,
+            description: `${medication.dose} - ${medication.schedule}`,
+            source: { resource: 'treatment_plan', id: plan.id },
+            data: {
+              name: medication.name,
+              dose: medication.dose,
+              schedule: medication.schedule,
+              plan_version: plan.version
+            }
+          });
+        }
+
+        const stopKey = `medication_stopped:${name}:${medication.end_date}`;
+        if (medication.end_date && !events.has(stopKey)) {
+          events.set(stopKey, {
+            id: stopKey,
+            type: 'medication_stopped',
+            occurred_at: this.toISO(medication.end_date),
+            title: `Suspensión de ${medication.name}`,
+            source: { resource: 'treatment_plan', id: plan.id },
+            data: {
+              name: medication.name,
+              dose: medication.dose,
+              plan_version: plan.version
+            }
+          });
+        }
+      });
+    });
+
+    return [...events.values()];
+  }
+}
@@ -0,0 +1,168 @@
+import { createRepository, runInTransaction } from '@/repositories';
+import {
+  PsychiatristSchedule,
+  PsychiatristScheduleUpdateRequest,
+  ScheduleBreak,
+  WorkingHours
+} from '@/types';
+import { findScheduleProblem } from '@/utils/schedule';
+
+interface ScheduleSettingsRow {
+  id: string;
+  psychiatrist_id: string;
+  slot_minutes: number;
+  min_lead_minutes: number;
+  buffer_minutes: number;
+  created_at: Date;
+  updated_at: Date;
+}
+
+interface WorkingHoursRow extends WorkingHours {
+  id: string;
+  psychiatrist_id: string;
+  created_at: Date;
+}
+
+interface ScheduleBreakRow extends ScheduleBreak {
+  id: string;
+  psychiatrist_id: string;
+  created_at: Date;
+}
+
+export const scheduleSettingsRepository = createRepository<ScheduleSettingsRow>({
+  table: 'psychiatrist_schedules',
+  unique: [['psychiatrist_id']]
+});
+
+export const workingHoursRepository = createRepository<WorkingHoursRow>({
+  table: 'schedule_working_hours',
+  timestamps: ['created_at']
+});
+
+export const scheduleBreakRepository = createRepository<ScheduleBreakRow>({
+  table: 'schedule_breaks',
+  timestamps: ['created_at']
+});
+
+// Horario aplicado a quien no ha configurado el suyo: todos los días de 8:00 a 20:00,
+// turnos de 30 minutos y 1 hora de anticipación
+const DEFAULT_SCHEDULE: Omit<PsychiatristSchedule, 'psychiatrist_id'> = {
+  slot_minutes: 30,
+  min_lead_minutes: 60,
+  buffer_minutes: 0,
+  working_hours: [0, 1, 2, 3, 4, 5, 6].map(weekday => ({ weekday, start_time: '08:00', end_time: '20:00' })),
+  breaks: [],
+  is_default: true
+};
+
+/**
+ * Normalizar una hora TIME de PostgreSQL (HH:mm:ss) a HH:mm
+ */
+const toHourMinute = (time: string): string => time.slice(0, 5);
+
+export class PsychiatristScheduleModel {
+  /**
+   * Obtener el horario de un psiquiatra (o el horario por defecto)
+   */
+  static async findByPsychiatristId(psychiatristId: string): Promise<PsychiatristSchedule> {
+    const [settings, workingHours, breaks] = await Promise.all([
+      scheduleSettingsRepository.findOne({ psychiatrist_id: psychiatristId }),
+      workingHoursRepository.findMany(
+        { psychiatrist_id: psychiatristId },
+        { orderBy: [{ column: 'weekday' }, { column: 'start_time' }] }
+      ),
+      scheduleBreakRepository.findMany(
+        { psychiatrist_id: psychiatristId },
+        { orderBy: [{ column: 'start_time' }] }
+      )
+    ]);
+
+    if (!settings) {
+      return { psychiatrist_id: psychiatristId, ...DEFAULT_SCHEDULE };
+    }
+
+    return {
+      psychiatrist_id: psychiatristId,
+      slot_minutes: settings.slot_minutes,
+      min_lead_minutes: settings.min_lead_minutes,
+      buffer_minutes: settings.buffer_minutes,
+      working_hours: workingHours.map(hours => ({
+        weekday: hours.weekday,
+        start_time: toHourMinute(hours.start_time),
+        end_time: toHourMinute(hours.end_time)
+      })),
+      breaks: breaks.map(item => ({
+        weekday: item.weekday ?? null,
+        start_time: toHourMinute(item.start_time),
+        end_time: toHourMinute(item.end_time),
+        label: item.label || undefined
+      })),
+      is_default: false
+    };
+  }
+
+  /**
+   * Reemplazar el horario completo de un psiquiatra
+   */
+  static async replace(
+    psychiatristId: string,
+    scheduleData: PsychiatristScheduleUpdateRequest
+  ): Promise<PsychiatristSchedule> {
+    const breaks = scheduleData.breaks || [];
+
+    const problem = findScheduleProblem(scheduleData.working_hours, breaks);
+    if (problem) {
+      throw new Error(`Horario inválido: ${problem}`);
+    }
+
+    await runInTransaction(async () => {
+      const settings = {
+        slot_minutes: scheduleData.slot_minutes,
+        min_lead_minutes: scheduleData.min_lead_minutes,
+        buffer_minutes: scheduleData.buffer_minutes
+      };
+
+      const [updated] = await scheduleSettingsRepository.update({ psychiatrist_id: psychiatristId }, settings);
+      if (!updated) {
+        await scheduleSettingsRepository.insert({ psychiatrist_id: psychiatristId, ...settings });
+      }
+
+      await workingHoursRepository.delete({ psychiatrist_id: psychiatristId });
+      await scheduleBreakRepository.delete({ psychiatrist_id: psychiatristId });
+
+      for (const hours of scheduleData.working_hours) {
+        await workingHoursRepository.insert({
+          psychiatrist_id: psychiatristId,
+          weekday: hours.weekday,
+          start_time: hours.start_time,
+          end_time: hours.end_time
+        });
+      }
+
+      for (const item of breaks) {
+        await scheduleBreakRepository.insert({
+          psychiatrist_id: psychiatristId,
+          weekday: item.weekday ?? undefined,
+          start_time: item.start_time,
+          end_time: item.end_time,
+          label: item.label?.trim() || undefined
+        });
+      }
+    });
+
+    return this.findByPsychiatristId(psychiatristId);
+  }
+
+  /**
+   * Eliminar el horario configurado (vuelve a aplicar el horario por defecto)
+   */
+  static async reset(psychiatristId: string): Promise<PsychiatristSchedule> {
+    await runInTransaction(async () => {
+      await workingHoursRepository.delete({ psychiatrist_id: psychiatristId });
+      await scheduleBreakRepository.delete({ psychiatrist_id: psychiatristId });
+      await scheduleSettingsRepository.delete({ psychiatrist_id: psychiatristId });
+    });
+
+    return this.findByPsychiatristId(psychiatristId);
+  }
+}
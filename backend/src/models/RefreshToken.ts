@@ -0,0 +1,195 @@
+import jwt from 'jsonwebtoken';
+import { v4 as uuidv4 } from 'uuid';
+import config from '@/config';
+import { createRepository, runInTransaction } from '@/repositories';
+import { AuthSession, RefreshToken, RefreshTokenRevokedReason } from '@/types';
+
+export const refreshTokenRepository = createRepository<RefreshToken>({
+  table: 'refresh_tokens'
+});
+
+interface RefreshTokenClaims {
+  userId: string;
+  type: string;
+  familyId: string;
+  jti: string;
+  exp: number;
+}
+
+// Dispositivo desde el que se inicia o renueva la sesión
+export interface DeviceInfo {
+  user_agent?: string | null;
+  ip_address?: string | null;
+}
+
+export interface IssuedRefreshToken {
+  token: string;
+  record: RefreshToken;
+}
+
+export class RefreshTokenModel {
+  /**
+   * Emitir un refresh token y registrarlo; sin familia se inicia una sesión
+   * nueva, identificada por el primer token
+   */
+  static async issue(userId: string, device: DeviceInfo, familyId?: string): Promise<IssuedRefreshToken> {
+    const id = uuidv4();
+    const token = jwt.sign(
+      { userId, type: 'refresh', familyId: familyId || id },
+      config.auth.refreshTokenSecret,
+      { expiresIn: config.auth.refreshTokenExpiresIn, jwtid: id } as jwt.SignOptions
+    );
+    const { exp } = jwt.decode(token) as RefreshTokenClaims;
+
+    const record = await refreshTokenRepository.insert({
+      id,
+      user_id: userId,
+      family_id: familyId || id,
+      user_agent: device.user_agent ? device.user_agent.slice(0, 500) : null,
+      ip_address: device.ip_address || null,
+      expires_at: new Date(exp * 1000)
+    });
+
+    return { token, record };
+  }
+
+  /**
+   * Renovar: el token usado queda rotado y se emite su reemplazo en la misma
+   * familia. Presentar un token ya rotado indica que fue robado (o copiado):
+   * se revoca toda la familia y el dispositivo debe iniciar sesión de nuevo.
+   */
+  static async rotate(token: string, device: DeviceInfo): Promise<IssuedRefreshToken> {
+    const claims = this.verify(token);
+    const current = await refreshTokenRepository.findOne({ id: claims.jti });
+
+    if (!current || current.user_id !== claims.userId) {
+      throw new Error('Refresh token no registrado');
+    }
+
+    if (current.revoked_at) {
+      if (current.revoked_reason === 'rotated') {
+        await this.revokeFamily(current.family_id, 'reuse_detected');
+        throw new Error('Refresh token reutilizado: se cerró la sesión por seguridad');
+      }
+      throw new Error('Refresh token revocado');
+    }
+
+    const next = await runInTransaction(async () => {
+      const issued = await this.issue(current.user_id, device, current.family_id);
+      const [rotated] = await refreshTokenRepository.update(
+        { id: current.id, revoked_at: null },
+        { revoked_at: new Date(), revoked_reason: 'rotated', replaced_by: issued.record.id }
+      );
+      return rotated ? issued : null;
+    });
+
+    // Otra renovación con el mismo token se adelantó: también es reutilización
+    if (!next) {
+      await this.revokeFamily(current.family_id, 'reuse_detected');
+      throw new Error('Refresh token reutilizado: se cerró la sesión por seguridad');
+    }
+
+    return next;
+  }
+
+  /**
+   * Cerrar la sesión del refresh token (aunque ya haya vencido); false si el
+   * token no es válido
+   */
+  static async revokeByToken(token: string): Promise<boolean> {
+    let claims: RefreshTokenClaims;
+    try {
+      claims = this.verify(token, true);
+    } catch (error) {
+      return false;
+    }
+
+    return this.revokeSession(claims.userId, claims.familyId, 'logout');
+  }
+
+  /**
+   * Revocar los tokens vigentes de una sesión del usuario; false si la sesión
+   * no existe o ya estaba cerrada
+   */
+  static async revokeSession(
+    userId: string,
+    familyId: string,
+    reason: RefreshTokenRevokedReason = 'revoked'
+  ): Promise<boolean> {
+    const revoked = await refreshTokenRepository.update(
+      { user_id: userId, family_id: familyId, revoked_at: null },
+      { revoked_at: new Date(), revoked_reason: reason }
+    );
+    return revoked.length > 0;
+  }
+
+  /**
+   * Revocar todos los tokens vigentes de una familia (sin importar el usuario)
+   */
+  static async revokeFamily(familyId: string, reason: RefreshTokenRevokedReason): Promise<number> {
+    const revoked = await refreshTokenRepository.update(
+      { family_id: familyId, revoked_at: null },
+      { revoked_at: new Date(), revoked_reason: reason }
+    );
+    return revoked.length;
+  }
+
+  /**
+   * La sesión sigue abierta mientras tenga un refresh token vigente
+   */
+  static async isSessionActive(familyId: string): Promise<boolean> {
+    const active = await refreshTokenRepository.count({
+      family_id: familyId,
+      revoked_at: null,
+      expires_at: { gt: new Date() }
+    });
+    return active > 0;
+  }
+
+  /**
+   * Sesiones abiertas del usuario (una por dispositivo), de la renovada más
+   * recientemente a la más antigua
+   */
+  static async findActiveSessions(userId: string, currentSessionId?: string): Promise<AuthSession[]> {
+    const tokens = await refreshTokenRepository.findMany(
+      { user_id: userId, revoked_at: null, expires_at: { gt: new Date() } },
+      { orderBy: [{ column: 'created_at', direction: 'DESC' }] }
+    );
+
+    const latestByFamily = new Map<string, RefreshToken>();
+    tokens.forEach(token => {
+      if (!latestByFamily.has(token.family_id)) {
+        latestByFamily.set(token.family_id, token);
+      }
+    });
+
+    return Promise.all([...latestByFamily.values()].map(async token => {
+      const first = token.id === token.family_id
+        ? token
+        : await refreshTokenRepository.findOne({ id: token.family_id });
+
+      return {
+        id: token.family_id,
+        user_agent: token.user_agent,
+        ip_address: token.ip_address,
+        started_at: first ? first.created_at : token.created_at,
+        last_refreshed_at: token.created_at,
+        expires_at: token.expires_at,
+        current: token.family_id === currentSessionId
+      };
+    }));
+  }
+
+  /**
+   * Verificar firma, vencimiento y tipo del refresh token
+   */
+  private static verify(token: string, ignoreExpiration: boolean = false): RefreshTokenClaims {
+    const claims = jwt.verify(token, config.auth.refreshTokenSecret, { ignoreExpiration }) as RefreshTokenClaims;
+
+    if (claims.type !== 'refresh' || !claims.jti || !claims.familyId) {
+      throw new Error('Tipo de token inválido');
+    }
+
+    return claims;
+  }
+}
@@ -0,0 +1,80 @@
+import { createRepository } from '@/repositories';
+import { Appointment, ChangeSource, RescheduleRequest, RescheduleRequestCreateRequest } from '@/types';
+
+export const rescheduleRequestRepository = createRepository<RescheduleRequest>({
+  table: 'appointment_reschedule_requests',
+  defaults: { status: 'pending', source: 'patient_link' }
+});
+
+export class RescheduleRequestModel {
+  /**
+   * Registrar una solicitud de reprogramación (una pendiente por cita)
+   */
+  static async create(
+    appointment: Appointment,
+    requestData: RescheduleRequestCreateRequest,
+    source: ChangeSource = 'patient_link'
+  ): Promise<RescheduleRequest> {
+    if (await this.findPendingByAppointment(appointment.id)) {
+      throw new Error('Ya hay una solicitud de reprogramación pendiente para esta cita');
+    }
+
+    return rescheduleRequestRepository.insert({
+      appointment_id: appointment.id,
+      patient_id: appointment.patient_id,
+      psychiatrist_id: appointment.psychiatrist_id,
+      preferred_times: requestData.preferred_times?.trim() || undefined,
+      message: requestData.message?.trim() || undefined,
+      status: 'pending',
+      source
+    });
+  }
+
+  /**
+   * Buscar solicitud por ID
+   */
+  static async findById(id: string): Promise<RescheduleRequest | null> {
+    return rescheduleRequestRepository.findById(id);
+  }
+
+  /**
+   * Solicitud pendiente de una cita, si la hay
+   */
+  static async findPendingByAppointment(appointmentId: string): Promise<RescheduleRequest | null> {
+    return rescheduleRequestRepository.findOne({ appointment_id: appointmentId, status: 'pending' });
+  }
+
+  /**
+   * Listar solicitudes, de la más antigua a la más reciente
+   */
+  static async findAll(filters: {
+    psychiatrist_id?: string;
+    status?: RescheduleRequest['status'];
+  } = {}): Promise<RescheduleRequest[]> {
+    return rescheduleRequestRepository.findMany(
+      { psychiatrist_id: filters.psychiatrist_id, status: filters.status },
+      { orderBy: [{ column: 'created_at' }] }
+    );
+  }
+
+  /**
+   * Cerrar una solicitud pendiente (reprogramada o descartada)
+   */
+  static async resolve(
+    id: string,
+    status: Exclude<RescheduleRequest['status'], 'pending'>,
+    resolvedBy: string,
+    notes?: string
+  ): Promise<RescheduleRequest | null> {
+    const [request] = await rescheduleRequestRepository.update(
+      { id, status: 'pending' },
+      {
+        status,
+        resolution_notes: notes?.trim() || undefined,
+        resolved_by: resolvedBy,
+        resolved_at: new Date()
+      }
+    );
+    return request || null;
+  }
+}
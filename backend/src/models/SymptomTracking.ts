@@ -0,0 +1,159 @@
+import database from '@/config/database';
+import { patientRepository } from '@/models/Patient';
+import { createRepository } from '@/repositories';
+import { SymptomTracking, SymptomTrackingCreateRequest, SymptomTrend } from '@/types';
+import { linearRegression, classifySeverityTrend, mean } from '@/utils/statistics';
+import { parseISO, isAfter, differenceInCalendarDays } from 'date-fns';
+
+export const symptomTrackingRepository = createRepository<SymptomTracking>({
+  table: 'symptom_tracking',
+  timestamps: ['created_at']
+});
+
+export class SymptomTrackingModel {
+  /**
+   * Normalizar tipo de síntoma (minúsculas, sin espacios extremos)
+   */
+  static normalizeType(symptomType: string): string {
+    return symptomType.trim().toLowerCase();
+  }
+
+  /**
+   * Registrar seguimiento de síntoma
+   */
+  static async create(
+    trackingData: SymptomTrackingCreateRequest,
+    recordedBy: string
+  ): Promise<SymptomTracking> {
+    const { patient_id, session_id, tracking_date, symptom_type, severity, notes } = trackingData;
+
+    if (isAfter(parseISO(tracking_date), new Date())) {
+      throw new Error('La fecha de seguimiento no puede ser futura');
+    }
+
+    const activePatients = await patientRepository.count({ id: patient_id, is_active: true });
+    if (activePatients === 0) {
+      throw new Error('El paciente no existe o está inactivo');
+    }
+
+    return symptomTrackingRepository.insert({
+      patient_id,
+      recorded_by: recordedBy,
+      session_id: session_id || undefined,
+      tracking_date,
+      symptom_type: this.normalizeType(symptom_type),
+      severity,
+      notes: notes?.trim() || undefined
+    });
+  }
+
+  /**
+   * Buscar registro por ID
+   */
+  static async findById(id: string): Promise<SymptomTracking | null> {
+    return symptomTrackingRepository.findById(id);
+  }
+
+  /**
+   * Obtener registros de un paciente en los últimos N días
+   */
+  static async findByPatientId(patientId: string, days: number = 30): Promise<SymptomTracking[]> {
+    const query = `
+      SELECT *
+      FROM symptom_tracking
+      WHERE patient_id = $1
+        AND tracking_date >= CURRENT_DATE - $2::integer
+      ORDER BY tracking_date DESC, created_at DESC
+    `;
+
+    const result = await database.query(query, [patientId, days]);
+    return result.rows;
+  }
+
+  /**
+   * Obtener los tipos de síntoma registrados para un paciente
+   */
+  static async findSymptomTypes(patientId: string): Promise<string[]> {
+    const query = `
+      SELECT DISTINCT symptom_type
+      FROM symptom_tracking
+      WHERE patient_id = $1
+      ORDER BY symptom_type
+    `;
+
+    const result = await database.query(query, [patientId]);
+    return result.rows.map((row: { symptom_type: string }) => row.symptom_type);
+  }
+
+  /**
+   * Calcular tendencia de un síntoma en la ventana indicada.
+   *
+   * Las observaciones se agregan por día (promedio diario) y se ajusta una
+   * recta por mínimos cuadrados sobre severidad vs. días transcurridos. El
+   * cambio que proyecta la pendiente entre la primera y la última
+   * observación determina la dirección.
+   */
+  static async getTrend(patientId: string, symptomType: string, days: number = 30): Promise<SymptomTrend> {
+    const type = this.normalizeType(symptomType);
+
+    const query = `
+      SELECT TO_CHAR(tracking_date, 'YYYY-MM-DD') AS date, AVG(severity)::float AS severity
+      FROM symptom_tracking
+      WHERE patient_id = $1
+        AND symptom_type = $2
+        AND tracking_date >= CURRENT_DATE - $3::integer
+      GROUP BY tracking_date
+      ORDER BY tracking_date ASC
+    `;
+
+    const result = await database.query(query, [patientId, type, days]);
+    const rows: { date: string; severity: number }[] = result.rows;
+
+    return this.buildTrend(type, rows);
+  }
+
+  /**
+   * Construir la tendencia a partir de severidades diarias ordenadas por fecha
+   */
+  static buildTrend(
+    symptomType: string,
+    rows: { date: string; severity: number }[]
+  ): SymptomTrend {
+    const dates = rows.map(row => row.date);
+    const severities = rows.map(row => Math.round(row.severity * 100) / 100);
+
+    if (rows.length === 0) {
+      return {
+        symptom_type: symptomType,
+        dates,
+        severities,
+        average: 0,
+        slope_per_day: 0,
+        r_squared: 0,
+        trend: 'stable'
+      };
+    }
+
+    const origin = parseISO(dates[0]);
+    const xs = dates.map(date => differenceInCalendarDays(parseISO(date), origin));
+    const regression = linearRegression(xs, severities);
+
+    return {
+      symptom_type: symptomType,
+      dates,
+      severities,
+      average: Math.round(mean(severities) * 100) / 100,
+      slope_per_day: Math.round(regression.slope * 1000) / 1000,
+      r_squared: Math.round(regression.rSquared * 1000) / 1000,
+      trend: classifySeverityTrend(regression, xs[xs.length - 1], rows.length)
+    };
+  }
+
+  /**
+   * Eliminar registro
+   */
+  static async delete(id: string): Promise<boolean> {
+    const deleted = await symptomTrackingRepository.delete({ id });
+    return deleted > 0;
+  }
+}
@@ -0,0 +1,102 @@
+import database from '@/config/database';
+import { createRepository } from '@/repositories';
+import { Appointment, TimeOff, TimeOffCreateRequest } from '@/types';
+
+export const timeOffRepository = createRepository<TimeOff>({
+  table: 'time_off'
+});
+
+export class TimeOffModel {
+  /**
+   * Registrar un periodo no disponible (sin psiquiatra: toda la clínica)
+   */
+  static async create(timeOffData: TimeOffCreateRequest, createdBy: string): Promise<TimeOff> {
+    const startsAt = new Date(timeOffData.starts_at);
+    const endsAt = new Date(timeOffData.ends_at);
+
+    if (endsAt <= startsAt) {
+      throw new Error('El fin del periodo debe ser posterior a su inicio');
+    }
+
+    return timeOffRepository.insert({
+      psychiatrist_id: timeOffData.psychiatrist_id || null,
+      starts_at: startsAt,
+      ends_at: endsAt,
+      kind: timeOffData.kind,
+      reason: timeOffData.reason?.trim() || undefined,
+      created_by: createdBy
+    });
+  }
+
+  /**
+   * Buscar periodo por ID
+   */
+  static async findById(id: string): Promise<TimeOff | null> {
+    return timeOffRepository.findById(id);
+  }
+
+  /**
+   * Listar periodos que se superponen con un rango de fechas
+   */
+  static async findAll(filters: {
+    psychiatrist_id?: string;
+    from?: Date;
+    to?: Date;
+  } = {}): Promise<TimeOff[]> {
+    return timeOffRepository.findMany(
+      {
+        psychiatrist_id: filters.psychiatrist_id,
+        starts_at: filters.to ? { lt: filters.to } : undefined,
+        ends_at: filters.from ? { gt: filters.from } : undefined
+      },
+      { orderBy: [{ column: 'starts_at' }] }
+    );
+  }
+
+  /**
+   * Periodos que bloquean la agenda de un psiquiatra entre dos instantes:
+   * los suyos y los de toda la clínica
+   */
+  static async findBlocking(psychiatristId: string, from: Date, to: Date): Promise<TimeOff[]> {
+    const period = { starts_at: { lt: to }, ends_at: { gt: from } };
+
+    const [own, clinicWide] = await Promise.all([
+      timeOffRepository.findMany({ psychiatrist_id: psychiatristId, ...period }),
+      timeOffRepository.findMany({ psychiatrist_id: null, ...period })
+    ]);
+
+    return [...own, ...clinicWide].sort(
+      (a, b) => new Date(a.starts_at).getTime() - new Date(b.starts_at).getTime()
+    );
+  }
+
+  /**
+   * Citas activas que quedan dentro de un periodo no disponible y deben reprogramarse
+   */
+  static async findAffectedAppointments(timeOff: TimeOff): Promise<Appointment[]> {
+    const query = `
+      SELECT *
+      FROM appointments
+      WHERE status IN ('scheduled', 'confirmed')
+        AND ($1::uuid IS NULL OR psychiatrist_id = $1)
+        AND appointment_date + start_time < $3::timestamptz
+        AND appointment_date + end_time > $2::timestamptz
+      ORDER BY appointment_date, start_time
+    `;
+
+    const result = await database.query(query, [
+      timeOff.psychiatrist_id || null,
+      timeOff.starts_at,
+      timeOff.ends_at
+    ]);
+    return result.rows;
+  }
+
+  /**
+   * Eliminar periodo
+   */
+  static async delete(id: string): Promise<boolean> {
+    const deleted = await timeOffRepository.delete({ id });
+    return deleted > 0;
+  }
+}
@@ -0,0 +1,266 @@
+import { patientRepository } from '@/models/Patient';
+import { createRepository, runInTransaction } from '@/repositories';
+import {
+  Medication,
+  TreatmentPlan,
+  TreatmentPlanCreateRequest,
+  TreatmentPlanUpdateRequest
+} from '@/types';
+import { format } from 'date-fns';
+
+export const treatmentPlanRepository = createRepository<TreatmentPlan>({
+  table: 'treatment_plans',
+  jsonColumns: ['pharmacotherapy', 'psychotherapy'],
+  defaults: { is_active: true },
+  unique: [['patient_id', 'version']]
+});
+
+export class TreatmentPlanModel {
+  /**
+   * Crear nuevo plan de tratamiento (nueva versión activa del paciente)
+   */
+  static async create(
+    planData: TreatmentPlanCreateRequest,
+    psychiatristId: string
+  ): Promise<TreatmentPlan> {
+    const { patient_id } = planData;
+
+    // Verificar que el paciente existe y está activo
+    const activePatients = await patientRepository.count({ id: patient_id, is_active: true });
+    if (activePatients === 0) {
+      throw new Error('El paciente no existe o está inactivo');
+    }
+
+    const previous = await this.findActiveByPatientId(patient_id);
+
+    const plan: Omit<TreatmentPlan, 'id' | 'version' | 'is_active' | 'created_at' | 'updated_at'> = {
+      patient_id,
+      psychiatrist_id: psychiatristId,
+      session_id: planData.session_id,
+      pharmacotherapy: planData.pharmacotherapy
+        ? {
+            rationale: planData.pharmacotherapy.rationale,
+            target_symptoms: planData.pharmacotherapy.target_symptoms,
+            medications: this.mergeMedications(
+              previous?.pharmacotherapy?.medications || [],
+              planData.pharmacotherapy.medications
+            )
+          }
+        : undefined,
+      psychotherapy: planData.psychotherapy,
+      lifestyle_interventions: planData.lifestyle_interventions,
+      short_term_goals: planData.short_term_goals,
+      mid_term_goals: planData.mid_term_goals,
+      long_term_goals: planData.long_term_goals,
+      improvement_metrics: planData.improvement_metrics,
+      follow_up_schedule: planData.follow_up_schedule
+    };
+
+    return await this.insertVersion(plan, previous);
+  }
+
+  /**
+   * Buscar plan por ID
+   */
+  static async findById(id: string): Promise<TreatmentPlan | null> {
+    return treatmentPlanRepository.findById(id);
+  }
+
+  /**
+   * Obtener el plan activo de un paciente
+   */
+  static async findActiveByPatientId(patientId: string): Promise<TreatmentPlan | null> {
+    return treatmentPlanRepository.findOne({ patient_id: patientId, is_active: true });
+  }
+
+  /**
+   * Obtener historial de versiones de un paciente (más reciente primero)
+   */
+  static async findHistoryByPatientId(patientId: string, limit: number = 50): Promise<TreatmentPlan[]> {
+    return treatmentPlanRepository.findMany(
+      { patient_id: patientId },
+      { orderBy: [{ column: 'version', direction: 'DESC' }], limit }
+    );
+  }
+
+  /**
+   * Actualizar plan. Las versiones son inmutables: se genera una nueva
+   * versión a partir del plan activo con los cambios aplicados.
+   */
+  static async update(
+    id: string,
+    updates: TreatmentPlanUpdateRequest,
+    psychiatristId: string
+  ): Promise<TreatmentPlan | null> {
+    const current = await this.findById(id);
+    if (!current) {
+      return null;
+    }
+
+    if (!current.is_active) {
+      throw new Error('Solo se puede modificar el plan de tratamiento activo');
+    }
+
+    const pharmacotherapy = updates.pharmacotherapy
+      ? {
+          rationale: updates.pharmacotherapy.rationale,
+          target_symptoms: updates.pharmacotherapy.target_symptoms,
+          medications: this.mergeMedications(
+            current.pharmacotherapy?.medications || [],
+            updates.pharmacotherapy.medications
+          )
+        }
+      : current.pharmacotherapy;
+
+    const plan = {
+      patient_id: current.patient_id,
+      psychiatrist_id: psychiatristId,
+      session_id: updates.session_id ?? current.session_id,
+      pharmacotherapy,
+      psychotherapy: updates.psychotherapy ?? current.psychotherapy,
+      lifestyle_interventions: updates.lifestyle_interventions ?? current.lifestyle_interventions,
+      short_term_goals: updates.short_term_goals ?? current.short_term_goals,
+      mid_term_goals: updates.mid_term_goals ?? current.mid_term_goals,
+      long_term_goals: updates.long_term_goals ?? current.long_term_goals,
+      improvement_metrics: updates.improvement_metrics ?? current.improvement_metrics,
+      follow_up_schedule: updates.follow_up_schedule ?? current.follow_up_schedule
+    };
+
+    return await this.insertVersion(plan, current);
+  }
+
+  /**
+   * Activar o suspender un medicamento del plan activo (genera nueva versión)
+   */
+  static async toggleMedication(
+    id: string,
+    medicationIndex: number,
+    isActive: boolean,
+    psychiatristId: string
+  ): Promise<TreatmentPlan | null> {
+    const current = await this.findById(id);
+    if (!current) {
+      return null;
+    }
+
+    if (!current.is_active) {
+      throw new Error('Solo se puede modificar el plan de tratamiento activo');
+    }
+
+    const medications = current.pharmacotherapy?.medications || [];
+    if (medicationIndex < 0 || medicationIndex >= medications.length) {
+      throw new Error('Medicamento no encontrado en el plan');
+    }
+
+    const today = format(new Date(), 'yyyy-MM-dd');
+    const updatedMedications = medications.map((medication, index) => {
+      if (index !== medicationIndex || medication.is_active === isActive) {
+        return medication;
+      }
+
+      return isActive
+        ? { ...medication, is_active: true, start_date: today, end_date: undefined }
+        : { ...medication, is_active: false, end_date: today };
+    });
+
+    const { id: _id, version, is_active, superseded_at, created_at, updated_at, ...rest } = current;
+
+    return await this.insertVersion(
+      {
+        ...rest,
+        psychiatrist_id: psychiatristId,
+        pharmacotherapy: { ...current.pharmacotherapy, medications: updatedMedications }
+      },
+      current
+    );
+  }
+
+  /**
+   * Suspender el plan activo sin reemplazarlo
+   */
+  static async discontinue(id: string): Promise<boolean> {
+    const discontinued = await treatmentPlanRepository.update(
+      { id, is_active: true },
+      { is_active: false, superseded_at: new Date() }
+    );
+    return discontinued.length > 0;
+  }
+
+  /**
+   * Insertar una nueva versión desactivando la versión anterior
+   */
+  private static async insertVersion(
+    plan: Omit<TreatmentPlan, 'id' | 'version' | 'is_active' | 'created_at' | 'updated_at'>,
+    previous: TreatmentPlan | null
+  ): Promise<TreatmentPlan> {
+    // Desactivar la versión anterior e insertar la nueva como una unidad:
+    // nunca quedan dos versiones activas ni un paciente sin plan activo
+    return runInTransaction(async () => {
+      if (previous) {
+        const superseded = await treatmentPlanRepository.update(
+          { id: previous.id, is_active: true },
+          { is_active: false, superseded_at: new Date() }
+        );
+        if (superseded.length === 0) {
+          throw new Error('El plan de tratamiento fue modificado por otro usuario, intente de nuevo');
+        }
+      }
+
+      const latest = await treatmentPlanRepository.findOne(
+        { patient_id: plan.patient_id },
+        { orderBy: [{ column: 'version', direction: 'DESC' }] }
+      );
+
+      return treatmentPlanRepository.insert({
+        patient_id: plan.patient_id,
+        psychiatrist_id: plan.psychiatrist_id,
+        session_id: plan.session_id || undefined,
+        version: (latest?.version || 0) + 1,
+        is_active: true,
+        pharmacotherapy: plan.pharmacotherapy || undefined,
+        psychotherapy: plan.psychotherapy || undefined,
+        lifestyle_interventions: plan.lifestyle_interventions || undefined,
+        short_term_goals: plan.short_term_goals?.trim() || undefined,
+        mid_term_goals: plan.mid_term_goals?.trim() || undefined,
+        long_term_goals: plan.long_term_goals?.trim() || undefined,
+        improvement_metrics: plan.improvement_metrics?.trim() || undefined,
+        follow_up_schedule: plan.follow_up_schedule?.trim() || undefined
+      });
+    }, { isolationLevel: 'SERIALIZABLE' });
+  }
+
+  /**
+   * Combinar la lista de medicamentos solicitada con la de la versión previa:
+   * conserva la fecha de inicio de los medicamentos que continúan y registra
+   * como suspendidos los que dejan de aparecer.
+   */
+  private static mergeMedications(
+    previous: Medication[],
+    requested: Omit<Medication, 'start_date' | 'end_date' | 'is_active'>[]
+  ): Medication[] {
+    const today = format(new Date(), 'yyyy-MM-dd');
+    const normalize = (name: string) => name.trim().toLowerCase();
+    const previousActive = new Map(
+      previous.filter(m => m.is_active).map(m => [normalize(m.name), m])
+    );
+    const requestedNames = new Set(requested.map(m => normalize(m.name)));
+
+    const current: Medication[] = requested.map(medication => {
+      const existing = previousActive.get(normalize(medication.name));
+      return {
+        ...medication,
+        start_date: existing?.start_date || today,
+        is_active: true
+      };
+    });
+
+    const stopped: Medication[] = previous
+      .filter(m => m.is_active && !requestedNames.has(normalize(m.name)))
+      .map(m => ({ ...m, is_active: false, end_date: today }));
+
+    // Los suspendidos en versiones anteriores se mantienen para el historial
+    const alreadyStopped = previous.filter(m => !m.is_active);
+
+    return [...current, ...stopped, ...alreadyStopped];
+  }
+}
@@ -1,9 +1,19 @@
-import database from '@/config/database';
 import { User, RegisterRequest } from '@/types';
+import { createRepository } from '@/repositories';
 import bcrypt from 'bcryptjs';
 import config from '@/config';
 import { v4 as uuidv4 } from 'uuid';
 
+export type UserRow = User & { password_hash: string };
+
+export const userRepository = createRepository<UserRow>({
+  table: 'users',
+  defaults: { role: 'psychiatrist', is_active: true },
+  unique: [['email']]
+});
+
+const USER_ROLES: User['role'][] = ['psychiatrist', 'assistant', 'admin'];
+
 export class UserModel {
   /**
    * Crear un nuevo usuario
@@ -14,57 +24,33 @@ export class UserModel {
     // Hash de la contraseña
     const passwordHash = await bcrypt.hash(password, config.auth.bcryptRounds);
     
-    // Generar ID único
-    const id = uuidv4();
-    
-    const query = `
-      INSERT INTO users (
-        id, email, password_hash, full_name, role, license_number, specialty, is_active
-      ) VALUES ($1, $2, $3, $4, $5, $6, $7, $8)
-      RETURNING id, email, full_name, role, license_number, specialty, is_active, created_at, updated_at
-    `;
-    
-    const values = [
-      id,
-      email.toLowerCase().trim(),
-      passwordHash,
-      full_name.trim(),
-      'psychiatrist', // Por defecto todos son psiquiatras
-      license_number?.trim() || null,
-      specialty?.trim() || null,
-      true // is_active por defecto
-    ];
-    
-    const result = await database.query(query, values);
-    return result.rows[0];
+    const user = await userRepository.insert({
+      id: uuidv4(),
+      email: email.toLowerCase().trim(),
+      password_hash: passwordHash,
+      full_name: full_name.trim(),
+      role: 'psychiatrist', // Por defecto todos son psiquiatras
+      license_number: license_number?.trim() || undefined,
+      specialty: specialty?.trim() || undefined,
+      is_active: true // is_active por defecto
+    });
+
+    return this.withoutPassword(user);
   }
 
   /**
-   * Buscar usuario por email
+   * Buscar usuario por email (incluye el hash de la contraseña)
    */
-  static async findByEmail(email: string): Promise<User | null> {
-    const query = `
-      SELECT id, email, password_hash, full_name, role, license_number, specialty, is_active, created_at, updated_at
-      FROM users
-      WHERE email = $1 AND is_active = true
-    `;
-    
-    const result = await database.query(query, [email.toLowerCase().trim()]);
-    return result.rows[0] || null;
+  static async findByEmail(email: string): Promise<UserRow | null> {
+    return userRepository.findOne({ email: email.toLowerCase().trim(), is_active: true });
   }
 
   /**
    * Buscar usuario por ID
    */
   static async findById(id: string): Promise<User | null> {
-    const query = `
-      SELECT id, email, full_name, role, license_number, specialty, is_active, created_at, updated_at
-      FROM users
-      WHERE id = $1 AND is_active = true
-    `;
-    
-    const result = await database.query(query, [id]);
-    return result.rows[0] || null;
+    const user = await userRepository.findOne({ id, is_active: true });
+    return user ? this.withoutPassword(user) : null;
   }
 
   /**
@@ -80,64 +66,59 @@ export class UserModel {
   static async findAll(page: number = 1, limit: number = 20): Promise<{ users: User[], total: number }> {
     const offset = (page - 1) * limit;
     
-    const query = `
-      SELECT id, email, full_name, role, license_number, specialty, is_active, created_at, updated_at
-      FROM users
-      ORDER BY created_at DESC
-      LIMIT $1 OFFSET $2
-    `;
-    
-    const countQuery = `
-      SELECT COUNT(*) as total
-      FROM users
-      WHERE is_active = true
-    `;
-    
-    const [usersResult, countResult] = await Promise.all([
-      database.query(query, [limit, offset]),
-      database.query(countQuery)
+    const [users, total] = await Promise.all([
+      userRepository.findMany({}, { orderBy: [{ column: 'created_at', direction: 'DESC' }], limit, offset }),
+      userRepository.count({ is_active: true })
     ]);
     
     return {
-      users: usersResult.rows,
-      total: parseInt(countResult.rows[0].total)
+      users: users.map(user => this.withoutPassword(user)),
+      total
     };
   }
 
+  /**
+   * Psiquiatras activos, opcionalmente limitados a los IDs indicados
+   */
+  static async findActivePsychiatrists(ids?: string[]): Promise<User[]> {
+    const users = await userRepository.findMany(
+      { id: ids && ids.length > 0 ? ids : undefined, role: 'psychiatrist', is_active: true },
+      { orderBy: [{ column: 'full_name' }] }
+    );
+    return users.map(user => this.withoutPassword(user));
+  }
+
+  /**
+   * Administradores activos
+   */
+  static async findActiveAdmins(): Promise<User[]> {
+    const users = await userRepository.findMany(
+      { role: 'admin', is_active: true },
+      { orderBy: [{ column: 'full_name' }] }
+    );
+    return users.map(user => this.withoutPassword(user));
+  }
+
   /**
    * Actualizar usuario
    */
   static async update(id: string, updates: Partial<User>): Promise<User | null> {
     const allowedFields = ['full_name', 'license_number', 'specialty', 'is_active'];
-    const setClause = [];
-    const values = [];
-    let paramCount = 1;
+    const changes: Partial<UserRow> = {};
     
-    // Construir cláusula SET dinámicamente
+    // Solo campos permitidos
     Object.keys(updates).forEach(key => {
       if (allowedFields.includes(key) && updates[key as keyof User] !== undefined) {
-        setClause.push(`${key} = $${paramCount}`);
-        values.push(updates[key as keyof User]);
-        paramCount++;
+        (changes as any)[key] = updates[key as keyof User];
       }
     });
     
-    if (setClause.length === 0) {
+    if (Object.keys(changes).length === 0) {
       throw new Error('No hay campos válidos para actualizar');
     }
     
-    setClause.push(`updated_at = NOW()`);
-    values.push(id);
-    
-    const query = `
-      UPDATE users
-      SET ${setClause.join(', ')}
-      WHERE id = $${paramCount} AND is_active = true
-      RETURNING id, email, full_name, role, license_number, specialty, is_active, created_at, updated_at
-    `;
-    
-    const result = await database.query(query, values);
-    return result.rows[0] || null;
+    const [user] = await userRepository.update({ id, is_active: true }, changes);
+    return user ? this.withoutPassword(user) : null;
   }
 
   /**
@@ -146,63 +127,35 @@ export class UserModel {
   static async changePassword(id: string, newPassword: string): Promise<boolean> {
     const passwordHash = await bcrypt.hash(newPassword, config.auth.bcryptRounds);
     
-    const query = `
-      UPDATE users
-      SET password_hash = $1, updated_at = NOW()
-      WHERE id = $2 AND is_active = true
-    `;
-    
-    const result = await database.query(query, [passwordHash, id]);
-    return result.rowCount > 0;
+    const updated = await userRepository.update({ id, is_active: true }, { password_hash: passwordHash });
+    return updated.length > 0;
   }
 
   /**
    * Verificar si el email ya existe
    */
   static async emailExists(email: string, excludeId?: string): Promise<boolean> {
-    let query = `
-      SELECT COUNT(*) as count
-      FROM users
-      WHERE email = $1
-    `;
-    
-    const values = [email.toLowerCase().trim()];
-    
-    if (excludeId) {
-      query += ` AND id != $2`;
-      values.push(excludeId);
-    }
-    
-    const result = await database.query(query, values);
-    return parseInt(result.rows[0].count) > 0;
+    const count = await userRepository.count({
+      email: email.toLowerCase().trim(),
+      id: excludeId ? { ne: excludeId } : undefined
+    });
+    return count > 0;
   }
 
   /**
    * Desactivar usuario (soft delete)
    */
   static async deactivate(id: string): Promise<boolean> {
-    const query = `
-      UPDATE users
-      SET is_active = false, updated_at = NOW()
-      WHERE id = $1 AND is_active = true
-    `;
-    
-    const result = await database.query(query, [id]);
-    return result.rowCount > 0;
+    const updated = await userRepository.update({ id, is_active: true }, { is_active: false });
+    return updated.length > 0;
   }
 
   /**
    * Activar usuario
    */
   static async activate(id: string): Promise<boolean> {
-    const query = `
-      UPDATE users
-      SET is_active = true, updated_at = NOW()
-      WHERE id = $1 AND is_active = false
-    `;
-    
-    const result = await database.query(query, [id]);
-    return result.rowCount > 0;
+    const updated = await userRepository.update({ id, is_active: false }, { is_active: true });
+    return updated.length > 0;
   }
 
   /**
@@ -214,45 +167,32 @@ export class UserModel {
     inactive: number;
     by_role: Record<string, number>;
   }> {
-    const query = `
-      SELECT 
-        COUNT(*) as total,
-        COUNT(CASE WHEN is_active = true THEN 1 END) as active,
-        COUNT(CASE WHEN is_active = false THEN 1 END) as inactive,
-        role,
-        COUNT(*) as count_by_role
-      FROM users
-      GROUP BY role
-    `;
-    
-    const result = await database.query(query);
-    
-    const stats = {
-      total: 0,
-      active: 0,
-      inactive: 0,
-      by_role: {} as Record<string, number>
-    };
+    const [total, active, roleCounts] = await Promise.all([
+      userRepository.count(),
+      userRepository.count({ is_active: true }),
+      Promise.all(USER_ROLES.map(role => userRepository.count({ role })))
+    ]);
     
-    result.rows.forEach(row => {
-      stats.total += parseInt(row.count_by_role);
-      stats.by_role[row.role] = parseInt(row.count_by_role);
+    const by_role: Record<string, number> = {};
+    USER_ROLES.forEach((role, index) => {
+      if (roleCounts[index] > 0) {
+        by_role[role] = roleCounts[index];
+      }
     });
     
-    // Calcular active e inactive de forma separada para mayor precisión
-    const totalsQuery = `
-      SELECT 
-        COUNT(*) as total,
-        COUNT(CASE WHEN is_active = true THEN 1 END) as active,
-        COUNT(CASE WHEN is_active = false THEN 1 END) as inactive
-      FROM users
-    `;
-    
-    const totalsResult = await database.query(totalsQuery);
-    stats.total = parseInt(totalsResult.rows[0].total);
-    stats.active = parseInt(totalsResult.rows[0].active);
-    stats.inactive = parseInt(totalsResult.rows[0].inactive);
-    
-    return stats;
+    return {
+      total,
+      active,
+      inactive: total - active,
+      by_role
+    };
+  }
+
+  /**
+   * Quitar el hash de la contraseña antes de devolver el usuario
+   */
+  private static withoutPassword(user: UserRow): User {
+    const { password_hash, ...rest } = user;
+    return rest;
   }
-}
\ No newline at end of file
+}
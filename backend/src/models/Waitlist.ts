@@ -0,0 +1,407 @@
+import { addMinutes, format, getDay, isBefore, parseISO } from 'date-fns';
+import config from '@/config';
+import { createRepository, runInTransaction } from '@/repositories';
+import { CareTeamModel } from '@/models/CareTeam';
+import { Appointment, WaitlistEntry, WaitlistEntryCreateRequest, WaitlistHold } from '@/types';
+import { MinuteRange, minutesToTime, rangesOverlap, timeToMinutes } from '@/utils/schedule';
+
+export const waitlistEntryRepository = createRepository<WaitlistEntry>({
+  table: 'waitlist_entries',
+  defaults: { status: 'waiting', priority: 0, duration_minutes: 60, type: 'follow_up', preferred_weekdays: [] }
+});
+
+export const waitlistHoldRepository = createRepository<WaitlistHold>({
+  table: 'waitlist_holds',
+  defaults: { status: 'held' }
+});
+
+// Horario liberado que puede ofrecerse a la lista de espera
+interface FreedSlot {
+  psychiatrist_id: string;
+  appointment_date: string; // YYYY-MM-DD
+  start_time: string;
+  end_time: string;
+  source_appointment_id?: string | null;
+  patient_id?: string; // paciente que liberó el horario (no se le ofrece)
+}
+
+/**
+ * Fecha DATE como YYYY-MM-DD (PostgreSQL la devuelve como Date)
+ */
+const toDateString = (date: string | Date): string =>
+  typeof date === 'string' ? date.slice(0, 10) : format(date, 'yyyy-MM-dd');
+
+const toHourMinute = (time: string): string => minutesToTime(timeToMinutes(time));
+
+/**
+ * Indica si un horario liberado cumple las preferencias del paciente en espera
+ */
+const matchesPreferences = (entry: WaitlistEntry, slot: FreedSlot): boolean => {
+  const start = timeToMinutes(slot.start_time);
+  const end = start + entry.duration_minutes;
+  const weekday = getDay(parseISO(slot.appointment_date));
+
+  if (end > timeToMinutes(slot.end_time)) {
+    return false;
+  }
+
+  if (entry.preferred_weekdays?.length && !entry.preferred_weekdays.includes(weekday)) {
+    return false;
+  }
+
+  if (entry.earliest_time && start < timeToMinutes(entry.earliest_time)) {
+    return false;
+  }
+
+  return !entry.latest_time || end <= timeToMinutes(entry.latest_time);
+};
+
+export class WaitlistModel {
+  /**
+   * Agregar un paciente a la lista de espera
+   */
+  static async createEntry(entryData: WaitlistEntryCreateRequest, createdBy: string): Promise<WaitlistEntry> {
+    if (
+      entryData.earliest_time &&
+      entryData.latest_time &&
+      timeToMinutes(entryData.latest_time) <= timeToMinutes(entryData.earliest_time)
+    ) {
+      throw new Error('La hora máxima debe ser posterior a la hora mínima');
+    }
+
+    const pending = await waitlistEntryRepository.count({
+      patient_id: entryData.patient_id,
+      psychiatrist_id: entryData.psychiatrist_id || null,
+      status: ['waiting', 'offered']
+    });
+    if (pending > 0) {
+      throw new Error('El paciente ya está en la lista de espera');
+    }
+
+    return waitlistEntryRepository.insert({
+      patient_id: entryData.patient_id,
+      psychiatrist_id: entryData.psychiatrist_id || null,
+      preferred_weekdays: [...new Set(entryData.preferred_weekdays || [])].sort((a, b) => a - b),
+      earliest_time: entryData.earliest_time || null,
+      latest_time: entryData.latest_time || null,
+      duration_minutes: entryData.duration_minutes ?? 60,
+      type: entryData.type || 'follow_up',
+      priority: entryData.priority ?? 0,
+      notes: entryData.notes?.trim() || undefined,
+      status: 'waiting',
+      created_by: createdBy
+    });
+  }
+
+  /**
+   * Buscar entrada por ID
+   */
+  static async findEntryById(id: string): Promise<WaitlistEntry | null> {
+    return waitlistEntryRepository.findById(id);
+  }
+
+  /**
+   * Listar la lista de espera en orden de atención (prioridad y antigüedad)
+   */
+  static async findEntries(filters: {
+    status?: WaitlistEntry['status'];
+    psychiatrist_id?: string;
+    patient_id?: string;
+  } = {}): Promise<WaitlistEntry[]> {
+    await this.expireHolds();
+
+    return waitlistEntryRepository.findMany(
+      {
+        status: filters.status || ['waiting', 'offered'],
+        psychiatrist_id: filters.psychiatrist_id,
+        patient_id: filters.patient_id
+      },
+      { orderBy: [{ column: 'priority', direction: 'DESC' }, { column: 'created_at' }] }
+    );
+  }
+
+  /**
+   * Retirar a un paciente de la lista; su reserva vigente se ofrece al siguiente
+   */
+  static async removeEntry(id: string, removedBy: string): Promise<WaitlistEntry | null> {
+    return runInTransaction(async () => {
+      const [entry] = await waitlistEntryRepository.update(
+        { id, status: ['waiting', 'offered'] },
+        { status: 'removed' }
+      );
+      if (!entry) {
+        return null;
+      }
+
+      const hold = await waitlistHoldRepository.findOne({ entry_id: id, status: 'held' });
+      if (hold) {
+        await this.resolveHold(hold, 'released', removedBy);
+        await this.offerSlot(this.slotOf(hold), await this.entriesOfferedSlot(hold));
+      }
+
+      return entry;
+    });
+  }
+
+  /**
+   * Reservas vigentes, de la más próxima a vencer a la más lejana
+   */
+  static async findActiveHolds(psychiatristId?: string): Promise<WaitlistHold[]> {
+    await this.expireHolds();
+
+    const holds = await waitlistHoldRepository.findMany(
+      { status: 'held', psychiatrist_id: psychiatristId },
+      { orderBy: [{ column: 'expires_at' }] }
+    );
+
+    const entries = holds.length > 0
+      ? await waitlistEntryRepository.findMany({ id: holds.map(hold => hold.entry_id) })
+      : [];
+    const entriesById = new Map(entries.map(entry => [entry.id, entry]));
+
+    return holds.map(hold => ({ ...hold, entry: entriesById.get(hold.entry_id) }));
+  }
+
+  /**
+   * Reserva vigente que ocupa parte del intervalo en la agenda del psiquiatra
+   */
+  static async findOverlappingHold(
+    psychiatristId: string,
+    date: string,
+    range: MinuteRange
+  ): Promise<WaitlistHold | null> {
+    const holds = await this.findHoldsOn(psychiatristId, date);
+    return holds.find(hold => rangesOverlap(range, this.rangeOf(hold))) || null;
+  }
+
+  /**
+   * Intervalos reservados de un día (para excluirlos de la disponibilidad)
+   */
+  static async findHeldRanges(psychiatristId: string, date: string): Promise<MinuteRange[]> {
+    const holds = await this.findHoldsOn(psychiatristId, date);
+    return holds.map(hold => this.rangeOf(hold));
+  }
+
+  /**
+   * Ofrecer el horario de una cita cancelada a la lista de espera
+   */
+  static async offerFreedSlot(appointment: Appointment): Promise<WaitlistHold | null> {
+    return this.offerSlot({
+      psychiatrist_id: appointment.psychiatrist_id,
+      appointment_date: toDateString(appointment.appointment_date),
+      start_time: toHourMinute(appointment.start_time),
+      end_time: toHourMinute(appointment.end_time),
+      source_appointment_id: appointment.id,
+      patient_id: appointment.patient_id
+    });
+  }
+
+  /**
+   * Confirmar la reserva: crea la cita del paciente en espera en un solo paso
+   */
+  static async confirmHold(
+    id: string,
+    confirmedBy: string
+  ): Promise<{ hold: WaitlistHold; appointment: Appointment }> {
+    await this.expireHolds();
+
+    return runInTransaction(async () => {
+      const hold = await waitlistHoldRepository.findById(id);
+      if (!hold || hold.status !== 'held') {
+        throw new Error('La reserva expiró o ya fue resuelta');
+      }
+
+      const entry = await waitlistEntryRepository.findById(hold.entry_id);
+      if (!entry) {
+        throw new Error('La reserva expiró o ya fue resuelta');
+      }
+
+      // La reserva deja de bloquear el horario antes de crear la cita en él
+      const confirmed = await this.resolveHold(hold, 'confirmed', confirmedBy);
+
+      const { AppointmentModel } = await import('./Appointment');
+      const appointment = await AppointmentModel.create(
+        {
+          patient_id: entry.patient_id,
+          appointment_date: toDateString(hold.appointment_date),
+          start_time: toHourMinute(hold.start_time),
+          duration_minutes: entry.duration_minutes,
+          type: entry.type,
+          notes: entry.notes
+        },
+        hold.psychiatrist_id
+      );
+
+      const [booked] = await waitlistHoldRepository.update(
+        { id: confirmed.id },
+        { appointment_id: appointment.id }
+      );
+      await waitlistEntryRepository.update({ id: entry.id }, { status: 'booked' });
+
+      return { hold: booked || confirmed, appointment };
+    });
+  }
+
+  /**
+   * Liberar la reserva (el paciente no acepta) y ofrecer el horario al siguiente
+   */
+  static async releaseHold(
+    id: string,
+    releasedBy: string
+  ): Promise<{ hold: WaitlistHold; next_hold: WaitlistHold | null }> {
+    await this.expireHolds();
+
+    return runInTransaction(async () => {
+      const hold = await waitlistHoldRepository.findById(id);
+      if (!hold || hold.status !== 'held') {
+        throw new Error('La reserva expiró o ya fue resuelta');
+      }
+
+      const released = await this.resolveHold(hold, 'released', releasedBy);
+      await waitlistEntryRepository.update({ id: hold.entry_id, status: 'offered' }, { status: 'waiting' });
+
+      const nextHold = await this.offerSlot(this.slotOf(hold), await this.entriesOfferedSlot(hold));
+      return { hold: released, next_hold: nextHold };
+    });
+  }
+
+  /**
+   * Vencer las reservas cuyo plazo terminó; el horario pasa al siguiente en espera
+   */
+  static async expireHolds(): Promise<number> {
+    const expired = await waitlistHoldRepository.findMany({ status: 'held', expires_at: { lte: new Date() } });
+
+    for (const hold of expired) {
+      await runInTransaction(async () => {
+        const [updated] = await waitlistHoldRepository.update({ id: hold.id, status: 'held' }, { status: 'expired' });
+        if (!updated) {
+          return;
+        }
+
+        await waitlistEntryRepository.update({ id: hold.entry_id, status: 'offered' }, { status: 'waiting' });
+        await this.offerSlot(this.slotOf(hold), await this.entriesOfferedSlot(hold));
+      });
+    }
+
+    return expired.length;
+  }
+
+  /**
+   * Reservar el horario para el primer paciente en espera cuyas preferencias
+   * coincidan (mayor prioridad y, a igual prioridad, el más antiguo)
+   */
+  private static async offerSlot(slot: FreedSlot, excludeEntryIds: string[] = []): Promise<WaitlistHold | null> {
+    const startsAt = parseISO(`${slot.appointment_date}T${slot.start_time}`);
+    const now = new Date();
+    if (isBefore(startsAt, now)) {
+      return null;
+    }
+
+    const slotRange = { start: timeToMinutes(slot.start_time), end: timeToMinutes(slot.end_time) };
+    if (await this.findOverlappingHold(slot.psychiatrist_id, slot.appointment_date, slotRange)) {
+      return null;
+    }
+
+    const order = { orderBy: [{ column: 'priority' as const, direction: 'DESC' as const }, { column: 'created_at' as const }] };
+    const [own, anyPsychiatrist] = await Promise.all([
+      waitlistEntryRepository.findMany({ status: 'waiting', psychiatrist_id: slot.psychiatrist_id }, order),
+      waitlistEntryRepository.findMany({ status: 'waiting', psychiatrist_id: null }, order)
+    ]);
+
+    const candidates = [...own, ...anyPsychiatrist]
+      .sort((a, b) => b.priority - a.priority || new Date(a.created_at).getTime() - new Date(b.created_at).getTime())
+      .filter(entry =>
+        !excludeEntryIds.includes(entry.id) &&
+        entry.patient_id !== slot.patient_id &&
+        matchesPreferences(entry, slot)
+      );
+
+    // Solo pacientes que el psiquiatra del horario atiende: la cita lo exige
+    let candidate: WaitlistEntry | undefined;
+    for (const entry of candidates) {
+      if (await CareTeamModel.isClinicalMember(entry.patient_id, slot.psychiatrist_id, slot.appointment_date)) {
+        candidate = entry;
+        break;
+      }
+    }
+
+    if (!candidate) {
+      return null;
+    }
+
+    // La reserva nunca dura más allá del inicio del horario
+    const holdUntil = addMinutes(now, config.scheduling.waitlistHoldMinutes);
+    const start = timeToMinutes(slot.start_time);
+
+    const hold = await waitlistHoldRepository.insert({
+      entry_id: candidate.id,
+      psychiatrist_id: slot.psychiatrist_id,
+      appointment_date: slot.appointment_date,
+      start_time: slot.start_time,
+      end_time: minutesToTime(start + candidate.duration_minutes),
+      slot_end_time: slot.end_time,
+      source_appointment_id: slot.source_appointment_id || null,
+      expires_at: isBefore(holdUntil, startsAt) ? holdUntil : startsAt,
+      status: 'held'
+    });
+    await waitlistEntryRepository.update({ id: candidate.id }, { status: 'offered' });
+
+    return { ...hold, entry: { ...candidate, status: 'offered' } };
+  }
+
+  /**
+   * Cerrar una reserva vigente; falla si otra operación ya la resolvió
+   */
+  private static async resolveHold(
+    hold: WaitlistHold,
+    status: 'confirmed' | 'released',
+    resolvedBy: string
+  ): Promise<WaitlistHold> {
+    const [resolved] = await waitlistHoldRepository.update(
+      { id: hold.id, status: 'held' },
+      { status, resolved_by: resolvedBy }
+    );
+    if (!resolved) {
+      throw new Error('La reserva expiró o ya fue resuelta');
+    }
+    return resolved;
+  }
+
+  /**
+   * Pacientes a los que ya se ofreció el mismo horario (no se les vuelve a ofrecer)
+   */
+  private static async entriesOfferedSlot(hold: WaitlistHold): Promise<string[]> {
+    const holds = await waitlistHoldRepository.findMany({
+      psychiatrist_id: hold.psychiatrist_id,
+      appointment_date: toDateString(hold.appointment_date),
+      start_time: hold.start_time
+    });
+    return holds.map(item => item.entry_id);
+  }
+
+  private static async findHoldsOn(psychiatristId: string, date: string): Promise<WaitlistHold[]> {
+    return waitlistHoldRepository.findMany({
+      psychiatrist_id: psychiatristId,
+      appointment_date: date,
+      status: 'held',
+      expires_at: { gt: new Date() }
+    });
+  }
+
+  private static rangeOf(hold: WaitlistHold): MinuteRange {
+    return { start: timeToMinutes(hold.start_time), end: timeToMinutes(hold.end_time) };
+  }
+
+  /**
+   * Horario liberado que originó una reserva
+   */
+  private static slotOf(hold: WaitlistHold): FreedSlot {
+    return {
+      psychiatrist_id: hold.psychiatrist_id,
+      appointment_date: toDateString(hold.appointment_date),
+      start_time: toHourMinute(hold.start_time),
+      end_time: toHourMinute(hold.slot_end_time),
+      source_appointment_id: hold.source_appointment_id
+    };
+  }
+}
@@ -0,0 +1,29 @@
+import { appendFile, mkdir } from 'fs/promises';
+import path from 'path';
+import { v4 as uuidv4 } from 'uuid';
+import config from '@/config';
+import type { NotificationChannel, NotificationSendResult } from '@/notifications/NotificationChannel';
+import { NotificationMessage, Patient } from '@/types';
+
+/**
+ * Canal local para desarrollo y pruebas: escribe cada mensaje como una línea
+ * JSON en el archivo de salida (NOTIFICATION_OUTBOX_FILE) y lo muestra en consola
+ */
+export class LocalChannel implements NotificationChannel {
+  readonly name = 'file' as const;
+
+  recipientFor(patient: Patient): string | null {
+    return patient.email || patient.phone || null;
+  }
+
+  async send(message: NotificationMessage): Promise<NotificationSendResult> {
+    const id = uuidv4();
+    const file = path.resolve(config.notifications.outboxFile);
+
+    await mkdir(path.dirname(file), { recursive: true });
+    await appendFile(file, `${JSON.stringify({ id, sent_at: new Date().toISOString(), ...message })}\n`, 'utf8');
+    console.log(`📨 Notificación para ${message.to}: ${message.subject ? `${message.subject} - ` : ''}${message.body}`);
+
+    return { provider_message_id: id };
+  }
+}
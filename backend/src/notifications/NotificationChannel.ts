@@ -0,0 +1,48 @@
+import config from '@/config';
+import { NotificationChannelName, NotificationMessage, Patient } from '@/types';
+import { LocalChannel } from '@/notifications/LocalChannel';
+import { SmtpChannel } from '@/notifications/SmtpChannel';
+import { SmsChannel } from '@/notifications/SmsChannel';
+import { WhatsAppChannel } from '@/notifications/WhatsAppChannel';
+
+export interface NotificationSendResult {
+  provider_message_id?: string;
+}
+
+/**
+ * Canal de envío de notificaciones a pacientes.
+ *
+ * El canal decide a qué dato de contacto del paciente escribe; si el
+ * paciente no lo tiene registrado, el envío se omite. Un fallo del
+ * proveedor se informa lanzando un error, que queda registrado como intento.
+ */
+export interface NotificationChannel {
+  readonly name: NotificationChannelName;
+  recipientFor(patient: Patient): string | null;
+  send(message: NotificationMessage): Promise<NotificationSendResult>;
+}
+
+const channels: Record<NotificationChannelName, () => NotificationChannel> = {
+  email: () => new SmtpChannel(),
+  sms: () => new SmsChannel(),
+  whatsapp: () => new WhatsAppChannel(),
+  file: () => new LocalChannel()
+};
+
+let instances: NotificationChannel[] | null = null;
+
+/**
+ * Obtener los canales configurados (NOTIFICATION_CHANNELS)
+ */
+export const getNotificationChannels = (): NotificationChannel[] => {
+  if (!instances) {
+    instances = config.notifications.channels.map(name => {
+      const factory = channels[name as NotificationChannelName];
+      if (!factory) {
+        throw new Error(`Canal de notificaciones no soportado: ${name}`);
+      }
+      return factory();
+    });
+  }
+  return instances;
+};
@@ -0,0 +1,43 @@
+import config from '@/config';
+import type { NotificationChannel, NotificationSendResult } from '@/notifications/NotificationChannel';
+import { NotificationMessage, Patient } from '@/types';
+import { toE164 } from '@/utils/phone';
+
+// Tiempo máximo de cada llamada a la API de Twilio; un proveedor colgado
+// no debe bloquear la ronda de recordatorios
+const TWILIO_REQUEST_TIMEOUT_MS = 15000;
+
+/**
+ * SMS mediante la API REST de Twilio
+ */
+export class SmsChannel implements NotificationChannel {
+  readonly name = 'sms' as const;
+
+  recipientFor(patient: Patient): string | null {
+    return patient.phone ? toE164(patient.phone) : null;
+  }
+
+  async send(message: NotificationMessage): Promise<NotificationSendResult> {
+    const { accountSid, authToken, from } = config.notifications.sms;
+    if (!accountSid || !authToken || !from) {
+      throw new Error('Canal SMS sin configurar (TWILIO_ACCOUNT_SID, TWILIO_AUTH_TOKEN, TWILIO_SMS_FROM)');
+    }
+
+    const response = await fetch(`https://api.twilio.com/2010-04-01/Accounts/${accountSid}/Messages.json`, {
+      method: 'POST',
+      signal: AbortSignal.timeout(TWILIO_REQUEST_TIMEOUT_MS),
+      headers: {
+        Authorization: `Basic ${Buffer.from(`${accountSid}:${authToken}`).toString('base64')}`,
+        'Content-Type': 'application/x-www-form-urlencoded'
+      },
+      body: new URLSearchParams({ To: message.to, From: from, Body: message.body }).toString()
+    });
+
+    const result = await response.json().catch(() => ({})) as { sid?: string; message?: string };
+    if (!response.ok) {
+      throw new Error(`Twilio respondió ${response.status}: ${result.message || response.statusText}`);
+    }
+
+    return { provider_message_id: result.sid };
+  }
+}
@@ -0,0 +1,61 @@
+import nodemailer, { Transporter } from 'nodemailer';
+import config from '@/config';
+import type { NotificationChannel, NotificationSendResult } from '@/notifications/NotificationChannel';
+import { NotificationMessage, Patient } from '@/types';
+
+// Tiempos máximos de conexión, saludo inicial y de cada respuesta del servidor
+const SMTP_CONNECTION_TIMEOUT_MS = 10000;
+const SMTP_GREETING_TIMEOUT_MS = 10000;
+const SMTP_SOCKET_TIMEOUT_MS = 15000;
+
+// Puerto de SMTP sobre TLS directo; los demás negocian STARTTLS
+const SMTPS_PORT = 465;
+
+/**
+ * Correo electrónico por SMTP (SMTP_HOST, SMTP_PORT, SMTP_USER, SMTP_PASS)
+ */
+export class SmtpChannel implements NotificationChannel {
+  readonly name = 'email' as const;
+
+  private transporter: Transporter | null = null;
+
+  recipientFor(patient: Patient): string | null {
+    return patient.email || null;
+  }
+
+  async send(message: NotificationMessage): Promise<NotificationSendResult> {
+    const { from } = config.notifications.smtp;
+
+    const info = await this.getTransporter().sendMail({
+      from: { name: config.notifications.clinicName, address: from },
+      to: message.to,
+      subject: message.subject || config.notifications.clinicName,
+      text: message.body
+    });
+
+    return { provider_message_id: info.messageId };
+  }
+
+  private getTransporter(): Transporter {
+    const { host, port, user, pass, from } = config.notifications.smtp;
+    if (!host || !from) {
+      throw new Error('Canal de correo sin configurar (SMTP_HOST, SMTP_FROM)');
+    }
+
+    if (!this.transporter) {
+      this.transporter = nodemailer.createTransport({
+        host,
+        port,
+        secure: port === SMTPS_PORT,
+        // Con credenciales se exige STARTTLS: no se envían sin cifrar
+        requireTLS: !!user,
+        auth: user ? { user, pass } : undefined,
+        connectionTimeout: SMTP_CONNECTION_TIMEOUT_MS,
+        greetingTimeout: SMTP_GREETING_TIMEOUT_MS,
+        socketTimeout: SMTP_SOCKET_TIMEOUT_MS
+      });
+    }
+
+    return this.transporter;
+  }
+}
@@ -0,0 +1,62 @@
+import config from '@/config';
+import type { NotificationChannel, NotificationSendResult } from '@/notifications/NotificationChannel';
+import { NotificationMessage, Patient } from '@/types';
+import { toE164 } from '@/utils/phone';
+
+// Tiempo máximo de espera de la respuesta de la Graph API
+const WHATSAPP_REQUEST_TIMEOUT_MS = 15000;
+
+/**
+ * WhatsApp mediante la API de WhatsApp Cloud. Sin plantilla configurada se
+ * envía texto libre, que solo llega si el paciente escribió en las últimas
+ * 24 horas; para recordatorios conviene una plantilla aprobada.
+ */
+export class WhatsAppChannel implements NotificationChannel {
+  readonly name = 'whatsapp' as const;
+
+  recipientFor(patient: Patient): string | null {
+    return patient.phone ? toE164(patient.phone) : null;
+  }
+
+  async send(message: NotificationMessage): Promise<NotificationSendResult> {
+    const { phoneNumberId, accessToken, apiVersion, templateName } = config.notifications.whatsapp;
+    if (!phoneNumberId || !accessToken) {
+      throw new Error('Canal WhatsApp sin configurar (WHATSAPP_PHONE_NUMBER_ID, WHATSAPP_ACCESS_TOKEN)');
+    }
+
+    const content = templateName
+      ? {
+          type: 'template',
+          template: {
+            name: templateName,
+            language: { code: 'es' },
+            components: [{ type: 'body', parameters: [{ type: 'text', text: message.body }] }]
+          }
+        }
+      : { type: 'text', text: { body: message.body } };
+
+    const response = await fetch(`https://graph.facebook.com/${apiVersion}/${phoneNumberId}/messages`, {
+      method: 'POST',
+      signal: AbortSignal.timeout(WHATSAPP_REQUEST_TIMEOUT_MS),
+      headers: {
+        Authorization: `Bearer ${accessToken}`,
+        'Content-Type': 'application/json'
+      },
+      body: JSON.stringify({
+        messaging_product: 'whatsapp',
+        to: message.to.replace('+', ''),
+        ...content
+      })
+    });
+
+    const result = await response.json().catch(() => ({})) as {
+      messages?: { id: string }[];
+      error?: { message?: string };
+    };
+    if (!response.ok) {
+      throw new Error(`WhatsApp respondió ${response.status}: ${result.error?.message || response.statusText}`);
+    }
+
+    return { provider_message_id: result.messages?.[0]?.id };
+  }
+}
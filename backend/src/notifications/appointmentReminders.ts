@@ -0,0 +1,164 @@
+import config from '@/config';
+import { AppointmentModel } from '@/models/Appointment';
+import { NotificationDeliveryModel } from '@/models/NotificationDelivery';
+import { PatientModel } from '@/models/Patient';
+import { UserModel } from '@/models/User';
+import { getNotificationChannels, NotificationChannel } from '@/notifications/NotificationChannel';
+import { renderReminder } from '@/notifications/reminderTemplates';
+import { Appointment, Patient } from '@/types';
+import { createAppointmentLink } from '@/utils/appointmentLinks';
+import { appointmentStartsAt } from '@/utils/schedule';
+
+// Citas revisadas como máximo en cada ejecución
+const MAX_APPOINTMENTS_PER_RUN = 1000;
+
+export interface ReminderRunResult {
+  sent: number;
+  failed: number;
+  skipped: number;
+}
+
+/**
+ * Anticipación (en horas) del recordatorio que corresponde a la cita: la
+ * menor de las configuradas que ya se alcanzó. Una cita agendada con poca
+ * anticipación solo recibe el recordatorio más cercano.
+ */
+export const dueReminderHours = (startsAt: Date, now: Date, offsets: number[]): number | null => {
+  const hoursLeft = (startsAt.getTime() - now.getTime()) / (60 * 60 * 1000);
+  const due = offsets.filter(hours => hoursLeft > 0 && hoursLeft <= hours);
+  return due.length > 0 ? Math.min(...due) : null;
+};
+
+/**
+ * Enviar un recordatorio por un canal, salvo que ya se haya enviado (u
+ * omitido) o se hayan agotado los reintentos. Cada intento queda registrado.
+ */
+const deliver = async (
+  channel: NotificationChannel,
+  reminderKey: string,
+  appointment: Appointment,
+  patient: Patient,
+  message: () => ReturnType<typeof renderReminder>
+): Promise<keyof ReminderRunResult | null> => {
+  const attempts = await NotificationDeliveryModel.findAttempts(appointment.id, reminderKey, channel.name);
+  if (attempts.some(attempt => attempt.status !== 'failed') || attempts.length >= config.notifications.maxAttempts) {
+    return null;
+  }
+
+  const base = {
+    appointment_id: appointment.id,
+    patient_id: patient.id,
+    reminder_key: reminderKey,
+    channel: channel.name,
+    attempt: attempts.length + 1
+  };
+
+  const recipient = channel.recipientFor(patient);
+  if (!recipient) {
+    await NotificationDeliveryModel.record({
+      ...base,
+      status: 'skipped',
+      error: `El paciente no tiene un dato de contacto válido para el canal ${channel.name}`
+    });
+    return 'skipped';
+  }
+
+  try {
+    const result = await channel.send({ to: recipient, ...message() });
+    await NotificationDeliveryModel.record({
+      ...base,
+      recipient,
+      status: 'sent',
+      provider_message_id: result.provider_message_id
+    });
+    return 'sent';
+  } catch (error) {
+    console.error(`Error enviando recordatorio ${reminderKey} por ${channel.name}:`, error);
+    await NotificationDeliveryModel.record({
+      ...base,
+      recipient,
+      status: 'failed',
+      error: error instanceof Error ? error.message : String(error)
+    });
+    return 'failed';
+  }
+};
+
+/**
+ * Enviar los recordatorios pendientes de las próximas citas por todos los
+ * canales configurados
+ */
+export const sendDueReminders = async (now: Date = new Date()): Promise<ReminderRunResult> => {
+  const result: ReminderRunResult = { sent: 0, failed: 0, skipped: 0 };
+  const offsets = config.notifications.reminderOffsetsHours;
+  if (offsets.length === 0) {
+    return result;
+  }
+
+  const channels = getNotificationChannels();
+  const appointments = await AppointmentModel.findUpcomingAppointments(
+    undefined,
+    Math.ceil(Math.max(...offsets) / 24),
+    { includeToday: true, limit: MAX_APPOINTMENTS_PER_RUN }
+  );
+  const psychiatristNames = new Map<string, string>();
+
+  for (const appointment of appointments) {
+    const startsAt = appointmentStartsAt(appointment);
+    const hours = dueReminderHours(startsAt, now, offsets);
+    if (hours === null) {
+      continue;
+    }
+
+    const patient = await PatientModel.findById(appointment.patient_id);
+    if (!patient) {
+      continue;
+    }
+
+    if (!psychiatristNames.has(appointment.psychiatrist_id)) {
+      const psychiatrist = await UserModel.findById(appointment.psychiatrist_id);
+      psychiatristNames.set(appointment.psychiatrist_id, psychiatrist?.full_name || 'su psiquiatra');
+    }
+    const psychiatristName = psychiatristNames.get(appointment.psychiatrist_id)!;
+    const link = config.patientLinks.portalUrl ? createAppointmentLink(appointment).url : null;
+
+    for (const channel of channels) {
+      const outcome = await deliver(channel, `${hours}h`, appointment, patient, () =>
+        renderReminder(channel.name, { patient, psychiatristName, appointment, startsAt, now, link })
+      );
+      if (outcome) {
+        result[outcome]++;
+      }
+    }
+  }
+
+  return result;
+};
+
+/**
+ * Ejecutar el envío de recordatorios periódicamente (REMINDER_INTERVAL_MINUTES).
+ * Una ejecución no empieza mientras la anterior siga en curso.
+ */
+export const startReminderJob = (): NodeJS.Timeout => {
+  let running = false;
+
+  const run = async () => {
+    if (running) {
+      return;
+    }
+    running = true;
+    try {
+      const result = await sendDueReminders();
+      if (result.sent + result.failed + result.skipped > 0) {
+        console.log(`⏰ Recordatorios: ${result.sent} enviados, ${result.failed} fallidos, ${result.skipped} omitidos`);
+      }
+    } catch (error) {
+      console.error('Error en el envío de recordatorios:', error);
+    } finally {
+      running = false;
+    }
+  };
+
+  void run();
+  return setInterval(run, config.notifications.reminderIntervalMinutes * 60 * 1000);
+};
@@ -0,0 +1,51 @@
+import { format } from 'date-fns';
+import config from '@/config';
+import { CareTeamModel } from '@/models/CareTeam';
+import { UserModel } from '@/models/User';
+import { getNotificationChannels } from '@/notifications/NotificationChannel';
+import { EmergencyAccessGrant, Patient, User } from '@/types';
+
+// Canales que escriben al correo del personal (los demás usan datos del paciente)
+const STAFF_CHANNELS = ['email', 'file'];
+
+/**
+ * Avisar de un acceso de emergencia al psiquiatra principal del paciente y a
+ * los administradores activos. Un fallo de envío se registra y no anula el
+ * acceso ya otorgado.
+ */
+export const notifyEmergencyAccess = async (
+  grant: EmergencyAccessGrant,
+  patient: Patient,
+  requester: User
+): Promise<void> => {
+  const primaryPsychiatrists = (await CareTeamModel.findByPatient(patient.id))
+    .filter(member => member.role === 'primary' && member.user)
+    .map(member => member.user!.email);
+  const admins = (await UserModel.findActiveAdmins()).map(admin => admin.email);
+
+  const recipients = [...new Set([...primaryPsychiatrists, ...admins])]
+    .filter(email => email && email !== requester.email);
+
+  const patientName = `${patient.first_name} ${patient.last_name} (${patient.medical_record_number})`;
+  const channels = getNotificationChannels().filter(channel => STAFF_CHANNELS.includes(channel.name));
+
+  const message = {
+    subject: `${config.notifications.clinicName}: acceso de emergencia a ${patientName}`,
+    body: [
+      `${requester.full_name} (${requester.email}) abrió un acceso de emergencia a la historia de ${patientName}.`,
+      `Motivo: ${grant.reason}`,
+      `Vigente hasta: ${format(new Date(grant.expires_at), 'dd/MM/yyyy HH:mm')}`,
+      'Cada lectura realizada con este acceso queda marcada en la bitácora de auditoría.'
+    ].join('\n')
+  };
+
+  for (const channel of channels) {
+    for (const to of recipients) {
+      try {
+        await channel.send({ to, ...message });
+      } catch (error) {
+        console.error(`Error notificando acceso de emergencia a ${to} por ${channel.name}:`, error);
+      }
+    }
+  }
+};
@@ -0,0 +1,84 @@
+import { differenceInCalendarDays, format } from 'date-fns';
+import { es } from 'date-fns/locale';
+import config from '@/config';
+import { Appointment, NotificationChannelName, NotificationMessage, Patient } from '@/types';
+import { APPOINTMENT_TYPE_LABELS } from '@/utils/appointmentStatus';
+
+export interface ReminderContext {
+  patient: Patient;
+  psychiatristName: string;
+  appointment: Appointment;
+  startsAt: Date;
+  now: Date;
+  link?: string | null; // enlace para confirmar, cancelar o pedir reprogramación
+}
+
+/**
+ * Momento de la cita en lenguaje natural: "hoy a las 15:00",
+ * "mañana jueves 22 de octubre a las 09:30" o "el lunes 26 de octubre a las 10:00"
+ */
+const describeWhen = (startsAt: Date, now: Date): string => {
+  const time = format(startsAt, 'HH:mm');
+  const day = format(startsAt, "EEEE d 'de' MMMM", { locale: es });
+
+  switch (differenceInCalendarDays(startsAt, now)) {
+    case 0:
+      return `hoy a las ${time}`;
+    case 1:
+      return `mañana ${day} a las ${time}`;
+    default:
+      return `el ${day} a las ${time}`;
+  }
+};
+
+const contactLine = (): string =>
+  config.notifications.clinicPhone ? `nosotros al ${config.notifications.clinicPhone}` : 'el consultorio';
+
+/**
+ * Recordatorio de cita para correo (o archivo local): asunto y texto completo
+ */
+const emailReminder = (context: ReminderContext): Omit<NotificationMessage, 'to'> => {
+  const { patient, psychiatristName, appointment, startsAt, now, link } = context;
+  const typeLabel = APPOINTMENT_TYPE_LABELS[appointment.type].toLowerCase();
+
+  return {
+    subject: `Recordatorio: su cita del ${format(startsAt, "d 'de' MMMM", { locale: es })} a las ${format(startsAt, 'HH:mm')}`,
+    body: [
+      `Hola ${patient.first_name}:`,
+      '',
+      `Le recordamos su cita de ${typeLabel} con ${psychiatristName} ${describeWhen(startsAt, now)}.`,
+      `Duración estimada: ${appointment.duration_minutes} minutos.`,
+      '',
+      ...(link ? [`Confirme su asistencia, cancele o pida otro horario aquí: ${link}`, ''] : []),
+      `Si necesita cancelar o reprogramar, comuníquese con ${contactLine()}.`,
+      '',
+      'Atentamente,',
+      config.notifications.clinicName
+    ].join('\n')
+  };
+};
+
+/**
+ * Recordatorio breve para SMS y WhatsApp
+ */
+const shortReminder = (context: ReminderContext): Omit<NotificationMessage, 'to'> => {
+  const { patient, psychiatristName, startsAt, now, link } = context;
+  const contact = link
+    ? ` Confirme, cancele o pida otro horario: ${link}`
+    : config.notifications.clinicPhone
+      ? ` Para cancelar o reprogramar llame al ${config.notifications.clinicPhone}.`
+      : '';
+
+  return {
+    body: `${config.notifications.clinicName}: Hola ${patient.first_name}, le recordamos su cita con ${psychiatristName} ${describeWhen(startsAt, now)}.${contact}`
+  };
+};
+
+/**
+ * Texto del recordatorio según el canal
+ */
+export const renderReminder = (
+  channel: NotificationChannelName,
+  context: ReminderContext
+): Omit<NotificationMessage, 'to'> =>
+  channel === 'sms' || channel === 'whatsapp' ? shortReminder(context) : emailReminder(context);
@@ -0,0 +1,230 @@
+import {
+  assertFilter,
+  Comparison,
+  Filter,
+  FindOptions,
+  isComparison,
+  Repository,
+  RepositoryDefinition,
+  Values
+} from '@/repositories/Repository';
+import { v4 as uuidv4 } from 'uuid';
+
+const DEFAULT_TIMESTAMPS: ('created_at' | 'updated_at')[] = ['created_at', 'updated_at'];
+
+/**
+ * Valor comparable: fechas (Date o ISO) como milisegundos cuando el otro
+ * operando es una fecha
+ */
+const comparable = (value: unknown, other: unknown): unknown => {
+  if (value instanceof Date || other instanceof Date) {
+    return new Date(value as string | Date).getTime();
+  }
+  return value;
+};
+
+const compare = (a: unknown, b: unknown): number => {
+  const left = comparable(a, b) as any;
+  const right = comparable(b, a) as any;
+  if (left < right) return -1;
+  if (left > right) return 1;
+  return 0;
+};
+
+const equals = (a: unknown, b: unknown): boolean => {
+  if (a === null || a === undefined || b === null || b === undefined) {
+    return false;
+  }
+  return compare(a, b) === 0;
+};
+
+/**
+ * Repositorio en memoria con la misma semántica de filtros y orden que
+ * PostgreSQL (NULL nunca es igual a un valor, NULLS LAST en orden
+ * ascendente). Pensado para pruebas y entornos locales sin base de datos.
+ */
+export class InMemoryRepository<T extends { id: string }> implements Repository<T> {
+  readonly table: string;
+  private rows = new Map<string, T>();
+
+  constructor(private readonly definition: RepositoryDefinition<T>) {
+    this.table = definition.table;
+  }
+
+  /**
+   * Eliminar todos los registros
+   */
+  clear(): void {
+    this.rows.clear();
+  }
+
+  /**
+   * Copia de los registros actuales, para revertir una transacción fallida.
+   * Las filas guardadas no se modifican en su lugar (se reemplazan al
+   * actualizar), así que basta con copiar el índice.
+   */
+  snapshot(): Map<string, T> {
+    return new Map(this.rows);
+  }
+
+  /**
+   * Volver a los registros de una copia anterior
+   */
+  restore(snapshot: Map<string, T>): void {
+    this.rows = new Map(snapshot);
+  }
+
+  async findById(id: string): Promise<T | null> {
+    const row = this.rows.get(id);
+    return row ? structuredClone(row) : null;
+  }
+
+  async findOne(filter: Filter<T>, options: FindOptions<T> = {}): Promise<T | null> {
+    const rows = await this.findMany(filter, { ...options, limit: 1 });
+    return rows[0] || null;
+  }
+
+  async findMany(filter: Filter<T> = {}, options: FindOptions<T> = {}): Promise<T[]> {
+    let rows = this.matching(filter);
+
+    if (options.orderBy && options.orderBy.length > 0) {
+      const orderBy = options.orderBy;
+      rows = [...rows].sort((a, b) => {
+        for (const { column, direction } of orderBy) {
+          const result = this.compareForOrder(a[column], b[column]);
+          if (result !== 0) {
+            return direction === 'DESC' ? -result : result;
+          }
+        }
+        return 0;
+      });
+    }
+
+    const offset = options.offset || 0;
+    const end = options.limit !== undefined ? offset + options.limit : undefined;
+
+    return rows.slice(offset, end).map(row => structuredClone(row));
+  }
+
+  async count(filter: Filter<T> = {}): Promise<number> {
+    return this.matching(filter).length;
+  }
+
+  async insert(data: Values<T>): Promise<T> {
+    const now = new Date();
+    const timestamps = this.definition.timestamps || DEFAULT_TIMESTAMPS;
+
+    const values: Record<string, unknown> = {
+      ...this.definition.defaults,
+      ...Object.fromEntries(Object.entries(data).filter(([, value]) => value !== undefined))
+    };
+
+    timestamps.forEach(column => {
+      values[column] = values[column] ?? now;
+    });
+
+    const row = { ...values, id: data.id || uuidv4() } as T;
+    if (this.rows.has(row.id)) {
+      throw this.uniqueViolation('id');
+    }
+    this.assertUnique(row);
+
+    this.rows.set(row.id, structuredClone(row));
+    return structuredClone(row);
+  }
+
+  async update(filter: Filter<T>, changes: Values<T>): Promise<T[]> {
+    assertFilter(filter);
+
+    const entries = Object.entries(changes).filter(([, value]) => value !== undefined);
+    if (entries.length === 0) {
+      throw new Error('No hay campos para actualizar');
+    }
+
+    const timestamps = this.definition.timestamps || DEFAULT_TIMESTAMPS;
+    const updated = this.matching(filter).map(row => {
+      const next: Record<string, unknown> = { ...row, ...Object.fromEntries(entries) };
+      if (timestamps.includes('updated_at')) {
+        next.updated_at = new Date();
+      }
+      return next as T;
+    });
+
+    updated.forEach(row => this.assertUnique(row));
+    updated.forEach(row => this.rows.set(row.id, structuredClone(row)));
+
+    return updated.map(row => structuredClone(row));
+  }
+
+  async delete(filter: Filter<T>): Promise<number> {
+    assertFilter(filter);
+
+    const rows = this.matching(filter);
+    rows.forEach(row => this.rows.delete(row.id));
+    return rows.length;
+  }
+
+  private matching(filter: Filter<T>): T[] {
+    return [...this.rows.values()].filter(row =>
+      Object.entries(filter).every(([column, condition]) =>
+        condition === undefined || this.satisfies((row as any)[column], condition)
+      )
+    );
+  }
+
+  private satisfies(value: unknown, condition: unknown): boolean {
+    if (condition === null) {
+      return value === null || value === undefined;
+    }
+
+    if (Array.isArray(condition)) {
+      return condition.some(candidate => equals(value, candidate));
+    }
+
+    if (isComparison(condition)) {
+      const { ne, gt, gte, lt, lte, startsWith } = condition as Comparison<unknown>;
+      const present = value !== null && value !== undefined;
+
+      if (ne === null && !present) return false;
+      if (ne !== undefined && ne !== null && (!present || equals(value, ne))) return false;
+      if (gt !== undefined && (!present || compare(value, gt) <= 0)) return false;
+      if (gte !== undefined && (!present || compare(value, gte) < 0)) return false;
+      if (lt !== undefined && (!present || compare(value, lt) >= 0)) return false;
+      if (lte !== undefined && (!present || compare(value, lte) > 0)) return false;
+      if (startsWith !== undefined && (typeof value !== 'string' || !value.startsWith(startsWith))) return false;
+      return true;
+    }
+
+    return equals(value, condition);
+  }
+
+  private compareForOrder(a: unknown, b: unknown): number {
+    const aMissing = a === null || a === undefined;
+    const bMissing = b === null || b === undefined;
+    if (aMissing || bMissing) {
+      return aMissing === bMissing ? 0 : aMissing ? 1 : -1;
+    }
+    return compare(a, b);
+  }
+
+  private assertUnique(row: any): void {
+    (this.definition.unique || []).forEach(columns => {
+      const duplicate = [...this.rows.values()].some((other: any) =>
+        other.id !== row.id && columns.every(column => equals(other[column], row[column]))
+      );
+      if (duplicate) {
+        throw this.uniqueViolation(columns.join(', '));
+      }
+    });
+  }
+
+  /**
+   * Error equivalente a una violación de UNIQUE de PostgreSQL (código 23505)
+   */
+  private uniqueViolation(columns: string): Error {
+    return Object.assign(
+      new Error(`Valor duplicado en ${this.table} (${columns})`),
+      { code: '23505' }
+    );
+  }
+}
@@ -0,0 +1,188 @@
+import database from '@/config/database';
+import {
+  assertFilter,
+  Filter,
+  FindOptions,
+  isComparison,
+  QueryExecutor,
+  Repository,
+  RepositoryDefinition,
+  Values
+} from '@/repositories/Repository';
+
+const IDENTIFIER = /^[a-z_][a-z0-9_]*$/;
+
+const COMPARISON_OPERATORS: Record<string, string> = {
+  gt: '>',
+  gte: '>=',
+  lt: '<',
+  lte: '<='
+};
+
+/**
+ * Repositorio sobre PostgreSQL (pool compartido de config/database)
+ */
+export class PgRepository<T extends { id: string }> implements Repository<T> {
+  readonly table: string;
+
+  constructor(
+    private readonly definition: RepositoryDefinition<T>,
+    private readonly executor: QueryExecutor = database
+  ) {
+    this.table = this.identifier(definition.table);
+  }
+
+  /**
+   * Mismo repositorio sobre otro ejecutor (por ejemplo, un cliente en transacción)
+   */
+  using(executor: QueryExecutor): PgRepository<T> {
+    return new PgRepository(this.definition, executor);
+  }
+
+  async findById(id: string): Promise<T | null> {
+    return this.findOne({ id } as Filter<T>);
+  }
+
+  async findOne(filter: Filter<T>, options: FindOptions<T> = {}): Promise<T | null> {
+    const rows = await this.findMany(filter, { ...options, limit: 1 });
+    return rows[0] || null;
+  }
+
+  async findMany(filter: Filter<T> = {}, options: FindOptions<T> = {}): Promise<T[]> {
+    const values: any[] = [];
+    let query = `SELECT * FROM ${this.table}${this.where(filter, values)}`;
+
+    if (options.orderBy && options.orderBy.length > 0) {
+      const order = options.orderBy.map(({ column, direction }) =>
+        `${this.identifier(column)} ${direction === 'DESC' ? 'DESC' : 'ASC'}`
+      );
+      query += ` ORDER BY ${order.join(', ')}`;
+    }
+
+    if (options.limit !== undefined) {
+      values.push(options.limit);
+      query += ` LIMIT $${values.length}`;
+    }
+
+    if (options.offset !== undefined) {
+      values.push(options.offset);
+      query += ` OFFSET $${values.length}`;
+    }
+
+    const result = await this.executor.query(query, values);
+    return result.rows;
+  }
+
+  async count(filter: Filter<T> = {}): Promise<number> {
+    const values: any[] = [];
+    const query = `SELECT COUNT(*)::int AS total FROM ${this.table}${this.where(filter, values)}`;
+
+    const result = await this.executor.query(query, values);
+    return result.rows[0].total;
+  }
+
+  async insert(data: Values<T>): Promise<T> {
+    const entries = Object.entries(data).filter(([, value]) => value !== undefined);
+    const columns = entries.map(([column]) => this.identifier(column));
+    const values = entries.map(([column, value]) => this.serialize(column, value));
+    const placeholders = values.map((_, index) => `$${index + 1}`);
+
+    const query = `
+      INSERT INTO ${this.table} (${columns.join(', ')})
+      VALUES (${placeholders.join(', ')})
+      RETURNING *
+    `;
+
+    const result = await this.executor.query(query, values);
+    return result.rows[0];
+  }
+
+  async update(filter: Filter<T>, changes: Values<T>): Promise<T[]> {
+    assertFilter(filter);
+
+    const entries = Object.entries(changes).filter(([, value]) => value !== undefined);
+    if (entries.length === 0) {
+      throw new Error('No hay campos para actualizar');
+    }
+
+    const values: any[] = entries.map(([column, value]) => this.serialize(column, value));
+    const assignments = entries.map(([column], index) => `${this.identifier(column)} = $${index + 1}`);
+
+    const query = `
+      UPDATE ${this.table}
+      SET ${assignments.join(', ')}${this.where(filter, values)}
+      RETURNING *
+    `;
+
+    const result = await this.executor.query(query, values);
+    return result.rows;
+  }
+
+  async delete(filter: Filter<T>): Promise<number> {
+    assertFilter(filter);
+
+    const values: any[] = [];
+    const query = `DELETE FROM ${this.table}${this.where(filter, values)}`;
+
+    const result = await this.executor.query(query, values);
+    return result.rowCount;
+  }
+
+  /**
+   * Cláusula WHERE parametrizada; agrega los valores a `values`
+   */
+  private where(filter: Filter<T>, values: any[]): string {
+    const conditions: string[] = [];
+    const param = (value: unknown) => {
+      values.push(value);
+      return `$${values.length}`;
+    };
+
+    Object.entries(filter).forEach(([key, condition]) => {
+      if (condition === undefined) {
+        return;
+      }
+
+      const column = this.identifier(key);
+
+      if (condition === null) {
+        conditions.push(`${column} IS NULL`);
+      } else if (Array.isArray(condition)) {
+        conditions.push(`${column} = ANY(${param(condition)})`);
+      } else if (isComparison(condition)) {
+        Object.entries(condition).forEach(([operator, value]) => {
+          if (value === undefined) {
+            return;
+          }
+          if (operator === 'ne') {
+            conditions.push(value === null ? `${column} IS NOT NULL` : `${column} <> ${param(value)}`);
+          } else if (operator === 'startsWith') {
+            // Los comodines de LIKE en el prefijo se buscan literalmente
+            const prefix = String(value).replace(/[\\%_]/g, match => `\\${match}`);
+            conditions.push(`${column} LIKE ${param(`${prefix}%`)}`);
+          } else {
+            conditions.push(`${column} ${COMPARISON_OPERATORS[operator]} ${param(value)}`);
+          }
+        });
+      } else {
+        conditions.push(`${column} = ${param(condition)}`);
+      }
+    });
+
+    return conditions.length > 0 ? ` WHERE ${conditions.join(' AND ')}` : '';
+  }
+
+  private serialize(column: string, value: unknown): unknown {
+    if (value !== null && this.definition.jsonColumns?.includes(column as keyof T & string)) {
+      return JSON.stringify(value);
+    }
+    return value;
+  }
+
+  private identifier(name: string): string {
+    if (!IDENTIFIER.test(name)) {
+      throw new Error(`Identificador SQL inválido: ${name}`);
+    }
+    return name;
+  }
+}
@@ -0,0 +1,89 @@
+/**
+ * Acceso a datos por tabla, común a PostgreSQL y a la implementación en
+ * memoria. Cubre las operaciones por entidad (búsquedas por igualdad,
+ * rangos, orden, paginación, inserción, actualización y eliminación); las
+ * consultas analíticas (estadísticas, búsquedas de texto, solapamientos
+ * de horario) siguen escritas en SQL y requieren PostgreSQL.
+ */
+
+export interface QueryExecutor {
+  query(text: string, params?: any[]): Promise<any>;
+}
+
+export interface Comparison<V> {
+  ne?: V | null;
+  gt?: V;
+  gte?: V;
+  lt?: V;
+  lte?: V;
+  startsWith?: string;
+}
+
+/**
+ * Valor que se escribe o compara en una columna; las columnas de fecha
+ * aceptan también texto ISO (p. ej. '2026-01-01'), como PostgreSQL
+ */
+export type ColumnValue<V> = V extends Date ? V | string : V;
+
+/**
+ * Condición sobre una columna: igualdad, null (IS NULL), lista (IN) o comparación
+ */
+export type Condition<V> = ColumnValue<V> | ColumnValue<V>[] | null | Comparison<NonNullable<ColumnValue<V>>>;
+
+export type Filter<T> = { [K in keyof T]?: Condition<T[K]> };
+
+// Columnas de una inserción o actualización
+export type Values<T> = { [K in keyof T]?: ColumnValue<T[K]> };
+
+export interface FindOptions<T> {
+  orderBy?: { column: keyof T & string; direction?: 'ASC' | 'DESC' }[];
+  limit?: number;
+  offset?: number;
+}
+
+export interface RepositoryDefinition<T> {
+  table: string;
+  // Columnas JSONB (se serializan explícitamente para no confundir arreglos con ARRAY)
+  jsonColumns?: (keyof T & string)[];
+  // Columnas de auditoría que la base de datos mantiene (por defecto created_at y updated_at)
+  timestamps?: ('created_at' | 'updated_at')[];
+  // Valores por defecto de la tabla (solo necesarios fuera de PostgreSQL)
+  defaults?: Partial<T>;
+  // Restricciones UNIQUE (solo necesarias fuera de PostgreSQL)
+  unique?: (keyof T & string)[][];
+}
+
+export interface Repository<T extends { id: string }> {
+  readonly table: string;
+  findById(id: string): Promise<T | null>;
+  findOne(filter: Filter<T>, options?: FindOptions<T>): Promise<T | null>;
+  findMany(filter?: Filter<T>, options?: FindOptions<T>): Promise<T[]>;
+  count(filter?: Filter<T>): Promise<number>;
+  insert(data: Values<T>): Promise<T>;
+  // Devuelve las filas actualizadas
+  update(filter: Filter<T>, changes: Values<T>): Promise<T[]>;
+  // Devuelve la cantidad de filas eliminadas
+  delete(filter: Filter<T>): Promise<number>;
+}
+
+const COMPARISON_KEYS = ['ne', 'gt', 'gte', 'lt', 'lte', 'startsWith'];
+
+/**
+ * Indica si la condición es una comparación (y no un valor a igualar)
+ */
+export const isComparison = (value: unknown): value is Comparison<unknown> => {
+  if (value === null || typeof value !== 'object' || value instanceof Date || Array.isArray(value)) {
+    return false;
+  }
+  const keys = Object.keys(value);
+  return keys.length > 0 && keys.every(key => COMPARISON_KEYS.includes(key));
+};
+
+/**
+ * Rechazar filtros vacíos en operaciones de escritura
+ */
+export const assertFilter = (filter: Filter<unknown>): void => {
+  if (!Object.values(filter).some(value => value !== undefined)) {
+    throw new Error('Se requiere al menos una condición para modificar registros');
+  }
+};
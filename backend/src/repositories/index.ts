@@ -0,0 +1,73 @@
+import { AsyncLocalStorage } from 'async_hooks';
+import config from '@/config';
+import database, { TransactionOptions } from '@/config/database';
+import { InMemoryRepository } from '@/repositories/InMemoryRepository';
+import { PgRepository } from '@/repositories/PgRepository';
+import { Repository, RepositoryDefinition } from '@/repositories/Repository';
+
+export * from '@/repositories/Repository';
+
+// Un único almacén por tabla, compartido por todos los modelos
+const memoryRepositories = new Map<string, InMemoryRepository<any>>();
+
+/**
+ * Crear el repositorio de una tabla según el driver configurado (DB_DRIVER)
+ */
+export const createRepository = <T extends { id: string }>(
+  definition: RepositoryDefinition<T>
+): Repository<T> => {
+  if (config.database.driver === 'memory') {
+    if (!memoryRepositories.has(definition.table)) {
+      memoryRepositories.set(definition.table, new InMemoryRepository<T>(definition));
+    }
+    return memoryRepositories.get(definition.table)!;
+  }
+
+  return new PgRepository<T>(definition);
+};
+
+// Transacción en memoria en curso y cola de las que esperan su turno
+const memoryTransactions = new AsyncLocalStorage<true>();
+let memoryTransactionQueue: Promise<unknown> = Promise.resolve();
+
+/**
+ * Ejecutar fn y, si falla, devolver todos los almacenes en memoria al
+ * estado previo (como un ROLLBACK o un savepoint)
+ */
+const withMemoryRollback = async <T>(fn: () => Promise<T>): Promise<T> => {
+  const snapshots = [...memoryRepositories.values()].map(repository => [repository, repository.snapshot()] as const);
+  try {
+    return await fn();
+  } catch (error) {
+    snapshots.forEach(([repository, snapshot]) => repository.restore(snapshot));
+    throw error;
+  }
+};
+
+/**
+ * Ejecutar operaciones de varios repositorios como una unidad de trabajo.
+ * Con PostgreSQL usa database.withTransaction. En memoria las transacciones
+ * se ejecutan de a una y un fallo revierte sus cambios; una transacción
+ * anidada se revierte sola, como un savepoint. Las escrituras hechas fuera
+ * de una transacción mientras otra está en curso se pierden si esta falla.
+ */
+export const runInTransaction = <T>(fn: () => Promise<T>, options?: TransactionOptions): Promise<T> => {
+  if (config.database.driver === 'memory') {
+    if (memoryTransactions.getStore()) {
+      return withMemoryRollback(fn);
+    }
+
+    const result = memoryTransactionQueue.then(() => memoryTransactions.run(true, () => withMemoryRollback(fn)));
+    memoryTransactionQueue = result.catch(() => undefined);
+    return result;
+  }
+
+  return database.withTransaction(() => fn(), options);
+};
+
+/**
+ * Vaciar los almacenes en memoria (entre pruebas)
+ */
+export const clearMemoryRepositories = (): void => {
+  memoryRepositories.forEach(repository => repository.clear());
+};
@@ -0,0 +1,149 @@
+import { Router, Request, Response } from 'express';
+import { authenticateToken, checkPatientAccess, requireCareTeamAccess, requirePermission } from '@/middleware/auth';
+import { validate, schemas } from '@/middleware/validation';
+import { getClinicalAssistant } from '@/ai/ClinicalAssistantProvider';
+import { ConsultationSessionModel } from '@/models/ConsultationSession';
+import { PatientModel } from '@/models/Patient';
+import { SymptomTrackingModel } from '@/models/SymptomTracking';
+import { auditAccess } from '@/middleware/audit';
+import { createErrorResponse } from '@/middleware/errorHandler';
+
+const router = Router();
+
+// Ventana de seguimiento de síntomas considerada en el análisis de progreso
+const PROGRESS_WINDOW_DAYS = 90;
+
+// Sesiones recientes consideradas en el análisis de progreso
+const PROGRESS_SESSIONS = 10;
+
+// Aplicar autenticación a todas las rutas
+router.use(authenticateToken);
+router.use(auditAccess('clinical_assistant', { action: 'read' }));
+
+/**
+ * POST /api/v1/ai/summarize
+ * Resumen de una sesión de consulta
+ */
+router.post('/summarize',
+  requirePermission('clinical:read'),
+  validate(schemas.aiSummarize),
+  async (req: Request, res: Response) => {
+    try {
+      const { session_id } = req.body;
+
+      const session = await ConsultationSessionModel.findById(session_id);
+      if (!session) {
+        return res.status(404).json(
+          createErrorResponse(
+            'SESSION_NOT_FOUND',
+            'Sesión no encontrada',
+            { sessionId: session_id },
+            404
+          )
+        );
+      }
+
+      // Solo lectura: también con un acceso de emergencia vigente
+      if (!(await checkPatientAccess(req, session.patient_id, { read: true }))) {
+        return res.status(403).json(
+          createErrorResponse(
+            'NOT_IN_CARE_TEAM',
+            'No forma parte del equipo de atención de este paciente',
+            { patientId: session.patient_id },
+            403
+          )
+        );
+      }
+
+      const summary = await getClinicalAssistant().summarizeSession(session);
+
+      res.json({
+        success: true,
+        data: summary
+      });
+
+    } catch (error) {
+      console.error('Error resumiendo sesión:', error);
+      res.status(500).json(
+        createErrorResponse('SUMMARIZE_SESSION_ERROR', 'Error al generar el resumen de la sesión')
+      );
+    }
+  }
+);
+
+/**
+ * POST /api/v1/ai/diagnosis-suggestions
+ * Sugerencias diagnósticas a partir de síntomas
+ */
+router.post('/diagnosis-suggestions',
+  requirePermission('clinical:write'),
+  validate(schemas.aiDiagnosisSuggestions),
+  async (req: Request, res: Response) => {
+    try {
+      const { symptoms } = req.body;
+
+      const suggestions = await getClinicalAssistant().suggestDiagnoses(symptoms);
+
+      res.json({
+        success: true,
+        data: suggestions
+      });
+
+    } catch (error) {
+      console.error('Error generando sugerencias diagnósticas:', error);
+      res.status(500).json(
+        createErrorResponse('DIAGNOSIS_SUGGESTIONS_ERROR', 'Error al generar sugerencias diagnósticas')
+      );
+    }
+  }
+);
+
+/**
+ * POST /api/v1/ai/analyze-progress
+ * Análisis de progreso del paciente basado en el seguimiento de síntomas
+ */
+router.post('/analyze-progress',
+  requirePermission('clinical:read'),
+  validate(schemas.aiAnalyzeProgress),
+  requireCareTeamAccess(req => req.body.patient_id, { read: true }),
+  async (req: Request, res: Response) => {
+    try {
+      const { patient_id } = req.body;
+
+      const patient = await PatientModel.findById(patient_id);
+      if (!patient) {
+        return res.status(404).json(
+          createErrorResponse(
+            'PATIENT_NOT_FOUND',
+            'Paciente no encontrado',
+            { patientId: patient_id },
+            404
+          )
+        );
+      }
+
+      const symptomTypes = await SymptomTrackingModel.findSymptomTypes(patient_id);
+      const [trends, sessions] = await Promise.all([
+        Promise.all(
+          symptomTypes.map(type => SymptomTrackingModel.getTrend(patient_id, type, PROGRESS_WINDOW_DAYS))
+        ),
+        ConsultationSessionModel.findByPatientId(patient_id, PROGRESS_SESSIONS)
+      ]);
+
+      const analysis = await getClinicalAssistant().analyzeProgress({ trends, sessions });
+
+      res.json({
+        success: true,
+        data: analysis
+      });
+
+    } catch (error) {
+      console.error('Error analizando progreso del paciente:', error);
+      res.status(500).json(
+        createErrorResponse('ANALYZE_PROGRESS_ERROR', 'Error al analizar el progreso del paciente')
+      );
+    }
+  }
+);
+
+export default router;
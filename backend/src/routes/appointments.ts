@@ -1,21 +1,174 @@
 import { Router, Request, Response } from 'express';
-import { authenticateToken } from '@/middleware/auth';
+import { authenticateToken, requireCareTeamAccess, requirePermission } from '@/middleware/auth';
 import { validate, schemas, validateQuery, validateParams } from '@/middleware/validation';
 import { AppointmentModel } from '@/models/Appointment';
 import { PatientModel } from '@/models/Patient';
+import { UserModel } from '@/models/User';
+import { ConsultationSessionModel } from '@/models/ConsultationSession';
+import { WaitlistModel } from '@/models/Waitlist';
+import { NotificationDeliveryModel } from '@/models/NotificationDelivery';
+import { RescheduleRequestModel } from '@/models/RescheduleRequest';
+import { createAppointmentLink } from '@/utils/appointmentLinks';
 import { createErrorResponse } from '@/middleware/errorHandler';
-import { AppointmentCreateRequest, AppointmentUpdateRequest, PaginatedResponse } from '@/types';
+import { addDays, differenceInCalendarDays, format, parseISO } from 'date-fns';
+import {
+  Appointment,
+  AppointmentCreateRequest,
+  AppointmentSeriesCreateRequest,
+  AppointmentSeriesResult,
+  AppointmentStatus,
+  AppointmentStatusUpdateRequest,
+  AppointmentUpdateRequest,
+  AvailabilitySearchRequest,
+  PaginatedResponse,
+  RescheduleRequest,
+  SeriesScope,
+  TimeOfDay,
+  WaitlistHold
+} from '@/types';
 
 const router = Router();
 
+// Rango por defecto y máximo de la búsqueda de turnos entre psiquiatras
+const SEARCH_DEFAULT_DAYS = 14;
+const SEARCH_MAX_DAYS = 31;
+
+// Estados de cita que generan el borrador de la sesión de consulta
+const SESSION_STATUSES: AppointmentStatus[] = ['in_progress', 'completed'];
+
 // Aplicar autenticación a todas las rutas
 router.use(authenticateToken);
 
+// Errores de agenda del modelo (fragmento del mensaje) y su código de error (422)
+const SCHEDULE_ERROR_CODES: [string, string][] = [
+  ['fechas pasadas', 'PAST_APPOINTMENT_DATE'],
+  ['es feriado', 'APPOINTMENT_ON_HOLIDAY'],
+  ['no está disponible en ese horario', 'APPOINTMENT_DURING_TIME_OFF'],
+  ['horario laboral', 'INVALID_APPOINTMENT_TIME'],
+  ['descanso del psiquiatra', 'APPOINTMENT_DURING_BREAK'],
+  ['anticipación', 'INSUFFICIENT_ADVANCE_NOTICE'],
+  ['Conflicto de horario', 'APPOINTMENT_CONFLICT'],
+  ['ya tiene una cita en ese horario', 'APPOINTMENT_CONFLICT'],
+  ['reservado temporalmente', 'SLOT_ON_HOLD'],
+  ['no forma parte del equipo de atención', 'PSYCHIATRIST_NOT_IN_CARE_TEAM']
+];
+
+const findScheduleErrorCode = (message: string): string | undefined =>
+  SCHEDULE_ERROR_CODES.find(([fragment]) => message.includes(fragment))?.[1];
+
+// Errores de operaciones sobre una serie que no aplican a la cita indicada
+const SERIES_ERROR_CODES: [string, string][] = [
+  ['no pertenece a una serie', 'APPOINTMENT_NOT_IN_SERIES'],
+  ['No hay citas pendientes en la serie', 'NO_PENDING_OCCURRENCES']
+];
+
+const findSeriesErrorCode = (message: string): string | undefined =>
+  SERIES_ERROR_CODES.find(([fragment]) => message.includes(fragment))?.[1];
+
+// Cambios de estado rechazados por la máquina de estados
+const STATUS_ERROR_CODES: [string, string][] = [
+  ['Transición de estado no permitida', 'INVALID_STATUS_TRANSITION'],
+  ['Debe indicar el motivo', 'STATUS_REASON_REQUIRED'],
+  ['modificada por otro usuario', 'APPOINTMENT_MODIFIED']
+];
+
+const findStatusErrorCode = (message: string): string | undefined =>
+  STATUS_ERROR_CODES.find(([fragment]) => message.includes(fragment))?.[1];
+
+// Motivo registrado al eliminar una cita de la agenda, que se cancela
+const DELETED_APPOINTMENT_REASON = 'Cita eliminada de la agenda';
+
+// Psiquiatra de la reserva faltante o inválido (422)
+const BOOKING_ERROR_CODES: [string, string][] = [
+  ['Debe indicar el psiquiatra', 'PSYCHIATRIST_REQUIRED'],
+  ['no es un psiquiatra activo', 'INVALID_PSYCHIATRIST']
+];
+
+const findBookingErrorCode = (message: string): string | undefined =>
+  BOOKING_ERROR_CODES.find(([fragment]) => message.includes(fragment))?.[1];
+
+// Paciente de la reserva, la cita, la serie o la solicitud de la ruta: solo
+// su equipo de atención puede agendarle o gestionar sus citas
+const bodyPatientId = (req: Request) => req.body.patient_id;
+const appointmentPatientId = async (req: Request) => (await AppointmentModel.findById(req.params.id))?.patient_id;
+const seriesPatientId = async (req: Request) => (await AppointmentModel.findSeries(req.params.id))?.series.patient_id;
+const rescheduleRequestPatientId = async (req: Request) => (await RescheduleRequestModel.findById(req.params.id))?.patient_id;
+
+/**
+ * Psiquiatra con quien se reserva: el indicado (p. ej. el de un turno de la
+ * búsqueda de disponibilidad) o, para los psiquiatras, su propia agenda
+ */
+const resolveBookingPsychiatrist = async (req: Request, requestedId?: string): Promise<string> => {
+  const psychiatristId = requestedId || (req.user!.role === 'psychiatrist' ? req.user!.userId : undefined);
+  if (!psychiatristId) {
+    throw new Error('Debe indicar el psiquiatra de la cita');
+  }
+
+  const [psychiatrist] = await UserModel.findActivePsychiatrists([psychiatristId]);
+  if (!psychiatrist) {
+    throw new Error('El usuario indicado no es un psiquiatra activo');
+  }
+
+  return psychiatrist.id;
+};
+
+/**
+ * Agenda consultada: la propia para los psiquiatras; los asistentes y
+ * administradores pueden filtrar por psiquiatra (sin filtro, todas)
+ */
+const agendaPsychiatristId = (req: Request): string | undefined =>
+  req.user!.role === 'psychiatrist' ? req.user!.userId : req.query.psychiatrist_id as string | undefined;
+
+/**
+ * Ofrecer los horarios de citas canceladas a la lista de espera. La
+ * cancelación ya está registrada: un fallo aquí no debe revertirla.
+ */
+const offerFreedSlots = async (appointments: Appointment[]): Promise<WaitlistHold[]> => {
+  const holds: WaitlistHold[] = [];
+  
+  for (const appointment of appointments) {
+    try {
+      const hold = await WaitlistModel.offerFreedSlot(appointment);
+      if (hold) {
+        holds.push(hold);
+      }
+    } catch (error) {
+      console.error('Error ofreciendo horario a la lista de espera:', error);
+    }
+  }
+  
+  return holds;
+};
+
+/**
+ * Al iniciar o completar la cita queda un borrador de sesión por documentar.
+ * El cambio de estado ya está registrado: un fallo aquí no debe revertirlo.
+ */
+const createSessionDraft = async (appointment: Appointment): Promise<void> => {
+  try {
+    await ConsultationSessionModel.createDraftForAppointment(appointment);
+  } catch (error) {
+    console.error('Error creando borrador de sesión de la cita:', error);
+  }
+};
+
+/**
+ * Agregar a cada conflicto de la serie el código de error equivalente al de una cita individual
+ */
+const withConflictCodes = (result: AppointmentSeriesResult): AppointmentSeriesResult => ({
+  ...result,
+  conflicts: result.conflicts.map(conflict => ({
+    ...conflict,
+    code: findScheduleErrorCode(conflict.message) || 'INVALID_APPOINTMENT'
+  }))
+});
+
 /**
  * GET /api/v1/appointments
  * Listar citas con filtros y paginación
  */
 router.get('/',
+  requirePermission('appointments:read'),
   validateQuery(schemas.pagination),
   async (req: Request, res: Response) => {
     try {
@@ -49,6 +202,12 @@ router.get('/',
         filters.date_to = req.query.date_to;
       }
       
+      // Los administradores ven todas las citas; el resto, solo las de
+      // pacientes de su equipo de atención vigente
+      if (req.user!.role !== 'admin') {
+        filters.care_team_user_id = req.user!.userId;
+      }
+      
       const { appointments, total } = await AppointmentModel.findAll(page, limit, filters);
       
       const response: PaginatedResponse<typeof appointments[0]> = {
@@ -81,9 +240,9 @@ router.get('/',
  * GET /api/v1/appointments/today
  * Obtener citas de hoy
  */
-router.get('/today', async (req: Request, res: Response) => {
+router.get('/today', requirePermission('appointments:read'), validateQuery(schemas.agendaQuery), async (req: Request, res: Response) => {
   try {
-    const psychiatristId = req.user?.userId;
+    const psychiatristId = agendaPsychiatristId(req);
     const appointments = await AppointmentModel.findTodayAppointments(psychiatristId);
     
     res.json({
@@ -103,9 +262,9 @@ router.get('/today', async (req: Request, res: Response) => {
  * GET /api/v1/appointments/upcoming
  * Obtener próximas citas
  */
-router.get('/upcoming', async (req: Request, res: Response) => {
+router.get('/upcoming', requirePermission('appointments:read'), validateQuery(schemas.agendaQuery), async (req: Request, res: Response) => {
   try {
-    const psychiatristId = req.user?.userId;
+    const psychiatristId = agendaPsychiatristId(req);
     const days = parseInt(req.query.days as string) || 7;
     const appointments = await AppointmentModel.findUpcomingAppointments(psychiatristId, days);
     
@@ -126,9 +285,9 @@ router.get('/upcoming', async (req: Request, res: Response) => {
  * GET /api/v1/appointments/availability
  * Obtener horarios disponibles para una fecha
  */
-router.get('/availability', async (req: Request, res: Response) => {
+router.get('/availability', requirePermission('appointments:read'), validateQuery(schemas.availabilityQuery), async (req: Request, res: Response) => {
   try {
-    const { date, duration } = req.query;
+    const { date, duration, psychiatrist_id } = req.query;
     
     if (!date) {
       return res.status(400).json(
@@ -141,7 +300,8 @@ router.get('/availability', async (req: Request, res: Response) => {
       );
     }
     
-    const psychiatristId = req.user?.userId;
+    // Por defecto, la agenda del usuario autenticado
+    const psychiatristId = (psychiatrist_id as string) || req.user!.userId;
     const durationMinutes = parseInt(duration as string) || 60;
     
     const availableSlots = await AppointmentModel.getAvailability(
@@ -154,6 +314,7 @@ router.get('/availability', async (req: Request, res: Response) => {
       success: true,
       data: {
         date,
+        psychiatrist_id: psychiatristId,
         duration_minutes: durationMinutes,
         available_slots: availableSlots
       }
@@ -167,12 +328,179 @@ router.get('/availability', async (req: Request, res: Response) => {
   }
 });
 
+/**
+ * GET /api/v1/appointments/availability/search
+ * Primeros turnos libres entre todos los psiquiatras (o los indicados) en un rango de fechas.
+ * Cada turno se reserva con POST /api/v1/appointments indicando su psychiatrist_id.
+ */
+router.get('/availability/search',
+  requirePermission('appointments:read'),
+  validateQuery(schemas.availabilitySearchQuery),
+  async (req: Request, res: Response) => {
+    try {
+      const from = (req.query.from as string | undefined)?.slice(0, 10) || format(new Date(), 'yyyy-MM-dd');
+      const to = (req.query.to as string | undefined)?.slice(0, 10)
+        || format(addDays(parseISO(from), SEARCH_DEFAULT_DAYS - 1), 'yyyy-MM-dd');
+      const days = differenceInCalendarDays(parseISO(to), parseISO(from)) + 1;
+
+      if (days < 1 || days > SEARCH_MAX_DAYS) {
+        return res.status(400).json(
+          createErrorResponse(
+            'INVALID_DATE_RANGE',
+            `La fecha final debe ser posterior a la inicial y el rango no puede superar ${SEARCH_MAX_DAYS} días`,
+            { from, to },
+            400
+          )
+        );
+      }
+
+      const search: AvailabilitySearchRequest = {
+        from,
+        to,
+        duration_minutes: parseInt(req.query.duration as string) || 60,
+        type: req.query.type as AvailabilitySearchRequest['type'],
+        psychiatrist_ids: req.query.psychiatrist_ids
+          ? (req.query.psychiatrist_ids as string).split(',')
+          : undefined,
+        time_of_day: req.query.time_of_day as TimeOfDay | undefined,
+        limit: parseInt(req.query.limit as string) || 5
+      };
+
+      const slots = await AppointmentModel.searchAvailability(search);
+
+      res.json({
+        success: true,
+        data: {
+          ...search,
+          slots
+        }
+      });
+
+    } catch (error) {
+      console.error('Error buscando disponibilidad:', error);
+      res.status(500).json(
+        createErrorResponse('SEARCH_AVAILABILITY_ERROR', 'Error al buscar disponibilidad')
+      );
+    }
+  }
+);
+
+/**
+ * GET /api/v1/appointments/reschedule-requests
+ * Solicitudes de reprogramación enviadas por los pacientes de la agenda consultada
+ */
+router.get('/reschedule-requests',
+  requirePermission('appointments:read'),
+  validateQuery(schemas.rescheduleRequestQuery),
+  async (req: Request, res: Response) => {
+    try {
+      const requests = await RescheduleRequestModel.findAll({
+        psychiatrist_id: agendaPsychiatristId(req),
+        status: (req.query.status as RescheduleRequest['status'] | undefined) || 'pending'
+      });
+
+      res.json({
+        success: true,
+        data: requests
+      });
+
+    } catch (error) {
+      console.error('Error obteniendo solicitudes de reprogramación:', error);
+      res.status(500).json(
+        createErrorResponse('FETCH_RESCHEDULE_REQUESTS_ERROR', 'Error al obtener solicitudes de reprogramación')
+      );
+    }
+  }
+);
+
+/**
+ * POST /api/v1/appointments/reschedule-requests/:id/resolve
+ * Cerrar una solicitud de reprogramación (reprogramada o descartada)
+ */
+router.post('/reschedule-requests/:id/resolve',
+  requirePermission('appointments:write'),
+  validateParams(schemas.uuid),
+  validate(schemas.rescheduleRequestResolve),
+  requireCareTeamAccess(rescheduleRequestPatientId),
+  async (req: Request, res: Response) => {
+    try {
+      const { id } = req.params;
+      const request = await RescheduleRequestModel.findById(id);
+
+      if (!request) {
+        return res.status(404).json(
+          createErrorResponse('RESCHEDULE_REQUEST_NOT_FOUND', 'Solicitud no encontrada', { requestId: id }, 404)
+        );
+      }
+
+      const resolved = await RescheduleRequestModel.resolve(id, req.body.status, req.user!.userId, req.body.notes);
+
+      if (!resolved) {
+        return res.status(409).json(
+          createErrorResponse('RESCHEDULE_REQUEST_CLOSED', 'La solicitud ya fue cerrada', { requestId: id }, 409)
+        );
+      }
+
+      res.json({
+        success: true,
+        data: resolved
+      });
+
+    } catch (error) {
+      console.error('Error cerrando solicitud de reprogramación:', error);
+      res.status(500).json(
+        createErrorResponse('RESOLVE_RESCHEDULE_REQUEST_ERROR', 'Error al cerrar la solicitud')
+      );
+    }
+  }
+);
+
+/**
+ * GET /api/v1/appointments/series/:id
+ * Obtener una serie recurrente con todas sus citas
+ */
+router.get('/series/:id',
+  requirePermission('appointments:read'),
+  validateParams(schemas.uuid),
+  requireCareTeamAccess(seriesPatientId),
+  async (req: Request, res: Response) => {
+    try {
+      const { id } = req.params;
+      const result = await AppointmentModel.findSeries(id);
+      
+      if (!result) {
+        return res.status(404).json(
+          createErrorResponse(
+            'SERIES_NOT_FOUND',
+            'Serie de citas no encontrada',
+            { seriesId: id },
+            404
+          )
+        );
+      }
+      
+      res.json({
+        success: true,
+        data: result
+      });
+      
+    } catch (error) {
+      console.error('Error obteniendo serie de citas:', error);
+      res.status(500).json(
+        createErrorResponse('FETCH_SERIES_ERROR', 'Error al obtener serie de citas')
+      );
+    }
+  }
+);
+
 /**
  * GET /api/v1/appointments/:id
  * Obtener cita específica
  */
 router.get('/:id',
+  requirePermission('appointments:read'),
   validateParams(schemas.uuid),
+  requireCareTeamAccess(appointmentPatientId),
   async (req: Request, res: Response) => {
     try {
       const { id } = req.params;
@@ -189,21 +517,12 @@ router.get('/:id',
         );
       }
       
-      // Verificar que la cita pertenece al psiquiatra actual (seguridad)
-      if (appointment.psychiatrist_id !== req.user?.userId) {
-        return res.status(403).json(
-          createErrorResponse(
-            'INSUFFICIENT_PERMISSIONS',
-            'No tiene permisos para ver esta cita',
-            null,
-            403
-          )
-        );
-      }
+      // Sesión de consulta originada por la cita, si existe
+      const session = await ConsultationSessionModel.findByAppointmentId(id);
       
       res.json({
         success: true,
-        data: appointment
+        data: { ...appointment, session }
       });
       
     } catch (error) {
@@ -220,22 +539,13 @@ router.get('/:id',
  * Crear nueva cita
  */
 router.post('/',
+  requirePermission('appointments:write'),
   validate(schemas.appointmentCreate),
+  requireCareTeamAccess(bodyPatientId),
   async (req: Request, res: Response) => {
     try {
-      const appointmentData: AppointmentCreateRequest = req.body;
-      const psychiatristId = req.user?.userId;
-      
-      if (!psychiatristId) {
-        return res.status(401).json(
-          createErrorResponse(
-            'UNAUTHORIZED',
-            'Usuario no autenticado',
-            null,
-            401
-          )
-        );
-      }
+      const { psychiatrist_id, ...appointmentData }: AppointmentCreateRequest = req.body;
+      const psychiatristId = await resolveBookingPsychiatrist(req, psychiatrist_id);
       
       // Verificar que el paciente existe
       const patient = await PatientModel.findById(appointmentData.patient_id);
@@ -261,50 +571,18 @@ router.post('/',
     } catch (error) {
       console.error('Error creando cita:', error);
       
-      if (error instanceof Error) {
-        if (error.message.includes('No se pueden programar citas en fechas pasadas')) {
-          return res.status(422).json(
-            createErrorResponse(
-              'PAST_APPOINTMENT_DATE',
-              error.message,
-              null,
-              422
-            )
-          );
-        }
-        
-        if (error.message.includes('horario laboral')) {
-          return res.status(422).json(
-            createErrorResponse(
-              'INVALID_APPOINTMENT_TIME',
-              error.message,
-              null,
-              422
-            )
-          );
-        }
-        
-        if (error.message.includes('Conflicto de horario')) {
-          return res.status(422).json(
-            createErrorResponse(
-              'APPOINTMENT_CONFLICT',
-              error.message,
-              null,
-              422
-            )
-          );
-        }
-        
-        if (error.message.includes('anticipación')) {
-          return res.status(422).json(
-            createErrorResponse(
-              'INSUFFICIENT_ADVANCE_NOTICE',
-              error.message,
-              null,
-              422
-            )
-          );
-        }
+      const bookingErrorCode = error instanceof Error && findBookingErrorCode(error.message);
+      if (bookingErrorCode) {
+        return res.status(422).json(
+          createErrorResponse(bookingErrorCode, (error as Error).message, null, 422)
+        );
+      }
+      
+      const scheduleErrorCode = error instanceof Error && findScheduleErrorCode(error.message);
+      if (scheduleErrorCode) {
+        return res.status(422).json(
+          createErrorResponse(scheduleErrorCode, (error as Error).message, null, 422)
+        );
       }
       
       res.status(500).json(
@@ -315,30 +593,88 @@ router.post('/',
 );
 
 /**
- * PUT /api/v1/appointments/:id
- * Actualizar cita
+ * POST /api/v1/appointments/series
+ * Crear una serie de citas recurrentes (semanal, quincenal o mensual)
  */
-router.put('/:id',
-  validateParams(schemas.uuid),
-  validate(schemas.appointmentCreate.fork(['patient_id'], (schema) => schema.optional())),
+router.post('/series',
+  requirePermission('appointments:write'),
+  validate(schemas.appointmentSeriesCreate),
+  requireCareTeamAccess(bodyPatientId),
   async (req: Request, res: Response) => {
     try {
-      const { id } = req.params;
-      const updates: AppointmentUpdateRequest = req.body;
-      const psychiatristId = req.user?.userId;
+      const { psychiatrist_id, ...seriesData }: AppointmentSeriesCreateRequest = req.body;
+      const psychiatristId = await resolveBookingPsychiatrist(req, psychiatrist_id);
       
-      if (!psychiatristId) {
-        return res.status(401).json(
+      // Verificar que el paciente existe
+      const patient = await PatientModel.findById(seriesData.patient_id);
+      if (!patient) {
+        return res.status(404).json(
           createErrorResponse(
-            'UNAUTHORIZED',
-            'Usuario no autenticado',
-            null,
-            401
+            'PATIENT_NOT_FOUND',
+            'Paciente no encontrado',
+            { patientId: seriesData.patient_id },
+            404
           )
         );
       }
       
-      // Verificar que la cita existe y pertenece al psiquiatra
+      const result = withConflictCodes(await AppointmentModel.createSeries(seriesData, psychiatristId));
+      
+      // Sin serie creada: se informan los conflictos de cada fecha
+      if (!result.series) {
+        return res.status(409).json(
+          createErrorResponse(
+            'SERIES_CONFLICT',
+            'Algunas citas de la serie tienen conflictos de horario',
+            { conflicts: result.conflicts },
+            409
+          )
+        );
+      }
+      
+      res.status(201).json({
+        success: true,
+        data: result
+      });
+      
+    } catch (error) {
+      console.error('Error creando serie de citas:', error);
+      
+      const bookingErrorCode = error instanceof Error && findBookingErrorCode(error.message);
+      if (bookingErrorCode) {
+        return res.status(422).json(
+          createErrorResponse(bookingErrorCode, (error as Error).message, null, 422)
+        );
+      }
+      
+      const scheduleErrorCode = error instanceof Error && findScheduleErrorCode(error.message);
+      if (scheduleErrorCode) {
+        return res.status(422).json(
+          createErrorResponse(scheduleErrorCode, (error as Error).message, null, 422)
+        );
+      }
+      
+      res.status(500).json(
+        createErrorResponse('CREATE_SERIES_ERROR', 'Error al crear serie de citas')
+      );
+    }
+  }
+);
+
+/**
+ * PUT /api/v1/appointments/:id
+ * Actualizar cita
+ */
+router.put('/:id',
+  requirePermission('appointments:write'),
+  validateParams(schemas.uuid),
+  validate(schemas.appointmentUpdate),
+  requireCareTeamAccess(appointmentPatientId),
+  async (req: Request, res: Response) => {
+    try {
+      const { id } = req.params;
+      const { scope = 'this', ...updates }: AppointmentUpdateRequest & { scope?: SeriesScope } = req.body;
+      // Verificar que la cita existe
       const existingAppointment = await AppointmentModel.findById(id);
       if (!existingAppointment) {
         return res.status(404).json(
@@ -351,18 +687,30 @@ router.put('/:id',
         );
       }
       
-      if (existingAppointment.psychiatrist_id !== psychiatristId) {
-        return res.status(403).json(
-          createErrorResponse(
-            'INSUFFICIENT_PERMISSIONS',
-            'No tiene permisos para modificar esta cita',
-            null,
-            403
-          )
+      // Esta y las siguientes, o toda la serie
+      if (scope !== 'this') {
+        const result = withConflictCodes(
+          await AppointmentModel.updateSeries(id, updates, scope, existingAppointment.psychiatrist_id)
         );
+        
+        if (result.conflicts.length > 0) {
+          return res.status(409).json(
+            createErrorResponse(
+              'SERIES_CONFLICT',
+              'Algunas citas de la serie tienen conflictos de horario',
+              { conflicts: result.conflicts },
+              409
+            )
+          );
+        }
+        
+        return res.json({
+          success: true,
+          data: result
+        });
       }
       
-      const updatedAppointment = await AppointmentModel.update(id, updates, psychiatristId);
+      const updatedAppointment = await AppointmentModel.update(id, updates, existingAppointment.psychiatrist_id);
       
       if (!updatedAppointment) {
         return res.status(404).json(
@@ -383,17 +731,18 @@ router.put('/:id',
     } catch (error) {
       console.error('Error actualizando cita:', error);
       
-      if (error instanceof Error) {
-        if (error.message.includes('Conflicto de horario')) {
-          return res.status(422).json(
-            createErrorResponse(
-              'APPOINTMENT_CONFLICT',
-              error.message,
-              null,
-              422
-            )
-          );
-        }
+      const seriesErrorCode = error instanceof Error && findSeriesErrorCode(error.message);
+      if (seriesErrorCode) {
+        return res.status(422).json(
+          createErrorResponse(seriesErrorCode, (error as Error).message, null, 422)
+        );
+      }
+      
+      const scheduleErrorCode = error instanceof Error && findScheduleErrorCode(error.message);
+      if (scheduleErrorCode) {
+        return res.status(422).json(
+          createErrorResponse(scheduleErrorCode, (error as Error).message, null, 422)
+        );
       }
       
       res.status(500).json(
@@ -408,38 +757,58 @@ router.put('/:id',
  * Cambiar estado de cita
  */
 router.put('/:id/status',
+  requirePermission('appointments:write'),
   validateParams(schemas.uuid),
+  validate(schemas.appointmentStatusUpdate),
+  requireCareTeamAccess(appointmentPatientId),
   async (req: Request, res: Response) => {
     try {
       const { id } = req.params;
-      const { status } = req.body;
-      const psychiatristId = req.user?.userId;
-      
-      if (!psychiatristId) {
-        return res.status(401).json(
+      const { status, reason, scope = 'this' }: AppointmentStatusUpdateRequest = req.body;
+      // En una serie solo la cancelación puede aplicarse a varias citas
+      if (scope !== 'this' && status !== 'cancelled') {
+        return res.status(400).json(
           createErrorResponse(
-            'UNAUTHORIZED',
-            'Usuario no autenticado',
-            null,
-            401
+            'INVALID_SERIES_SCOPE',
+            'Solo la cancelación puede aplicarse a esta y las siguientes citas o a toda la serie',
+            { scope },
+            400
           )
         );
       }
       
-      if (!status || !['scheduled', 'confirmed', 'in_progress', 'completed', 'cancelled', 'no_show'].includes(status)) {
-        return res.status(400).json(
+      // Verificar que la cita existe
+      const existingAppointment = await AppointmentModel.findById(id);
+      if (!existingAppointment) {
+        return res.status(404).json(
           createErrorResponse(
-            'INVALID_STATUS',
-            'Estado de cita inválido',
-            { status },
-            400
+            'APPOINTMENT_NOT_FOUND',
+            'Cita no encontrada',
+            { appointmentId: id },
+            404
           )
         );
       }
       
-      // Verificar que la cita existe y pertenece al psiquiatra
-      const existingAppointment = await AppointmentModel.findById(id);
-      if (!existingAppointment) {
+      if (scope !== 'this') {
+        const result = await AppointmentModel.cancelSeries(id, scope, existingAppointment.psychiatrist_id, {
+          reason,
+          changedBy: req.user!.userId
+        });
+        const waitlistHolds = await offerFreedSlots(result.appointments);
+        
+        return res.json({
+          success: true,
+          data: { ...result, waitlist_holds: waitlistHolds }
+        });
+      }
+      
+      const updatedAppointment = await AppointmentModel.updateStatus(id, status, existingAppointment.psychiatrist_id, {
+        reason,
+        changedBy: req.user!.userId
+      });
+      
+      if (!updatedAppointment) {
         return res.status(404).json(
           createErrorResponse(
             'APPOINTMENT_NOT_FOUND',
@@ -450,20 +819,71 @@ router.put('/:id/status',
         );
       }
       
-      if (existingAppointment.psychiatrist_id !== psychiatristId) {
-        return res.status(403).json(
+      if (SESSION_STATUSES.includes(status)) {
+        await createSessionDraft(updatedAppointment);
+      }
+      
+      // Incluye el borrador de sesión creado al iniciar o completar la cita
+      const session = await ConsultationSessionModel.findByAppointmentId(id);
+      
+      // El horario cancelado se ofrece a la lista de espera
+      const [waitlistHold] = status === 'cancelled' ? await offerFreedSlots([updatedAppointment]) : [];
+      
+      res.json({
+        success: true,
+        data: { ...updatedAppointment, session, waitlist_hold: waitlistHold || null }
+      });
+      
+    } catch (error) {
+      console.error('Error cambiando estado de cita:', error);
+      
+      const statusErrorCode = error instanceof Error && findStatusErrorCode(error.message);
+      if (statusErrorCode) {
+        const statusCode = statusErrorCode === 'APPOINTMENT_MODIFIED' ? 409 : 422;
+        return res.status(statusCode).json(
+          createErrorResponse(statusErrorCode, (error as Error).message, null, statusCode)
+        );
+      }
+      
+      const seriesErrorCode = error instanceof Error && findSeriesErrorCode(error.message);
+      if (seriesErrorCode) {
+        return res.status(422).json(
+          createErrorResponse(seriesErrorCode, (error as Error).message, null, 422)
+        );
+      }
+      
+      if (error instanceof Error && error.message.includes('ya tiene una cita en ese horario')) {
+        return res.status(422).json(
           createErrorResponse(
-            'INSUFFICIENT_PERMISSIONS',
-            'No tiene permisos para modificar esta cita',
+            'APPOINTMENT_CONFLICT',
+            error.message,
             null,
-            403
+            422
           )
         );
       }
       
-      const updatedAppointment = await AppointmentModel.updateStatus(id, status, psychiatristId);
+      res.status(500).json(
+        createErrorResponse('UPDATE_APPOINTMENT_STATUS_ERROR', 'Error al cambiar estado de cita')
+      );
+    }
+  }
+);
+
+/**
+ * GET /api/v1/appointments/:id/status-history
+ * Historial de cambios de estado de una cita
+ */
+router.get('/:id/status-history',
+  requirePermission('appointments:read'),
+  validateParams(schemas.uuid),
+  requireCareTeamAccess(appointmentPatientId),
+  async (req: Request, res: Response) => {
+    try {
+      const { id } = req.params;
+      const appointment = await AppointmentModel.findById(id);
       
-      if (!updatedAppointment) {
+      if (!appointment) {
         return res.status(404).json(
           createErrorResponse(
             'APPOINTMENT_NOT_FOUND',
@@ -474,45 +894,92 @@ router.put('/:id/status',
         );
       }
       
+      const history = await AppointmentModel.findStatusHistory(id);
+      
       res.json({
         success: true,
-        data: updatedAppointment
+        data: history
       });
       
     } catch (error) {
-      console.error('Error cambiando estado de cita:', error);
+      console.error('Error obteniendo historial de estados:', error);
       res.status(500).json(
-        createErrorResponse('UPDATE_APPOINTMENT_STATUS_ERROR', 'Error al cambiar estado de cita')
+        createErrorResponse('FETCH_STATUS_HISTORY_ERROR', 'Error al obtener historial de estados')
       );
     }
   }
 );
 
 /**
- * DELETE /api/v1/appointments/:id
- * Eliminar cita
+ * POST /api/v1/appointments/:id/patient-link
+ * Generar el enlace para que el paciente confirme, cancele o pida reprogramar
  */
-router.delete('/:id',
+router.post('/:id/patient-link',
+  requirePermission('appointments:write'),
   validateParams(schemas.uuid),
+  requireCareTeamAccess(appointmentPatientId),
   async (req: Request, res: Response) => {
     try {
       const { id } = req.params;
-      const psychiatristId = req.user?.userId;
-      
-      if (!psychiatristId) {
-        return res.status(401).json(
+      const appointment = await AppointmentModel.findById(id);
+
+      if (!appointment) {
+        return res.status(404).json(
           createErrorResponse(
-            'UNAUTHORIZED',
-            'Usuario no autenticado',
-            null,
-            401
+            'APPOINTMENT_NOT_FOUND',
+            'Cita no encontrada',
+            { appointmentId: id },
+            404
+          )
+        );
+      }
+
+      if (!['scheduled', 'confirmed'].includes(appointment.status)) {
+        return res.status(409).json(
+          createErrorResponse(
+            'APPOINTMENT_NOT_ACTIVE',
+            'Solo se generan enlaces para citas programadas o confirmadas',
+            { status: appointment.status },
+            409
           )
         );
       }
+
+      res.status(201).json({
+        success: true,
+        data: createAppointmentLink(appointment)
+      });
+
+    } catch (error) {
+      console.error('Error generando enlace del paciente:', error);
+
+      if (error instanceof Error && error.message.includes('ya comenzó')) {
+        return res.status(422).json(
+          createErrorResponse('APPOINTMENT_ALREADY_STARTED', error.message, null, 422)
+        );
+      }
+
+      res.status(500).json(
+        createErrorResponse('CREATE_PATIENT_LINK_ERROR', 'Error al generar el enlace')
+      );
+    }
+  }
+);
+
+/**
+ * GET /api/v1/appointments/:id/notifications
+ * Intentos de envío de recordatorios de una cita
+ */
+router.get('/:id/notifications',
+  requirePermission('appointments:read'),
+  validateParams(schemas.uuid),
+  requireCareTeamAccess(appointmentPatientId),
+  async (req: Request, res: Response) => {
+    try {
+      const { id } = req.params;
+      const appointment = await AppointmentModel.findById(id);
       
-      // Verificar que la cita existe y pertenece al psiquiatra
-      const existingAppointment = await AppointmentModel.findById(id);
-      if (!existingAppointment) {
+      if (!appointment) {
         return res.status(404).json(
           createErrorResponse(
             'APPOINTMENT_NOT_FOUND',
@@ -523,20 +990,53 @@ router.delete('/:id',
         );
       }
       
-      if (existingAppointment.psychiatrist_id !== psychiatristId) {
-        return res.status(403).json(
+      const deliveries = await NotificationDeliveryModel.findByAppointment(id);
+      
+      res.json({
+        success: true,
+        data: deliveries
+      });
+      
+    } catch (error) {
+      console.error('Error obteniendo recordatorios de la cita:', error);
+      res.status(500).json(
+        createErrorResponse('FETCH_NOTIFICATIONS_ERROR', 'Error al obtener recordatorios de la cita')
+      );
+    }
+  }
+);
+
+/**
+ * DELETE /api/v1/appointments/:id
+ * Eliminar cita de la agenda: se cancela para conservar su historial de
+ * estados y la sesión vinculada
+ */
+router.delete('/:id',
+  requirePermission('appointments:write'),
+  validateParams(schemas.uuid),
+  requireCareTeamAccess(appointmentPatientId),
+  async (req: Request, res: Response) => {
+    try {
+      const { id } = req.params;
+      // Verificar que la cita existe
+      const existingAppointment = await AppointmentModel.findById(id);
+      if (!existingAppointment) {
+        return res.status(404).json(
           createErrorResponse(
-            'INSUFFICIENT_PERMISSIONS',
-            'No tiene permisos para eliminar esta cita',
-            null,
-            403
+            'APPOINTMENT_NOT_FOUND',
+            'Cita no encontrada',
+            { appointmentId: id },
+            404
           )
         );
       }
       
-      const success = await AppointmentModel.delete(id, psychiatristId);
+      const cancelledAppointment = await AppointmentModel.updateStatus(id, 'cancelled', existingAppointment.psychiatrist_id, {
+        reason: DELETED_APPOINTMENT_REASON,
+        changedBy: req.user!.userId
+      });
       
-      if (!success) {
+      if (!cancelledAppointment) {
         return res.status(404).json(
           createErrorResponse(
             'APPOINTMENT_NOT_FOUND',
@@ -547,15 +1047,29 @@ router.delete('/:id',
         );
       }
       
+      const [waitlistHold] = await offerFreedSlots([cancelledAppointment]);
+      
       res.json({
         success: true,
         data: {
-          message: 'Cita eliminada exitosamente'
+          message: 'Cita eliminada exitosamente',
+          appointment: cancelledAppointment,
+          waitlist_hold: waitlistHold || null
         }
       });
       
     } catch (error) {
       console.error('Error eliminando cita:', error);
+      
+      // Las citas iniciadas, completadas o ya canceladas no se pueden eliminar
+      const statusErrorCode = error instanceof Error && findStatusErrorCode(error.message);
+      if (statusErrorCode) {
+        const statusCode = statusErrorCode === 'APPOINTMENT_MODIFIED' ? 409 : 422;
+        return res.status(statusCode).json(
+          createErrorResponse(statusErrorCode, (error as Error).message, null, statusCode)
+        );
+      }
+      
       res.status(500).json(
         createErrorResponse('DELETE_APPOINTMENT_ERROR', 'Error al eliminar cita')
       );
@@ -567,9 +1081,9 @@ router.delete('/:id',
  * GET /api/v1/appointments/stats/summary
  * Obtener estadísticas de citas
  */
-router.get('/stats/summary', async (req: Request, res: Response) => {
+router.get('/stats/summary', requirePermission('appointments:read'), validateQuery(schemas.agendaQuery), async (req: Request, res: Response) => {
   try {
-    const psychiatristId = req.user?.userId;
+    const psychiatristId = agendaPsychiatristId(req);
     const stats = await AppointmentModel.getStats(psychiatristId);
     
     res.json({
@@ -0,0 +1,92 @@
+import { Router, Request, Response } from 'express';
+import { authenticateToken, requirePermission } from '@/middleware/auth';
+import { validateQuery, schemas } from '@/middleware/validation';
+import { auditAccess } from '@/middleware/audit';
+import { AuditLogModel } from '@/models/AuditLog';
+import { createErrorResponse } from '@/middleware/errorHandler';
+import { AuditLogEntry, PaginatedResponse } from '@/types';
+
+const router = Router();
+
+// La bitácora solo la consultan los administradores
+router.use(authenticateToken);
+router.use(requirePermission('audit:read'));
+
+/**
+ * GET /api/v1/audit
+ * Consultar la bitácora por paciente, usuario, acción, recurso, acceso de
+ * emergencia o fechas.
+ * La propia consulta queda registrada como exportación.
+ */
+router.get('/',
+  validateQuery(schemas.auditQuery),
+  auditAccess('audit_log', { action: 'export' }),
+  async (req: Request, res: Response) => {
+    try {
+      const page = parseInt(req.query.page as string) || 1;
+      const limit = parseInt(req.query.limit as string) || 50;
+
+      if (req.query.from && req.query.to && new Date(req.query.from as string) > new Date(req.query.to as string)) {
+        return res.status(400).json(
+          createErrorResponse('INVALID_DATE_RANGE', 'La fecha inicial debe ser anterior a la final', null, 400)
+        );
+      }
+
+      const { entries, total } = await AuditLogModel.findAll(page, limit, {
+        patient_id: req.query.patient_id as string | undefined,
+        user_id: req.query.user_id as string | undefined,
+        action: req.query.action as AuditLogEntry['action'] | undefined,
+        resource_type: req.query.resource_type as string | undefined,
+        emergency_access_id: req.query.emergency_access_id as string | undefined,
+        from: req.query.from ? new Date(req.query.from as string) : undefined,
+        to: req.query.to ? new Date(req.query.to as string) : undefined
+      });
+
+      const response: PaginatedResponse<AuditLogEntry> = {
+        data: entries,
+        pagination: {
+          page,
+          limit,
+          total,
+          totalPages: Math.ceil(total / limit),
+          hasNext: page < Math.ceil(total / limit),
+          hasPrev: page > 1
+        }
+      };
+
+      res.json({
+        success: true,
+        data: response
+      });
+
+    } catch (error) {
+      console.error('Error consultando bitácora de auditoría:', error);
+      res.status(500).json(
+        createErrorResponse('FETCH_AUDIT_LOG_ERROR', 'Error al consultar la bitácora de auditoría')
+      );
+    }
+  }
+);
+
+/**
+ * GET /api/v1/audit/verify
+ * Verificar que la cadena de hashes esté completa y sin alteraciones
+ */
+router.get('/verify', async (req: Request, res: Response) => {
+  try {
+    const verification = await AuditLogModel.verifyChain();
+
+    res.json({
+      success: true,
+      data: verification
+    });
+
+  } catch (error) {
+    console.error('Error verificando bitácora de auditoría:', error);
+    res.status(500).json(
+      createErrorResponse('VERIFY_AUDIT_LOG_ERROR', 'Error al verificar la bitácora de auditoría')
+    );
+  }
+});
+
+export default router;
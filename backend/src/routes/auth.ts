@@ -1,7 +1,9 @@
 import { Router, Request, Response } from 'express';
 import jwt from 'jsonwebtoken';
 import { UserModel } from '@/models/User';
-import { validate, schemas } from '@/middleware/validation';
+import { DeviceInfo, RefreshTokenModel } from '@/models/RefreshToken';
+import { authenticateToken, optionalAuth } from '@/middleware/auth';
+import { validate, validateParams, schemas } from '@/middleware/validation';
 import { authRateLimit } from '@/middleware/rateLimit';
 import { createErrorResponse } from '@/middleware/errorHandler';
 import { LoginRequest, RegisterRequest, User } from '@/types';
@@ -9,6 +11,30 @@ import config from '@/config';
 
 const router = Router();
 
+// Errores al renovar el refresh token (todos obligan a iniciar sesión de nuevo)
+const REFRESH_ERROR_CODES: [string, string][] = [
+  ['reutilizado', 'REFRESH_TOKEN_REUSED'],
+  ['no registrado', 'INVALID_REFRESH_TOKEN'],
+  ['revocado', 'REFRESH_TOKEN_REVOKED'],
+  ['Tipo de token inválido', 'INVALID_TOKEN_TYPE']
+];
+
+const deviceOf = (req: Request): DeviceInfo => ({
+  user_agent: req.headers['user-agent'] || null,
+  ip_address: req.ip || req.socket.remoteAddress || null
+});
+
+/**
+ * Token de acceso ligado a la sesión (familia de refresh tokens), para que
+ * deje de valer al cerrarla
+ */
+const signAccessToken = (user: Pick<User, 'id' | 'email' | 'role'>, sessionId: string): string =>
+  jwt.sign(
+    { userId: user.id, email: user.email, role: user.role, sessionId },
+    config.auth.jwtSecret,
+    { expiresIn: config.auth.jwtExpiresIn } as jwt.SignOptions
+  );
+
 /**
  * POST /api/v1/auth/register
  * Registrar nuevo psiquiatra
@@ -36,18 +62,9 @@ router.post('/register',
       // Crear usuario
       const newUser = await UserModel.create(userData);
       
-      // Generar tokens
-      const accessToken = jwt.sign(
-        { userId: newUser.id, email: newUser.email, role: newUser.role },
-        config.auth.jwtSecret,
-        { expiresIn: config.auth.jwtExpiresIn }
-      );
-      
-      const refreshToken = jwt.sign(
-        { userId: newUser.id, type: 'refresh' },
-        config.auth.refreshTokenSecret,
-        { expiresIn: config.auth.refreshTokenExpiresIn }
-      );
+      // Generar tokens (inicia una sesión nueva para el dispositivo)
+      const { token: refreshToken, record } = await RefreshTokenModel.issue(newUser.id, deviceOf(req));
+      const accessToken = signAccessToken(newUser, record.family_id);
       
       // Respuesta sin password_hash
       const { password_hash, ...userResponse } = newUser;
@@ -132,18 +149,9 @@ router.post('/login',
         );
       }
       
-      // Generar tokens
-      const accessToken = jwt.sign(
-        { userId: user.id, email: user.email, role: user.role },
-        config.auth.jwtSecret,
-        { expiresIn: config.auth.jwtExpiresIn }
-      );
-      
-      const refreshToken = jwt.sign(
-        { userId: user.id, type: 'refresh' },
-        config.auth.refreshTokenSecret,
-        { expiresIn: config.auth.refreshTokenExpiresIn }
-      );
+      // Generar tokens (inicia una sesión nueva para el dispositivo)
+      const { token: refreshToken, record } = await RefreshTokenModel.issue(user.id, deviceOf(req));
+      const accessToken = signAccessToken(user, record.family_id);
       
       // Respuesta sin datos sensibles
       const { password_hash, ...userResponse } = user;
@@ -169,7 +177,8 @@ router.post('/login',
 
 /**
  * POST /api/v1/auth/refresh
- * Renovar token de acceso
+ * Renovar token de acceso. El refresh token se rota en cada uso: la respuesta
+ * trae uno nuevo y el anterior deja de valer; reutilizarlo cierra la sesión.
  */
 router.post('/refresh', async (req: Request, res: Response) => {
   try {
@@ -186,23 +195,13 @@ router.post('/refresh', async (req: Request, res: Response) => {
       );
     }
     
-    // Verificar refresh token
-    const decoded = jwt.verify(refreshToken, config.auth.refreshTokenSecret) as { userId: string; type: string };
-    
-    if (decoded.type !== 'refresh') {
-      return res.status(401).json(
-        createErrorResponse(
-          'INVALID_TOKEN_TYPE',
-          'Tipo de token inválido',
-          null,
-          401
-        )
-      );
-    }
+    // Verificar y rotar el refresh token
+    const rotated = await RefreshTokenModel.rotate(refreshToken, deviceOf(req));
     
     // Obtener usuario actual
-    const user = await UserModel.findById(decoded.userId);
+    const user = await UserModel.findById(rotated.record.user_id);
     if (!user || !user.is_active) {
+      await RefreshTokenModel.revokeFamily(rotated.record.family_id, 'revoked');
       return res.status(401).json(
         createErrorResponse(
           'USER_NOT_FOUND',
@@ -213,12 +212,8 @@ router.post('/refresh', async (req: Request, res: Response) => {
       );
     }
     
-    // Generar nuevo access token
-    const newAccessToken = jwt.sign(
-      { userId: user.id, email: user.email, role: user.role },
-      config.auth.jwtSecret,
-      { expiresIn: config.auth.jwtExpiresIn }
-    );
+    // Generar nuevo access token en la misma sesión
+    const newAccessToken = signAccessToken(user, rotated.record.family_id);
     
     const { password_hash, ...userResponse } = user;
     
@@ -227,6 +222,7 @@ router.post('/refresh', async (req: Request, res: Response) => {
       data: {
         user: userResponse,
         accessToken: newAccessToken,
+        refreshToken: rotated.token,
         expiresIn: config.auth.jwtExpiresIn
       }
     });
@@ -243,6 +239,15 @@ router.post('/refresh', async (req: Request, res: Response) => {
       );
     }
     
+    const known = error instanceof Error
+      ? REFRESH_ERROR_CODES.find(([fragment]) => error.message.includes(fragment))
+      : undefined;
+    if (known) {
+      return res.status(401).json(
+        createErrorResponse(known[1], (error as Error).message, null, 401)
+      );
+    }
+    
     console.error('Error en refresh token:', error);
     res.status(500).json(
       createErrorResponse('REFRESH_ERROR', 'Error al renovar token')
@@ -252,19 +257,95 @@ router.post('/refresh', async (req: Request, res: Response) => {
 
 /**
  * POST /api/v1/auth/logout
- * Cerrar sesión
+ * Cerrar sesión: revoca la sesión del refresh token enviado o, sin él, la
+ * del token de acceso
  */
-router.post('/logout', (req: Request, res: Response) => {
-  // En una implementación más robusta, aquí se agregaría el token a una blacklist
-  // Por ahora, simplemente respondemos éxito
-  res.json({
-    success: true,
-    data: {
-      message: 'Sesión cerrada exitosamente'
+router.post('/logout', optionalAuth, async (req: Request, res: Response) => {
+  try {
+    const { refreshToken } = req.body || {};
+    
+    if (refreshToken) {
+      await RefreshTokenModel.revokeByToken(refreshToken);
+    } else if (req.user?.sessionId) {
+      await RefreshTokenModel.revokeSession(req.user.userId, req.user.sessionId, 'logout');
     }
-  });
+    
+    res.json({
+      success: true,
+      data: {
+        message: 'Sesión cerrada exitosamente'
+      }
+    });
+    
+  } catch (error) {
+    console.error('Error cerrando sesión:', error);
+    res.status(500).json(
+      createErrorResponse('LOGOUT_ERROR', 'Error al cerrar sesión')
+    );
+  }
 });
 
+/**
+ * GET /api/v1/auth/sessions
+ * Sesiones abiertas del usuario en sus dispositivos
+ */
+router.get('/sessions', authenticateToken, async (req: Request, res: Response) => {
+  try {
+    const sessions = await RefreshTokenModel.findActiveSessions(req.user!.userId, req.user!.sessionId);
+    
+    res.json({
+      success: true,
+      data: sessions
+    });
+    
+  } catch (error) {
+    console.error('Error obteniendo sesiones:', error);
+    res.status(500).json(
+      createErrorResponse('FETCH_SESSIONS_ERROR', 'Error al obtener sesiones')
+    );
+  }
+});
+
+/**
+ * DELETE /api/v1/auth/sessions/:id
+ * Cerrar la sesión de un dispositivo
+ */
+router.delete('/sessions/:id',
+  authenticateToken,
+  validateParams(schemas.uuid),
+  async (req: Request, res: Response) => {
+    try {
+      const { id } = req.params;
+      
+      const revoked = await RefreshTokenModel.revokeSession(req.user!.userId, id);
+      
+      if (!revoked) {
+        return res.status(404).json(
+          createErrorResponse(
+            'SESSION_NOT_FOUND',
+            'Sesión no encontrada o ya cerrada',
+            { sessionId: id },
+            404
+          )
+        );
+      }
+      
+      res.json({
+        success: true,
+        data: {
+          message: 'Sesión cerrada exitosamente'
+        }
+      });
+      
+    } catch (error) {
+      console.error('Error cerrando sesión de dispositivo:', error);
+      res.status(500).json(
+        createErrorResponse('REVOKE_SESSION_ERROR', 'Error al cerrar la sesión')
+      );
+    }
+  }
+);
+
 /**
  * GET /api/v1/auth/me
  * Obtener datos del usuario actual
@@ -1,327 +1,328 @@
 import { Router, Request, Response } from 'express';
-import { ConsultationSessionModel } from '../models/ConsultationSession';
-import { auth } from '../middleware/auth';
-import { validateRequest } from '../middleware/validation';
-import { z } from 'zod';
+import { authenticateToken, requireCareTeamAccess, requirePermission } from '@/middleware/auth';
+import { validate, schemas, validateParams, validateQuery } from '@/middleware/validation';
+import { auditAccess } from '@/middleware/audit';
+import { createErrorResponse } from '@/middleware/errorHandler';
+import { ConsultationSessionModel } from '@/models/ConsultationSession';
+import { AppointmentModel } from '@/models/Appointment';
+import { ConsultationSessionCreateRequest, ConsultationSessionUpdateRequest } from '@/types';
 
 const router = Router();
 
-// Middleware de autenticación para todas las rutas
-router.use(auth);
-
-// Esquemas de validación
-const createSessionSchema = z.object({
-  patient_id: z.string().uuid(),
-  psychiatrist_id: z.string().uuid(),
-  session_date: z.string().datetime(),
-  session_duration_minutes: z.number().min(15).max(240),
-  symptoms_presented: z.array(z.string()).optional(),
-  clinical_observations: z.string().optional(),
-  mental_state_examination: z.object({
-    appearance: z.string().optional(),
-    behavior: z.string().optional(),
-    speech: z.string().optional(),
-    mood: z.string().optional(),
-    affect: z.string().optional(),
-    thought_process: z.string().optional(),
-    thought_content: z.string().optional(),
-    perception: z.string().optional(),
-    cognition: z.string().optional(),
-    insight: z.string().optional(),
-    judgment: z.string().optional()
-  }).optional(),
-  treatment_notes: z.string().optional(),
-  risk_assessment: z.object({
-    suicide_risk: z.enum(['low', 'medium', 'high']).optional(),
-    self_care_risk: z.enum(['low', 'medium', 'high']).optional(),
-    violence_risk: z.enum(['low', 'medium', 'high']).optional(),
-    notes: z.string().optional()
-  }).optional(),
-  next_session_date: z.string().datetime().optional(),
-  session_status: z.enum(['scheduled', 'completed', 'cancelled', 'no_show']).default('completed')
-});
-
-const updateSessionSchema = z.object({
-  session_duration_minutes: z.number().min(15).max(240).optional(),
-  symptoms_presented: z.array(z.string()).optional(),
-  clinical_observations: z.string().optional(),
-  mental_state_examination: z.object({
-    appearance: z.string().optional(),
-    behavior: z.string().optional(),
-    speech: z.string().optional(),
-    mood: z.string().optional(),
-    affect: z.string().optional(),
-    thought_process: z.string().optional(),
-    thought_content: z.string().optional(),
-    perception: z.string().optional(),
-    cognition: z.string().optional(),
-    insight: z.string().optional(),
-    judgment: z.string().optional()
-  }).optional(),
-  treatment_notes: z.string().optional(),
-  risk_assessment: z.object({
-    suicide_risk: z.enum(['low', 'medium', 'high']).optional(),
-    self_care_risk: z.enum(['low', 'medium', 'high']).optional(),
-    violence_risk: z.enum(['low', 'medium', 'high']).optional(),
-    notes: z.string().optional()
-  }).optional(),
-  next_session_date: z.string().datetime().optional(),
-  session_status: z.enum(['scheduled', 'completed', 'cancelled', 'no_show']).optional()
-});
-
-// Rutas
+// Aplicar autenticación a todas las rutas
+router.use(authenticateToken);
+router.use(auditAccess('session'));
+
+// Paciente de la ruta o de la sesión: solo accesible para su equipo de atención
+const patientIdParam = (req: Request) => req.params.patientId;
+const sessionPatientId = async (req: Request) => (await ConsultationSessionModel.findById(req.params.id))?.patient_id;
+const bodyPatientId = (req: Request) => req.body.patient_id;
 
 /**
- * @route GET /api/clinical/patients/:patientId/history
- * @desc Obtener historial clínico completo de un paciente
- * @access Private (solo psiquiatras)
+ * GET /api/v1/clinical/patients/:patientId/history
+ * Obtener historial clínico completo de un paciente
  */
-router.get('/patients/:patientId/history', async (req: Request, res: Response) => {
-  try {
-    const { patientId } = req.params;
-    const { limit = '50' } = req.query;
-
-    // Verificar que el usuario es psiquiatra
-    if (req.user?.role !== 'psychiatrist') {
-      return res.status(403).json({ error: 'Acceso no autorizado' });
+router.get('/patients/:patientId/history',
+  requirePermission('clinical:read'),
+  validateParams(schemas.patientIdParams),
+  validateQuery(schemas.sessionHistoryQuery),
+  requireCareTeamAccess(patientIdParam),
+  async (req: Request, res: Response) => {
+    try {
+      const limit = parseInt(req.query.limit as string) || 50;
+      const sessions = await ConsultationSessionModel.findByPatientId(req.params.patientId, limit);
+
+      res.json({
+        success: true,
+        data: sessions,
+        message: 'Historial clínico obtenido exitosamente'
+      });
+
+    } catch (error) {
+      console.error('Error obteniendo historial clínico:', error);
+      res.status(500).json(
+        createErrorResponse('FETCH_CLINICAL_HISTORY_ERROR', 'Error al obtener historial clínico')
+      );
     }
-
-    const sessions = await ConsultationSessionModel.findByPatientId(
-      patientId, 
-      parseInt(limit as string)
-    );
-
-    res.json({
-      success: true,
-      data: sessions,
-      message: 'Historial clínico obtenido exitosamente'
-    });
-
-  } catch (error) {
-    console.error('Error getting patient clinical history:', error);
-    res.status(500).json({ error: 'Error interno del servidor' });
   }
-});
+);
 
 /**
- * @route GET /api/clinical/patients/:patientId/summary
- * @desc Obtener resumen clínico de un paciente
- * @access Private (solo psiquiatras)
+ * GET /api/v1/clinical/patients/:patientId/summary
+ * Obtener resumen clínico de un paciente
  */
-router.get('/patients/:patientId/summary', async (req: Request, res: Response) => {
-  try {
-    const { patientId } = req.params;
-
-    // Verificar que el usuario es psiquiatra
-    if (req.user?.role !== 'psychiatrist') {
-      return res.status(403).json({ error: 'Acceso no autorizado' });
+router.get('/patients/:patientId/summary',
+  requirePermission('clinical:read'),
+  validateParams(schemas.patientIdParams),
+  requireCareTeamAccess(patientIdParam),
+  async (req: Request, res: Response) => {
+    try {
+      const { patientId } = req.params;
+      const summary = await ConsultationSessionModel.getClinicalSummary(patientId);
+
+      if (!summary) {
+        return res.status(404).json(
+          createErrorResponse('PATIENT_NOT_FOUND', 'Paciente no encontrado', { patientId }, 404)
+        );
+      }
+
+      res.json({
+        success: true,
+        data: summary,
+        message: 'Resumen clínico obtenido exitosamente'
+      });
+
+    } catch (error) {
+      console.error('Error obteniendo resumen clínico:', error);
+      res.status(500).json(
+        createErrorResponse('FETCH_CLINICAL_SUMMARY_ERROR', 'Error al obtener resumen clínico')
+      );
     }
-
-    const summary = await ConsultationSessionModel.getClinicalSummary(patientId);
-
-    if (!summary) {
-      return res.status(404).json({ error: 'Paciente no encontrado' });
-    }
-
-    res.json({
-      success: true,
-      data: summary,
-      message: 'Resumen clínico obtenido exitosamente'
-    });
-
-  } catch (error) {
-    console.error('Error getting clinical summary:', error);
-    res.status(500).json({ error: 'Error interno del servidor' });
   }
-});
+);
 
 /**
- * @route GET /api/clinical/sessions/my-sessions
- * @desc Obtener sesiones del psiquiatra logueado
- * @access Private (solo psiquiatras)
+ * GET /api/v1/clinical/sessions/my-sessions
+ * Obtener sesiones del psiquiatra autenticado
  */
-router.get('/sessions/my-sessions', async (req: Request, res: Response) => {
-  try {
-    const { limit = '50' } = req.query;
-
-    // Verificar que el usuario es psiquiatra
-    if (req.user?.role !== 'psychiatrist') {
-      return res.status(403).json({ error: 'Acceso no autorizado' });
+router.get('/sessions/my-sessions',
+  requirePermission('clinical:read'),
+  validateQuery(schemas.sessionHistoryQuery),
+  async (req: Request, res: Response) => {
+    try {
+      const limit = parseInt(req.query.limit as string) || 50;
+      const sessions = await ConsultationSessionModel.findByPsychiatristId(req.user!.userId, limit);
+
+      res.json({
+        success: true,
+        data: sessions,
+        message: 'Sesiones obtenidas exitosamente'
+      });
+
+    } catch (error) {
+      console.error('Error obteniendo sesiones del psiquiatra:', error);
+      res.status(500).json(
+        createErrorResponse('FETCH_SESSIONS_ERROR', 'Error al obtener sesiones')
+      );
     }
-
-    const sessions = await ConsultationSessionModel.findByPsychiatristId(
-      req.user.id, 
-      parseInt(limit as string)
-    );
-
-    res.json({
-      success: true,
-      data: sessions,
-      message: 'Sesiones obtenidas exitosamente'
-    });
-
-  } catch (error) {
-    console.error('Error getting psychiatrist sessions:', error);
-    res.status(500).json({ error: 'Error interno del servidor' });
   }
-});
+);
 
 /**
- * @route POST /api/clinical/sessions
- * @desc Crear nueva sesión de consulta
- * @access Private (solo psiquiatras)
+ * POST /api/v1/clinical/sessions
+ * Crear nueva sesión de consulta (a nombre del psiquiatra autenticado)
  */
-router.post('/sessions', validateRequest(createSessionSchema), async (req: Request, res: Response) => {
-  try {
-    const sessionData = req.body;
-
-    // Verificar que el usuario es psiquiatra
-    if (req.user?.role !== 'psychiatrist') {
-      return res.status(403).json({ error: 'Acceso no autorizado' });
-    }
-
-    // Asignar el ID del psiquiatra logueado
-    sessionData.psychiatrist_id = req.user.id;
-
-    const newSession = await ConsultationSessionModel.create(sessionData);
-
-    if (!newSession) {
-      return res.status(400).json({ error: 'Error al crear la sesión' });
+router.post('/sessions',
+  requirePermission('clinical:write'),
+  validate(schemas.sessionCreate),
+  requireCareTeamAccess(bodyPatientId),
+  async (req: Request, res: Response) => {
+    try {
+      const sessionData: ConsultationSessionCreateRequest = req.body;
+
+      // La cita vinculada debe ser del mismo paciente y psiquiatra, y sin sesión previa
+      if (sessionData.appointment_id) {
+        const appointment = await AppointmentModel.findById(sessionData.appointment_id);
+        if (!appointment || appointment.patient_id !== sessionData.patient_id || appointment.psychiatrist_id !== req.user!.userId) {
+          return res.status(422).json(
+            createErrorResponse(
+              'APPOINTMENT_MISMATCH',
+              'La cita no corresponde al paciente o al psiquiatra de la sesión',
+              { appointmentId: sessionData.appointment_id },
+              422
+            )
+          );
+        }
+
+        if (await ConsultationSessionModel.findByAppointmentId(appointment.id)) {
+          return res.status(409).json(
+            createErrorResponse(
+              'APPOINTMENT_HAS_SESSION',
+              'La cita ya tiene una sesión de consulta',
+              { appointmentId: appointment.id },
+              409
+            )
+          );
+        }
+      }
+
+      const newSession = await ConsultationSessionModel.create({
+        ...sessionData,
+        psychiatrist_id: req.user!.userId,
+        session_date: new Date(sessionData.session_date),
+        next_session_date: sessionData.next_session_date ? new Date(sessionData.next_session_date) : undefined,
+        session_status: sessionData.session_status || 'completed'
+      });
+
+      if (!newSession) {
+        return res.status(400).json(
+          createErrorResponse('CREATE_SESSION_ERROR', 'Error al crear la sesión', null, 400)
+        );
+      }
+
+      res.status(201).json({
+        success: true,
+        data: newSession,
+        message: 'Sesión de consulta creada exitosamente'
+      });
+
+    } catch (error) {
+      console.error('Error creando sesión de consulta:', error);
+      res.status(500).json(
+        createErrorResponse('CREATE_SESSION_ERROR', 'Error al crear la sesión')
+      );
     }
-
-    res.status(201).json({
-      success: true,
-      data: newSession,
-      message: 'Sesión de consulta creada exitosamente'
-    });
-
-  } catch (error) {
-    console.error('Error creating consultation session:', error);
-    res.status(500).json({ error: 'Error interno del servidor' });
   }
-});
+);
 
 /**
- * @route GET /api/clinical/sessions/:id
- * @desc Obtener sesión específica por ID
- * @access Private (solo psiquiatras)
+ * GET /api/v1/clinical/sessions/:id
+ * Obtener sesión específica; la ve todo el equipo de atención del paciente
+ * (o quien tenga un acceso de emergencia vigente)
  */
-router.get('/sessions/:id', async (req: Request, res: Response) => {
-  try {
-    const { id } = req.params;
-
-    // Verificar que el usuario es psiquiatra
-    if (req.user?.role !== 'psychiatrist') {
-      return res.status(403).json({ error: 'Acceso no autorizado' });
-    }
-
-    const session = await ConsultationSessionModel.findById(id);
-
-    if (!session) {
-      return res.status(404).json({ error: 'Sesión no encontrada' });
+router.get('/sessions/:id',
+  requirePermission('clinical:read'),
+  validateParams(schemas.uuid),
+  requireCareTeamAccess(sessionPatientId),
+  async (req: Request, res: Response) => {
+    try {
+      const { id } = req.params;
+      const session = await ConsultationSessionModel.findById(id);
+
+      if (!session) {
+        return res.status(404).json(
+          createErrorResponse('SESSION_NOT_FOUND', 'Sesión no encontrada', { sessionId: id }, 404)
+        );
+      }
+
+      res.json({
+        success: true,
+        data: session,
+        message: 'Sesión obtenida exitosamente'
+      });
+
+    } catch (error) {
+      console.error('Error obteniendo sesión de consulta:', error);
+      res.status(500).json(
+        createErrorResponse('FETCH_SESSION_ERROR', 'Error al obtener la sesión')
+      );
     }
-
-    // Verificar que el psiquiatra solo puede ver sus propias sesiones
-    if (session.psychiatrist_id !== req.user.id && req.user.role !== 'admin') {
-      return res.status(403).json({ error: 'Acceso no autorizado a esta sesión' });
-    }
-
-    res.json({
-      success: true,
-      data: session,
-      message: 'Sesión obtenida exitosamente'
-    });
-
-  } catch (error) {
-    console.error('Error getting consultation session:', error);
-    res.status(500).json({ error: 'Error interno del servidor' });
   }
-});
+);
 
 /**
- * @route PUT /api/clinical/sessions/:id
- * @desc Actualizar sesión de consulta
- * @access Private (solo psiquiatras)
+ * PUT /api/v1/clinical/sessions/:id
+ * Actualizar sesión de consulta (solo su autor o un administrador)
  */
-router.put('/sessions/:id', validateRequest(updateSessionSchema), async (req: Request, res: Response) => {
-  try {
-    const { id } = req.params;
-    const updates = req.body;
-
-    // Verificar que el usuario es psiquiatra
-    if (req.user?.role !== 'psychiatrist') {
-      return res.status(403).json({ error: 'Acceso no autorizado' });
-    }
-
-    const existingSession = await ConsultationSessionModel.findById(id);
-
-    if (!existingSession) {
-      return res.status(404).json({ error: 'Sesión no encontrada' });
+router.put('/sessions/:id',
+  requirePermission('clinical:write'),
+  validateParams(schemas.uuid),
+  validate(schemas.sessionUpdate),
+  requireCareTeamAccess(sessionPatientId),
+  async (req: Request, res: Response) => {
+    try {
+      const { id } = req.params;
+      const updates: ConsultationSessionUpdateRequest = req.body;
+
+      const existingSession = await ConsultationSessionModel.findById(id);
+      if (!existingSession) {
+        return res.status(404).json(
+          createErrorResponse('SESSION_NOT_FOUND', 'Sesión no encontrada', { sessionId: id }, 404)
+        );
+      }
+
+      if (existingSession.psychiatrist_id !== req.user!.userId && req.user!.role !== 'admin') {
+        return res.status(403).json(
+          createErrorResponse('INSUFFICIENT_PERMISSIONS', 'No tiene permisos para editar esta sesión', null, 403)
+        );
+      }
+
+      const updatedSession = await ConsultationSessionModel.update(id, {
+        ...updates,
+        next_session_date: updates.next_session_date ? new Date(updates.next_session_date) : undefined
+      });
+
+      if (!updatedSession) {
+        return res.status(400).json(
+          createErrorResponse('UPDATE_SESSION_ERROR', 'Error al actualizar la sesión', null, 400)
+        );
+      }
+
+      res.json({
+        success: true,
+        data: updatedSession,
+        message: 'Sesión actualizada exitosamente'
+      });
+
+    } catch (error) {
+      console.error('Error actualizando sesión de consulta:', error);
+
+      // Las sesiones firmadas solo se amplían mediante adendas
+      if (error instanceof Error && error.message.includes('firmada')) {
+        return res.status(409).json(
+          createErrorResponse('SESSION_SIGNED', error.message, null, 409)
+        );
+      }
+
+      res.status(500).json(
+        createErrorResponse('UPDATE_SESSION_ERROR', 'Error al actualizar la sesión')
+      );
     }
-
-    // Verificar que el psiquiatra solo puede editar sus propias sesiones
-    if (existingSession.psychiatrist_id !== req.user.id && req.user.role !== 'admin') {
-      return res.status(403).json({ error: 'Acceso no autorizado para editar esta sesión' });
-    }
-
-    const updatedSession = await ConsultationSessionModel.update(id, updates);
-
-    if (!updatedSession) {
-      return res.status(400).json({ error: 'Error al actualizar la sesión' });
-    }
-
-    res.json({
-      success: true,
-      data: updatedSession,
-      message: 'Sesión actualizada exitosamente'
-    });
-
-  } catch (error) {
-    console.error('Error updating consultation session:', error);
-    res.status(500).json({ error: 'Error interno del servidor' });
   }
-});
+);
 
 /**
- * @route DELETE /api/clinical/sessions/:id
- * @desc Eliminar sesión de consulta
- * @access Private (solo psiquiatras y admin)
+ * DELETE /api/v1/clinical/sessions/:id
+ * Eliminar sesión de consulta (solo su autor o un administrador)
  */
-router.delete('/sessions/:id', async (req: Request, res: Response) => {
-  try {
-    const { id } = req.params;
-
-    // Verificar que el usuario es psiquiatra o admin
-    if (req.user?.role !== 'psychiatrist' && req.user?.role !== 'admin') {
-      return res.status(403).json({ error: 'Acceso no autorizado' });
-    }
-
-    const existingSession = await ConsultationSessionModel.findById(id);
-
-    if (!existingSession) {
-      return res.status(404).json({ error: 'Sesión no encontrada' });
-    }
-
-    // Verificar permisos
-    if (existingSession.psychiatrist_id !== req.user.id && req.user.role !== 'admin') {
-      return res.status(403).json({ error: 'Acceso no autorizado para eliminar esta sesión' });
-    }
-
-    const deleted = await ConsultationSessionModel.delete(id);
-
-    if (!deleted) {
-      return res.status(400).json({ error: 'Error al eliminar la sesión' });
+router.delete('/sessions/:id',
+  requirePermission('clinical:delete'),
+  validateParams(schemas.uuid),
+  requireCareTeamAccess(sessionPatientId),
+  async (req: Request, res: Response) => {
+    try {
+      const { id } = req.params;
+
+      const existingSession = await ConsultationSessionModel.findById(id);
+      if (!existingSession) {
+        return res.status(404).json(
+          createErrorResponse('SESSION_NOT_FOUND', 'Sesión no encontrada', { sessionId: id }, 404)
+        );
+      }
+
+      if (existingSession.psychiatrist_id !== req.user!.userId && req.user!.role !== 'admin') {
+        return res.status(403).json(
+          createErrorResponse('INSUFFICIENT_PERMISSIONS', 'No tiene permisos para eliminar esta sesión', null, 403)
+        );
+      }
+
+      const deleted = await ConsultationSessionModel.delete(id);
+
+      if (!deleted) {
+        return res.status(400).json(
+          createErrorResponse('DELETE_SESSION_ERROR', 'Error al eliminar la sesión', null, 400)
+        );
+      }
+
+      res.json({
+        success: true,
+        message: 'Sesión eliminada exitosamente'
+      });
+
+    } catch (error) {
+      console.error('Error eliminando sesión de consulta:', error);
+
+      if (error instanceof Error && error.message.includes('firmada')) {
+        return res.status(409).json(
+          createErrorResponse('SESSION_SIGNED', error.message, null, 409)
+        );
+      }
+
+      res.status(500).json(
+        createErrorResponse('DELETE_SESSION_ERROR', 'Error al eliminar la sesión')
+      );
     }
-
-    res.json({
-      success: true,
-      message: 'Sesión eliminada exitosamente'
-    });
-
-  } catch (error) {
-    console.error('Error deleting consultation session:', error);
-    res.status(500).json({ error: 'Error interno del servidor' });
   }
-});
+);
 
-export default router;
\ No newline at end of file
+export default router;
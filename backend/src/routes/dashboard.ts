@@ -1,9 +1,11 @@
 import { Router, Request, Response } from 'express';
-import { authenticateToken } from '@/middleware/auth';
+import { authenticateToken, requirePermission } from '@/middleware/auth';
 import { createErrorResponse } from '@/middleware/errorHandler';
 import { UserModel } from '@/models/User';
 import { PatientModel } from '@/models/Patient';
 import { AppointmentModel } from '@/models/Appointment';
+import { RescheduleRequestModel } from '@/models/RescheduleRequest';
+import { activeCareTeamCondition } from '@/models/CareTeam';
 import { DashboardStats } from '@/types';
 import { startOfDay, endOfDay, startOfMonth, endOfMonth, isAfter, isBefore } from 'date-fns';
 
@@ -16,7 +18,7 @@ router.use(authenticateToken);
  * GET /api/v1/dashboard/stats
  * Obtener estadísticas generales del dashboard
  */
-router.get('/stats', async (req: Request, res: Response) => {
+router.get('/stats', requirePermission('dashboard:read'), async (req: Request, res: Response) => {
   try {
     const psychiatristId = req.user?.userId;
     
@@ -44,14 +46,14 @@ router.get('/stats', async (req: Request, res: Response) => {
     const completedResult = await db.query(todayCompletedQuery, [psychiatristId, todayStart.toISOString().split('T')[0], todayEnd.toISOString().split('T')[0]]);
     const completedToday = parseInt(completedResult.rows[0].count);
     
-    // Calcular nuevos pacientes del mes
+    // Calcular nuevos pacientes del mes en su equipo de atención
     const monthStart = startOfMonth(new Date());
     const monthEnd = endOfMonth(new Date());
     
     const newPatientsQuery = `
       SELECT COUNT(*) as count
       FROM patients
-      WHERE created_by = $1
+      WHERE ${activeCareTeamCondition('id', '$1')}
         AND created_at >= $2
         AND created_at <= $3
     `;
@@ -86,7 +88,7 @@ router.get('/stats', async (req: Request, res: Response) => {
  * GET /api/v1/dashboard/today-appointments
  * Obtener citas de hoy con detalles
  */
-router.get('/today-appointments', async (req: Request, res: Response) => {
+router.get('/today-appointments', requirePermission('dashboard:read'), async (req: Request, res: Response) => {
   try {
     const psychiatristId = req.user?.userId;
     const appointments = await AppointmentModel.findTodayAppointments(psychiatristId);
@@ -125,7 +127,7 @@ router.get('/today-appointments', async (req: Request, res: Response) => {
  * GET /api/v1/dashboard/upcoming
  * Obtener próximas citas (próximos 7 días)
  */
-router.get('/upcoming', async (req: Request, res: Response) => {
+router.get('/upcoming', requirePermission('dashboard:read'), async (req: Request, res: Response) => {
   try {
     const psychiatristId = req.user?.userId;
     const days = parseInt(req.query.days as string) || 7;
@@ -167,15 +169,15 @@ router.get('/upcoming', async (req: Request, res: Response) => {
  * GET /api/v1/dashboard/patients-summary
  * Resumen de pacientes
  */
-router.get('/patients-summary', async (req: Request, res: Response) => {
+router.get('/patients-summary', requirePermission('dashboard:read'), async (req: Request, res: Response) => {
   try {
     const psychiatristId = req.user?.userId;
     
-    // Pacientes recientes (últimos 10)
+    // Pacientes recientes de su equipo de atención (últimos 10)
     const recentPatientsQuery = `
       SELECT p.*
       FROM patients p
-      WHERE p.created_by = $1 AND p.is_active = true
+      WHERE ${activeCareTeamCondition('p.id', '$1')} AND p.is_active = true
       ORDER BY p.created_at DESC
       LIMIT 10
     `;
@@ -190,7 +192,7 @@ router.get('/patients-summary', async (req: Request, res: Response) => {
     const noRecentAppointmentsQuery = `
       SELECT DISTINCT p.*
       FROM patients p
-      WHERE p.created_by = $1
+      WHERE ${activeCareTeamCondition('p.id', '$1')}
         AND p.is_active = true
         AND NOT EXISTS (
           SELECT 1 FROM appointments a
@@ -240,7 +242,7 @@ router.get('/patients-summary', async (req: Request, res: Response) => {
  * GET /api/v1/dashboard/calendar/:year/:month
  * Obtener citas del calendario para un mes específico
  */
-router.get('/calendar/:year/:month', async (req: Request, res: Response) => {
+router.get('/calendar/:year/:month', requirePermission('dashboard:read'), async (req: Request, res: Response) => {
   try {
     const { year, month } = req.params;
     const psychiatristId = req.user?.userId;
@@ -321,7 +323,7 @@ router.get('/calendar/:year/:month', async (req: Request, res: Response) => {
  * GET /api/v1/dashboard/quick-actions
  * Obtener acciones rápidas disponibles
  */
-router.get('/quick-actions', async (req: Request, res: Response) => {
+router.get('/quick-actions', requirePermission('dashboard:read'), async (req: Request, res: Response) => {
   try {
     const psychiatristId = req.user?.userId;
     
@@ -344,7 +346,7 @@ router.get('/quick-actions', async (req: Request, res: Response) => {
     const noRecentAppointmentsQuery = `
       SELECT COUNT(*) as count
       FROM patients p
-      WHERE p.created_by = $1
+      WHERE ${activeCareTeamCondition('p.id', '$1')}
         AND p.is_active = true
         AND NOT EXISTS (
           SELECT 1 FROM appointments a
@@ -359,12 +361,19 @@ router.get('/quick-actions', async (req: Request, res: Response) => {
     // Citas de hoy
     const todayAppointments = await AppointmentModel.findTodayAppointments(psychiatristId);
     
+    // Solicitudes de reprogramación de pacientes sin atender
+    const rescheduleRequests = await RescheduleRequestModel.findAll({
+      psychiatrist_id: psychiatristId,
+      status: 'pending'
+    });
+    
     res.json({
       success: true,
       data: {
         pending_confirmations: pendingConfirmations,
         patients_no_recent_appointments: noRecentAppointments,
         today_appointments_count: todayAppointments.length,
+        pending_reschedule_requests: rescheduleRequests.length,
         quick_action_suggestions: [
           {
             type: 'confirm_appointments',
@@ -383,6 +392,12 @@ router.get('/quick-actions', async (req: Request, res: Response) => {
             title: 'Citas de hoy',
             count: todayAppointments.length,
             description: `${todayAppointments.length} citas programadas para hoy`
+          },
+          {
+            type: 'reschedule_requests',
+            title: 'Solicitudes de reprogramación',
+            count: rescheduleRequests.length,
+            description: `${rescheduleRequests.length} pacientes pidieron otro horario`
           }
         ]
       }
@@ -0,0 +1,304 @@
+import { Router, Request, Response } from 'express';
+import { authenticateToken, requireCareTeamAccess, requirePermission } from '@/middleware/auth';
+import { validate, schemas, validateParams } from '@/middleware/validation';
+import { DiagnosisModel } from '@/models/Diagnosis';
+import { auditAccess } from '@/middleware/audit';
+import { createErrorResponse } from '@/middleware/errorHandler';
+import { DiagnosisCreateRequest, DiagnosisUpdateRequest } from '@/types';
+
+const router = Router();
+
+// Aplicar autenticación a todas las rutas
+router.use(authenticateToken);
+router.use(auditAccess('diagnosis'));
+
+// Paciente del diagnóstico de la ruta: solo accesible para su equipo de atención
+const diagnosisPatientId = async (req: Request) => (await DiagnosisModel.findById(req.params.id))?.patient_id;
+const bodyPatientId = (req: Request) => req.body.patient_id;
+
+/**
+ * POST /api/v1/diagnoses
+ * Registrar diagnóstico de un paciente
+ */
+router.post('/',
+  requirePermission('clinical:write'),
+  validate(schemas.diagnosisCreate),
+  requireCareTeamAccess(bodyPatientId),
+  async (req: Request, res: Response) => {
+    try {
+      const diagnosisData: DiagnosisCreateRequest = req.body;
+
+      const diagnosis = await DiagnosisModel.create(diagnosisData, req.user!.userId);
+
+      res.status(201).json({
+        success: true,
+        data: diagnosis
+      });
+
+    } catch (error) {
+      console.error('Error registrando diagnóstico:', error);
+
+      if (error instanceof Error) {
+        if (error.message.includes('paciente no existe')) {
+          return res.status(404).json(
+            createErrorResponse(
+              'PATIENT_NOT_FOUND',
+              'Paciente no encontrado',
+              { patientId: req.body.patient_id },
+              404
+            )
+          );
+        }
+
+        if (error.message.includes('no existe en el catálogo')) {
+          return res.status(422).json(
+            createErrorResponse(
+              'INVALID_DIAGNOSIS_CODE',
+              error.message,
+              { code: req.body.primary_diagnosis?.code },
+              422
+            )
+          );
+        }
+
+        if (error.message.includes('no puede ser futura')) {
+          return res.status(422).json(
+            createErrorResponse(
+              'INVALID_DIAGNOSIS_DATE',
+              error.message,
+              null,
+              422
+            )
+          );
+        }
+      }
+
+      res.status(500).json(
+        createErrorResponse('CREATE_DIAGNOSIS_ERROR', 'Error al registrar diagnóstico')
+      );
+    }
+  }
+);
+
+/**
+ * GET /api/v1/diagnoses/:id
+ * Obtener diagnóstico por ID
+ */
+router.get('/:id',
+  requirePermission('clinical:read'),
+  validateParams(schemas.uuid),
+  requireCareTeamAccess(diagnosisPatientId),
+  async (req: Request, res: Response) => {
+    try {
+      const { id } = req.params;
+      const diagnosis = await DiagnosisModel.findById(id);
+
+      if (!diagnosis) {
+        return res.status(404).json(
+          createErrorResponse(
+            'DIAGNOSIS_NOT_FOUND',
+            'Diagnóstico no encontrado',
+            { diagnosisId: id },
+            404
+          )
+        );
+      }
+
+      res.json({
+        success: true,
+        data: diagnosis
+      });
+
+    } catch (error) {
+      console.error('Error obteniendo diagnóstico:', error);
+      res.status(500).json(
+        createErrorResponse('FETCH_DIAGNOSIS_ERROR', 'Error al obtener diagnóstico')
+      );
+    }
+  }
+);
+
+/**
+ * PUT /api/v1/diagnoses/:id
+ * Actualizar diagnóstico
+ */
+router.put('/:id',
+  requirePermission('clinical:write'),
+  validateParams(schemas.uuid),
+  requireCareTeamAccess(diagnosisPatientId),
+  validate(schemas.diagnosisUpdate),
+  async (req: Request, res: Response) => {
+    try {
+      const { id } = req.params;
+      const updates: DiagnosisUpdateRequest = req.body;
+
+      const diagnosis = await DiagnosisModel.update(id, updates);
+
+      if (!diagnosis) {
+        return res.status(404).json(
+          createErrorResponse(
+            'DIAGNOSIS_NOT_FOUND',
+            'Diagnóstico no encontrado',
+            { diagnosisId: id },
+            404
+          )
+        );
+      }
+
+      res.json({
+        success: true,
+        data: diagnosis
+      });
+
+    } catch (error) {
+      console.error('Error actualizando diagnóstico:', error);
+
+      if (error instanceof Error) {
+        if (error.message.includes('no existe en el catálogo')) {
+          return res.status(422).json(
+            createErrorResponse(
+              'INVALID_DIAGNOSIS_CODE',
+              error.message,
+              { code: req.body.primary_diagnosis?.code },
+              422
+            )
+          );
+        }
+
+        if (error.message.includes('no puede ser futura') || error.message.includes('no puede ser anterior')) {
+          return res.status(422).json(
+            createErrorResponse(
+              'INVALID_DIAGNOSIS_DATE',
+              error.message,
+              null,
+              422
+            )
+          );
+        }
+      }
+
+      res.status(500).json(
+        createErrorResponse('UPDATE_DIAGNOSIS_ERROR', 'Error al actualizar diagnóstico')
+      );
+    }
+  }
+);
+
+/**
+ * PUT /api/v1/diagnoses/:id/resolve
+ * Marcar diagnóstico como resuelto
+ */
+router.put('/:id/resolve',
+  requirePermission('clinical:write'),
+  validateParams(schemas.uuid),
+  requireCareTeamAccess(diagnosisPatientId),
+  validate(schemas.diagnosisResolve),
+  async (req: Request, res: Response) => {
+    try {
+      const { id } = req.params;
+      const { date_resolved } = req.body;
+
+      const diagnosis = await DiagnosisModel.resolve(id, date_resolved);
+
+      if (!diagnosis) {
+        return res.status(404).json(
+          createErrorResponse(
+            'DIAGNOSIS_NOT_FOUND',
+            'Diagnóstico no encontrado',
+            { diagnosisId: id },
+            404
+          )
+        );
+      }
+
+      res.json({
+        success: true,
+        data: diagnosis
+      });
+
+    } catch (error) {
+      console.error('Error resolviendo diagnóstico:', error);
+
+      if (error instanceof Error) {
+        if (error.message.includes('ya está resuelto')) {
+          return res.status(409).json(
+            createErrorResponse(
+              'DIAGNOSIS_ALREADY_RESOLVED',
+              error.message,
+              { diagnosisId: req.params.id },
+              409
+            )
+          );
+        }
+
+        if (error.message.includes('no puede ser futura') || error.message.includes('no puede ser anterior')) {
+          return res.status(422).json(
+            createErrorResponse(
+              'INVALID_DIAGNOSIS_DATE',
+              error.message,
+              null,
+              422
+            )
+          );
+        }
+      }
+
+      res.status(500).json(
+        createErrorResponse('RESOLVE_DIAGNOSIS_ERROR', 'Error al resolver diagnóstico')
+      );
+    }
+  }
+);
+
+/**
+ * PUT /api/v1/diagnoses/:id/reopen
+ * Reabrir un diagnóstico resuelto
+ */
+router.put('/:id/reopen',
+  requirePermission('clinical:write'),
+  validateParams(schemas.uuid),
+  requireCareTeamAccess(diagnosisPatientId),
+  async (req: Request, res: Response) => {
+    try {
+      const { id } = req.params;
+
+      const diagnosis = await DiagnosisModel.reopen(id);
+
+      if (!diagnosis) {
+        return res.status(404).json(
+          createErrorResponse(
+            'DIAGNOSIS_NOT_FOUND',
+            'Diagnóstico no encontrado',
+            { diagnosisId: id },
+            404
+          )
+        );
+      }
+
+      res.json({
+        success: true,
+        data: diagnosis
+      });
+
+    } catch (error) {
+      console.error('Error reabriendo diagnóstico:', error);
+
+      if (error instanceof Error && error.message.includes('ya está activo')) {
+        return res.status(409).json(
+          createErrorResponse(
+            'DIAGNOSIS_ALREADY_ACTIVE',
+            error.message,
+            { diagnosisId: req.params.id },
+            409
+          )
+        );
+      }
+
+      res.status(500).json(
+        createErrorResponse('REOPEN_DIAGNOSIS_ERROR', 'Error al reabrir diagnóstico')
+      );
+    }
+  }
+);
+
+export default router;
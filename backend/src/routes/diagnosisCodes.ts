@@ -0,0 +1,76 @@
+import { Router, Request, Response } from 'express';
+import { authenticateToken, requirePermission } from '@/middleware/auth';
+import { schemas, validateQuery } from '@/middleware/validation';
+import { DiagnosisCodeModel } from '@/models/DiagnosisCode';
+import { createErrorResponse } from '@/middleware/errorHandler';
+
+const router = Router();
+
+// Aplicar autenticación a todas las rutas
+router.use(authenticateToken);
+
+/**
+ * GET /api/v1/diagnosis-codes/search?q=
+ * Búsqueda difusa en el catálogo CIE-10 / DSM-5 por código o descripción
+ */
+router.get('/search',
+  requirePermission('clinical:read'),
+  validateQuery(schemas.diagnosisCodeSearch),
+  async (req: Request, res: Response) => {
+    try {
+      const q = req.query.q as string;
+      const limit = parseInt(req.query.limit as string) || 20;
+
+      const results = await DiagnosisCodeModel.search(q, limit);
+
+      res.json({
+        success: true,
+        data: results
+      });
+
+    } catch (error) {
+      console.error('Error buscando códigos diagnósticos:', error);
+      res.status(500).json(
+        createErrorResponse('SEARCH_DIAGNOSIS_CODES_ERROR', 'Error al buscar códigos diagnósticos')
+      );
+    }
+  }
+);
+
+/**
+ * GET /api/v1/diagnosis-codes/:code
+ * Obtener una entrada del catálogo por código
+ */
+router.get('/:code',
+  requirePermission('clinical:read'),
+  async (req: Request, res: Response) => {
+    try {
+      const { code } = req.params;
+      const entry = await DiagnosisCodeModel.findByCode(code);
+
+      if (!entry) {
+        return res.status(404).json(
+          createErrorResponse(
+            'DIAGNOSIS_CODE_NOT_FOUND',
+            'Código diagnóstico no encontrado en el catálogo',
+            { code },
+            404
+          )
+        );
+      }
+
+      res.json({
+        success: true,
+        data: entry
+      });
+
+    } catch (error) {
+      console.error('Error obteniendo código diagnóstico:', error);
+      res.status(500).json(
+        createErrorResponse('FETCH_DIAGNOSIS_CODE_ERROR', 'Error al obtener código diagnóstico')
+      );
+    }
+  }
+);
+
+export default router;
@@ -0,0 +1,186 @@
+import { Router, Request, Response } from 'express';
+import { authenticateToken, requirePermission } from '@/middleware/auth';
+import { validate, schemas, validateQuery, validateParams } from '@/middleware/validation';
+import { auditAccess } from '@/middleware/audit';
+import { EmergencyAccessModel } from '@/models/EmergencyAccess';
+import { PatientModel } from '@/models/Patient';
+import { UserModel } from '@/models/User';
+import { notifyEmergencyAccess } from '@/notifications/emergencyAccessAlerts';
+import { createErrorResponse } from '@/middleware/errorHandler';
+import { EmergencyAccessRequest } from '@/types';
+import { hasPermission } from '@/utils/permissions';
+
+const router = Router();
+
+router.use(authenticateToken);
+router.use(auditAccess('emergency_access'));
+
+// Errores al solicitar un acceso de emergencia
+const EMERGENCY_ACCESS_ERROR_CODES: [string, string, number][] = [
+  ['puede durar como máximo', 'INVALID_EMERGENCY_ACCESS_DURATION', 422],
+  ['Ya forma parte del equipo', 'ALREADY_IN_CARE_TEAM', 409],
+  ['Ya tiene un acceso de emergencia vigente', 'EMERGENCY_ACCESS_ACTIVE', 409]
+];
+
+const findEmergencyAccessError = (message: string): [string, number] | undefined => {
+  const match = EMERGENCY_ACCESS_ERROR_CODES.find(([fragment]) => message.includes(fragment));
+  return match ? [match[1], match[2]] : undefined;
+};
+
+/**
+ * POST /api/v1/emergency-access
+ * Abrir un acceso de emergencia ("romper el cristal") a un paciente fuera del
+ * equipo de atención: lectura temporal con motivo escrito. Se avisa al
+ * psiquiatra principal y a los administradores.
+ */
+router.post('/',
+  requirePermission('emergency_access:request'),
+  validate(schemas.emergencyAccessCreate),
+  async (req: Request, res: Response) => {
+    try {
+      const request: EmergencyAccessRequest = req.body;
+
+      const patient = await PatientModel.findById(request.patient_id);
+      if (!patient) {
+        return res.status(404).json(
+          createErrorResponse('PATIENT_NOT_FOUND', 'Paciente no encontrado', { patientId: request.patient_id }, 404)
+        );
+      }
+
+      const grant = await EmergencyAccessModel.grant(request, req.user!.userId);
+
+      const requester = await UserModel.findById(req.user!.userId);
+      if (requester) {
+        notifyEmergencyAccess(grant, patient, requester).catch(error => {
+          console.error('Error notificando acceso de emergencia:', error);
+        });
+      }
+
+      res.status(201).json({
+        success: true,
+        data: grant,
+        message: 'Acceso de emergencia otorgado; cada lectura quedará registrada'
+      });
+
+    } catch (error) {
+      console.error('Error otorgando acceso de emergencia:', error);
+
+      const known = error instanceof Error ? findEmergencyAccessError(error.message) : undefined;
+      if (known) {
+        const [code, status] = known;
+        return res.status(status).json(
+          createErrorResponse(code, (error as Error).message, null, status)
+        );
+      }
+
+      res.status(500).json(
+        createErrorResponse('GRANT_EMERGENCY_ACCESS_ERROR', 'Error al otorgar acceso de emergencia')
+      );
+    }
+  }
+);
+
+/**
+ * GET /api/v1/emergency-access/mine
+ * Accesos de emergencia propios
+ */
+router.get('/mine',
+  requirePermission('emergency_access:request'),
+  validateQuery(schemas.emergencyAccessQuery),
+  async (req: Request, res: Response) => {
+    try {
+      const grants = await EmergencyAccessModel.findAll({
+        user_id: req.user!.userId,
+        patient_id: req.query.patient_id as string | undefined,
+        active: req.query.active === undefined ? undefined : req.query.active === 'true'
+      });
+
+      res.json({
+        success: true,
+        data: grants
+      });
+
+    } catch (error) {
+      console.error('Error obteniendo accesos de emergencia propios:', error);
+      res.status(500).json(
+        createErrorResponse('FETCH_EMERGENCY_ACCESS_ERROR', 'Error al obtener accesos de emergencia')
+      );
+    }
+  }
+);
+
+/**
+ * GET /api/v1/emergency-access
+ * Revisión de todos los accesos de emergencia por paciente, usuario o vigencia
+ */
+router.get('/',
+  requirePermission('emergency_access:review'),
+  validateQuery(schemas.emergencyAccessQuery),
+  async (req: Request, res: Response) => {
+    try {
+      const grants = await EmergencyAccessModel.findAll({
+        patient_id: req.query.patient_id as string | undefined,
+        user_id: req.query.user_id as string | undefined,
+        active: req.query.active === undefined ? undefined : req.query.active === 'true'
+      });
+
+      res.json({
+        success: true,
+        data: grants
+      });
+
+    } catch (error) {
+      console.error('Error obteniendo accesos de emergencia:', error);
+      res.status(500).json(
+        createErrorResponse('FETCH_EMERGENCY_ACCESS_ERROR', 'Error al obtener accesos de emergencia')
+      );
+    }
+  }
+);
+
+/**
+ * POST /api/v1/emergency-access/:id/revoke
+ * Finalizar un acceso antes de su vencimiento (quien lo abrió o un administrador)
+ */
+router.post('/:id/revoke',
+  validateParams(schemas.uuid),
+  async (req: Request, res: Response) => {
+    try {
+      const { id } = req.params;
+
+      const grant = await EmergencyAccessModel.findById(id);
+      if (!grant) {
+        return res.status(404).json(
+          createErrorResponse('EMERGENCY_ACCESS_NOT_FOUND', 'Acceso de emergencia no encontrado', { id }, 404)
+        );
+      }
+
+      if (grant.user_id !== req.user!.userId && !hasPermission(req.user!.role, 'emergency_access:review')) {
+        return res.status(403).json(
+          createErrorResponse('INSUFFICIENT_PERMISSIONS', 'Permisos insuficientes para esta acción', null, 403)
+        );
+      }
+
+      const revoked = await EmergencyAccessModel.revoke(id, req.user!.userId);
+      if (!revoked) {
+        return res.status(409).json(
+          createErrorResponse('EMERGENCY_ACCESS_INACTIVE', 'El acceso de emergencia ya no está vigente', { id }, 409)
+        );
+      }
+
+      res.json({
+        success: true,
+        data: revoked,
+        message: 'Acceso de emergencia finalizado'
+      });
+
+    } catch (error) {
+      console.error('Error finalizando acceso de emergencia:', error);
+      res.status(500).json(
+        createErrorResponse('REVOKE_EMERGENCY_ACCESS_ERROR', 'Error al finalizar acceso de emergencia')
+      );
+    }
+  }
+);
+
+export default router;
@@ -0,0 +1,260 @@
+import { Router, Request, Response } from 'express';
+import { validate, schemas, validateParams } from '@/middleware/validation';
+import { patientLinkRateLimit } from '@/middleware/rateLimit';
+import { AppointmentModel } from '@/models/Appointment';
+import { PatientModel } from '@/models/Patient';
+import { RescheduleRequestModel } from '@/models/RescheduleRequest';
+import { UserModel } from '@/models/User';
+import { WaitlistModel } from '@/models/Waitlist';
+import { createErrorResponse } from '@/middleware/errorHandler';
+import { Appointment, PatientAppointmentView, RescheduleRequestCreateRequest } from '@/types';
+import { canTransition } from '@/utils/appointmentStatus';
+import { linkMatchesAppointment, readAppointmentLink } from '@/utils/appointmentLinks';
+import { appointmentStartsAt, minutesToTime, timeToMinutes } from '@/utils/schedule';
+import { format } from 'date-fns';
+
+/**
+ * Rutas públicas para el paciente: el enlace firmado reemplaza la
+ * autenticación y solo da acceso a la cita para la que se emitió
+ */
+const router = Router();
+
+router.use(patientLinkRateLimit);
+
+// Estados en los que el paciente todavía puede actuar sobre su cita
+const ACTIVE_STATUSES: Appointment['status'][] = ['scheduled', 'confirmed'];
+
+/**
+ * Cita del enlace; responde 404 si el enlace no es válido, venció o la cita
+ * cambió de horario después de emitirlo
+ */
+const findLinkedAppointment = async (req: Request, res: Response): Promise<Appointment | null> => {
+  const link = readAppointmentLink(req.params.token);
+  const appointment = link ? await AppointmentModel.findById(link.appointmentId) : null;
+
+  if (!link || !appointment || !linkMatchesAppointment(link, appointment)) {
+    res.status(404).json(
+      createErrorResponse('INVALID_APPOINTMENT_LINK', 'El enlace no es válido o ya venció', null, 404)
+    );
+    return null;
+  }
+
+  return appointment;
+};
+
+/**
+ * Datos de la cita que ve el paciente y acciones disponibles
+ */
+const toPatientView = async (appointment: Appointment): Promise<PatientAppointmentView> => {
+  const [patient, psychiatrist, pendingRequest] = await Promise.all([
+    PatientModel.findById(appointment.patient_id),
+    UserModel.findById(appointment.psychiatrist_id),
+    RescheduleRequestModel.findPendingByAppointment(appointment.id)
+  ]);
+  const active = ACTIVE_STATUSES.includes(appointment.status);
+
+  return {
+    appointment_date: format(appointmentStartsAt(appointment), 'yyyy-MM-dd'),
+    start_time: minutesToTime(timeToMinutes(appointment.start_time)),
+    end_time: minutesToTime(timeToMinutes(appointment.end_time)),
+    duration_minutes: appointment.duration_minutes,
+    type: appointment.type,
+    status: appointment.status,
+    psychiatrist_name: psychiatrist?.full_name || '',
+    patient_first_name: patient?.first_name || '',
+    can_confirm: canTransition(appointment.status, 'confirmed'),
+    can_cancel: canTransition(appointment.status, 'cancelled'),
+    can_request_reschedule: active && !pendingRequest,
+    reschedule_request_pending: !!pendingRequest
+  };
+};
+
+/**
+ * Error por un cambio concurrente de la cita (otro usuario la modificó)
+ */
+const isConcurrentChange = (error: unknown): boolean =>
+  error instanceof Error && error.message.includes('modificada por otro usuario');
+
+/**
+ * GET /api/v1/public/appointments/:token
+ * Ver la cita del enlace
+ */
+router.get('/:token',
+  validateParams(schemas.appointmentLinkToken),
+  async (req: Request, res: Response) => {
+    try {
+      const appointment = await findLinkedAppointment(req, res);
+      if (!appointment) {
+        return;
+      }
+
+      res.json({
+        success: true,
+        data: await toPatientView(appointment)
+      });
+
+    } catch (error) {
+      console.error('Error obteniendo cita del enlace:', error);
+      res.status(500).json(
+        createErrorResponse('FETCH_LINKED_APPOINTMENT_ERROR', 'Error al obtener la cita')
+      );
+    }
+  }
+);
+
+/**
+ * POST /api/v1/public/appointments/:token/confirm
+ * El paciente confirma su asistencia
+ */
+router.post('/:token/confirm',
+  validateParams(schemas.appointmentLinkToken),
+  async (req: Request, res: Response) => {
+    try {
+      const appointment = await findLinkedAppointment(req, res);
+      if (!appointment) {
+        return;
+      }
+
+      // Confirmar de nuevo no cambia nada
+      if (appointment.status !== 'confirmed') {
+        if (!canTransition(appointment.status, 'confirmed')) {
+          return res.status(409).json(
+            createErrorResponse('APPOINTMENT_NOT_CONFIRMABLE', 'La cita ya no puede confirmarse', null, 409)
+          );
+        }
+
+        await AppointmentModel.updateStatus(appointment.id, 'confirmed', appointment.psychiatrist_id, {
+          source: 'patient_link'
+        });
+      }
+
+      const updated = await AppointmentModel.findById(appointment.id);
+
+      res.json({
+        success: true,
+        message: 'Cita confirmada',
+        data: await toPatientView(updated || appointment)
+      });
+
+    } catch (error) {
+      console.error('Error confirmando cita desde el enlace:', error);
+
+      if (isConcurrentChange(error)) {
+        return res.status(409).json(
+          createErrorResponse('APPOINTMENT_MODIFIED', (error as Error).message, null, 409)
+        );
+      }
+
+      res.status(500).json(
+        createErrorResponse('CONFIRM_APPOINTMENT_ERROR', 'Error al confirmar la cita')
+      );
+    }
+  }
+);
+
+/**
+ * POST /api/v1/public/appointments/:token/cancel
+ * El paciente cancela su cita; el horario se ofrece a la lista de espera
+ */
+router.post('/:token/cancel',
+  validateParams(schemas.appointmentLinkToken),
+  validate(schemas.patientCancel),
+  async (req: Request, res: Response) => {
+    try {
+      const appointment = await findLinkedAppointment(req, res);
+      if (!appointment) {
+        return;
+      }
+
+      if (appointment.status !== 'cancelled') {
+        if (!canTransition(appointment.status, 'cancelled')) {
+          return res.status(409).json(
+            createErrorResponse('APPOINTMENT_NOT_CANCELLABLE', 'La cita ya no puede cancelarse', null, 409)
+          );
+        }
+
+        const reason = req.body.reason?.trim();
+        const cancelled = await AppointmentModel.updateStatus(appointment.id, 'cancelled', appointment.psychiatrist_id, {
+          reason: `Cancelada por el paciente${reason ? `: ${reason}` : ''}`,
+          source: 'patient_link'
+        });
+
+        if (cancelled) {
+          try {
+            await WaitlistModel.offerFreedSlot(cancelled);
+          } catch (error) {
+            console.error('Error ofreciendo horario a la lista de espera:', error);
+          }
+        }
+      }
+
+      const updated = await AppointmentModel.findById(appointment.id);
+
+      res.json({
+        success: true,
+        message: 'Cita cancelada',
+        data: await toPatientView(updated || appointment)
+      });
+
+    } catch (error) {
+      console.error('Error cancelando cita desde el enlace:', error);
+
+      if (isConcurrentChange(error)) {
+        return res.status(409).json(
+          createErrorResponse('APPOINTMENT_MODIFIED', (error as Error).message, null, 409)
+        );
+      }
+
+      res.status(500).json(
+        createErrorResponse('CANCEL_APPOINTMENT_ERROR', 'Error al cancelar la cita')
+      );
+    }
+  }
+);
+
+/**
+ * POST /api/v1/public/appointments/:token/reschedule-request
+ * El paciente pide otro horario; el personal de la clínica lo gestiona
+ */
+router.post('/:token/reschedule-request',
+  validateParams(schemas.appointmentLinkToken),
+  validate(schemas.rescheduleRequestCreate),
+  async (req: Request, res: Response) => {
+    try {
+      const appointment = await findLinkedAppointment(req, res);
+      if (!appointment) {
+        return;
+      }
+
+      if (!ACTIVE_STATUSES.includes(appointment.status)) {
+        return res.status(409).json(
+          createErrorResponse('APPOINTMENT_NOT_ACTIVE', 'La cita ya no puede reprogramarse', null, 409)
+        );
+      }
+
+      const requestData: RescheduleRequestCreateRequest = req.body;
+      await RescheduleRequestModel.create(appointment, requestData);
+
+      res.status(201).json({
+        success: true,
+        message: 'Solicitud de reprogramación enviada; la clínica se comunicará con usted',
+        data: await toPatientView(appointment)
+      });
+
+    } catch (error) {
+      console.error('Error registrando solicitud de reprogramación:', error);
+
+      if (error instanceof Error && error.message.includes('solicitud de reprogramación pendiente')) {
+        return res.status(409).json(
+          createErrorResponse('RESCHEDULE_REQUEST_EXISTS', error.message, null, 409)
+        );
+      }
+
+      res.status(500).json(
+        createErrorResponse('CREATE_RESCHEDULE_REQUEST_ERROR', 'Error al registrar la solicitud')
+      );
+    }
+  }
+);
+
+export default router;
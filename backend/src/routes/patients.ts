@@ -1,20 +1,61 @@
 import { Router, Request, Response } from 'express';
-import { authenticateToken } from '@/middleware/auth';
-import { validate, schemas, validateQuery } from '@/middleware/validation';
+import { authenticateToken, requireCareTeamAccess, requirePermission } from '@/middleware/auth';
+import { validate, schemas, validateQuery, validateParams } from '@/middleware/validation';
 import { PatientModel } from '@/models/Patient';
+import { TreatmentPlanModel } from '@/models/TreatmentPlan';
+import { SymptomTrackingModel } from '@/models/SymptomTracking';
+import { DiagnosisModel } from '@/models/Diagnosis';
+import { PatientTimelineModel } from '@/models/PatientTimeline';
+import { CareTeamModel } from '@/models/CareTeam';
+import { auditAccess } from '@/middleware/audit';
 import { createErrorResponse } from '@/middleware/errorHandler';
-import { PatientCreateRequest, PatientUpdateRequest, PaginatedResponse, SearchFilters } from '@/types';
+import {
+  CareTeamMemberCreateRequest,
+  CareTeamMemberUpdateRequest,
+  PatientCreateRequest,
+  PatientUpdateRequest,
+  PaginatedResponse,
+  SearchFilters,
+  TimelineEventType
+} from '@/types';
 
 const router = Router();
 
 // Aplicar autenticación a todas las rutas
 router.use(authenticateToken);
+router.use(auditAccess('patient'));
+
+// Paciente de la ruta (/:id): solo accesible para su equipo de atención
+const patientIdParam = (req: Request) => req.params.id;
+
+/**
+ * Los administradores ven a todos los pacientes; el resto, solo los de su
+ * equipo de atención vigente
+ */
+const careTeamScope = (req: Request): string | undefined =>
+  req.user!.role === 'admin' ? undefined : req.user!.userId;
+
+// Errores de validación del equipo de atención
+const CARE_TEAM_ERROR_CODES: [string, string, number][] = [
+  ['Usuario no encontrado', 'USER_NOT_FOUND', 404],
+  ['administradores no forman parte', 'INVALID_CARE_TEAM_ROLE', 422],
+  ['solo puede integrar el equipo', 'INVALID_CARE_TEAM_ROLE', 422],
+  ['fecha de fin no puede ser anterior', 'INVALID_CARE_TEAM_PERIOD', 422],
+  ['ya forma parte del equipo', 'CARE_TEAM_MEMBER_EXISTS', 409],
+  ['ya tiene un psiquiatra principal', 'PRIMARY_PSYCHIATRIST_EXISTS', 409]
+];
+
+const findCareTeamError = (message: string): [string, number] | undefined => {
+  const match = CARE_TEAM_ERROR_CODES.find(([fragment]) => message.includes(fragment));
+  return match ? [match[1], match[2]] : undefined;
+};
 
 /**
  * GET /api/v1/patients
  * Listar pacientes con paginación y filtros
  */
-router.get('/', 
+router.get('/',
+  requirePermission('patients:read'),
   validateQuery(schemas.pagination),
   async (req: Request, res: Response) => {
     try {
@@ -33,6 +74,8 @@ router.get('/',
         filters.gender = req.query.gender as string;
       }
       
+      filters.care_team_user_id = careTeamScope(req);
+      
       const { patients, total } = await PatientModel.findAll(page, limit, search, filters);
       
       const response: PaginatedResponse<typeof patients[0]> = {
@@ -65,7 +108,7 @@ router.get('/',
  * GET /api/v1/patients/search
  * Búsqueda rápida de pacientes
  */
-router.get('/search', async (req: Request, res: Response) => {
+router.get('/search', requirePermission('patients:read'), async (req: Request, res: Response) => {
   try {
     const q = req.query.q as string;
     const limit = parseInt(req.query.limit as string) || 10;
@@ -81,7 +124,7 @@ router.get('/search', async (req: Request, res: Response) => {
       );
     }
     
-    const patients = await PatientModel.search(q, limit);
+    const patients = await PatientModel.search(q, limit, careTeamScope(req));
     
     res.json({
       success: true,
@@ -101,7 +144,9 @@ router.get('/search', async (req: Request, res: Response) => {
  * Obtener paciente específico
  */
 router.get('/:id',
+  requirePermission('patients:read'),
   validateParams(schemas.uuid),
+  requireCareTeamAccess(patientIdParam),
   async (req: Request, res: Response) => {
     try {
       const { id } = req.params;
@@ -137,6 +182,7 @@ router.get('/:id',
  * Crear nuevo paciente
  */
 router.post('/',
+  requirePermission('patients:write'),
   validate(schemas.patientCreate),
   async (req: Request, res: Response) => {
     try {
@@ -154,20 +200,7 @@ router.post('/',
         );
       }
       
-      // Verificar que el número de identificación no exista
-      const existingPatient = await PatientModel.findByIdNumber(patientData.id_number);
-      if (existingPatient) {
-        return res.status(409).json(
-          createErrorResponse(
-            'ID_NUMBER_EXISTS',
-            'El número de identificación ya está registrado',
-            { idNumber: patientData.id_number },
-            409
-          )
-        );
-      }
-      
-      // Crear paciente
+      // Crear paciente (verifica que el número de identificación no exista)
       const newPatient = await PatientModel.create(patientData, userId);
       
       res.status(201).json({
@@ -179,6 +212,17 @@ router.post('/',
       console.error('Error creando paciente:', error);
       
       if (error instanceof Error) {
+        if (error.message.includes('número de identificación ya está registrado')) {
+          return res.status(409).json(
+            createErrorResponse(
+              'ID_NUMBER_EXISTS',
+              error.message,
+              { idNumber: req.body.id_number },
+              409
+            )
+          );
+        }
+        
         if (error.message.includes('fecha de nacimiento no puede ser futura')) {
           return res.status(422).json(
             createErrorResponse(
@@ -200,6 +244,15 @@ router.post('/',
             )
           );
         }
+        
+        // Psiquiatra principal indicado no válido
+        const careTeamError = findCareTeamError(error.message);
+        if (careTeamError) {
+          const [code, status] = careTeamError;
+          return res.status(status).json(
+            createErrorResponse(code, error.message, { primaryPsychiatristId: req.body.primary_psychiatrist_id }, status)
+          );
+        }
       }
       
       res.status(500).json(
@@ -214,7 +267,9 @@ router.post('/',
  * Actualizar paciente
  */
 router.put('/:id',
+  requirePermission('patients:write'),
   validateParams(schemas.uuid),
+  requireCareTeamAccess(patientIdParam),
   validate(schemas.patientCreate.fork(['first_name', 'last_name', 'date_of_birth', 'gender', 'phone', 'id_number'], (schema) => schema.optional())),
   async (req: Request, res: Response) => {
     try {
@@ -308,7 +363,9 @@ router.put('/:id',
  * Desactivar paciente (soft delete)
  */
 router.delete('/:id',
+  requirePermission('patients:delete'),
   validateParams(schemas.uuid),
+  requireCareTeamAccess(patientIdParam),
   async (req: Request, res: Response) => {
     try {
       const { id } = req.params;
@@ -347,7 +404,9 @@ router.delete('/:id',
  * Activar paciente
  */
 router.put('/:id/activate',
+  requirePermission('patients:write'),
   validateParams(schemas.uuid),
+  requireCareTeamAccess(patientIdParam),
   async (req: Request, res: Response) => {
     try {
       const { id } = req.params;
@@ -386,7 +445,9 @@ router.put('/:id/activate',
  * Obtener citas del paciente
  */
 router.get('/:id/appointments',
+  requirePermission('appointments:read'),
   validateParams(schemas.uuid),
+  requireCareTeamAccess(patientIdParam),
   async (req: Request, res: Response) => {
     try {
       const { id } = req.params;
@@ -421,6 +482,387 @@ router.get('/:id/appointments',
   }
 );
 
+/**
+ * GET /api/v1/patients/:id/active-treatment-plan
+ * Obtener el plan de tratamiento activo del paciente
+ */
+router.get('/:id/active-treatment-plan',
+  requirePermission('clinical:read'),
+  validateParams(schemas.uuid),
+  requireCareTeamAccess(patientIdParam),
+  async (req: Request, res: Response) => {
+    try {
+      const { id } = req.params;
+      
+      const patient = await PatientModel.findById(id);
+      if (!patient) {
+        return res.status(404).json(
+          createErrorResponse(
+            'PATIENT_NOT_FOUND',
+            'Paciente no encontrado',
+            { patientId: id },
+            404
+          )
+        );
+      }
+      
+      const plan = await TreatmentPlanModel.findActiveByPatientId(id);
+      
+      res.json({
+        success: true,
+        data: plan
+      });
+      
+    } catch (error) {
+      console.error('Error obteniendo plan de tratamiento activo:', error);
+      res.status(500).json(
+        createErrorResponse('FETCH_ACTIVE_TREATMENT_PLAN_ERROR', 'Error al obtener plan de tratamiento activo')
+      );
+    }
+  }
+);
+
+/**
+ * GET /api/v1/patients/:id/treatment-plans-history
+ * Obtener todas las versiones del plan de tratamiento del paciente
+ */
+router.get('/:id/treatment-plans-history',
+  requirePermission('clinical:read'),
+  validateParams(schemas.uuid),
+  requireCareTeamAccess(patientIdParam),
+  async (req: Request, res: Response) => {
+    try {
+      const { id } = req.params;
+      const limit = parseInt(req.query.limit as string) || 50;
+      
+      const patient = await PatientModel.findById(id);
+      if (!patient) {
+        return res.status(404).json(
+          createErrorResponse(
+            'PATIENT_NOT_FOUND',
+            'Paciente no encontrado',
+            { patientId: id },
+            404
+          )
+        );
+      }
+      
+      const plans = await TreatmentPlanModel.findHistoryByPatientId(id, limit);
+      
+      res.json({
+        success: true,
+        data: plans
+      });
+      
+    } catch (error) {
+      console.error('Error obteniendo historial de planes de tratamiento:', error);
+      res.status(500).json(
+        createErrorResponse('FETCH_TREATMENT_PLANS_HISTORY_ERROR', 'Error al obtener historial de planes de tratamiento')
+      );
+    }
+  }
+);
+
+/**
+ * GET /api/v1/patients/:id/symptoms
+ * Obtener seguimiento de síntomas del paciente (últimos N días)
+ */
+router.get('/:id/symptoms',
+  requirePermission('clinical:read'),
+  validateParams(schemas.uuid),
+  requireCareTeamAccess(patientIdParam),
+  validateQuery(schemas.trendWindow),
+  async (req: Request, res: Response) => {
+    try {
+      const { id } = req.params;
+      const days = parseInt(req.query.days as string) || 30;
+
+      const patient = await PatientModel.findById(id);
+      if (!patient) {
+        return res.status(404).json(
+          createErrorResponse(
+            'PATIENT_NOT_FOUND',
+            'Paciente no encontrado',
+            { patientId: id },
+            404
+          )
+        );
+      }
+
+      const symptoms = await SymptomTrackingModel.findByPatientId(id, days);
+
+      res.json({
+        success: true,
+        data: symptoms
+      });
+
+    } catch (error) {
+      console.error('Error obteniendo síntomas del paciente:', error);
+      res.status(500).json(
+        createErrorResponse('FETCH_PATIENT_SYMPTOMS_ERROR', 'Error al obtener síntomas del paciente')
+      );
+    }
+  }
+);
+
+/**
+ * GET /api/v1/patients/:id/symptoms/:type/trends
+ * Obtener tendencia de severidad de un síntoma
+ */
+router.get('/:id/symptoms/:type/trends',
+  requirePermission('clinical:read'),
+  validateParams(schemas.uuid),
+  requireCareTeamAccess(patientIdParam),
+  validateQuery(schemas.trendWindow),
+  async (req: Request, res: Response) => {
+    try {
+      const { id, type } = req.params;
+      const days = parseInt(req.query.days as string) || 30;
+
+      const patient = await PatientModel.findById(id);
+      if (!patient) {
+        return res.status(404).json(
+          createErrorResponse(
+            'PATIENT_NOT_FOUND',
+            'Paciente no encontrado',
+            { patientId: id },
+            404
+          )
+        );
+      }
+
+      const trend = await SymptomTrackingModel.getTrend(id, type, days);
+
+      res.json({
+        success: true,
+        data: trend
+      });
+
+    } catch (error) {
+      console.error('Error obteniendo tendencia de síntoma:', error);
+      res.status(500).json(
+        createErrorResponse('FETCH_SYMPTOM_TREND_ERROR', 'Error al obtener tendencia del síntoma')
+      );
+    }
+  }
+);
+
+/**
+ * GET /api/v1/patients/:id/diagnoses
+ * Obtener diagnósticos del paciente (opcionalmente filtrados por estado)
+ */
+router.get('/:id/diagnoses',
+  requirePermission('clinical:read'),
+  validateParams(schemas.uuid),
+  requireCareTeamAccess(patientIdParam),
+  validateQuery(schemas.diagnosisStatusFilter),
+  async (req: Request, res: Response) => {
+    try {
+      const { id } = req.params;
+      const status = req.query.status as 'active' | 'resolved' | undefined;
+
+      const patient = await PatientModel.findById(id);
+      if (!patient) {
+        return res.status(404).json(
+          createErrorResponse(
+            'PATIENT_NOT_FOUND',
+            'Paciente no encontrado',
+            { patientId: id },
+            404
+          )
+        );
+      }
+
+      const diagnoses = await DiagnosisModel.findByPatientId(id, status);
+
+      res.json({
+        success: true,
+        data: diagnoses
+      });
+
+    } catch (error) {
+      console.error('Error obteniendo diagnósticos del paciente:', error);
+      res.status(500).json(
+        createErrorResponse('FETCH_PATIENT_DIAGNOSES_ERROR', 'Error al obtener diagnósticos del paciente')
+      );
+    }
+  }
+);
+
+/**
+ * GET /api/v1/patients/:id/timeline
+ * Línea de tiempo clínica: citas, sesiones, diagnósticos, planes y medicación
+ */
+router.get('/:id/timeline',
+  requirePermission('clinical:read'),
+  validateParams(schemas.uuid),
+  requireCareTeamAccess(patientIdParam),
+  validateQuery(schemas.timelineQuery),
+  async (req: Request, res: Response) => {
+    try {
+      const { id } = req.params;
+      const page = parseInt(req.query.page as string) || 1;
+      const limit = parseInt(req.query.limit as string) || 20;
+      const sortOrder = (req.query.sortOrder as 'ASC' | 'DESC') || 'DESC';
+      const types = req.query.types
+        ? (req.query.types as string).split(',') as TimelineEventType[]
+        : undefined;
+
+      const patient = await PatientModel.findById(id);
+      if (!patient) {
+        return res.status(404).json(
+          createErrorResponse(
+            'PATIENT_NOT_FOUND',
+            'Paciente no encontrado',
+            { patientId: id },
+            404
+          )
+        );
+      }
+
+      const timeline = await PatientTimelineModel.build(id, { page, limit, sortOrder, types });
+
+      res.json({
+        success: true,
+        data: timeline
+      });
+
+    } catch (error) {
+      console.error('Error obteniendo línea de tiempo del paciente:', error);
+      res.status(500).json(
+        createErrorResponse('FETCH_PATIENT_TIMELINE_ERROR', 'Error al obtener línea de tiempo del paciente')
+      );
+    }
+  }
+);
+
+/**
+ * GET /api/v1/patients/:id/care-team
+ * Equipo de atención del paciente (include_past=true incluye a los que ya salieron)
+ */
+router.get('/:id/care-team',
+  requirePermission('patients:read'),
+  validateParams(schemas.uuid),
+  requireCareTeamAccess(patientIdParam),
+  validateQuery(schemas.careTeamQuery),
+  async (req: Request, res: Response) => {
+    try {
+      const { id } = req.params;
+
+      const patient = await PatientModel.findById(id);
+      if (!patient) {
+        return res.status(404).json(
+          createErrorResponse('PATIENT_NOT_FOUND', 'Paciente no encontrado', { patientId: id }, 404)
+        );
+      }
+
+      const members = await CareTeamModel.findByPatient(id, req.query.include_past === 'true');
+
+      res.json({
+        success: true,
+        data: members
+      });
+
+    } catch (error) {
+      console.error('Error obteniendo equipo de atención:', error);
+      res.status(500).json(
+        createErrorResponse('FETCH_CARE_TEAM_ERROR', 'Error al obtener el equipo de atención')
+      );
+    }
+  }
+);
+
+/**
+ * POST /api/v1/patients/:id/care-team
+ * Agregar un psiquiatra (principal o de cobertura) o un asistente al equipo
+ */
+router.post('/:id/care-team',
+  requirePermission('care_team:manage'),
+  validateParams(schemas.uuid),
+  requireCareTeamAccess(patientIdParam),
+  validate(schemas.careTeamMemberCreate),
+  async (req: Request, res: Response) => {
+    try {
+      const { id } = req.params;
+
+      const patient = await PatientModel.findById(id);
+      if (!patient) {
+        return res.status(404).json(
+          createErrorResponse('PATIENT_NOT_FOUND', 'Paciente no encontrado', { patientId: id }, 404)
+        );
+      }
+
+      const memberData: CareTeamMemberCreateRequest = req.body;
+      const member = await CareTeamModel.addMember(id, memberData, req.user!.userId);
+
+      res.status(201).json({
+        success: true,
+        data: member
+      });
+
+    } catch (error) {
+      console.error('Error agregando miembro al equipo de atención:', error);
+
+      const known = error instanceof Error ? findCareTeamError(error.message) : undefined;
+      if (known) {
+        const [code, status] = known;
+        return res.status(status).json(
+          createErrorResponse(code, (error as Error).message, null, status)
+        );
+      }
+
+      res.status(500).json(
+        createErrorResponse('ADD_CARE_TEAM_MEMBER_ERROR', 'Error al agregar miembro al equipo de atención')
+      );
+    }
+  }
+);
+
+/**
+ * PUT /api/v1/patients/:id/care-team/:memberId
+ * Cambiar rol o periodo de un miembro; con ends_on se lo retira del equipo
+ */
+router.put('/:id/care-team/:memberId',
+  requirePermission('care_team:manage'),
+  validateParams(schemas.careTeamMemberParams),
+  requireCareTeamAccess(patientIdParam),
+  validate(schemas.careTeamMemberUpdate),
+  async (req: Request, res: Response) => {
+    try {
+      const { id, memberId } = req.params;
+      const changes: CareTeamMemberUpdateRequest = req.body;
+
+      const member = await CareTeamModel.updateMember(id, memberId, changes);
+
+      if (!member) {
+        return res.status(404).json(
+          createErrorResponse('CARE_TEAM_MEMBER_NOT_FOUND', 'Miembro del equipo no encontrado', { memberId }, 404)
+        );
+      }
+
+      res.json({
+        success: true,
+        data: member
+      });
+
+    } catch (error) {
+      console.error('Error actualizando miembro del equipo de atención:', error);
+
+      const known = error instanceof Error ? findCareTeamError(error.message) : undefined;
+      if (known) {
+        const [code, status] = known;
+        return res.status(status).json(
+          createErrorResponse(code, (error as Error).message, null, status)
+        );
+      }
+
+      res.status(500).json(
+        createErrorResponse('UPDATE_CARE_TEAM_MEMBER_ERROR', 'Error al actualizar miembro del equipo de atención')
+      );
+    }
+  }
+);
+
 // Agregar método findAppointmentsByPatientId al modelo Patient si no existe
 if (!PatientModel.findAppointmentsByPatientId) {
   // Este método debería estar en el modelo Appointment, no en Patient
@@ -432,7 +874,7 @@ if (!PatientModel.findAppointmentsByPatientId) {
  * GET /api/v1/patients/stats/summary
  * Obtener resumen de estadísticas de pacientes
  */
-router.get('/stats/summary', async (req: Request, res: Response) => {
+router.get('/stats/summary', requirePermission('patients:read'), async (req: Request, res: Response) => {
   try {
     const stats = await PatientModel.getStats();
     
@@ -0,0 +1,154 @@
+import { Router, Request, Response } from 'express';
+import { authenticateToken, requirePermission } from '@/middleware/auth';
+import { validate, schemas, validateParams } from '@/middleware/validation';
+import { PsychiatristScheduleModel } from '@/models/PsychiatristSchedule';
+import { UserModel } from '@/models/User';
+import { createErrorResponse } from '@/middleware/errorHandler';
+import { PsychiatristScheduleUpdateRequest } from '@/types';
+
+const router = Router();
+
+// Aplicar autenticación a todas las rutas
+router.use(authenticateToken);
+
+/**
+ * Verificar que el psiquiatra existe; responde 404 si no
+ */
+const findPsychiatrist = async (id: string, res: Response): Promise<boolean> => {
+  const user = await UserModel.findById(id);
+  if (!user || user.role !== 'psychiatrist') {
+    res.status(404).json(
+      createErrorResponse('USER_NOT_FOUND', 'Psiquiatra no encontrado', { psychiatristId: id }, 404)
+    );
+    return false;
+  }
+  return true;
+};
+
+/**
+ * Solo el propio psiquiatra o un administrador modifican un horario
+ */
+const canManage = (req: Request, psychiatristId: string): boolean =>
+  req.user!.role === 'admin' || req.user!.userId === psychiatristId;
+
+/**
+ * GET /api/v1/schedules/:id
+ * Obtener el horario de atención de un psiquiatra
+ */
+router.get('/:id',
+  requirePermission('schedules:read'),
+  validateParams(schemas.uuid),
+  async (req: Request, res: Response) => {
+    try {
+      const { id } = req.params;
+
+      if (!(await findPsychiatrist(id, res))) {
+        return;
+      }
+
+      const schedule = await PsychiatristScheduleModel.findByPsychiatristId(id);
+
+      res.json({
+        success: true,
+        data: schedule
+      });
+
+    } catch (error) {
+      console.error('Error obteniendo horario:', error);
+      res.status(500).json(
+        createErrorResponse('FETCH_SCHEDULE_ERROR', 'Error al obtener horario')
+      );
+    }
+  }
+);
+
+/**
+ * PUT /api/v1/schedules/:id
+ * Reemplazar el horario de atención de un psiquiatra
+ */
+router.put('/:id',
+  requirePermission('schedules:manage'),
+  validateParams(schemas.uuid),
+  validate(schemas.scheduleUpdate),
+  async (req: Request, res: Response) => {
+    try {
+      const { id } = req.params;
+      const scheduleData: PsychiatristScheduleUpdateRequest = req.body;
+
+      if (!canManage(req, id)) {
+        return res.status(403).json(
+          createErrorResponse(
+            'INSUFFICIENT_PERMISSIONS',
+            'Solo puedes modificar tu propio horario',
+            null,
+            403
+          )
+        );
+      }
+
+      if (!(await findPsychiatrist(id, res))) {
+        return;
+      }
+
+      const schedule = await PsychiatristScheduleModel.replace(id, scheduleData);
+
+      res.json({
+        success: true,
+        data: schedule
+      });
+
+    } catch (error) {
+      console.error('Error actualizando horario:', error);
+
+      if (error instanceof Error && error.message.includes('Horario inválido')) {
+        return res.status(422).json(
+          createErrorResponse('INVALID_SCHEDULE', error.message, null, 422)
+        );
+      }
+
+      res.status(500).json(
+        createErrorResponse('UPDATE_SCHEDULE_ERROR', 'Error al actualizar horario')
+      );
+    }
+  }
+);
+
+/**
+ * DELETE /api/v1/schedules/:id
+ * Restablecer el horario por defecto
+ */
+router.delete('/:id',
+  requirePermission('schedules:manage'),
+  validateParams(schemas.uuid),
+  async (req: Request, res: Response) => {
+    try {
+      const { id } = req.params;
+
+      if (!canManage(req, id)) {
+        return res.status(403).json(
+          createErrorResponse(
+            'INSUFFICIENT_PERMISSIONS',
+            'Solo puedes modificar tu propio horario',
+            null,
+            403
+          )
+        );
+      }
+
+      const schedule = await PsychiatristScheduleModel.reset(id);
+
+      res.json({
+        success: true,
+        data: schedule
+      });
+
+    } catch (error) {
+      console.error('Error restableciendo horario:', error);
+      res.status(500).json(
+        createErrorResponse('RESET_SCHEDULE_ERROR', 'Error al restablecer horario')
+      );
+    }
+  }
+);
+
+export default router;
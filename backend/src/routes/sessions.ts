@@ -0,0 +1,226 @@
+import { Router, Request, Response } from 'express';
+import { authenticateToken, requireCareTeamAccess, requirePermission } from '@/middleware/auth';
+import { validate, schemas, validateParams } from '@/middleware/validation';
+import { ConsultationSessionModel } from '@/models/ConsultationSession';
+import { auditAccess } from '@/middleware/audit';
+import { createErrorResponse } from '@/middleware/errorHandler';
+import { SessionAddendumCreateRequest } from '@/types';
+
+const router = Router();
+
+// Aplicar autenticación a todas las rutas
+router.use(authenticateToken);
+router.use(auditAccess('session'));
+
+// Paciente de la sesión de la ruta: solo accesible para su equipo de atención
+const sessionPatientId = async (req: Request) => (await ConsultationSessionModel.findById(req.params.id))?.patient_id;
+
+/**
+ * POST /api/v1/sessions/:id/sign
+ * Firmar sesión (registra firmante y hash del contenido y la bloquea)
+ */
+router.post('/:id/sign',
+  requirePermission('clinical:write'),
+  validateParams(schemas.uuid),
+  requireCareTeamAccess(sessionPatientId),
+  async (req: Request, res: Response) => {
+    try {
+      const { id } = req.params;
+
+      const session = await ConsultationSessionModel.sign(id, req.user!.userId);
+
+      if (!session) {
+        return res.status(404).json(
+          createErrorResponse(
+            'SESSION_NOT_FOUND',
+            'Sesión no encontrada',
+            { sessionId: id },
+            404
+          )
+        );
+      }
+
+      res.json({
+        success: true,
+        data: session
+      });
+
+    } catch (error) {
+      console.error('Error firmando sesión:', error);
+
+      if (error instanceof Error) {
+        if (error.message.includes('psiquiatra tratante')) {
+          return res.status(403).json(
+            createErrorResponse(
+              'INSUFFICIENT_PERMISSIONS',
+              error.message,
+              null,
+              403
+            )
+          );
+        }
+
+        if (error.message.includes('ya está firmada') || error.message.includes('durante la firma')) {
+          return res.status(409).json(
+            createErrorResponse(
+              'SESSION_ALREADY_SIGNED',
+              error.message,
+              { sessionId: req.params.id },
+              409
+            )
+          );
+        }
+
+        if (error.message.includes('programada') || error.message.includes('borrador')) {
+          return res.status(422).json(
+            createErrorResponse(
+              'SESSION_NOT_SIGNABLE',
+              error.message,
+              { sessionId: req.params.id },
+              422
+            )
+          );
+        }
+      }
+
+      res.status(500).json(
+        createErrorResponse('SIGN_SESSION_ERROR', 'Error al firmar la sesión')
+      );
+    }
+  }
+);
+
+/**
+ * GET /api/v1/sessions/:id/signature
+ * Verificar integridad de la firma y de la cadena de adendas
+ */
+router.get('/:id/signature',
+  requirePermission('clinical:read'),
+  validateParams(schemas.uuid),
+  requireCareTeamAccess(sessionPatientId),
+  async (req: Request, res: Response) => {
+    try {
+      const { id } = req.params;
+
+      const verification = await ConsultationSessionModel.verifySignature(id);
+
+      if (!verification) {
+        return res.status(404).json(
+          createErrorResponse(
+            'SESSION_NOT_FOUND',
+            'Sesión no encontrada',
+            { sessionId: id },
+            404
+          )
+        );
+      }
+
+      res.json({
+        success: true,
+        data: verification
+      });
+
+    } catch (error) {
+      console.error('Error verificando firma de sesión:', error);
+      res.status(500).json(
+        createErrorResponse('VERIFY_SESSION_SIGNATURE_ERROR', 'Error al verificar la firma de la sesión')
+      );
+    }
+  }
+);
+
+/**
+ * GET /api/v1/sessions/:id/addenda
+ * Obtener adendas de una sesión
+ */
+router.get('/:id/addenda',
+  requirePermission('clinical:read'),
+  validateParams(schemas.uuid),
+  requireCareTeamAccess(sessionPatientId),
+  async (req: Request, res: Response) => {
+    try {
+      const { id } = req.params;
+
+      const addenda = await ConsultationSessionModel.findAddenda(id);
+
+      res.json({
+        success: true,
+        data: addenda
+      });
+
+    } catch (error) {
+      console.error('Error obteniendo adendas:', error);
+      res.status(500).json(
+        createErrorResponse('FETCH_SESSION_ADDENDA_ERROR', 'Error al obtener adendas de la sesión')
+      );
+    }
+  }
+);
+
+/**
+ * POST /api/v1/sessions/:id/addenda
+ * Agregar adenda firmada a una sesión firmada
+ */
+router.post('/:id/addenda',
+  requirePermission('clinical:write'),
+  validateParams(schemas.uuid),
+  requireCareTeamAccess(sessionPatientId),
+  validate(schemas.sessionAddendumCreate),
+  async (req: Request, res: Response) => {
+    try {
+      const { id } = req.params;
+      const addendumData: SessionAddendumCreateRequest = req.body;
+
+      const addendum = await ConsultationSessionModel.addAddendum(id, req.user!.userId, addendumData);
+
+      if (!addendum) {
+        return res.status(404).json(
+          createErrorResponse(
+            'SESSION_NOT_FOUND',
+            'Sesión no encontrada',
+            { sessionId: id },
+            404
+          )
+        );
+      }
+
+      res.status(201).json({
+        success: true,
+        data: addendum
+      });
+
+    } catch (error) {
+      console.error('Error registrando adenda:', error);
+
+      if (error instanceof Error) {
+        if (error.message.includes('sesiones firmadas')) {
+          return res.status(409).json(
+            createErrorResponse(
+              'SESSION_NOT_SIGNED',
+              error.message,
+              { sessionId: req.params.id },
+              409
+            )
+          );
+        }
+
+        if (error.message.includes('simultáneamente')) {
+          return res.status(409).json(
+            createErrorResponse(
+              'ADDENDUM_SEQUENCE_CONFLICT',
+              error.message,
+              { sessionId: req.params.id },
+              409
+            )
+          );
+        }
+      }
+
+      res.status(500).json(
+        createErrorResponse('CREATE_SESSION_ADDENDUM_ERROR', 'Error al registrar la adenda')
+      );
+    }
+  }
+);
+
+export default router;
@@ -0,0 +1,125 @@
+import { Router, Request, Response } from 'express';
+import { authenticateToken, requireCareTeamAccess, requirePermission } from '@/middleware/auth';
+import { validate, schemas, validateParams } from '@/middleware/validation';
+import { SymptomTrackingModel } from '@/models/SymptomTracking';
+import { auditAccess } from '@/middleware/audit';
+import { createErrorResponse } from '@/middleware/errorHandler';
+import { SymptomTrackingCreateRequest } from '@/types';
+
+const router = Router();
+
+// Aplicar autenticación a todas las rutas
+router.use(authenticateToken);
+router.use(auditAccess('symptom_record'));
+
+// Paciente del registro de la ruta: solo accesible para su equipo de atención
+const trackingPatientId = async (req: Request) => (await SymptomTrackingModel.findById(req.params.id))?.patient_id;
+const bodyPatientId = (req: Request) => req.body.patient_id;
+
+/**
+ * POST /api/v1/symptom-tracking
+ * Registrar severidad de un síntoma
+ */
+router.post('/',
+  requirePermission('clinical:write'),
+  validate(schemas.symptomTrackingCreate),
+  requireCareTeamAccess(bodyPatientId),
+  async (req: Request, res: Response) => {
+    try {
+      const trackingData: SymptomTrackingCreateRequest = req.body;
+
+      const tracking = await SymptomTrackingModel.create(trackingData, req.user!.userId);
+
+      res.status(201).json({
+        success: true,
+        data: tracking
+      });
+
+    } catch (error) {
+      console.error('Error registrando síntoma:', error);
+
+      if (error instanceof Error) {
+        if (error.message.includes('paciente no existe')) {
+          return res.status(404).json(
+            createErrorResponse(
+              'PATIENT_NOT_FOUND',
+              'Paciente no encontrado',
+              { patientId: req.body.patient_id },
+              404
+            )
+          );
+        }
+
+        if (error.message.includes('no puede ser futura')) {
+          return res.status(422).json(
+            createErrorResponse(
+              'INVALID_TRACKING_DATE',
+              error.message,
+              null,
+              422
+            )
+          );
+        }
+      }
+
+      res.status(500).json(
+        createErrorResponse('CREATE_SYMPTOM_TRACKING_ERROR', 'Error al registrar síntoma')
+      );
+    }
+  }
+);
+
+/**
+ * DELETE /api/v1/symptom-tracking/:id
+ * Eliminar un registro (solo quien lo registró)
+ */
+router.delete('/:id',
+  requirePermission('clinical:write'),
+  validateParams(schemas.uuid),
+  requireCareTeamAccess(trackingPatientId),
+  async (req: Request, res: Response) => {
+    try {
+      const { id } = req.params;
+
+      const tracking = await SymptomTrackingModel.findById(id);
+      if (!tracking) {
+        return res.status(404).json(
+          createErrorResponse(
+            'SYMPTOM_TRACKING_NOT_FOUND',
+            'Registro de síntoma no encontrado',
+            { symptomTrackingId: id },
+            404
+          )
+        );
+      }
+
+      if (tracking.recorded_by !== req.user!.userId) {
+        return res.status(403).json(
+          createErrorResponse(
+            'INSUFFICIENT_PERMISSIONS',
+            'No tiene permisos para eliminar este registro',
+            null,
+            403
+          )
+        );
+      }
+
+      await SymptomTrackingModel.delete(id);
+
+      res.json({
+        success: true,
+        data: {
+          message: 'Registro de síntoma eliminado exitosamente'
+        }
+      });
+
+    } catch (error) {
+      console.error('Error eliminando registro de síntoma:', error);
+      res.status(500).json(
+        createErrorResponse('DELETE_SYMPTOM_TRACKING_ERROR', 'Error al eliminar registro de síntoma')
+      );
+    }
+  }
+);
+
+export default router;
@@ -0,0 +1,294 @@
+import { Router, Request, Response } from 'express';
+import { authenticateToken, requirePermission } from '@/middleware/auth';
+import { validate, schemas, validateParams, validateQuery } from '@/middleware/validation';
+import { ClinicalTemplateModel } from '@/models/ClinicalTemplate';
+import { createErrorResponse } from '@/middleware/errorHandler';
+import { ClinicalTemplate, ClinicalTemplateCreateRequest, ClinicalTemplateUpdateRequest } from '@/types';
+
+const router = Router();
+
+// Aplicar autenticación a todas las rutas
+router.use(authenticateToken);
+
+/**
+ * GET /api/v1/templates
+ * Listar plantillas propias y compartidas (más usadas primero)
+ */
+router.get('/',
+  requirePermission('templates:read'),
+  validateQuery(schemas.templateTypeFilter),
+  async (req: Request, res: Response) => {
+    try {
+      const type = req.query.type as ClinicalTemplate['template_type'] | undefined;
+
+      const templates = await ClinicalTemplateModel.findVisibleTo(req.user!.userId, type);
+
+      res.json({
+        success: true,
+        data: templates
+      });
+
+    } catch (error) {
+      console.error('Error obteniendo plantillas:', error);
+      res.status(500).json(
+        createErrorResponse('FETCH_TEMPLATES_ERROR', 'Error al obtener plantillas')
+      );
+    }
+  }
+);
+
+/**
+ * POST /api/v1/templates
+ * Crear plantilla
+ */
+router.post('/',
+  requirePermission('templates:write'),
+  validate(schemas.templateCreate),
+  async (req: Request, res: Response) => {
+    try {
+      const templateData: ClinicalTemplateCreateRequest = req.body;
+
+      const template = await ClinicalTemplateModel.create(templateData, req.user!.userId);
+
+      res.status(201).json({
+        success: true,
+        data: template
+      });
+
+    } catch (error) {
+      console.error('Error creando plantilla:', error);
+
+      if (error instanceof Error && error.message.includes('Ya existe una plantilla')) {
+        return res.status(409).json(
+          createErrorResponse(
+            'TEMPLATE_NAME_EXISTS',
+            error.message,
+            { template_name: req.body.template_name },
+            409
+          )
+        );
+      }
+
+      res.status(500).json(
+        createErrorResponse('CREATE_TEMPLATE_ERROR', 'Error al crear plantilla')
+      );
+    }
+  }
+);
+
+/**
+ * GET /api/v1/templates/:id
+ * Obtener plantilla por ID
+ */
+router.get('/:id',
+  requirePermission('templates:read'),
+  validateParams(schemas.uuid),
+  async (req: Request, res: Response) => {
+    try {
+      const { id } = req.params;
+      const template = await ClinicalTemplateModel.findById(id);
+
+      if (!template || !ClinicalTemplateModel.isVisibleTo(template, req.user!.userId)) {
+        return res.status(404).json(
+          createErrorResponse(
+            'TEMPLATE_NOT_FOUND',
+            'Plantilla no encontrada',
+            { templateId: id },
+            404
+          )
+        );
+      }
+
+      res.json({
+        success: true,
+        data: template
+      });
+
+    } catch (error) {
+      console.error('Error obteniendo plantilla:', error);
+      res.status(500).json(
+        createErrorResponse('FETCH_TEMPLATE_ERROR', 'Error al obtener plantilla')
+      );
+    }
+  }
+);
+
+/**
+ * PUT /api/v1/templates/:id
+ * Actualizar plantilla (solo su autor, incluido compartirla o dejar de compartirla)
+ */
+router.put('/:id',
+  requirePermission('templates:write'),
+  validateParams(schemas.uuid),
+  validate(schemas.templateUpdate),
+  async (req: Request, res: Response) => {
+    try {
+      const { id } = req.params;
+      const updates: ClinicalTemplateUpdateRequest = req.body;
+
+      const template = await ClinicalTemplateModel.findById(id);
+      if (!template || !ClinicalTemplateModel.isVisibleTo(template, req.user!.userId)) {
+        return res.status(404).json(
+          createErrorResponse(
+            'TEMPLATE_NOT_FOUND',
+            'Plantilla no encontrada',
+            { templateId: id },
+            404
+          )
+        );
+      }
+
+      if (template.created_by !== req.user!.userId) {
+        return res.status(403).json(
+          createErrorResponse(
+            'INSUFFICIENT_PERMISSIONS',
+            'Solo el autor puede modificar la plantilla',
+            null,
+            403
+          )
+        );
+      }
+
+      const updatedTemplate = await ClinicalTemplateModel.update(id, updates);
+
+      res.json({
+        success: true,
+        data: updatedTemplate
+      });
+
+    } catch (error) {
+      console.error('Error actualizando plantilla:', error);
+
+      if (error instanceof Error && error.message.includes('Ya existe una plantilla')) {
+        return res.status(409).json(
+          createErrorResponse(
+            'TEMPLATE_NAME_EXISTS',
+            error.message,
+            { template_name: req.body.template_name },
+            409
+          )
+        );
+      }
+
+      res.status(500).json(
+        createErrorResponse('UPDATE_TEMPLATE_ERROR', 'Error al actualizar plantilla')
+      );
+    }
+  }
+);
+
+/**
+ * POST /api/v1/templates/:id/use
+ * Registrar uso de la plantilla y, si se indica paciente, devolver la
+ * solicitud de sesión pre-llenada
+ */
+router.post('/:id/use',
+  requirePermission('templates:write'),
+  validateParams(schemas.uuid),
+  validate(schemas.templateUse),
+  async (req: Request, res: Response) => {
+    try {
+      const { id } = req.params;
+      const { patient_id } = req.body || {};
+
+      const existing = await ClinicalTemplateModel.findById(id);
+      if (!existing || !ClinicalTemplateModel.isVisibleTo(existing, req.user!.userId)) {
+        return res.status(404).json(
+          createErrorResponse(
+            'TEMPLATE_NOT_FOUND',
+            'Plantilla no encontrada',
+            { templateId: id },
+            404
+          )
+        );
+      }
+
+      // Validar el paciente antes de contar el uso
+      const sessionRequest = patient_id
+        ? await ClinicalTemplateModel.instantiate(existing, patient_id)
+        : null;
+
+      const template = await ClinicalTemplateModel.recordUsage(id, req.user!.userId);
+
+      res.json({
+        success: true,
+        data: {
+          template,
+          session_request: sessionRequest
+        }
+      });
+
+    } catch (error) {
+      console.error('Error usando plantilla:', error);
+
+      if (error instanceof Error && error.message.includes('paciente no existe')) {
+        return res.status(404).json(
+          createErrorResponse(
+            'PATIENT_NOT_FOUND',
+            'Paciente no encontrado',
+            { patientId: req.body.patient_id },
+            404
+          )
+        );
+      }
+
+      res.status(500).json(
+        createErrorResponse('USE_TEMPLATE_ERROR', 'Error al usar plantilla')
+      );
+    }
+  }
+);
+
+/**
+ * DELETE /api/v1/templates/:id
+ * Eliminar plantilla (solo su autor)
+ */
+router.delete('/:id',
+  requirePermission('templates:write'),
+  validateParams(schemas.uuid),
+  async (req: Request, res: Response) => {
+    try {
+      const { id } = req.params;
+
+      const template = await ClinicalTemplateModel.findById(id);
+      if (!template || !ClinicalTemplateModel.isVisibleTo(template, req.user!.userId)) {
+        return res.status(404).json(
+          createErrorResponse(
+            'TEMPLATE_NOT_FOUND',
+            'Plantilla no encontrada',
+            { templateId: id },
+            404
+          )
+        );
+      }
+
+      if (template.created_by !== req.user!.userId) {
+        return res.status(403).json(
+          createErrorResponse(
+            'INSUFFICIENT_PERMISSIONS',
+            'Solo el autor puede eliminar la plantilla',
+            null,
+            403
+          )
+        );
+      }
+
+      await ClinicalTemplateModel.delete(id);
+
+      res.json({
+        success: true,
+        data: {
+          message: 'Plantilla eliminada exitosamente'
+        }
+      });
+
+    } catch (error) {
+      console.error('Error eliminando plantilla:', error);
+      res.status(500).json(
+        createErrorResponse('DELETE_TEMPLATE_ERROR', 'Error al eliminar plantilla')
+      );
+    }
+  }
+);
+
+export default router;
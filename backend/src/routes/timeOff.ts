@@ -0,0 +1,298 @@
+import { Router, Request, Response } from 'express';
+import { authenticateToken, requirePermission } from '@/middleware/auth';
+import { validate, schemas, validateParams, validateQuery } from '@/middleware/validation';
+import { TimeOffModel } from '@/models/TimeOff';
+import { HolidayModel } from '@/models/Holiday';
+import { UserModel } from '@/models/User';
+import { createErrorResponse } from '@/middleware/errorHandler';
+import { HolidayCreateRequest, TimeOffCreateRequest } from '@/types';
+
+const router = Router();
+
+// Aplicar autenticación a todas las rutas
+router.use(authenticateToken);
+
+/**
+ * Solo el propio psiquiatra o un administrador gestionan sus ausencias;
+ * los bloqueos de toda la clínica son exclusivos del administrador
+ */
+const canManage = (req: Request, psychiatristId?: string | null): boolean =>
+  req.user!.role === 'admin' || (!!psychiatristId && req.user!.userId === psychiatristId);
+
+/**
+ * GET /api/v1/time-off/holidays
+ * Listar feriados de un año (por defecto el actual)
+ */
+router.get('/holidays',
+  requirePermission('schedules:read'),
+  validateQuery(schemas.holidayYear),
+  async (req: Request, res: Response) => {
+    try {
+      const year = parseInt(req.query.year as string) || new Date().getFullYear();
+      const holidays = await HolidayModel.findByYear(year);
+
+      res.json({
+        success: true,
+        data: {
+          year,
+          country_code: HolidayModel.countryCode,
+          holidays
+        }
+      });
+
+    } catch (error) {
+      console.error('Error obteniendo feriados:', error);
+      res.status(500).json(
+        createErrorResponse('FETCH_HOLIDAYS_ERROR', 'Error al obtener feriados')
+      );
+    }
+  }
+);
+
+/**
+ * POST /api/v1/time-off/holidays
+ * Registrar un cierre propio de la clínica
+ */
+router.post('/holidays',
+  requirePermission('holidays:manage'),
+  validate(schemas.holidayCreate),
+  async (req: Request, res: Response) => {
+    try {
+      const holidayData: HolidayCreateRequest = req.body;
+      const holiday = await HolidayModel.create(holidayData);
+
+      res.status(201).json({
+        success: true,
+        data: holiday
+      });
+
+    } catch (error) {
+      console.error('Error creando feriado:', error);
+
+      if (error instanceof Error && error.message.includes('Ya existe un feriado')) {
+        return res.status(409).json(
+          createErrorResponse('HOLIDAY_EXISTS', error.message, null, 409)
+        );
+      }
+
+      res.status(500).json(
+        createErrorResponse('CREATE_HOLIDAY_ERROR', 'Error al crear feriado')
+      );
+    }
+  }
+);
+
+/**
+ * POST /api/v1/time-off/holidays/seed
+ * Cargar el calendario nacional de feriados de un año
+ */
+router.post('/holidays/seed',
+  requirePermission('holidays:manage'),
+  validate(schemas.holidayYear),
+  async (req: Request, res: Response) => {
+    try {
+      const year = req.body.year || new Date().getFullYear();
+      const created = await HolidayModel.seedYear(year);
+
+      res.status(201).json({
+        success: true,
+        data: {
+          year,
+          country_code: HolidayModel.countryCode,
+          created
+        }
+      });
+
+    } catch (error) {
+      console.error('Error cargando feriados:', error);
+
+      if (error instanceof Error && error.message.includes('No hay calendario de feriados')) {
+        return res.status(422).json(
+          createErrorResponse('HOLIDAY_CALENDAR_NOT_FOUND', error.message, null, 422)
+        );
+      }
+
+      res.status(500).json(
+        createErrorResponse('SEED_HOLIDAYS_ERROR', 'Error al cargar feriados')
+      );
+    }
+  }
+);
+
+/**
+ * DELETE /api/v1/time-off/holidays/:id
+ * Eliminar feriado
+ */
+router.delete('/holidays/:id',
+  requirePermission('holidays:manage'),
+  validateParams(schemas.uuid),
+  async (req: Request, res: Response) => {
+    try {
+      const deleted = await HolidayModel.delete(req.params.id);
+
+      if (!deleted) {
+        return res.status(404).json(
+          createErrorResponse('HOLIDAY_NOT_FOUND', 'Feriado no encontrado', { holidayId: req.params.id }, 404)
+        );
+      }
+
+      res.json({
+        success: true,
+        message: 'Feriado eliminado exitosamente'
+      });
+
+    } catch (error) {
+      console.error('Error eliminando feriado:', error);
+      res.status(500).json(
+        createErrorResponse('DELETE_HOLIDAY_ERROR', 'Error al eliminar feriado')
+      );
+    }
+  }
+);
+
+/**
+ * GET /api/v1/time-off
+ * Listar vacaciones, permisos y bloqueos
+ */
+router.get('/',
+  requirePermission('schedules:read'),
+  validateQuery(schemas.timeOffQuery),
+  async (req: Request, res: Response) => {
+    try {
+      const { psychiatrist_id, from, to } = req.query;
+
+      const periods = await TimeOffModel.findAll({
+        psychiatrist_id: psychiatrist_id as string | undefined,
+        from: from ? new Date(from as string) : undefined,
+        to: to ? new Date(to as string) : undefined
+      });
+
+      res.json({
+        success: true,
+        data: periods
+      });
+
+    } catch (error) {
+      console.error('Error obteniendo periodos no disponibles:', error);
+      res.status(500).json(
+        createErrorResponse('FETCH_TIME_OFF_ERROR', 'Error al obtener periodos no disponibles')
+      );
+    }
+  }
+);
+
+/**
+ * POST /api/v1/time-off
+ * Registrar un periodo no disponible; devuelve las citas que quedan dentro
+ */
+router.post('/',
+  requirePermission('schedules:manage'),
+  validate(schemas.timeOffCreate),
+  async (req: Request, res: Response) => {
+    try {
+      const timeOffData: TimeOffCreateRequest = {
+        ...req.body,
+        // Un psiquiatra registra sus propias ausencias por defecto
+        psychiatrist_id: req.body.psychiatrist_id === undefined && req.user!.role === 'psychiatrist'
+          ? req.user!.userId
+          : req.body.psychiatrist_id
+      };
+
+      if (!canManage(req, timeOffData.psychiatrist_id)) {
+        return res.status(403).json(
+          createErrorResponse(
+            'INSUFFICIENT_PERMISSIONS',
+            'Solo puedes registrar tus propias ausencias',
+            null,
+            403
+          )
+        );
+      }
+
+      if (timeOffData.psychiatrist_id) {
+        const psychiatrist = await UserModel.findById(timeOffData.psychiatrist_id);
+        if (!psychiatrist || psychiatrist.role !== 'psychiatrist') {
+          return res.status(404).json(
+            createErrorResponse(
+              'USER_NOT_FOUND',
+              'Psiquiatra no encontrado',
+              { psychiatristId: timeOffData.psychiatrist_id },
+              404
+            )
+          );
+        }
+      }
+
+      const timeOff = await TimeOffModel.create(timeOffData, req.user!.userId);
+      const affectedAppointments = await TimeOffModel.findAffectedAppointments(timeOff);
+
+      res.status(201).json({
+        success: true,
+        data: {
+          time_off: timeOff,
+          affected_appointments: affectedAppointments
+        }
+      });
+
+    } catch (error) {
+      console.error('Error registrando periodo no disponible:', error);
+
+      if (error instanceof Error && error.message.includes('posterior a su inicio')) {
+        return res.status(422).json(
+          createErrorResponse('INVALID_TIME_OFF_PERIOD', error.message, null, 422)
+        );
+      }
+
+      res.status(500).json(
+        createErrorResponse('CREATE_TIME_OFF_ERROR', 'Error al registrar periodo no disponible')
+      );
+    }
+  }
+);
+
+/**
+ * DELETE /api/v1/time-off/:id
+ * Eliminar un periodo no disponible
+ */
+router.delete('/:id',
+  requirePermission('schedules:manage'),
+  validateParams(schemas.uuid),
+  async (req: Request, res: Response) => {
+    try {
+      const { id } = req.params;
+      const timeOff = await TimeOffModel.findById(id);
+
+      if (!timeOff) {
+        return res.status(404).json(
+          createErrorResponse('TIME_OFF_NOT_FOUND', 'Periodo no encontrado', { timeOffId: id }, 404)
+        );
+      }
+
+      if (!canManage(req, timeOff.psychiatrist_id)) {
+        return res.status(403).json(
+          createErrorResponse(
+            'INSUFFICIENT_PERMISSIONS',
+            'Solo puedes eliminar tus propias ausencias',
+            null,
+            403
+          )
+        );
+      }
+
+      await TimeOffModel.delete(id);
+
+      res.json({
+        success: true,
+        message: 'Periodo eliminado exitosamente'
+      });
+
+    } catch (error) {
+      console.error('Error eliminando periodo no disponible:', error);
+      res.status(500).json(
+        createErrorResponse('DELETE_TIME_OFF_ERROR', 'Error al eliminar periodo no disponible')
+      );
+    }
+  }
+);
+
+export default router;
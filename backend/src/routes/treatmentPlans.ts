@@ -0,0 +1,309 @@
+import { Router, Request, Response } from 'express';
+import { authenticateToken, requireCareTeamAccess, requirePermission } from '@/middleware/auth';
+import { validate, schemas, validateParams } from '@/middleware/validation';
+import { TreatmentPlanModel } from '@/models/TreatmentPlan';
+import { auditAccess } from '@/middleware/audit';
+import { createErrorResponse } from '@/middleware/errorHandler';
+import { TreatmentPlanCreateRequest, TreatmentPlanUpdateRequest } from '@/types';
+
+const router = Router();
+
+// Aplicar autenticación a todas las rutas
+router.use(authenticateToken);
+router.use(auditAccess('treatment_plan'));
+
+// Paciente del plan de la ruta: solo accesible para su equipo de atención
+const planPatientId = async (req: Request) => (await TreatmentPlanModel.findById(req.params.id))?.patient_id;
+const bodyPatientId = (req: Request) => req.body.patient_id;
+
+/**
+ * POST /api/v1/treatment-plans
+ * Crear plan de tratamiento (reemplaza al plan activo del paciente)
+ */
+router.post('/',
+  requirePermission('clinical:write'),
+  validate(schemas.treatmentPlanCreate),
+  requireCareTeamAccess(bodyPatientId),
+  async (req: Request, res: Response) => {
+    try {
+      const planData: TreatmentPlanCreateRequest = req.body;
+      const psychiatristId = req.user!.userId;
+
+      const newPlan = await TreatmentPlanModel.create(planData, psychiatristId);
+
+      res.status(201).json({
+        success: true,
+        data: newPlan
+      });
+
+    } catch (error) {
+      console.error('Error creando plan de tratamiento:', error);
+
+      if (error instanceof Error && error.message.includes('modificado por otro usuario')) {
+        return res.status(409).json(
+          createErrorResponse(
+            'TREATMENT_PLAN_CONFLICT',
+            error.message,
+            { patientId: req.body.patient_id },
+            409
+          )
+        );
+      }
+
+      if (error instanceof Error && error.message.includes('paciente no existe')) {
+        return res.status(404).json(
+          createErrorResponse(
+            'PATIENT_NOT_FOUND',
+            'Paciente no encontrado',
+            { patientId: req.body.patient_id },
+            404
+          )
+        );
+      }
+
+      res.status(500).json(
+        createErrorResponse('CREATE_TREATMENT_PLAN_ERROR', 'Error al crear plan de tratamiento')
+      );
+    }
+  }
+);
+
+/**
+ * GET /api/v1/treatment-plans/:id
+ * Obtener una versión específica de un plan
+ */
+router.get('/:id',
+  requirePermission('clinical:read'),
+  validateParams(schemas.uuid),
+  requireCareTeamAccess(planPatientId),
+  async (req: Request, res: Response) => {
+    try {
+      const { id } = req.params;
+      const plan = await TreatmentPlanModel.findById(id);
+
+      if (!plan) {
+        return res.status(404).json(
+          createErrorResponse(
+            'TREATMENT_PLAN_NOT_FOUND',
+            'Plan de tratamiento no encontrado',
+            { treatmentPlanId: id },
+            404
+          )
+        );
+      }
+
+      res.json({
+        success: true,
+        data: plan
+      });
+
+    } catch (error) {
+      console.error('Error obteniendo plan de tratamiento:', error);
+      res.status(500).json(
+        createErrorResponse('FETCH_TREATMENT_PLAN_ERROR', 'Error al obtener plan de tratamiento')
+      );
+    }
+  }
+);
+
+/**
+ * PUT /api/v1/treatment-plans/:id
+ * Actualizar el plan activo (genera una nueva versión)
+ */
+router.put('/:id',
+  requirePermission('clinical:write'),
+  validateParams(schemas.uuid),
+  requireCareTeamAccess(planPatientId),
+  validate(schemas.treatmentPlanCreate.fork(['patient_id'], (schema) => schema.forbidden())),
+  async (req: Request, res: Response) => {
+    try {
+      const { id } = req.params;
+      const updates: TreatmentPlanUpdateRequest = req.body;
+      const psychiatristId = req.user!.userId;
+
+      const updatedPlan = await TreatmentPlanModel.update(id, updates, psychiatristId);
+
+      if (!updatedPlan) {
+        return res.status(404).json(
+          createErrorResponse(
+            'TREATMENT_PLAN_NOT_FOUND',
+            'Plan de tratamiento no encontrado',
+            { treatmentPlanId: id },
+            404
+          )
+        );
+      }
+
+      res.json({
+        success: true,
+        data: updatedPlan
+      });
+
+    } catch (error) {
+      console.error('Error actualizando plan de tratamiento:', error);
+
+      if (error instanceof Error && error.message.includes('modificado por otro usuario')) {
+        return res.status(409).json(
+          createErrorResponse(
+            'TREATMENT_PLAN_CONFLICT',
+            error.message,
+            { treatmentPlanId: req.params.id },
+            409
+          )
+        );
+      }
+
+      if (error instanceof Error && error.message.includes('plan de tratamiento activo')) {
+        return res.status(409).json(
+          createErrorResponse(
+            'TREATMENT_PLAN_NOT_ACTIVE',
+            error.message,
+            { treatmentPlanId: req.params.id },
+            409
+          )
+        );
+      }
+
+      res.status(500).json(
+        createErrorResponse('UPDATE_TREATMENT_PLAN_ERROR', 'Error al actualizar plan de tratamiento')
+      );
+    }
+  }
+);
+
+/**
+ * PUT /api/v1/treatment-plans/:id/medications/:index/toggle
+ * Activar o suspender un medicamento del plan activo
+ */
+router.put('/:id/medications/:index/toggle',
+  requirePermission('clinical:write'),
+  validateParams(schemas.uuid),
+  requireCareTeamAccess(planPatientId),
+  validate(schemas.medicationToggle),
+  async (req: Request, res: Response) => {
+    try {
+      const { id, index } = req.params;
+      const { is_active } = req.body;
+      const medicationIndex = parseInt(index);
+
+      if (isNaN(medicationIndex)) {
+        return res.status(400).json(
+          createErrorResponse(
+            'INVALID_MEDICATION_INDEX',
+            'Índice de medicamento inválido',
+            { index },
+            400
+          )
+        );
+      }
+
+      const updatedPlan = await TreatmentPlanModel.toggleMedication(
+        id,
+        medicationIndex,
+        is_active,
+        req.user!.userId
+      );
+
+      if (!updatedPlan) {
+        return res.status(404).json(
+          createErrorResponse(
+            'TREATMENT_PLAN_NOT_FOUND',
+            'Plan de tratamiento no encontrado',
+            { treatmentPlanId: id },
+            404
+          )
+        );
+      }
+
+      res.json({
+        success: true,
+        data: updatedPlan
+      });
+
+    } catch (error) {
+      console.error('Error cambiando estado de medicamento:', error);
+
+      if (error instanceof Error && error.message.includes('modificado por otro usuario')) {
+        return res.status(409).json(
+          createErrorResponse(
+            'TREATMENT_PLAN_CONFLICT',
+            error.message,
+            { treatmentPlanId: req.params.id },
+            409
+          )
+        );
+      }
+
+      if (error instanceof Error) {
+        if (error.message.includes('plan de tratamiento activo')) {
+          return res.status(409).json(
+            createErrorResponse(
+              'TREATMENT_PLAN_NOT_ACTIVE',
+              error.message,
+              { treatmentPlanId: req.params.id },
+              409
+            )
+          );
+        }
+
+        if (error.message.includes('Medicamento no encontrado')) {
+          return res.status(404).json(
+            createErrorResponse(
+              'MEDICATION_NOT_FOUND',
+              error.message,
+              { index: req.params.index },
+              404
+            )
+          );
+        }
+      }
+
+      res.status(500).json(
+        createErrorResponse('TOGGLE_MEDICATION_ERROR', 'Error al cambiar estado del medicamento')
+      );
+    }
+  }
+);
+
+/**
+ * DELETE /api/v1/treatment-plans/:id
+ * Suspender el plan activo (se conserva en el historial)
+ */
+router.delete('/:id',
+  requirePermission('clinical:write'),
+  validateParams(schemas.uuid),
+  requireCareTeamAccess(planPatientId),
+  async (req: Request, res: Response) => {
+    try {
+      const { id } = req.params;
+
+      const success = await TreatmentPlanModel.discontinue(id);
+
+      if (!success) {
+        return res.status(404).json(
+          createErrorResponse(
+            'TREATMENT_PLAN_NOT_FOUND',
+            'Plan de tratamiento activo no encontrado',
+            { treatmentPlanId: id },
+            404
+          )
+        );
+      }
+
+      res.json({
+        success: true,
+        data: {
+          message: 'Plan de tratamiento suspendido exitosamente'
+        }
+      });
+
+    } catch (error) {
+      console.error('Error suspendiendo plan de tratamiento:', error);
+      res.status(500).json(
+        createErrorResponse('DISCONTINUE_TREATMENT_PLAN_ERROR', 'Error al suspender plan de tratamiento')
+      );
+    }
+  }
+);
+
+export default router;
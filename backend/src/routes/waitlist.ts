@@ -0,0 +1,254 @@
+import { Router, Request, Response } from 'express';
+import { authenticateToken, requirePermission } from '@/middleware/auth';
+import { validate, schemas, validateParams, validateQuery } from '@/middleware/validation';
+import { WaitlistModel } from '@/models/Waitlist';
+import { PatientModel } from '@/models/Patient';
+import { UserModel } from '@/models/User';
+import { createErrorResponse } from '@/middleware/errorHandler';
+import { WaitlistEntry, WaitlistEntryCreateRequest } from '@/types';
+
+const router = Router();
+
+// Aplicar autenticación a todas las rutas
+router.use(authenticateToken);
+
+// Errores de agenda al confirmar una reserva (el horario dejó de ser válido)
+const HOLD_ERROR_CODES: [string, string][] = [
+  ['expiró o ya fue resuelta', 'HOLD_NOT_ACTIVE'],
+  ['fechas pasadas', 'PAST_APPOINTMENT_DATE'],
+  ['Conflicto de horario', 'APPOINTMENT_CONFLICT'],
+  ['ya tiene una cita en ese horario', 'APPOINTMENT_CONFLICT'],
+  ['no forma parte del equipo de atención', 'PSYCHIATRIST_NOT_IN_CARE_TEAM']
+];
+
+const findHoldErrorCode = (message: string): string | undefined =>
+  HOLD_ERROR_CODES.find(([fragment]) => message.includes(fragment))?.[1];
+
+/**
+ * GET /api/v1/waitlist/holds
+ * Listar reservas vigentes pendientes de confirmación
+ */
+router.get('/holds',
+  requirePermission('appointments:read'),
+  validateQuery(schemas.waitlistQuery),
+  async (req: Request, res: Response) => {
+    try {
+      const holds = await WaitlistModel.findActiveHolds(req.query.psychiatrist_id as string | undefined);
+
+      res.json({
+        success: true,
+        data: holds
+      });
+
+    } catch (error) {
+      console.error('Error obteniendo reservas de la lista de espera:', error);
+      res.status(500).json(
+        createErrorResponse('FETCH_WAITLIST_HOLDS_ERROR', 'Error al obtener reservas')
+      );
+    }
+  }
+);
+
+/**
+ * POST /api/v1/waitlist/holds/:id/confirm
+ * Confirmar la reserva y crear la cita en un solo paso
+ */
+router.post('/holds/:id/confirm',
+  requirePermission('appointments:write'),
+  validateParams(schemas.uuid),
+  async (req: Request, res: Response) => {
+    try {
+      const result = await WaitlistModel.confirmHold(req.params.id, req.user!.userId);
+
+      res.status(201).json({
+        success: true,
+        data: result
+      });
+
+    } catch (error) {
+      console.error('Error confirmando reserva:', error);
+
+      const code = error instanceof Error ? findHoldErrorCode(error.message) : undefined;
+      if (code) {
+        const status = code === 'PAST_APPOINTMENT_DATE' ? 422 : 409;
+        return res.status(status).json(
+          createErrorResponse(code, (error as Error).message, { holdId: req.params.id }, status)
+        );
+      }
+
+      res.status(500).json(
+        createErrorResponse('CONFIRM_HOLD_ERROR', 'Error al confirmar reserva')
+      );
+    }
+  }
+);
+
+/**
+ * POST /api/v1/waitlist/holds/:id/release
+ * Liberar la reserva y ofrecer el horario al siguiente paciente en espera
+ */
+router.post('/holds/:id/release',
+  requirePermission('appointments:write'),
+  validateParams(schemas.uuid),
+  async (req: Request, res: Response) => {
+    try {
+      const result = await WaitlistModel.releaseHold(req.params.id, req.user!.userId);
+
+      res.json({
+        success: true,
+        data: result
+      });
+
+    } catch (error) {
+      console.error('Error liberando reserva:', error);
+
+      if (error instanceof Error && error.message.includes('expiró o ya fue resuelta')) {
+        return res.status(409).json(
+          createErrorResponse('HOLD_NOT_ACTIVE', error.message, { holdId: req.params.id }, 409)
+        );
+      }
+
+      res.status(500).json(
+        createErrorResponse('RELEASE_HOLD_ERROR', 'Error al liberar reserva')
+      );
+    }
+  }
+);
+
+/**
+ * GET /api/v1/waitlist
+ * Listar pacientes en la lista de espera
+ */
+router.get('/',
+  requirePermission('appointments:read'),
+  validateQuery(schemas.waitlistQuery),
+  async (req: Request, res: Response) => {
+    try {
+      const { status, psychiatrist_id, patient_id } = req.query;
+
+      const entries = await WaitlistModel.findEntries({
+        status: status as WaitlistEntry['status'] | undefined,
+        psychiatrist_id: psychiatrist_id as string | undefined,
+        patient_id: patient_id as string | undefined
+      });
+
+      res.json({
+        success: true,
+        data: entries
+      });
+
+    } catch (error) {
+      console.error('Error obteniendo lista de espera:', error);
+      res.status(500).json(
+        createErrorResponse('FETCH_WAITLIST_ERROR', 'Error al obtener lista de espera')
+      );
+    }
+  }
+);
+
+/**
+ * POST /api/v1/waitlist
+ * Agregar un paciente a la lista de espera
+ */
+router.post('/',
+  requirePermission('appointments:write'),
+  validate(schemas.waitlistEntryCreate),
+  async (req: Request, res: Response) => {
+    try {
+      const entryData: WaitlistEntryCreateRequest = req.body;
+
+      const patient = await PatientModel.findById(entryData.patient_id);
+      if (!patient) {
+        return res.status(404).json(
+          createErrorResponse(
+            'PATIENT_NOT_FOUND',
+            'Paciente no encontrado',
+            { patientId: entryData.patient_id },
+            404
+          )
+        );
+      }
+
+      if (entryData.psychiatrist_id) {
+        const psychiatrist = await UserModel.findById(entryData.psychiatrist_id);
+        if (!psychiatrist || psychiatrist.role !== 'psychiatrist') {
+          return res.status(404).json(
+            createErrorResponse(
+              'USER_NOT_FOUND',
+              'Psiquiatra no encontrado',
+              { psychiatristId: entryData.psychiatrist_id },
+              404
+            )
+          );
+        }
+      }
+
+      const entry = await WaitlistModel.createEntry(entryData, req.user!.userId);
+
+      res.status(201).json({
+        success: true,
+        data: entry
+      });
+
+    } catch (error) {
+      console.error('Error agregando a la lista de espera:', error);
+
+      if (error instanceof Error) {
+        if (error.message.includes('posterior a la hora mínima')) {
+          return res.status(422).json(
+            createErrorResponse('INVALID_WAITLIST_WINDOW', error.message, null, 422)
+          );
+        }
+
+        if (error.message.includes('ya está en la lista de espera')) {
+          return res.status(409).json(
+            createErrorResponse('WAITLIST_ENTRY_EXISTS', error.message, null, 409)
+          );
+        }
+      }
+
+      res.status(500).json(
+        createErrorResponse('CREATE_WAITLIST_ENTRY_ERROR', 'Error al agregar a la lista de espera')
+      );
+    }
+  }
+);
+
+/**
+ * DELETE /api/v1/waitlist/:id
+ * Retirar a un paciente de la lista de espera
+ */
+router.delete('/:id',
+  requirePermission('appointments:write'),
+  validateParams(schemas.uuid),
+  async (req: Request, res: Response) => {
+    try {
+      const entry = await WaitlistModel.removeEntry(req.params.id, req.user!.userId);
+
+      if (!entry) {
+        return res.status(404).json(
+          createErrorResponse(
+            'WAITLIST_ENTRY_NOT_FOUND',
+            'Paciente no encontrado en la lista de espera',
+            { entryId: req.params.id },
+            404
+          )
+        );
+      }
+
+      res.json({
+        success: true,
+        message: 'Paciente retirado de la lista de espera',
+        data: entry
+      });
+
+    } catch (error) {
+      console.error('Error retirando de la lista de espera:', error);
+      res.status(500).json(
+        createErrorResponse('DELETE_WAITLIST_ENTRY_ERROR', 'Error al retirar de la lista de espera')
+      );
+    }
+  }
+);
+
+export default router;
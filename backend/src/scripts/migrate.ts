@@ -100,36 +100,27 @@ class MigrationRunner {
       const filePath = join(this.migrationsDir, filename);
       const sqlContent = readFileSync(filePath, 'utf8');
 
-      // Iniciar transacción
-      await database.query('BEGIN');
-
-      try {
+      // Ejecutar la migración y su registro en una transacción sobre un
+      // único cliente; cualquier error revierte la migración completa
+      await database.withTransaction(async transaction => {
         // Dividir el SQL en statements individuales
         const statements = this.splitSQLStatements(sqlContent);
 
         // Ejecutar cada statement
         for (const statement of statements) {
           if (statement.trim()) {
-            await database.query(statement);
+            await transaction.query(statement);
           }
         }
 
         // Registrar la migración como ejecutada
-        await database.query(
+        await transaction.query(
           'INSERT INTO schema_migrations (filename) VALUES ($1)',
           [filename]
         );
+      });
 
-        // Confirmar transacción
-        await database.query('COMMIT');
-        
-        console.log(`✅ Migración completada: ${filename}`);
-
-      } catch (error) {
-        // Revertir transacción en caso de error
-        await database.query('ROLLBACK');
-        throw error;
-      }
+      console.log(`✅ Migración completada: ${filename}`);
 
     } catch (error) {
       console.error(`❌ Error ejecutando migración ${filename}:`, error);
@@ -150,22 +141,23 @@ class MigrationRunner {
       const char = sqlContent[i];
       const nextChar = sqlContent[i + 1];
 
-      // Manejar dollar quoting
+      // Manejar dollar quoting ($$ o $etiqueta$)
       if (!inSingleQuote && !inDoubleQuote && char === '$') {
-        if (!inDollarQuote) {
-          // Iniciar dollar quote
-          const start = i;
-          while (sqlContent[i + 1] !== '$' && i < sqlContent.length - 1) {
-            i++;
-          }
-          dollarQuoteTag = sqlContent.substring(start, i + 1);
-          inDollarQuote = true;
-        } else {
-          // Fin del dollar quote
-          if (sqlContent.substring(i, i + dollarQuoteTag.length) === dollarQuoteTag) {
+        const tagMatch = sqlContent.substring(i).match(/^\$[A-Za-z_]*\$/);
+        if (tagMatch) {
+          const tag = tagMatch[0];
+          if (!inDollarQuote) {
+            // Iniciar dollar quote
+            dollarQuoteTag = tag;
+            inDollarQuote = true;
+          } else if (tag === dollarQuoteTag) {
+            // Fin del dollar quote
             inDollarQuote = false;
             dollarQuoteTag = '';
           }
+          currentStatement += tag;
+          i += tag.length - 1;
+          continue;
         }
       }
 
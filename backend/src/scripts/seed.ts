@@ -2,12 +2,16 @@ import bcrypt from 'bcryptjs';
 import { v4 as uuidv4 } from 'uuid';
 import database from '@/config/database';
 import config from '@/config';
+import { HolidayModel } from '@/models/Holiday';
 
 class SeedData {
   async seed(): Promise<void> {
     try {
       console.log('🌱 Iniciando seed de datos de prueba...');
 
+      // El calendario de feriados se carga siempre (la carga es idempotente)
+      await this.seedHolidays();
+
       // Verificar si ya existen datos
       const existingUsers = await this.checkExistingData();
       if (existingUsers) {
@@ -32,6 +36,15 @@ class SeedData {
     }
   }
 
+  private async seedHolidays(): Promise<void> {
+    const currentYear = new Date().getFullYear();
+
+    for (const year of [currentYear, currentYear + 1]) {
+      const created = await HolidayModel.seedYear(year);
+      console.log(`✅ ${created.length} feriados de ${year} cargados (${HolidayModel.countryCode})`);
+    }
+  }
+
   private async checkExistingData(): Promise<boolean> {
     try {
       const query = 'SELECT COUNT(*) as count FROM users WHERE email = $1';
@@ -185,6 +198,12 @@ class SeedData {
       ];
 
       await database.query(query, values);
+
+      // El psiquiatra que lo registra es su psiquiatra principal
+      await database.query(
+        `INSERT INTO patient_care_team_members (patient_id, user_id, role, added_by) VALUES ($1, $2, 'primary', $2)`,
+        [patientId, createdBy]
+      );
       patientIds.push(patientId);
     }
 
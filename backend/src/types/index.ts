@@ -42,14 +42,153 @@ export interface Appointment {
   type: 'consultation' | 'follow_up' | 'emergency' | 'evaluation' | 'therapy' | 'medication_review';
   status: 'scheduled' | 'confirmed' | 'in_progress' | 'completed' | 'cancelled' | 'no_show';
   notes?: string;
+  series_id?: string | null; // serie recurrente a la que pertenece
+  series_index?: number | null; // posición dentro de la serie, desde 0
   created_at: Date;
   updated_at: Date;
+  // Relación opcional (detalle de la cita)
+  session?: ConsultationSession | null;
 }
 
+export type AppointmentStatus = Appointment['status'];
+
+// Origen de un cambio: personal de la clínica o enlace enviado al paciente
+export type ChangeSource = 'staff' | 'patient_link';
+
+export interface AppointmentStatusHistory {
+  id: string;
+  appointment_id: string;
+  from_status: AppointmentStatus | null; // null: creación de la cita
+  to_status: AppointmentStatus;
+  reason?: string;
+  changed_by: string | null; // null: cambio hecho por el paciente
+  source: ChangeSource;
+  created_at: Date;
+}
+
+export interface AppointmentStatusUpdateRequest {
+  status: AppointmentStatus;
+  reason?: string;
+  scope?: SeriesScope;
+}
+
+// Solicitud de reprogramación enviada por el paciente
+export interface RescheduleRequest {
+  id: string;
+  appointment_id: string;
+  patient_id: string;
+  psychiatrist_id: string; // psiquiatra de la cita
+  preferred_times?: string;
+  message?: string;
+  status: 'pending' | 'resolved' | 'dismissed';
+  source: ChangeSource;
+  resolution_notes?: string;
+  resolved_by?: string | null;
+  resolved_at?: Date | null;
+  created_at: Date;
+  updated_at: Date;
+}
+
+export interface RescheduleRequestCreateRequest {
+  preferred_times?: string;
+  message?: string;
+}
+
+// Datos de la cita visibles para el paciente desde su enlace
+export interface PatientAppointmentView {
+  appointment_date: string; // YYYY-MM-DD
+  start_time: string; // HH:mm
+  end_time: string; // HH:mm
+  duration_minutes: number;
+  type: Appointment['type'];
+  status: AppointmentStatus;
+  psychiatrist_name: string;
+  patient_first_name: string;
+  can_confirm: boolean;
+  can_cancel: boolean;
+  can_request_reschedule: boolean;
+  reschedule_request_pending: boolean;
+}
+
+// Búsqueda de turnos libres entre varios psiquiatras y días
+export type TimeOfDay = 'morning' | 'afternoon' | 'evening';
+
+export interface AvailabilitySearchRequest {
+  from: string; // YYYY-MM-DD
+  to: string; // YYYY-MM-DD
+  duration_minutes: number;
+  type?: Appointment['type'];
+  psychiatrist_ids?: string[]; // vacío: todos los psiquiatras activos
+  time_of_day?: TimeOfDay;
+  limit: number;
+}
+
+export interface AvailableSlot {
+  rank: number; // 1: primera opción
+  psychiatrist_id: string;
+  psychiatrist_name: string;
+  appointment_date: string; // YYYY-MM-DD
+  start_time: string; // HH:mm
+  end_time: string; // HH:mm
+  duration_minutes: number;
+  type?: Appointment['type'];
+}
+
+export type UserRole = User['role'];
+
+// Permisos de la matriz de control de acceso por rol (utils/permissions)
+export type Permission =
+  | 'patients:read'
+  | 'patients:write'
+  | 'patients:delete'
+  | 'care_team:manage'
+  | 'emergency_access:request'
+  | 'emergency_access:review'
+  | 'appointments:read'
+  | 'appointments:write'
+  | 'schedules:read'
+  | 'schedules:manage'
+  | 'holidays:manage'
+  | 'clinical:read'
+  | 'clinical:write'
+  | 'clinical:delete'
+  | 'templates:read'
+  | 'templates:write'
+  | 'dashboard:read'
+  | 'audit:read';
+
 export interface AuthPayload {
   userId: string;
   email: string;
   role: string;
+  sessionId?: string; // familia de refresh tokens del inicio de sesión
+}
+
+export type RefreshTokenRevokedReason = 'rotated' | 'logout' | 'revoked' | 'reuse_detected';
+
+export interface RefreshToken {
+  id: string; // jti del token firmado
+  user_id: string;
+  family_id: string;
+  replaced_by?: string | null;
+  user_agent?: string | null;
+  ip_address?: string | null;
+  expires_at: Date;
+  revoked_at?: Date | null;
+  revoked_reason?: RefreshTokenRevokedReason | null;
+  created_at: Date;
+  updated_at: Date;
+}
+
+// Sesión activa de un usuario en un dispositivo
+export interface AuthSession {
+  id: string; // familia de refresh tokens
+  user_agent?: string | null;
+  ip_address?: string | null;
+  started_at: Date;
+  last_refreshed_at: Date;
+  expires_at: Date;
+  current: boolean;
 }
 
 export interface LoginRequest {
@@ -78,6 +217,7 @@ export interface PatientCreateRequest {
   emergency_contact_phone?: string;
   insurance_info?: string;
   referring_doctor?: string;
+  primary_psychiatrist_id?: string; // si lo registra un asistente
 }
 
 export interface PatientUpdateRequest extends Partial<PatientCreateRequest> {
@@ -91,12 +231,59 @@ export interface AppointmentCreateRequest {
   duration_minutes: number;
   type: 'consultation' | 'follow_up' | 'emergency' | 'evaluation' | 'therapy' | 'medication_review';
   notes?: string;
+  psychiatrist_id?: string; // por defecto, el psiquiatra que reserva
 }
 
 export interface AppointmentUpdateRequest extends Partial<AppointmentCreateRequest> {
   status?: 'scheduled' | 'confirmed' | 'in_progress' | 'completed' | 'cancelled' | 'no_show';
 }
 
+// Series de citas recurrentes
+export type RecurrenceFrequency = 'weekly' | 'biweekly' | 'monthly';
+
+export interface RecurrenceRule {
+  frequency: RecurrenceFrequency;
+  count?: number; // número de citas
+  until?: string; // última fecha posible (YYYY-MM-DD)
+}
+
+// Alcance de una edición o cancelación sobre una cita de una serie
+export type SeriesScope = 'this' | 'following' | 'all';
+
+export interface AppointmentSeries {
+  id: string;
+  patient_id: string;
+  psychiatrist_id: string;
+  frequency: RecurrenceFrequency;
+  occurrence_count?: number | null;
+  until_date?: Date | null;
+  start_date: Date;
+  start_time: string;
+  duration_minutes: number;
+  type: Appointment['type'];
+  notes?: string;
+  created_at: Date;
+  updated_at: Date;
+}
+
+export interface AppointmentSeriesCreateRequest extends AppointmentCreateRequest {
+  recurrence: RecurrenceRule;
+  skip_conflicts?: boolean; // crear las citas sin conflicto y omitir el resto
+}
+
+export interface SeriesOccurrenceConflict {
+  series_index: number;
+  appointment_date: string;
+  message: string;
+  code?: string;
+}
+
+export interface AppointmentSeriesResult {
+  series: AppointmentSeries | null; // null si no se aplicó ningún cambio
+  appointments: Appointment[];
+  conflicts: SeriesOccurrenceConflict[];
+}
+
 export interface PaginationOptions {
   page: number;
   limit: number;
@@ -124,6 +311,7 @@ export interface SearchFilters {
   date_to?: string;
   is_active?: boolean; // para pacientes
   gender?: string; // para pacientes
+  care_team_user_id?: string; // pacientes del equipo de atención del usuario
 }
 
 export interface ApiResponse<T = any> {
@@ -187,8 +375,14 @@ export interface ConsultationSession {
   mental_state_examination?: MentalStateExamination;
   treatment_notes?: string;
   risk_assessment?: RiskAssessment;
+  gaf_score?: number; // Evaluación global del funcionamiento (1-100)
   next_session_date?: Date;
-  session_status: 'scheduled' | 'completed' | 'cancelled' | 'no_show';
+  session_status: 'draft' | 'scheduled' | 'completed' | 'cancelled' | 'no_show';
+  appointment_id?: string | null; // cita que originó la sesión
+  // Firma electrónica (la sesión es inmutable una vez firmada)
+  signed_by?: string;
+  signed_at?: Date;
+  content_hash?: string;
   created_at: Date;
   updated_at: Date;
   // Relaciones opcionales (cuando se hace JOIN)
@@ -205,8 +399,10 @@ export interface ConsultationSessionCreateRequest {
   mental_state_examination?: MentalStateExamination;
   treatment_notes?: string;
   risk_assessment?: RiskAssessment;
+  gaf_score?: number;
   next_session_date?: string; // ISO string
-  session_status?: 'scheduled' | 'completed' | 'cancelled' | 'no_show';
+  session_status?: 'draft' | 'scheduled' | 'completed' | 'cancelled' | 'no_show';
+  appointment_id?: string;
 }
 
 export interface ConsultationSessionUpdateRequest {
@@ -216,8 +412,55 @@ export interface ConsultationSessionUpdateRequest {
   mental_state_examination?: MentalStateExamination;
   treatment_notes?: string;
   risk_assessment?: RiskAssessment;
+  gaf_score?: number;
   next_session_date?: string; // ISO string
-  session_status?: 'scheduled' | 'completed' | 'cancelled' | 'no_show';
+  session_status?: 'draft' | 'scheduled' | 'completed' | 'cancelled' | 'no_show';
+}
+
+export interface SessionAddendum {
+  id: string;
+  session_id: string;
+  sequence: number;
+  reason: string;
+  content: string;
+  signed_by: string;
+  signed_at: Date;
+  previous_hash: string;
+  content_hash: string;
+  created_at: Date;
+}
+
+export interface SessionAddendumCreateRequest {
+  reason: string;
+  content: string;
+}
+
+export interface SessionSignatureVerification {
+  session_id: string;
+  signed: boolean;
+  valid: boolean;
+  stored_hash: string | null;
+  computed_hash: string;
+  addenda: Array<{
+    id: string;
+    sequence: number;
+    valid: boolean;
+  }>;
+}
+
+export interface ProgressFactor {
+  signal: 'risk' | 'gaf' | 'symptoms' | 'attendance';
+  score: number; // 0-100, mayor es mejor
+  weight: number; // Peso efectivo en el puntaje global
+  trend: 'improving' | 'stable' | 'worsening';
+  detail: string;
+}
+
+export interface TreatmentProgress {
+  score: number | null; // 0-100, null sin datos suficientes
+  trend: 'improving' | 'stable' | 'worsening';
+  label: string;
+  factors: ProgressFactor[];
 }
 
 export interface ClinicalSummary {
@@ -225,7 +468,7 @@ export interface ClinicalSummary {
   lastSessionDate: Date | null;
   averageSessionDuration: number;
   commonSymptoms: string[];
-  treatmentProgress: string;
+  treatmentProgress: TreatmentProgress;
 }
 
 export interface PatientClinicalHistory {
@@ -234,30 +477,473 @@ export interface PatientClinicalHistory {
   summary: ClinicalSummary;
 }
 
-// Tipos para tipos de Supabase (si se usa supabase-js con tipos generados)
-export interface Database {
-  public: {
-    Tables: {
-      users: {
-        Row: User;
-        Insert: Omit<User, 'id' | 'created_at' | 'updated_at'>;
-        Update: Partial<Omit<User, 'id' | 'created_at' | 'updated_at'>>;
-      };
-      patients: {
-        Row: Patient;
-        Insert: Omit<Patient, 'id' | 'created_at' | 'updated_at'>;
-        Update: Partial<Omit<Patient, 'id' | 'created_at' | 'updated_at'>>;
-      };
-      appointments: {
-        Row: Appointment;
-        Insert: Omit<Appointment, 'id' | 'created_at' | 'updated_at'>;
-        Update: Partial<Omit<Appointment, 'id' | 'created_at' | 'updated_at'>>;
-      };
-      consultation_sessions: {
-        Row: ConsultationSession;
-        Insert: Omit<ConsultationSession, 'id' | 'created_at' | 'updated_at'>;
-        Update: Partial<Omit<ConsultationSession, 'id' | 'created_at' | 'updated_at'>>;
-      };
-    };
+// Planes de tratamiento (versionados por paciente)
+
+export interface Medication {
+  name: string;
+  dose: string;
+  schedule: string;
+  duration?: string;
+  expected_response?: string;
+  monitoring?: string;
+  start_date: string; // YYYY-MM-DD
+  end_date?: string; // YYYY-MM-DD
+  is_active: boolean;
+}
+
+export interface Pharmacotherapy {
+  rationale?: string;
+  target_symptoms?: string;
+  medications: Medication[];
+}
+
+export interface Psychotherapy {
+  modality: 'Cognitiva-Conductual' | 'Interpersonal' | 'Psicodinámica' | 'DBT' | 'ACT' | 'Otro';
+  frequency?: string;
+  focus_areas?: string;
+  homework?: string;
+}
+
+export interface TreatmentPlan {
+  id: string;
+  patient_id: string;
+  psychiatrist_id: string;
+  session_id?: string;
+  version: number;
+  is_active: boolean;
+  pharmacotherapy?: Pharmacotherapy;
+  psychotherapy?: Psychotherapy;
+  lifestyle_interventions?: string[];
+  short_term_goals?: string;
+  mid_term_goals?: string;
+  long_term_goals?: string;
+  improvement_metrics?: string;
+  follow_up_schedule?: string;
+  superseded_at?: Date;
+  created_at: Date;
+  updated_at: Date;
+}
+
+export interface TreatmentPlanCreateRequest {
+  patient_id: string;
+  session_id?: string;
+  pharmacotherapy?: {
+    rationale?: string;
+    target_symptoms?: string;
+    medications: Omit<Medication, 'start_date' | 'end_date' | 'is_active'>[];
+  };
+  psychotherapy?: Psychotherapy;
+  lifestyle_interventions?: string[];
+  short_term_goals?: string;
+  mid_term_goals?: string;
+  long_term_goals?: string;
+  improvement_metrics?: string;
+  follow_up_schedule?: string;
+}
+
+export type TreatmentPlanUpdateRequest = Partial<Omit<TreatmentPlanCreateRequest, 'patient_id'>>;
+
+// Seguimiento de síntomas
+
+export interface SymptomTracking {
+  id: string;
+  patient_id: string;
+  recorded_by: string; // User ID
+  session_id?: string;
+  tracking_date: Date;
+  symptom_type: string;
+  severity: number; // 1-10
+  notes?: string;
+  created_at: Date;
+}
+
+export interface SymptomTrackingCreateRequest {
+  patient_id: string;
+  session_id?: string;
+  tracking_date: string; // YYYY-MM-DD
+  symptom_type: string;
+  severity: number;
+  notes?: string;
+}
+
+export interface SymptomTrend {
+  symptom_type: string;
+  dates: string[]; // YYYY-MM-DD, una entrada por día
+  severities: number[]; // promedio diario
+  average: number;
+  slope_per_day: number;
+  r_squared: number;
+  trend: 'improving' | 'stable' | 'worsening';
+}
+
+// Plantillas clínicas
+
+export type TemplateSessionData = Omit<
+  ConsultationSessionCreateRequest,
+  'patient_id' | 'session_date' | 'next_session_date' | 'gaf_score'
+>;
+
+export interface ClinicalTemplate {
+  id: string;
+  template_name: string;
+  template_type: 'diagnosis' | 'session_type' | 'custom' | 'emergency';
+  template_data: TemplateSessionData;
+  created_by: string; // User ID
+  is_shared: boolean;
+  usage_count: number;
+  last_used?: Date;
+  created_at: Date;
+  updated_at: Date;
+}
+
+export interface ClinicalTemplateCreateRequest {
+  template_name: string;
+  template_type: ClinicalTemplate['template_type'];
+  template_data: TemplateSessionData;
+  is_shared?: boolean;
+}
+
+export type ClinicalTemplateUpdateRequest = Partial<ClinicalTemplateCreateRequest>;
+
+// Diagnósticos y catálogo CIE-10 / DSM-5
+
+export interface DiagnosisCode {
+  code: string;
+  system: 'ICD-10' | 'DSM-5';
+  description: string;
+  category: string;
+}
+
+export interface DiagnosisCodeSearchResult extends DiagnosisCode {
+  score: number;
+}
+
+export interface DiagnosisRecord {
+  id: string;
+  patient_id: string;
+  recorded_by: string; // User ID
+  status: 'active' | 'resolved';
+  primary_diagnosis: {
+    code: string;
+    description: string;
+    certainty: 'Confirmado' | 'Provisional' | 'Regla de salida';
+    date_identified: string; // YYYY-MM-DD
+    date_resolved?: string; // YYYY-MM-DD
+    supporting_evidence: string;
   };
-}
\ No newline at end of file
+  comorbidities: Array<{
+    diagnosis: string;
+    relationship: 'Primario' | 'Secundario';
+    impact: string;
+  }>;
+  differential_diagnoses: Array<{
+    diagnosis: string;
+    ruled_out_by: string;
+    pending_tests: string;
+  }>;
+  created_at: Date;
+  updated_at: Date;
+}
+
+export interface DiagnosisCreateRequest {
+  patient_id: string;
+  primary_diagnosis: {
+    code: string;
+    description?: string;
+    certainty: 'Confirmado' | 'Provisional' | 'Regla de salida';
+    date_identified: string;
+    supporting_evidence: string;
+  };
+  comorbidities?: DiagnosisRecord['comorbidities'];
+  differential_diagnoses?: DiagnosisRecord['differential_diagnoses'];
+}
+
+export type DiagnosisUpdateRequest = Partial<Omit<DiagnosisCreateRequest, 'patient_id'>>;
+
+// Asistente clínico (resúmenes, sugerencias y análisis de progreso)
+
+export interface SessionSummary {
+  summary: string;
+  key_points: string[];
+  recommendations: string[];
+  risk_assessment: string;
+}
+
+export interface DiagnosisSuggestion {
+  code: string;
+  description: string;
+  probability: number; // 0-1
+  rationale: string;
+}
+
+export interface ProgressAnalysis {
+  overall_trend: 'improving' | 'stable' | 'worsening';
+  improvement_percentage: number;
+  key_metrics: {
+    mood: number | null; // 0-100, mayor es mejor
+    anxiety: number | null; // 0-100, mayor es mejor
+    functioning: number | null; // 0-100, mayor es mejor
+  };
+  recommendations: string[];
+}
+
+// Línea de tiempo del paciente
+
+export type TimelineEventType =
+  | 'appointment'
+  | 'session'
+  | 'session_signed'
+  | 'diagnosis_identified'
+  | 'diagnosis_resolved'
+  | 'treatment_plan_version'
+  | 'treatment_plan_discontinued'
+  | 'medication_started'
+  | 'medication_stopped';
+
+export interface TimelineEvent {
+  id: string; // único dentro de la línea de tiempo (tipo + recurso de origen)
+  type: TimelineEventType;
+  occurred_at: string; // ISO
+  title: string;
+  description?: string;
+  source: {
+    resource: 'appointment' | 'session' | 'diagnosis' | 'treatment_plan';
+    id: string;
+  };
+  data: Record<string, unknown>;
+}
+
+export interface TimelineQuery {
+  page: number;
+  limit: number;
+  sortOrder: 'ASC' | 'DESC';
+  types?: TimelineEventType[];
+}
+
+export interface PatientTimeline {
+  events: TimelineEvent[];
+  sessions: ConsultationSession[]; // sesiones incluidas en la página actual
+  medications: TimelineEvent[]; // inicios y suspensiones de la página actual
+  pagination: PaginatedResponse<TimelineEvent>['pagination'];
+}
+
+// Horario de atención por psiquiatra
+export interface WorkingHours {
+  weekday: number; // 0 = domingo, 6 = sábado
+  start_time: string; // HH:mm
+  end_time: string; // HH:mm
+}
+
+export interface ScheduleBreak {
+  weekday?: number | null; // sin día: aplica todos los días
+  start_time: string;
+  end_time: string;
+  label?: string;
+}
+
+export interface PsychiatristSchedule {
+  psychiatrist_id: string;
+  slot_minutes: number;
+  min_lead_minutes: number;
+  buffer_minutes: number;
+  working_hours: WorkingHours[];
+  breaks: ScheduleBreak[];
+  is_default: boolean; // el psiquiatra no ha configurado su horario
+}
+
+export interface PsychiatristScheduleUpdateRequest {
+  slot_minutes: number;
+  min_lead_minutes: number;
+  buffer_minutes: number;
+  working_hours: WorkingHours[];
+  breaks?: ScheduleBreak[];
+}
+
+// Feriados y periodos no disponibles
+export interface Holiday {
+  id: string;
+  holiday_date: string; // YYYY-MM-DD
+  name: string;
+  country_code: string;
+  source: 'calendar' | 'custom';
+  created_at: Date;
+}
+
+export interface HolidayCreateRequest {
+  holiday_date: string;
+  name: string;
+}
+
+export type TimeOffKind = 'vacation' | 'sick_leave' | 'training' | 'personal' | 'blocked';
+
+export interface TimeOff {
+  id: string;
+  psychiatrist_id?: string | null; // sin psiquiatra: bloqueo de toda la clínica
+  starts_at: Date;
+  ends_at: Date;
+  kind: TimeOffKind;
+  reason?: string;
+  created_by: string;
+  created_at: Date;
+  updated_at: Date;
+}
+
+export interface TimeOffCreateRequest {
+  psychiatrist_id?: string | null;
+  starts_at: string;
+  ends_at: string;
+  kind: TimeOffKind;
+  reason?: string;
+}
+
+// Lista de espera
+export interface WaitlistEntry {
+  id: string;
+  patient_id: string;
+  psychiatrist_id?: string | null; // sin psiquiatra: cualquiera
+  preferred_weekdays: number[]; // vacío: cualquier día
+  earliest_time?: string | null; // HH:mm
+  latest_time?: string | null; // HH:mm
+  duration_minutes: number;
+  type: Appointment['type'];
+  priority: number;
+  notes?: string;
+  status: 'waiting' | 'offered' | 'booked' | 'removed';
+  created_by: string;
+  created_at: Date;
+  updated_at: Date;
+}
+
+export interface WaitlistEntryCreateRequest {
+  patient_id: string;
+  psychiatrist_id?: string | null;
+  preferred_weekdays?: number[];
+  earliest_time?: string;
+  latest_time?: string;
+  duration_minutes?: number;
+  type?: Appointment['type'];
+  priority?: number;
+  notes?: string;
+}
+
+// Horario liberado reservado temporalmente para un paciente en espera
+export interface WaitlistHold {
+  id: string;
+  entry_id: string;
+  psychiatrist_id: string;
+  appointment_date: Date;
+  start_time: string;
+  end_time: string;
+  slot_end_time: string; // fin del horario liberado
+  source_appointment_id?: string | null; // cita cancelada que liberó el horario
+  expires_at: Date;
+  status: 'held' | 'confirmed' | 'released' | 'expired';
+  appointment_id?: string | null; // cita creada al confirmar
+  resolved_by?: string | null;
+  created_at: Date;
+  updated_at: Date;
+  // Relación opcional
+  entry?: WaitlistEntry;
+}
+
+// Recordatorios de citas
+export type NotificationChannelName = 'email' | 'sms' | 'whatsapp' | 'file';
+
+export interface NotificationMessage {
+  to: string; // correo o teléfono según el canal
+  subject?: string; // solo correo
+  body: string;
+}
+
+export interface NotificationDelivery {
+  id: string;
+  appointment_id: string;
+  patient_id: string;
+  reminder_key: string; // p. ej. 48h, 2h
+  channel: NotificationChannelName;
+  recipient?: string | null;
+  status: 'sent' | 'failed' | 'skipped';
+  attempt: number;
+  provider_message_id?: string | null;
+  error?: string | null;
+  created_at: Date;
+}
+
+// Bitácora de auditoría
+export type AuditAction = 'read' | 'create' | 'update' | 'delete' | 'export';
+
+export interface AuditLogEntry {
+  id: string;
+  sequence: number;
+  occurred_at: Date;
+  user_id?: string | null;
+  user_role?: string | null;
+  action: AuditAction;
+  resource_type: string;
+  resource_id?: string | null;
+  patient_id?: string | null;
+  method?: string | null;
+  route?: string | null;
+  status_code?: number | null;
+  request_id?: string | null;
+  ip_address?: string | null;
+  emergency_access_id?: string | null; // lectura con acceso de emergencia
+  previous_hash: string;
+  hash: string;
+}
+
+export type AuditEvent = Omit<AuditLogEntry, 'id' | 'sequence' | 'occurred_at' | 'previous_hash' | 'hash'>;
+
+export interface AuditChainVerification {
+  valid: boolean;
+  entries_checked: number;
+  last_sequence: number | null;
+  last_hash: string | null;
+  broken_at?: number; // primera secuencia con problema
+  problem?: string;
+}
+
+// Equipo de atención del paciente
+export type CareTeamRole = 'primary' | 'covering' | 'assistant';
+
+export interface CareTeamMember {
+  id: string;
+  patient_id: string;
+  user_id: string;
+  role: CareTeamRole;
+  starts_on: Date;
+  ends_on?: Date | null; // sin fecha de fin: participación vigente
+  added_by?: string | null;
+  created_at: Date;
+  updated_at: Date;
+  // Relación opcional
+  user?: Pick<User, 'id' | 'email' | 'full_name' | 'role'>;
+}
+
+export interface CareTeamMemberCreateRequest {
+  user_id: string;
+  role: CareTeamRole;
+  starts_on?: string; // YYYY-MM-DD, por defecto hoy
+  ends_on?: string | null;
+}
+
+export type CareTeamMemberUpdateRequest = Partial<Omit<CareTeamMemberCreateRequest, 'user_id'>>;
+
+// Acceso de emergencia a un paciente fuera del equipo de atención
+export interface EmergencyAccessGrant {
+  id: string;
+  patient_id: string;
+  user_id: string;
+  reason: string;
+  expires_at: Date;
+  revoked_at?: Date | null;
+  revoked_by?: string | null;
+  created_at: Date;
+  updated_at: Date;
+}
+
+export interface EmergencyAccessRequest {
+  patient_id: string;
+  reason: string;
+  duration_minutes?: number;
+}
@@ -0,0 +1,62 @@
+import jwt from 'jsonwebtoken';
+import config from '@/config';
+import { Appointment } from '@/types';
+import { appointmentStartsAt } from '@/utils/schedule';
+
+const LINK_TOKEN_TYPE = 'appointment_link';
+
+export interface AppointmentLinkPayload {
+  appointmentId: string;
+  startsAt: string; // inicio de la cita al emitir el enlace (ISO)
+  type: string;
+}
+
+export interface AppointmentLink {
+  token: string;
+  expires_at: Date;
+  url: string | null; // solo si hay una página pública configurada
+}
+
+/**
+ * Emitir el enlace firmado de una cita para el paciente. Vence al comenzar
+ * la cita y deja de valer si la cita se reprograma.
+ */
+export const createAppointmentLink = (appointment: Appointment): AppointmentLink => {
+  const startsAt = appointmentStartsAt(appointment);
+  const secondsLeft = Math.floor((startsAt.getTime() - Date.now()) / 1000);
+
+  if (secondsLeft <= 0) {
+    throw new Error('La cita ya comenzó; no se puede generar el enlace');
+  }
+
+  const payload: AppointmentLinkPayload = {
+    appointmentId: appointment.id,
+    startsAt: startsAt.toISOString(),
+    type: LINK_TOKEN_TYPE
+  };
+  const token = jwt.sign(payload, config.patientLinks.secret, { expiresIn: secondsLeft });
+
+  return {
+    token,
+    expires_at: startsAt,
+    url: config.patientLinks.portalUrl ? `${config.patientLinks.portalUrl.replace(/\/$/, '')}/${token}` : null
+  };
+};
+
+/**
+ * Leer un enlace firmado; null si la firma no es válida o venció
+ */
+export const readAppointmentLink = (token: string): AppointmentLinkPayload | null => {
+  try {
+    const payload = jwt.verify(token, config.patientLinks.secret) as AppointmentLinkPayload;
+    return payload.type === LINK_TOKEN_TYPE && payload.appointmentId ? payload : null;
+  } catch {
+    return null;
+  }
+};
+
+/**
+ * El enlace sigue valiendo solo si la cita mantiene el horario con que se emitió
+ */
+export const linkMatchesAppointment = (link: AppointmentLinkPayload, appointment: Appointment): boolean =>
+  link.appointmentId === appointment.id && appointmentStartsAt(appointment).toISOString() === link.startsAt;
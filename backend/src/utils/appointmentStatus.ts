@@ -0,0 +1,61 @@
+import { Appointment, AppointmentStatus } from '@/types';
+
+/**
+ * Transiciones permitidas desde cada estado. Completada e inasistencia son
+ * finales; una cita cancelada solo puede volver a programarse.
+ */
+export const APPOINTMENT_STATUS_TRANSITIONS: Record<AppointmentStatus, AppointmentStatus[]> = {
+  scheduled: ['confirmed', 'in_progress', 'cancelled', 'no_show'],
+  confirmed: ['scheduled', 'in_progress', 'cancelled', 'no_show'],
+  in_progress: ['completed'],
+  completed: [],
+  cancelled: ['scheduled'],
+  no_show: []
+};
+
+// Estados que exigen registrar el motivo
+export const REASON_REQUIRED_STATUSES: AppointmentStatus[] = ['cancelled', 'no_show'];
+
+export const STATUS_LABELS: Record<AppointmentStatus, string> = {
+  scheduled: 'programada',
+  confirmed: 'confirmada',
+  in_progress: 'en curso',
+  completed: 'completada',
+  cancelled: 'cancelada',
+  no_show: 'inasistencia'
+};
+
+export const APPOINTMENT_TYPE_LABELS: Record<Appointment['type'], string> = {
+  consultation: 'Consulta',
+  follow_up: 'Seguimiento',
+  emergency: 'Emergencia',
+  evaluation: 'Evaluación',
+  therapy: 'Terapia',
+  medication_review: 'Revisión de medicación'
+};
+
+export const canTransition = (from: AppointmentStatus, to: AppointmentStatus): boolean =>
+  APPOINTMENT_STATUS_TRANSITIONS[from].includes(to);
+
+/**
+ * Validar un cambio de estado; devuelve la descripción del problema o null
+ */
+export const findTransitionProblem = (
+  from: AppointmentStatus,
+  to: AppointmentStatus,
+  reason?: string
+): string | null => {
+  if (!canTransition(from, to)) {
+    const allowed = APPOINTMENT_STATUS_TRANSITIONS[from].map(status => STATUS_LABELS[status]);
+    return `Transición de estado no permitida: de ${STATUS_LABELS[from]} a ${STATUS_LABELS[to]}` +
+      (allowed.length > 0 ? ` (permitidas: ${allowed.join(', ')})` : ' (la cita está en un estado final)');
+  }
+
+  if (REASON_REQUIRED_STATUSES.includes(to) && !reason?.trim()) {
+    return to === 'cancelled'
+      ? 'Debe indicar el motivo de la cancelación'
+      : 'Debe indicar el motivo de la inasistencia';
+  }
+
+  return null;
+};
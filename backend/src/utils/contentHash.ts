@@ -0,0 +1,36 @@
+import { createHash } from 'crypto';
+
+/**
+ * Serializar un valor a JSON canónico (claves ordenadas, sin undefined),
+ * de modo que el mismo contenido produzca siempre el mismo texto
+ */
+export const canonicalize = (value: unknown): string => {
+  if (value === undefined || value === null) {
+    return 'null';
+  }
+
+  if (value instanceof Date) {
+    return JSON.stringify(value.toISOString());
+  }
+
+  if (Array.isArray(value)) {
+    return `[${value.map(item => canonicalize(item)).join(',')}]`;
+  }
+
+  if (typeof value === 'object') {
+    const entries = Object.entries(value as Record<string, unknown>)
+      .filter(([, entryValue]) => entryValue !== undefined)
+      .sort(([a], [b]) => (a < b ? -1 : a > b ? 1 : 0))
+      .map(([key, entryValue]) => `${JSON.stringify(key)}:${canonicalize(entryValue)}`);
+    return `{${entries.join(',')}}`;
+  }
+
+  return JSON.stringify(value);
+};
+
+/**
+ * Hash SHA-256 (hex) del JSON canónico de un valor
+ */
+export const hashContent = (value: unknown): string => {
+  return createHash('sha256').update(canonicalize(value), 'utf8').digest('hex');
+};
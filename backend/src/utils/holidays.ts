@@ -0,0 +1,77 @@
+import { addDays, format } from 'date-fns';
+
+export interface HolidayDefinition {
+  date: string; // YYYY-MM-DD
+  name: string;
+}
+
+/**
+ * Domingo de Pascua (algoritmo de Meeus/Jones/Butcher, calendario gregoriano)
+ */
+export const easterSunday = (year: number): Date => {
+  const a = year % 19;
+  const b = Math.floor(year / 100);
+  const c = year % 100;
+  const d = Math.floor(b / 4);
+  const e = b % 4;
+  const f = Math.floor((b + 8) / 25);
+  const g = Math.floor((b - f + 1) / 3);
+  const h = (19 * a + b - d - g + 15) % 30;
+  const i = Math.floor(c / 4);
+  const k = c % 4;
+  const l = (32 + 2 * e + 2 * i - h - k) % 7;
+  const m = Math.floor((a + 11 * h + 22 * l) / 451);
+  const month = Math.floor((h + l - 7 * m + 114) / 31);
+  const day = ((h + l - 7 * m + 114) % 31) + 1;
+  return new Date(year, month - 1, day);
+};
+
+const fixed = (year: number, month: number, day: number, name: string): HolidayDefinition => ({
+  date: format(new Date(year, month - 1, day), 'yyyy-MM-dd'),
+  name
+});
+
+const relativeToEaster = (easter: Date, days: number, name: string): HolidayDefinition => ({
+  date: format(addDays(easter, days), 'yyyy-MM-dd'),
+  name
+});
+
+/**
+ * Feriados nacionales de Venezuela (Ley Orgánica del Trabajo y fiestas religiosas móviles)
+ */
+const venezuelanHolidays = (year: number): HolidayDefinition[] => {
+  const easter = easterSunday(year);
+
+  return [
+    fixed(year, 1, 1, 'Año Nuevo'),
+    relativeToEaster(easter, -48, 'Lunes de Carnaval'),
+    relativeToEaster(easter, -47, 'Martes de Carnaval'),
+    relativeToEaster(easter, -3, 'Jueves Santo'),
+    relativeToEaster(easter, -2, 'Viernes Santo'),
+    fixed(year, 4, 19, 'Declaración de la Independencia'),
+    fixed(year, 5, 1, 'Día del Trabajador'),
+    fixed(year, 6, 24, 'Batalla de Carabobo'),
+    fixed(year, 7, 5, 'Día de la Independencia'),
+    fixed(year, 7, 24, 'Natalicio del Libertador'),
+    fixed(year, 10, 12, 'Día de la Resistencia Indígena'),
+    fixed(year, 12, 24, 'Nochebuena'),
+    fixed(year, 12, 25, 'Navidad'),
+    fixed(year, 12, 31, 'Fin de Año')
+  ].sort((a, b) => a.date.localeCompare(b.date));
+};
+
+// Calendarios disponibles por país (ISO 3166-1 alfa-2)
+export const HOLIDAY_CALENDARS: Record<string, (year: number) => HolidayDefinition[]> = {
+  VE: venezuelanHolidays
+};
+
+/**
+ * Feriados de un año según el calendario del país
+ */
+export const holidaysFor = (countryCode: string, year: number): HolidayDefinition[] => {
+  const calendar = HOLIDAY_CALENDARS[countryCode.toUpperCase()];
+  if (!calendar) {
+    throw new Error(`No hay calendario de feriados para el país ${countryCode}`);
+  }
+  return calendar(year);
+};
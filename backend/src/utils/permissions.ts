@@ -0,0 +1,86 @@
+import { Permission, UserRole } from '@/types';
+
+/**
+ * Matriz de control de acceso: roles que tienen cada permiso. Los asistentes
+ * gestionan los datos demográficos y la agenda, pero nunca ven las notas
+ * clínicas; los administradores consultan la historia clínica sin editarla.
+ */
+export const PERMISSION_MATRIX: Record<Permission, UserRole[]> = {
+  'patients:read': ['psychiatrist', 'assistant', 'admin'],
+  'patients:write': ['psychiatrist', 'assistant', 'admin'],
+  'patients:delete': ['psychiatrist', 'admin'],
+  'care_team:manage': ['psychiatrist', 'admin'],
+  'emergency_access:request': ['psychiatrist'],
+  'emergency_access:review': ['admin'],
+  'appointments:read': ['psychiatrist', 'assistant', 'admin'],
+  'appointments:write': ['psychiatrist', 'assistant', 'admin'],
+  'schedules:read': ['psychiatrist', 'assistant', 'admin'],
+  'schedules:manage': ['psychiatrist', 'admin'],
+  'holidays:manage': ['admin'],
+  'clinical:read': ['psychiatrist', 'admin'],
+  'clinical:write': ['psychiatrist'],
+  'clinical:delete': ['psychiatrist', 'admin'],
+  'templates:read': ['psychiatrist', 'admin'],
+  'templates:write': ['psychiatrist'],
+  'dashboard:read': ['psychiatrist', 'assistant', 'admin'],
+  'audit:read': ['admin']
+};
+
+/**
+ * Campos de las respuestas que solo ven los roles con el permiso indicado;
+ * se quitan en cualquier nivel de anidamiento (p. ej. la sesión de una cita)
+ */
+export const RESTRICTED_FIELDS: Partial<Record<Permission, string[]>> = {
+  'clinical:read': [
+    'session',
+    'sessions',
+    'symptoms_presented',
+    'clinical_observations',
+    'mental_state_examination',
+    'treatment_notes',
+    'risk_assessment',
+    'gaf_score',
+    'diagnoses',
+    'treatment_plan',
+    'treatment_plans'
+  ]
+};
+
+export const hasPermission = (role: string | undefined, permission: Permission): boolean =>
+  !!role && (PERMISSION_MATRIX[permission] as string[]).includes(role);
+
+/**
+ * Campos que el rol no puede ver
+ */
+export const hiddenFieldsFor = (role: string | undefined): Set<string> =>
+  new Set(
+    (Object.entries(RESTRICTED_FIELDS) as [Permission, string[]][])
+      .filter(([permission]) => !hasPermission(role, permission))
+      .flatMap(([, fields]) => fields)
+  );
+
+const isPlainObject = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && Object.getPrototypeOf(value) === Object.prototype;
+
+/**
+ * Copia de los datos sin los campos ocultos (recorre objetos y arreglos)
+ */
+export const redactFields = <T>(data: T, hidden: Set<string>): T => {
+  if (hidden.size === 0) {
+    return data;
+  }
+
+  if (Array.isArray(data)) {
+    return data.map(item => redactFields(item, hidden)) as unknown as T;
+  }
+
+  if (!isPlainObject(data)) {
+    return data;
+  }
+
+  return Object.fromEntries(
+    Object.entries(data)
+      .filter(([key]) => !hidden.has(key))
+      .map(([key, value]) => [key, redactFields(value, hidden)])
+  ) as T;
+};
@@ -0,0 +1,8 @@
+/**
+ * Teléfono en formato E.164 (+ y dígitos), sin espacios, guiones ni paréntesis.
+ * Devuelve null si el número no incluye el código de país.
+ */
+export const toE164 = (phone: string): string | null => {
+  const digits = phone.replace(/[^\d+]/g, '');
+  return /^\+\d{8,15}$/.test(digits) ? digits : null;
+};
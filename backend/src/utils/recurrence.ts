@@ -0,0 +1,33 @@
+import { addMonths, addWeeks, format, isAfter, parseISO } from 'date-fns';
+import { RecurrenceRule } from '@/types';
+
+// Límite de citas por serie (un año de sesiones semanales)
+export const MAX_SERIES_OCCURRENCES = 52;
+
+const STEP: Record<RecurrenceRule['frequency'], (date: Date, index: number) => Date> = {
+  weekly: (date, index) => addWeeks(date, index),
+  biweekly: (date, index) => addWeeks(date, index * 2),
+  // Siempre desde la fecha inicial: el 31 pasa al último día de los meses cortos
+  monthly: (date, index) => addMonths(date, index)
+};
+
+/**
+ * Fechas (YYYY-MM-DD) de las citas de una serie, empezando por la inicial.
+ * Se detiene al alcanzar el número de citas o la fecha límite, lo que ocurra primero.
+ */
+export const expandRecurrence = (startDate: string, rule: RecurrenceRule): string[] => {
+  const start = parseISO(startDate.slice(0, 10));
+  const until = rule.until ? parseISO(rule.until.slice(0, 10)) : null;
+  const count = Math.min(rule.count ?? MAX_SERIES_OCCURRENCES, MAX_SERIES_OCCURRENCES);
+  const dates: string[] = [];
+
+  for (let index = 0; index < count; index++) {
+    const date = STEP[rule.frequency](start, index);
+    if (until && isAfter(date, until)) {
+      break;
+    }
+    dates.push(format(date, 'yyyy-MM-dd'));
+  }
+
+  return dates;
+};
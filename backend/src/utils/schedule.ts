@@ -0,0 +1,134 @@
+import { format, parseISO } from 'date-fns';
+import { Appointment, PsychiatristSchedule, ScheduleBreak, TimeOfDay, WorkingHours } from '@/types';
+
+export interface MinuteRange {
+  start: number; // minutos desde medianoche
+  end: number;
+}
+
+export const WEEKDAY_NAMES = ['domingo', 'lunes', 'martes', 'miércoles', 'jueves', 'viernes', 'sábado'];
+
+// Franjas del día para filtrar la búsqueda de turnos (inicio del turno)
+export const TIME_OF_DAY_RANGES: Record<TimeOfDay, MinuteRange> = {
+  morning: { start: 0, end: 12 * 60 },
+  afternoon: { start: 12 * 60, end: 18 * 60 },
+  evening: { start: 18 * 60, end: 24 * 60 }
+};
+
+/**
+ * Convertir HH:mm (o HH:mm:ss) a minutos desde medianoche
+ */
+export const timeToMinutes = (time: string): number => {
+  const [hours, minutes] = time.split(':').map(Number);
+  return hours * 60 + minutes;
+};
+
+/**
+ * Convertir minutos desde medianoche a HH:mm
+ */
+export const minutesToTime = (minutes: number): string => {
+  const hours = Math.floor(minutes / 60);
+  const mins = minutes % 60;
+  return `${hours.toString().padStart(2, '0')}:${mins.toString().padStart(2, '0')}`;
+};
+
+/**
+ * Inicio de una cita como fecha y hora local (la columna DATE llega como Date)
+ */
+export const appointmentStartsAt = (appointment: Pick<Appointment, 'appointment_date' | 'start_time'>): Date => {
+  const date = appointment.appointment_date as string | Date;
+  const day = typeof date === 'string' ? date.slice(0, 10) : format(date, 'yyyy-MM-dd');
+  return parseISO(`${day}T${appointment.start_time.slice(0, 5)}`);
+};
+
+const toRange = (item: { start_time: string; end_time: string }): MinuteRange => ({
+  start: timeToMinutes(item.start_time),
+  end: timeToMinutes(item.end_time)
+});
+
+export const rangesOverlap = (a: MinuteRange, b: MinuteRange): boolean =>
+  a.start < b.end && b.start < a.end;
+
+/**
+ * Franjas de atención de un día de la semana, ordenadas por hora de inicio
+ */
+export const workingRangesFor = (schedule: PsychiatristSchedule, weekday: number): MinuteRange[] =>
+  schedule.working_hours
+    .filter(hours => hours.weekday === weekday)
+    .map(toRange)
+    .sort((a, b) => a.start - b.start);
+
+/**
+ * Descansos que aplican a un día de la semana
+ */
+export const breaksFor = (schedule: PsychiatristSchedule, weekday: number): ScheduleBreak[] =>
+  schedule.breaks.filter(item => item.weekday === null || item.weekday === undefined || item.weekday === weekday);
+
+/**
+ * Indica si el intervalo cae completo dentro de una franja de atención del día
+ */
+export const fitsWorkingHours = (schedule: PsychiatristSchedule, weekday: number, range: MinuteRange): boolean =>
+  workingRangesFor(schedule, weekday).some(hours => range.start >= hours.start && range.end <= hours.end);
+
+/**
+ * Primer descanso del día que se superpone con el intervalo
+ */
+export const overlappingBreak = (
+  schedule: PsychiatristSchedule,
+  weekday: number,
+  range: MinuteRange
+): ScheduleBreak | undefined =>
+  breaksFor(schedule, weekday).find(item => rangesOverlap(toRange(item), range));
+
+/**
+ * Indica si el intervalo respeta la separación mínima respecto a una cita
+ * existente (la separación se aplica antes y después de la cita)
+ */
+export const conflictsWithBuffer = (range: MinuteRange, existing: MinuteRange, bufferMinutes: number): boolean =>
+  rangesOverlap(range, { start: existing.start - bufferMinutes, end: existing.end + bufferMinutes });
+
+/**
+ * Porción de un periodo (p. ej. vacaciones) que cae en el día indicado,
+ * en minutos desde la medianoche de ese día; null si no lo toca
+ */
+export const dayRangeOf = (
+  period: { starts_at: Date | string; ends_at: Date | string },
+  day: Date
+): MinuteRange | null => {
+  const midnight = new Date(day.getFullYear(), day.getMonth(), day.getDate()).getTime();
+  const start = Math.max(0, Math.floor((new Date(period.starts_at).getTime() - midnight) / 60000));
+  const end = Math.min(24 * 60, Math.ceil((new Date(period.ends_at).getTime() - midnight) / 60000));
+  return start < end ? { start, end } : null;
+};
+
+/**
+ * Validar la consistencia de un horario: franjas y descansos con fin
+ * posterior al inicio y sin franjas superpuestas en un mismo día.
+ * Devuelve la descripción del primer problema encontrado.
+ */
+export const findScheduleProblem = (
+  workingHours: WorkingHours[],
+  breaks: ScheduleBreak[]
+): string | null => {
+  for (const item of [...workingHours, ...breaks]) {
+    const range = toRange(item);
+    if (range.end <= range.start) {
+      return `La franja ${item.start_time}-${item.end_time} debe terminar después de comenzar`;
+    }
+  }
+
+  for (let weekday = 0; weekday < 7; weekday++) {
+    const ranges = workingHours
+      .filter(hours => hours.weekday === weekday)
+      .map(toRange)
+      .sort((a, b) => a.start - b.start);
+
+    for (let index = 1; index < ranges.length; index++) {
+      if (ranges[index].start < ranges[index - 1].end) {
+        return `Las franjas de atención del ${WEEKDAY_NAMES[weekday]} se superponen`;
+      }
+    }
+  }
+
+  return null;
+};
@@ -0,0 +1,79 @@
+export interface RegressionResult {
+  slope: number;
+  intercept: number;
+  rSquared: number;
+}
+
+export type TrendDirection = 'improving' | 'stable' | 'worsening';
+
+/**
+ * Promedio aritmético (0 para listas vacías)
+ */
+export const mean = (values: number[]): number => {
+  if (values.length === 0) {
+    return 0;
+  }
+  return values.reduce((sum, value) => sum + value, 0) / values.length;
+};
+
+/**
+ * Regresión lineal por mínimos cuadrados ordinarios
+ */
+export const linearRegression = (xs: number[], ys: number[]): RegressionResult => {
+  if (xs.length !== ys.length) {
+    throw new Error('Las series x e y deben tener la misma longitud');
+  }
+
+  const n = xs.length;
+  if (n < 2) {
+    return { slope: 0, intercept: n === 1 ? ys[0] : 0, rSquared: 0 };
+  }
+
+  const meanX = mean(xs);
+  const meanY = mean(ys);
+
+  let covariance = 0;
+  let varianceX = 0;
+  let varianceY = 0;
+  for (let i = 0; i < n; i++) {
+    covariance += (xs[i] - meanX) * (ys[i] - meanY);
+    varianceX += (xs[i] - meanX) ** 2;
+    varianceY += (ys[i] - meanY) ** 2;
+  }
+
+  if (varianceX === 0) {
+    return { slope: 0, intercept: meanY, rSquared: 0 };
+  }
+
+  const slope = covariance / varianceX;
+  const intercept = meanY - slope * meanX;
+  const rSquared = varianceY === 0 ? 0 : (covariance * covariance) / (varianceX * varianceY);
+
+  return { slope, intercept, rSquared };
+};
+
+/**
+ * Clasificar una tendencia de severidad (valores altos = peor).
+ *
+ * Se considera cambio real cuando la variación proyectada por la recta a lo
+ * largo de `span` supera `minChange` puntos; por debajo, o con menos de
+ * `minPoints` observaciones, la tendencia es estable.
+ */
+export const classifySeverityTrend = (
+  regression: RegressionResult,
+  span: number,
+  points: number,
+  minChange: number = 1,
+  minPoints: number = 3
+): TrendDirection => {
+  if (points < minPoints) {
+    return 'stable';
+  }
+
+  const projectedChange = regression.slope * span;
+  if (Math.abs(projectedChange) < minChange) {
+    return 'stable';
+  }
+
+  return projectedChange < 0 ? 'improving' : 'worsening';
+};
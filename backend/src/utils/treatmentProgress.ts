@@ -0,0 +1,223 @@
+import { Appointment, ConsultationSession, ProgressFactor, RiskAssessment, SymptomTrend, TreatmentProgress } from '@/types';
+import { classifySeverityTrend, linearRegression, mean, TrendDirection } from '@/utils/statistics';
+
+export interface ProgressSignals {
+  sessions: Pick<ConsultationSession, 'session_date' | 'risk_assessment' | 'gaf_score'>[];
+  symptomTrends: SymptomTrend[];
+  appointments: Pick<Appointment, 'appointment_date' | 'status'>[];
+}
+
+// Peso relativo de cada señal; las señales sin datos se excluyen y el resto se renormaliza
+const SIGNAL_WEIGHTS: Record<ProgressFactor['signal'], number> = {
+  risk: 0.3,
+  gaf: 0.3,
+  symptoms: 0.25,
+  attendance: 0.15
+};
+
+// Observaciones más recientes consideradas por señal de sesión
+const RECENT_SESSIONS = 6;
+
+// Cambio mínimo (en puntos de la escala de cada señal) para considerar una tendencia
+const MIN_RISK_CHANGE = 25;
+const MIN_GAF_CHANGE = 5;
+const MIN_ATTENDANCE_CHANGE = 20;
+
+// Dirección ponderada a partir de la cual la tendencia global deja de ser estable
+const MIN_OVERALL_DIRECTION = 0.2;
+
+const RISK_SCORES: Record<string, number> = { low: 100, medium: 50, high: 0 };
+const RISK_LABELS: Record<string, string> = { low: 'bajo', medium: 'moderado', high: 'alto' };
+
+const DIRECTION_VALUES: Record<TrendDirection, number> = { improving: 1, stable: 0, worsening: -1 };
+
+const PROGRESS_LABELS: Record<TrendDirection, string> = {
+  improving: 'Mostrando mejoría',
+  stable: 'Estado estable',
+  worsening: 'Requiere ajuste'
+};
+
+const SEVERITY_MAX = 10;
+const SEVERITY_MIN = 1;
+
+/**
+ * Tendencia de una serie donde valores altos son mejores
+ */
+const seriesDirection = (values: number[], minChange: number): TrendDirection => {
+  const xs = values.map((_, index) => index);
+  const regression = linearRegression(xs, values);
+  // classifySeverityTrend asume que valores altos son peores
+  return classifySeverityTrend({ ...regression, slope: -regression.slope }, xs.length - 1, values.length, minChange, 2);
+};
+
+/**
+ * Nivel de riesgo más alto de una evaluación
+ */
+const highestRisk = (risk?: RiskAssessment): 'low' | 'medium' | 'high' | null => {
+  if (!risk) {
+    return null;
+  }
+  const levels = [risk.suicide_risk, risk.self_care_risk, risk.violence_risk];
+  if (levels.includes('high')) return 'high';
+  if (levels.includes('medium')) return 'medium';
+  if (levels.includes('low')) return 'low';
+  return null;
+};
+
+const byDate = <T>(getDate: (item: T) => Date | string) => (a: T, b: T) =>
+  new Date(getDate(a)).getTime() - new Date(getDate(b)).getTime();
+
+const riskFactor = (sessions: ProgressSignals['sessions']): Omit<ProgressFactor, 'weight'> | null => {
+  const levels = [...sessions]
+    .sort(byDate(session => session.session_date))
+    .map(session => highestRisk(session.risk_assessment))
+    .filter((level): level is 'low' | 'medium' | 'high' => level !== null)
+    .slice(-RECENT_SESSIONS);
+
+  if (levels.length === 0) {
+    return null;
+  }
+
+  const current = levels[levels.length - 1];
+  return {
+    signal: 'risk',
+    score: RISK_SCORES[current],
+    trend: seriesDirection(levels.map(level => RISK_SCORES[level]), MIN_RISK_CHANGE),
+    detail: `Riesgo actual ${RISK_LABELS[current]} (${levels.length} evaluaciones recientes)`
+  };
+};
+
+const gafFactor = (sessions: ProgressSignals['sessions']): Omit<ProgressFactor, 'weight'> | null => {
+  const scores = [...sessions]
+    .sort(byDate(session => session.session_date))
+    .map(session => session.gaf_score)
+    .filter((score): score is number => typeof score === 'number')
+    .slice(-RECENT_SESSIONS);
+
+  if (scores.length === 0) {
+    return null;
+  }
+
+  const current = scores[scores.length - 1];
+  return {
+    signal: 'gaf',
+    score: current,
+    trend: seriesDirection(scores, MIN_GAF_CHANGE),
+    detail: scores.length > 1
+      ? `GAF actual ${current} (primera evaluación reciente: ${scores[0]})`
+      : `GAF actual ${current}`
+  };
+};
+
+const symptomFactor = (trends: SymptomTrend[]): Omit<ProgressFactor, 'weight'> | null => {
+  const tracked = trends.filter(trend => trend.severities.length > 0);
+  if (tracked.length === 0) {
+    return null;
+  }
+
+  // Severidad más reciente de cada síntoma llevada a 0-100 (mayor es mejor)
+  const latest = tracked.map(trend => trend.severities[trend.severities.length - 1]);
+  const score = mean(latest.map(severity => ((SEVERITY_MAX - severity) / (SEVERITY_MAX - SEVERITY_MIN)) * 100));
+
+  const improving = tracked.filter(trend => trend.trend === 'improving').length;
+  const worsening = tracked.filter(trend => trend.trend === 'worsening').length;
+
+  let trend: TrendDirection = 'stable';
+  if (improving > worsening) {
+    trend = 'improving';
+  } else if (worsening > improving) {
+    trend = 'worsening';
+  }
+
+  return {
+    signal: 'symptoms',
+    score,
+    trend,
+    detail: `${tracked.length} síntomas en seguimiento: ${improving} mejorando, ${worsening} empeorando`
+  };
+};
+
+const attendanceFactor = (appointments: ProgressSignals['appointments']): Omit<ProgressFactor, 'weight'> | null => {
+  // Solo citas con resultado de asistencia; las cancelaciones no cuentan como inasistencia
+  const attended = [...appointments]
+    .filter(appointment => appointment.status === 'completed' || appointment.status === 'no_show')
+    .sort(byDate(appointment => appointment.appointment_date))
+    .map(appointment => (appointment.status === 'completed' ? 100 : 0));
+
+  if (attended.length === 0) {
+    return null;
+  }
+
+  const score = mean(attended);
+  const completed = attended.filter(value => value === 100).length;
+
+  // Comparar la tasa de la mitad más reciente con la anterior
+  let trend: TrendDirection = 'stable';
+  if (attended.length >= 4) {
+    const half = Math.floor(attended.length / 2);
+    const change = mean(attended.slice(half)) - mean(attended.slice(0, half));
+    if (Math.abs(change) >= MIN_ATTENDANCE_CHANGE) {
+      trend = change > 0 ? 'improving' : 'worsening';
+    }
+  }
+
+  return {
+    signal: 'attendance',
+    score,
+    trend,
+    detail: `Asistencia a ${completed} de ${attended.length} citas (${Math.round(score)}%)`
+  };
+};
+
+/**
+ * Puntaje de progreso del tratamiento (0-100, mayor es mejor) a partir de
+ * señales estructuradas: nivel de riesgo, GAF, severidad de síntomas y
+ * asistencia. Cada señal aporta su puntaje y su tendencia según su peso.
+ */
+export const scoreTreatmentProgress = (signals: ProgressSignals): TreatmentProgress => {
+  const available = [
+    riskFactor(signals.sessions),
+    gafFactor(signals.sessions),
+    symptomFactor(signals.symptomTrends),
+    attendanceFactor(signals.appointments)
+  ].filter((factor): factor is Omit<ProgressFactor, 'weight'> => factor !== null);
+
+  if (available.length === 0) {
+    return {
+      score: null,
+      trend: 'stable',
+      label: 'Sin datos suficientes',
+      factors: []
+    };
+  }
+
+  const totalWeight = available.reduce((sum, factor) => sum + SIGNAL_WEIGHTS[factor.signal], 0);
+  const factors: ProgressFactor[] = available.map(factor => ({
+    ...factor,
+    score: Math.round(factor.score),
+    weight: Math.round((SIGNAL_WEIGHTS[factor.signal] / totalWeight) * 100) / 100
+  }));
+
+  const score = available.reduce(
+    (sum, factor) => sum + factor.score * (SIGNAL_WEIGHTS[factor.signal] / totalWeight),
+    0
+  );
+  const direction = available.reduce(
+    (sum, factor) => sum + DIRECTION_VALUES[factor.trend] * (SIGNAL_WEIGHTS[factor.signal] / totalWeight),
+    0
+  );
+
+  let trend: TrendDirection = 'stable';
+  if (direction >= MIN_OVERALL_DIRECTION) {
+    trend = 'improving';
+  } else if (direction <= -MIN_OVERALL_DIRECTION) {
+    trend = 'worsening';
+  }
+
+  return {
+    score: Math.round(score),
+    trend,
+    label: PROGRESS_LABELS[trend],
+    factors
+  };
+};
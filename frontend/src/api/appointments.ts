@@ -68,14 +68,15 @@ export const appointmentService = {
     return response.data;
   },
 
-  // Cambiar estado de cita
+  // Cambiar estado de cita (la cancelación y la inasistencia requieren motivo)
   async updateAppointmentStatus(
     id: string, 
-    status: 'scheduled' | 'confirmed' | 'in_progress' | 'completed' | 'cancelled' | 'no_show'
+    status: 'scheduled' | 'confirmed' | 'in_progress' | 'completed' | 'cancelled' | 'no_show',
+    reason?: string
   ): Promise<Appointment> {
     const response = await apiClient.put<{ success: boolean; data: Appointment }>(
       `/appointments/${id}/status`,
-      { status }
+      { status, reason }
     );
     return response.data;
   },
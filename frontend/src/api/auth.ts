@@ -22,7 +22,7 @@ export const authService = {
 
   // Cerrar sesión
   async logout(): Promise<void> {
-    await apiClient.post('/auth/logout');
+    await apiClient.post('/auth/logout', { refreshToken: localStorage.getItem('refreshToken') || undefined });
     apiClient.clearAuthToken();
   },
 
@@ -146,6 +146,10 @@ class ApiClient {
       
       if (response.success && response.data.accessToken) {
         this.setAuthToken(response.data.accessToken);
+        // El refresh token se rota en cada renovación: el anterior ya no vale
+        if (response.data.refreshToken) {
+          localStorage.setItem('refreshToken', response.data.refreshToken);
+        }
         return true;
       }
       
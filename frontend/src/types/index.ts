@@ -103,6 +103,7 @@ export interface AppointmentCreateRequest {
   duration_minutes: number;
   type: 'consultation' | 'follow_up' | 'emergency' | 'evaluation' | 'therapy' | 'medication_review';
   notes?: string;
+  psychiatrist_id?: string; // por defecto, el psiquiatra que reserva
 }
 
 export interface AppointmentUpdateRequest extends Partial<AppointmentCreateRequest> {